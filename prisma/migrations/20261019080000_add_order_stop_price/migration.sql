@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "stopPrice" TEXT,
+ADD COLUMN "triggeredAt" TIMESTAMP(3);
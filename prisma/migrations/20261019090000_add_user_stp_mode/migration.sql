@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "stpMode" TEXT NOT NULL DEFAULT 'NONE';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "stpMode" TEXT NOT NULL DEFAULT 'NONE';
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "payFeesWithPlatformToken" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TradingPair" ADD COLUMN "makerFeeRate" TEXT,
+ADD COLUMN "takerFeeRate" TEXT;
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN "quoteQuantity" TEXT,
+ADD COLUMN "makerFee" TEXT,
+ADD COLUMN "makerFeeAsset" TEXT,
+ADD COLUMN "takerFee" TEXT,
+ADD COLUMN "takerFeeAsset" TEXT;
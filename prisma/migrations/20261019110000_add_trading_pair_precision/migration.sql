@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TradingPair" ADD COLUMN "tickSize" TEXT,
+ADD COLUMN "stepSize" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "TradingPair" ADD COLUMN "minQuantity" TEXT,
+ADD COLUMN "maxQuantity" TEXT,
+ADD COLUMN "minNotional" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "positionMode" TEXT NOT NULL DEFAULT 'ONE_WAY';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "positionSide" TEXT,
+ADD COLUMN "reduceOnly" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "callbackRate" TEXT,
+ADD COLUMN "activationPrice" TEXT,
+ADD COLUMN "trailingPrice" TEXT;
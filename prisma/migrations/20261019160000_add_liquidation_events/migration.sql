@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "LiquidationEvent" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "liquidationId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "size" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "price" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "liquidationFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "marginType" TEXT NOT NULL,
+    "orderId" TEXT,
+    "insuranceFundChange" DOUBLE PRECISION,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LiquidationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LiquidationEvent_liquidationId_idx" ON "LiquidationEvent"("liquidationId");
+
+-- CreateIndex
+CREATE INDEX "LiquidationEvent_userId_symbol_idx" ON "LiquidationEvent"("userId", "symbol");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "LiquidationEvent" ADD COLUMN "stage" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN "logIndex" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletTransaction_deposit_txHash_logIndex_key" ON "WalletTransaction"("txHash", "logIndex") WHERE "type" = 'DEPOSIT';
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ChainBlock" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "chainId" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "parentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChainBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainBlock_chainId_blockNumber_key" ON "ChainBlock"("chainId", "blockNumber");
+
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN "blockNumber" INTEGER,
+ADD COLUMN "blockHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_chain_blockNumber_idx" ON "WalletTransaction"("chain", "blockNumber");
+
+-- DropIndex
+DROP INDEX "WalletTransaction_deposit_txHash_logIndex_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletTransaction_deposit_txHash_logIndex_key" ON "WalletTransaction"("txHash", "logIndex") WHERE "type" = 'DEPOSIT' AND "status" <> 'REVERSED';
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WalletAddress" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "userId" TEXT NOT NULL,
+    "chainId" TEXT NOT NULL,
+    "derivationIndex" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletAddress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletAddress_userId_chainId_key" ON "WalletAddress"("userId", "chainId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletAddress_chainId_derivationIndex_key" ON "WalletAddress"("chainId", "derivationIndex");
+
+-- CreateIndex
+CREATE INDEX "WalletAddress_address_idx" ON "WalletAddress"("address");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "passwordChangedAt" TIMESTAMP(3),
+ADD COLUMN "twoFactorChangedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN "riskScore" INTEGER,
+ADD COLUMN "riskFactors" JSONB;
+
+-- CreateTable
+CREATE TABLE "WithdrawalApproval" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "withdrawalId" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WithdrawalApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WithdrawalApproval_withdrawalId_adminId_key" ON "WithdrawalApproval"("withdrawalId", "adminId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN "rawTx" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CurrencyConfig" ADD COLUMN "confirmations" INTEGER NOT NULL DEFAULT 12;
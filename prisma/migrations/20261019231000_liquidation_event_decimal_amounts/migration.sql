@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "LiquidationEvent" ALTER COLUMN "size" SET DATA TYPE DECIMAL(36,18),
+ALTER COLUMN "price" SET DATA TYPE DECIMAL(36,18),
+ALTER COLUMN "liquidationFee" SET DATA TYPE DECIMAL(36,18),
+ALTER COLUMN "insuranceFundChange" SET DATA TYPE DECIMAL(36,18);
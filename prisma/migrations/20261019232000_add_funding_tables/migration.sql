@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "PerpetualPair" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "symbol" TEXT NOT NULL,
+    "baseAsset" TEXT NOT NULL,
+    "quoteAsset" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PerpetualPair_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FundingRate" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "symbol" TEXT NOT NULL,
+    "rate" DECIMAL(36,18) NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FundingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FundingPayment" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "amount" DECIMAL(36,18) NOT NULL,
+    "rate" DECIMAL(36,18) NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FundingPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PerpetualPair_symbol_key" ON "PerpetualPair"("symbol");
+
+-- CreateIndex
+CREATE INDEX "FundingRate_symbol_timestamp_idx" ON "FundingRate"("symbol", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "FundingPayment_userId_symbol_timestamp_idx" ON "FundingPayment"("userId", "symbol", "timestamp");
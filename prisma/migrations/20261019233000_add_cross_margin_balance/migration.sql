@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Position" ADD COLUMN "marginType" TEXT NOT NULL DEFAULT 'ISOLATED';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN "marginType" TEXT NOT NULL DEFAULT 'ISOLATED';
+
+-- CreateTable
+CREATE TABLE "UserBalance" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "userId" TEXT NOT NULL,
+    "balance" DECIMAL(36,18) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Position_symbol_marginType_idx" ON "Position"("symbol", "marginType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserBalance_userId_key" ON "UserBalance"("userId");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "InsuranceFund" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "symbol" TEXT NOT NULL,
+    "balance" DECIMAL(36,18) NOT NULL DEFAULT 0,
+    "totalInjection" DECIMAL(36,18) NOT NULL DEFAULT 0,
+    "totalPayouts" DECIMAL(36,18) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InsuranceFund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LiquidationOrder" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "positionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "positionSide" TEXT NOT NULL,
+    "amount" DECIMAL(36,18) NOT NULL,
+    "price" DECIMAL(36,18) NOT NULL,
+    "liquidationFee" DECIMAL(36,18) NOT NULL DEFAULT 0,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LiquidationOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InsuranceFund_symbol_key" ON "InsuranceFund"("symbol");
+
+-- CreateIndex
+CREATE INDEX "LiquidationOrder_userId_symbol_idx" ON "LiquidationOrder"("userId", "symbol");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ChainConfig" ADD COLUMN "nativeCurrency" TEXT NOT NULL DEFAULT 'ETH',
+ADD COLUMN "nativeDecimals" INTEGER NOT NULL DEFAULT 18,
+ADD COLUMN "contracts" JSONB;
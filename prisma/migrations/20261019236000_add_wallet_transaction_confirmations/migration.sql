@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WalletTransaction" ADD COLUMN "confirmations" INTEGER NOT NULL DEFAULT 0;
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import configuration from './config/configuration';
 import { RedisCacheModule } from './modules/redis/redis.module';
 import { MarketModule } from './modules/market/market.module';
 import { PerpetualModule } from './modules/perpetual/perpetual.module';
@@ -13,6 +14,7 @@ import { PrismaModule } from './modules/prisma/prisma.module';
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
+      load: [configuration],
     }),
     PrismaModule,
     RedisCacheModule,
@@ -1,14 +1,52 @@
-export default () => ({
-  port: parseInt(process.env.PORT, 10) || 3000,
-  database: {
-    host: process.env.DB_HOST || 'localhost',
-    port: parseInt(process.env.DB_PORT, 10) || 5432,
-    username: process.env.DB_USERNAME || 'postgres',
-    password: process.env.DB_PASSWORD || 'postgres',
-    database: process.env.DB_DATABASE || 'crypto_exchange',
-  },
-  jwt: {
-    secret: process.env.JWT_SECRET || 'your-secret-key',
-    expiresIn: '24h',
-  },
-}); 
\ No newline at end of file
+// 环境变量中的 JSON 数组配置，解析失败时在启动阶段指明是哪个变量
+const parseJsonArrayEnv = (name: string): any[] => {
+  const value = process.env[name];
+  if (!value) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`${name} is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON array, see .env.example`);
+  }
+  return parsed;
+};
+
+export default () => {
+  const perpetualConfigs = parseJsonArrayEnv('PERPETUAL_CONFIGS');
+  if (perpetualConfigs.some(config => typeof config?.symbol !== 'string')) {
+    throw new Error('Every PERPETUAL_CONFIGS entry must have a symbol');
+  }
+
+  return {
+    port: parseInt(process.env.PORT, 10) || 3000,
+    database: {
+      host: process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.DB_PORT, 10) || 5432,
+      username: process.env.DB_USERNAME || 'postgres',
+      password: process.env.DB_PASSWORD || 'postgres',
+      database: process.env.DB_DATABASE || 'crypto_exchange',
+    },
+    jwt: {
+      secret: process.env.JWT_SECRET || 'your-secret-key',
+      expiresIn: '24h',
+    },
+    perpetual: {
+      // 按交易对的合约配置（PerpetualConfig 数组），例如资金费率结算周期和上下限
+      configs: perpetualConfigs,
+      // 撮合引擎为这些交易对建立订单簿
+      symbols: perpetualConfigs.map(config => config.symbol),
+    },
+    wallet: {
+      // 热钱包地址由该系统账户在各链上的派生地址充当
+      hotWalletUserId: process.env.HOT_WALLET_USER_ID || 'hot-wallet',
+      // 按链的归集和冷热钱包配置（TreasuryConfig 数组）
+      treasuries: parseJsonArrayEnv('WALLET_TREASURY_CONFIGS'),
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import { Transform } from 'class-transformer';
+import { registerDecorator, ValidationArguments, ValidationOptions } from 'class-validator';
+import { FixedDecimal } from '../shared/utils/fixed-decimal';
+
+interface IsDecimalAmountOptions {
+  // 是否要求大于0，默认只要求不为负
+  positive?: boolean;
+}
+
+/**
+ * 价格、数量类字段：接受数字或数字字符串，统一转换为规范化的十进制字符串，
+ * 之后在服务层通过 FixedDecimal.from() 参与计算，避免经过 number 产生精度误差。
+ */
+export function IsDecimalAmount(
+  options: IsDecimalAmountOptions = {},
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return (target: object, propertyName: string) => {
+    Transform(({ value }) => (FixedDecimal.isValid(value) ? FixedDecimal.from(value).toString() : value))(
+      target,
+      propertyName,
+    );
+
+    registerDecorator({
+      name: 'isDecimalAmount',
+      target: target.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          if (!FixedDecimal.isValid(value)) {
+            return false;
+          }
+          const decimal = FixedDecimal.from(value as string);
+          return options.positive ? decimal.isPositive() : !decimal.isNegative();
+        },
+        defaultMessage(args: ValidationArguments) {
+          return options.positive
+            ? `${args.property} must be a positive decimal number`
+            : `${args.property} must be a non-negative decimal number`;
+        },
+      },
+    });
+  };
+}
@@ -37,7 +37,7 @@ export class TwoFactorService {
     if (isValid) {
       await this.prisma.user.update({
         where: { id: userId.toString() },
-        data: { twoFactorEnabled: true },
+        data: { twoFactorEnabled: true, twoFactorChangedAt: new Date() },
       });
       return true;
     }
@@ -52,6 +52,7 @@ export class TwoFactorService {
         data: {
           twoFactorEnabled: false,
           twoFactorSecret: null,
+          twoFactorChangedAt: new Date(),
         },
       });
       return true;
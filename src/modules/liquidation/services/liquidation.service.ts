@@ -11,7 +11,7 @@ import {
   InsuranceFundOperation,
   LiquidationStats,
 } from '../types/liquidation.types';
-import { Position, PositionSide } from '../../perpetual/types/perpetual.types';
+import { Position, PositionSide, MarginType } from '../../perpetual/types/perpetual.types';
 
 @Injectable()
 export class LiquidationService {
@@ -67,6 +67,12 @@ export class LiquidationService {
 
   async checkPositionLiquidation(position: Position): Promise<boolean> {
     try {
+      // 全仓持仓由永续合约清算服务按账户整体计算，不单独清算
+      if (position.marginType === MarginType.CROSS) {
+        this.eventEmitter.emit('cross.margin.check', { userId: position.userId });
+        return false;
+      }
+
       const maintenanceMarginRatio = this.getMaintenanceMarginRatio(position.symbol);
       const currentPrice = await this.getCurrentPrice(position.symbol);
 
@@ -1,15 +1,37 @@
 import { PositionSide, MarginType } from '../../perpetual/types/perpetual.types';
 
+// 强平流程中的各个步骤
+export enum LiquidationEventType {
+  ORDERS_CANCELED = 'ORDERS_CANCELED',
+  TAKEOVER = 'TAKEOVER',
+  CLOSE_ORDER_FILLED = 'CLOSE_ORDER_FILLED',
+  INSURANCE_FUND_DEPOSIT = 'INSURANCE_FUND_DEPOSIT',
+  INSURANCE_FUND_PAYOUT = 'INSURANCE_FUND_PAYOUT',
+  ADL_HANDOFF = 'ADL_HANDOFF',
+  // 高风险档位的持仓先部分减仓到低一档
+  PARTIAL_LIQUIDATION = 'PARTIAL_LIQUIDATION',
+  COMPLETED = 'COMPLETED',
+}
+
 export interface LiquidationEvent {
   userId: string;
   positionId: string;
   symbol: string;
   side: PositionSide;
-  size: number;
-  price: number;
-  liquidationFee: number;
+  // 数量、价格和金额以十进制字符串记录，写入 DECIMAL 列不丢失精度
+  size: string;
+  price: string;
+  liquidationFee: string;
   marginType: MarginType;
   timestamp: Date;
+  // 以下字段记录强平流程中的步骤，同一次强平的事件共用 liquidationId
+  type?: LiquidationEventType;
+  liquidationId?: string;
+  orderId?: string;
+  // 保险基金变动：正数为注入，负数为赔付
+  insuranceFundChange?: string;
+  // 分阶段强平的阶段序号，从 1 开始
+  stage?: number;
 }
 
 export interface ADLEvent {
@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SymbolRulesDto {
+  @ApiProperty({ description: 'Trading pair symbol', example: 'BTC-USDT' })
+  symbol: string;
+
+  @ApiProperty({ description: 'Base asset', example: 'BTC' })
+  baseAsset: string;
+
+  @ApiProperty({ description: 'Quote asset', example: 'USDT' })
+  quoteAsset: string;
+
+  @ApiProperty({ description: 'Trading status (TRADING, HALT)' })
+  status: string;
+
+  @ApiProperty({ description: 'Minimum price increment', required: false, example: '0.01' })
+  tickSize?: string;
+
+  @ApiProperty({ description: 'Quantity step (lot size)', required: false, example: '0.0001' })
+  stepSize?: string;
+
+  @ApiProperty({ description: 'Minimum order quantity', required: false })
+  minQuantity?: string;
+
+  @ApiProperty({ description: 'Maximum order quantity', required: false })
+  maxQuantity?: string;
+
+  @ApiProperty({ description: 'Minimum order value in the quote asset', required: false })
+  minNotional?: string;
+}
+
+export class ExchangeInfoDto {
+  @ApiProperty({ description: 'Server time in milliseconds' })
+  serverTime: number;
+
+  @ApiProperty({ type: [SymbolRulesDto] })
+  symbols: SymbolRulesDto[];
+}
@@ -1,12 +1,22 @@
 import { Controller, Get, Param, Query } from '@nestjs/common';
 import { MarketService } from './market.service';
+import { TradingRulesService } from './services/trading-rules.service';
 import { MarketDataDto } from './dto/market-data.dto';
 import { OrderBookDto } from './dto/order-book.dto';
 import { TradeHistoryDto } from './dto/trade-history.dto';
+import { ExchangeInfoDto } from './dto/exchange-info.dto';
 
 @Controller('market')
 export class MarketController {
-  constructor(private readonly marketService: MarketService) {}
+  constructor(
+    private readonly marketService: MarketService,
+    private readonly tradingRulesService: TradingRulesService,
+  ) {}
+
+  @Get('exchange-info')
+  async getExchangeInfo(): Promise<ExchangeInfoDto> {
+    return this.tradingRulesService.getExchangeInfo();
+  }
 
   @Get(':symbol/market-data')
   async getMarketData(@Param('symbol') symbol: string): Promise<MarketDataDto> {
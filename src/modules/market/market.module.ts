@@ -1,13 +1,14 @@
 import { Module } from '@nestjs/common';
 import { MarketController } from './market.controller';
 import { MarketService } from './market.service';
+import { TradingRulesService } from './services/trading-rules.service';
 import { RedisCacheModule } from '../redis/redis.module';
 import { PrismaModule } from '../prisma/prisma.module';
 
 @Module({
   imports: [RedisCacheModule, PrismaModule],
   controllers: [MarketController],
-  providers: [MarketService],
-  exports: [MarketService],
+  providers: [MarketService, TradingRulesService],
+  exports: [MarketService, TradingRulesService],
 })
 export class MarketModule {}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { TradingPair } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { TradingRules } from '../types/market.types';
+import { ExchangeInfoDto, SymbolRulesDto } from '../dto/exchange-info.dto';
+
+interface CachedRules {
+  rules: TradingRules;
+  expiresAt: number;
+}
+
+/**
+ * 交易对交易规则（价格步长、数量步长、数量上下限、最小成交额），来源于 tradingPair 表。
+ */
+@Injectable()
+export class TradingRulesService {
+  private readonly RULES_CACHE_TTL = 60 * 1000; // 1 minute
+  private readonly rulesCache = new Map<string, CachedRules>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getTradingRules(symbol: string): Promise<TradingRules> {
+    const cached = this.rulesCache.get(symbol);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
+    const tradingPair = await this.prisma.tradingPair.findUnique({
+      where: { symbol },
+    });
+    if (!tradingPair) {
+      throw new Error('Trading pair not found');
+    }
+
+    const rules = this.toTradingRules(tradingPair);
+    this.rulesCache.set(symbol, { rules, expiresAt: Date.now() + this.RULES_CACHE_TTL });
+    return rules;
+  }
+
+  async getExchangeInfo(): Promise<ExchangeInfoDto> {
+    const tradingPairs = await this.prisma.tradingPair.findMany({
+      orderBy: { symbol: 'asc' },
+    });
+
+    return {
+      serverTime: Date.now(),
+      symbols: tradingPairs.map(pair => this.toSymbolRulesDto(this.toTradingRules(pair))),
+    };
+  }
+
+  private toTradingRules(tradingPair: TradingPair): TradingRules {
+    const optional = (value: string | null) =>
+      value === null || value === undefined || value === '' ? null : FixedDecimal.from(value);
+
+    return {
+      symbol: tradingPair.symbol,
+      baseAsset: tradingPair.baseAsset,
+      quoteAsset: tradingPair.quoteAsset,
+      isActive: tradingPair.isActive,
+      tickSize: optional(tradingPair.tickSize),
+      stepSize: optional(tradingPair.stepSize),
+      minQuantity: optional(tradingPair.minQuantity),
+      maxQuantity: optional(tradingPair.maxQuantity),
+      minNotional: optional(tradingPair.minNotional),
+    };
+  }
+
+  private toSymbolRulesDto(rules: TradingRules): SymbolRulesDto {
+    return {
+      symbol: rules.symbol,
+      baseAsset: rules.baseAsset,
+      quoteAsset: rules.quoteAsset,
+      status: rules.isActive ? 'TRADING' : 'HALT',
+      tickSize: rules.tickSize?.toString(),
+      stepSize: rules.stepSize?.toString(),
+      minQuantity: rules.minQuantity?.toString(),
+      maxQuantity: rules.maxQuantity?.toString(),
+      minNotional: rules.minNotional?.toString(),
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
 export interface MarketData {
   symbol: string;
   price: string;
@@ -52,3 +54,16 @@ export interface TickerData {
   lastId: number;
   count: number;
 }
+
+export interface TradingRules {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  isActive: boolean;
+  // 以下规则未配置时为 null，表示不限制
+  tickSize: FixedDecimal | null;
+  stepSize: FixedDecimal | null;
+  minQuantity: FixedDecimal | null;
+  maxQuantity: FixedDecimal | null;
+  minNotional: FixedDecimal | null;
+}
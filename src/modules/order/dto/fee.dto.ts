@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNumber, IsOptional, IsString } from 'class-validator';
+
+export class FeeTierQueryDto {
+  @ApiProperty({ description: 'Trading pair symbol for effective rates', required: false, example: 'BTC-USDT' })
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+}
+
+export class FeeTierResponseDto {
+  @ApiProperty({ description: 'Current VIP fee tier level' })
+  @IsNumber()
+  level: number;
+
+  @ApiProperty({ description: 'Rolling 30-day trading volume in quote currency' })
+  @IsNumber()
+  thirtyDayVolume: number;
+
+  @ApiProperty({ description: 'Maker fee multiplier applied to pair rates' })
+  @IsNumber()
+  makerRateMultiplier: number;
+
+  @ApiProperty({ description: 'Taker fee multiplier applied to pair rates' })
+  @IsNumber()
+  takerRateMultiplier: number;
+
+  @ApiProperty({ description: 'Volume required for the next tier', required: false })
+  @IsOptional()
+  @IsNumber()
+  nextTierVolume?: number;
+
+  @ApiProperty({ description: 'Effective maker rate for the requested symbol', required: false })
+  @IsOptional()
+  @IsString()
+  makerRate?: string;
+
+  @ApiProperty({ description: 'Effective taker rate for the requested symbol', required: false })
+  @IsOptional()
+  @IsString()
+  takerRate?: string;
+}
+
+export class FeePaymentSettingDto {
+  @ApiProperty({ description: 'Pay trading fees in the platform token at a discount' })
+  @IsBoolean()
+  payFeesWithPlatformToken: boolean;
+}
@@ -1,6 +1,20 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNumber, IsEnum, IsOptional, Min, IsUUID, IsBoolean } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsEnum,
+  IsOptional,
+  Min,
+  IsUUID,
+  IsBoolean,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import { IsDecimalAmount } from '../../../decorators/decimal.decorator';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
 
 export enum OrderType {
   LIMIT = 'LIMIT',
@@ -27,6 +41,29 @@ export enum TimeInForce {
   GTC = 'GTC', // Good Till Cancel
   IOC = 'IOC', // Immediate or Cancel
   FOK = 'FOK', // Fill or Kill
+  GTX = 'GTX', // Good Till Crossing (Post Only)
+}
+
+export enum SelfTradePreventionMode {
+  NONE = 'NONE',
+  CANCEL_NEWEST = 'CANCEL_NEWEST', // 撤销taker订单
+  CANCEL_OLDEST = 'CANCEL_OLDEST', // 撤销maker订单
+  CANCEL_BOTH = 'CANCEL_BOTH', // 同时撤销双方订单
+  DECREMENT_AND_CANCEL = 'DECREMENT_AND_CANCEL', // 双方同时减少重叠数量，数量归零的订单被撤销
+}
+
+export enum OrderRejectReason {
+  POST_ONLY_WOULD_TAKE = 'POST_ONLY_WOULD_TAKE',
+}
+
+// 下单参数不满足交易对交易规则时返回的错误码
+export enum OrderErrorCode {
+  SYMBOL_NOT_TRADING = 'SYMBOL_NOT_TRADING',
+  INVALID_TICK_SIZE = 'INVALID_TICK_SIZE',
+  INVALID_STEP_SIZE = 'INVALID_STEP_SIZE',
+  QUANTITY_TOO_LOW = 'QUANTITY_TOO_LOW',
+  QUANTITY_TOO_HIGH = 'QUANTITY_TOO_HIGH',
+  NOTIONAL_TOO_LOW = 'NOTIONAL_TOO_LOW',
 }
 
 export class CreateOrderDto {
@@ -43,30 +80,42 @@ export class CreateOrderDto {
   side: OrderSide;
 
   @ApiProperty({ description: 'Order quantity', example: '1.5' })
-  @IsNumber()
-  @Min(0)
-  @Type(() => Number)
-  quantity: number;
+  @IsDecimalAmount({ positive: true })
+  quantity: string;
 
-  @ApiProperty({ description: 'Order price (required for LIMIT orders)', required: false })
+  @ApiProperty({ description: 'Order price (required for LIMIT orders)', example: '42000.5', required: false })
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  @Type(() => Number)
-  price?: number;
+  @IsDecimalAmount({ positive: true })
+  price?: string;
 
   @ApiProperty({ description: 'Stop price (required for STOP orders)', required: false })
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  @Type(() => Number)
-  stopPrice?: number;
+  @IsDecimalAmount({ positive: true })
+  stopPrice?: string;
 
   @ApiProperty({ enum: TimeInForce, description: 'Time in force', required: false })
   @IsOptional()
   @IsEnum(TimeInForce)
   timeInForce?: TimeInForce = TimeInForce.GTC;
 
+  @ApiProperty({
+    description: 'Post-only: reject the order instead of taking liquidity (same as timeInForce GTX)',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  postOnly?: boolean;
+
+  @ApiProperty({
+    enum: SelfTradePreventionMode,
+    description: 'Self-trade prevention mode (defaults to the account setting)',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SelfTradePreventionMode)
+  stpMode?: SelfTradePreventionMode;
+
   @ApiProperty({ description: 'Client order ID', required: false })
   @IsOptional()
   @IsString()
@@ -98,26 +147,26 @@ export class OrderResponseDto {
   @IsEnum(OrderStatus)
   status: OrderStatus;
 
-  @ApiProperty()
-  @IsNumber()
-  price: number;
+  @ApiProperty({ description: 'Order price as a decimal string' })
+  @IsString()
+  price: string;
 
-  @ApiProperty()
-  @IsNumber()
-  quantity: number;
+  @ApiProperty({ description: 'Order quantity as a decimal string' })
+  @IsString()
+  quantity: string;
 
   @ApiProperty()
-  @IsNumber()
-  filledQuantity: number;
+  @IsString()
+  filledQuantity: string;
 
   @ApiProperty()
-  @IsNumber()
-  remainingQuantity: number;
+  @IsString()
+  remainingQuantity: string;
 
   @ApiProperty({ required: false })
   @IsOptional()
-  @IsNumber()
-  stopPrice?: number;
+  @IsString()
+  stopPrice?: string;
 
   @ApiProperty()
   @IsEnum(TimeInForce)
@@ -128,6 +177,15 @@ export class OrderResponseDto {
   @IsString()
   clientOrderId?: string;
 
+  @ApiProperty({ enum: OrderRejectReason, description: 'Reason code for REJECTED orders', required: false })
+  @IsOptional()
+  @IsEnum(OrderRejectReason)
+  rejectReason?: OrderRejectReason;
+
+  @ApiProperty({ description: 'Time the stop order was triggered', required: false })
+  @IsOptional()
+  triggeredAt?: Date;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -145,6 +203,60 @@ export class CancelOrderDto {
   symbol: string;
 }
 
+export const MAX_BATCH_ORDERS = 20;
+
+export class BatchCreateOrderDto {
+  @ApiProperty({ type: [CreateOrderDto], description: `Orders to place (max ${MAX_BATCH_ORDERS})` })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATCH_ORDERS)
+  @ValidateNested({ each: true })
+  @Type(() => CreateOrderDto)
+  orders: CreateOrderDto[];
+}
+
+export class BatchOrderResultDto {
+  @ApiProperty({ description: 'Index of the order in the request' })
+  @IsNumber()
+  index: number;
+
+  @ApiProperty({ description: 'Whether the order was accepted' })
+  @IsBoolean()
+  success: boolean;
+
+  @ApiProperty({ type: OrderResponseDto, required: false })
+  @IsOptional()
+  order?: OrderResponseDto;
+
+  @ApiProperty({ enum: OrderErrorCode, description: 'Error code when the order broke a trading rule', required: false })
+  @IsOptional()
+  @IsEnum(OrderErrorCode)
+  code?: OrderErrorCode;
+
+  @ApiProperty({ description: 'Error message when the order failed', required: false })
+  @IsOptional()
+  @IsString()
+  error?: string;
+}
+
+export class CancelAllOrdersDto {
+  @ApiProperty({ description: 'Trading pair symbol' })
+  @IsString()
+  symbol: string;
+}
+
+export class AmendOrderDto {
+  @ApiProperty({ description: 'New order price', required: false })
+  @IsOptional()
+  @IsDecimalAmount({ positive: true })
+  price?: string;
+
+  @ApiProperty({ description: 'New total order quantity, including the filled part', required: false })
+  @IsOptional()
+  @IsDecimalAmount({ positive: true })
+  quantity?: string;
+}
+
 export class OrderQueryDto {
   @ApiProperty({ description: 'Trading pair symbol', required: false })
   @IsOptional()
@@ -183,12 +295,12 @@ export class OrderQueryDto {
 
 export class OrderBookEntryDto {
   @ApiProperty({ description: 'Price level' })
-  @IsNumber()
-  price: number;
+  @IsString()
+  price: string;
 
   @ApiProperty({ description: 'Quantity at price level' })
-  @IsNumber()
-  quantity: number;
+  @IsString()
+  quantity: string;
 
   @ApiProperty({ description: 'Number of orders at price level' })
   @IsNumber()
@@ -204,18 +316,50 @@ export class OrderMatchDto {
   @IsUUID()
   takerOrderId: string;
 
-  @ApiProperty({ description: 'Match price' })
-  @IsNumber()
-  price: number;
+  @ApiProperty({ description: 'Match price', type: String })
+  price: FixedDecimal;
 
-  @ApiProperty({ description: 'Match quantity' })
-  @IsNumber()
-  quantity: number;
+  @ApiProperty({ description: 'Match quantity', type: String })
+  quantity: FixedDecimal;
 
   @ApiProperty({ description: 'Match timestamp' })
   timestamp: Date;
 }
 
+export class OrderStpCancelDto {
+  @ApiProperty({ description: 'Canceled or decremented order ID' })
+  @IsUUID()
+  orderId: string;
+
+  @ApiProperty({ description: 'Order owner' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Counterparty order ID of the prevented self-trade' })
+  @IsUUID()
+  counterOrderId: string;
+
+  @ApiProperty({ enum: SelfTradePreventionMode })
+  @IsEnum(SelfTradePreventionMode)
+  mode: SelfTradePreventionMode;
+
+  @ApiProperty({ description: 'Whether the order is the taker side' })
+  @IsBoolean()
+  isTaker: boolean;
+
+  @ApiProperty({ description: 'Quantity removed from the order', type: String })
+  canceledQuantity: FixedDecimal;
+
+  @ApiProperty({ description: 'Match timestamp' })
+  timestamp: Date;
+}
+
+export class StpSettingDto {
+  @ApiProperty({ enum: SelfTradePreventionMode, description: 'Account default self-trade prevention mode' })
+  @IsEnum(SelfTradePreventionMode)
+  stpMode: SelfTradePreventionMode;
+}
+
 export class OrderUpdateDto {
   @ApiProperty({ description: 'Order ID' })
   @IsUUID()
@@ -226,22 +370,22 @@ export class OrderUpdateDto {
   status: OrderStatus;
 
   @ApiProperty()
-  @IsNumber()
-  filledQuantity: number;
+  @IsString()
+  filledQuantity: string;
 
   @ApiProperty()
-  @IsNumber()
-  remainingQuantity: number;
+  @IsString()
+  remainingQuantity: string;
 
   @ApiProperty({ description: 'Last filled price', required: false })
   @IsOptional()
-  @IsNumber()
-  lastFilledPrice?: number;
+  @IsString()
+  lastFilledPrice?: string;
 
   @ApiProperty({ description: 'Last filled quantity', required: false })
   @IsOptional()
-  @IsNumber()
-  lastFilledQuantity?: number;
+  @IsString()
+  lastFilledQuantity?: string;
 
   @ApiProperty()
   updatedAt: Date;
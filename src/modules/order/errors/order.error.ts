@@ -0,0 +1,25 @@
+import { BadRequestException } from '@nestjs/common';
+import { OrderErrorCode, OrderRejectReason } from '../dto/order.dto';
+
+export class OrderRejectedError extends Error {
+  constructor(
+    public readonly reason: OrderRejectReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'OrderRejectedError';
+  }
+}
+
+/**
+ * 下单参数违反交易对交易规则，以 400 返回 { statusCode, code, message }。
+ */
+export class OrderValidationError extends BadRequestException {
+  constructor(
+    public readonly code: OrderErrorCode,
+    message: string,
+  ) {
+    super({ statusCode: 400, code, message });
+    this.name = 'OrderValidationError';
+  }
+}
@@ -108,6 +108,22 @@ export class OrderGateway implements OnGatewayConnection, OnGatewayDisconnect {
     });
   }
 
+  @OnEvent('order.triggered')
+  handleOrderTriggered(order: OrderResponseDto) {
+    this.broadcastOrderUpdate(order.symbol, {
+      event: 'ORDER_TRIGGERED',
+      data: order,
+    });
+  }
+
+  @OnEvent('order.stp_canceled')
+  handleOrderStpCanceled(payload: { order: OrderResponseDto }) {
+    this.broadcastOrderUpdate(payload.order.symbol, {
+      event: 'ORDER_STP_CANCELED',
+      data: payload,
+    });
+  }
+
   @OnEvent('order.canceled')
   handleOrderCanceled(order: OrderResponseDto) {
     this.broadcastOrderUpdate(order.symbol, {
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  EngineCommand,
+  EngineCommandJournal,
+  EngineSnapshot,
+  EngineState,
+  JournalEntry,
+} from '../types/engine-journal.types';
+
+/**
+ * 单个交易对的本地命令日志与快照文件。
+ * 日志为追加写入的 JSON Lines，每条命令在引擎修改状态前同步写入；
+ * 写快照后截断日志，恢复时加载快照并重放序号更大的日志。
+ */
+export class FileEngineJournal implements EngineCommandJournal {
+  private fd: number;
+  private seq = 0;
+  private entriesSinceSnapshot = 0;
+
+  constructor(
+    private readonly directory: string,
+    private readonly symbol: string,
+  ) {
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    const snapshot = this.readSnapshot();
+    const entries = this.readEntries(snapshot?.seq ?? 0);
+    this.seq = entries.length > 0 ? entries[entries.length - 1].seq : snapshot?.seq ?? 0;
+    this.entriesSinceSnapshot = entries.length;
+    this.fd = fs.openSync(this.journalPath, 'a');
+  }
+
+  get journalPath(): string {
+    return path.join(this.directory, `${this.symbol}.journal`);
+  }
+
+  get snapshotPath(): string {
+    return path.join(this.directory, `${this.symbol}.snapshot.json`);
+  }
+
+  append(command: EngineCommand): void {
+    const entry: JournalEntry = { seq: this.seq + 1, timestamp: Date.now(), command };
+    fs.writeSync(this.fd, `${JSON.stringify(entry)}\n`);
+    this.seq = entry.seq;
+    this.entriesSinceSnapshot++;
+  }
+
+  getSeq(): number {
+    return this.seq;
+  }
+
+  getEntriesSinceSnapshot(): number {
+    return this.entriesSinceSnapshot;
+  }
+
+  readSnapshot(): EngineSnapshot | null {
+    if (!fs.existsSync(this.snapshotPath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+  }
+
+  /**
+   * 读取序号大于 afterSeq 的日志。进程在写入途中退出时最后一行可能不完整，读到不完整的行即停止。
+   */
+  readEntries(afterSeq: number): JournalEntry[] {
+    if (!fs.existsSync(this.journalPath)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of fs.readFileSync(this.journalPath, 'utf8').split('\n')) {
+      if (!line) {
+        continue;
+      }
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        break;
+      }
+      if (entry.seq > afterSeq) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * 先写临时文件再改名，保证任何时刻磁盘上都有一份完整快照；快照落盘后截断日志。
+   */
+  writeSnapshot(state: EngineState): EngineSnapshot {
+    const snapshot: EngineSnapshot = { seq: this.seq, createdAt: Date.now(), state };
+    const tempPath = `${this.snapshotPath}.tmp`;
+
+    fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+    fs.renameSync(tempPath, this.snapshotPath);
+
+    fs.ftruncateSync(this.fd, 0);
+    this.entriesSinceSnapshot = 0;
+
+    return snapshot;
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+}
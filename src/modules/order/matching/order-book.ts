@@ -1,34 +1,36 @@
 import { OrderSide } from '../dto/order.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
 import { RBTree } from './rb-tree';
 
 interface Order {
   id: string;
   userId: string;
-  price: number;
-  quantity: number;
+  price: FixedDecimal;
+  quantity: FixedDecimal;
   timestamp: number;
 }
 
 interface PriceLevel {
-  price: number;
+  price: FixedDecimal;
   orders: Order[];
-  totalQuantity: number;
+  totalQuantity: FixedDecimal;
 }
 
 export class OrderBook {
-  private readonly priceTree: RBTree<number>;
-  private readonly priceMap: Map<number, PriceLevel>;
+  private readonly priceTree: RBTree<FixedDecimal>;
+  // 价格档位以规范化的十进制字符串为键，1.5 与 1.50 落在同一档位
+  private readonly priceMap: Map<string, PriceLevel>;
   private readonly orderMap: Map<string, Order>;
   private readonly side: OrderSide;
 
   constructor(side: OrderSide) {
     this.side = side;
-    this.priceTree = new RBTree<number>((a, b) => {
+    this.priceTree = new RBTree<FixedDecimal>((a, b) => {
       // 买单按价格降序排列，卖单按价格升序排列
-      const comparison = a - b;
+      const comparison = a.cmp(b);
       return this.side === OrderSide.BUY ? -comparison : comparison;
     });
-    this.priceMap = new Map<number, PriceLevel>();
+    this.priceMap = new Map<string, PriceLevel>();
     this.orderMap = new Map<string, Order>();
   }
 
@@ -39,20 +41,24 @@ export class OrderBook {
     }
 
     // 获取或创建价格级别
-    let priceLevel = this.priceMap.get(order.price);
+    let priceLevel = this.priceMap.get(order.price.toString());
     if (!priceLevel) {
       priceLevel = {
         price: order.price,
         orders: [],
-        totalQuantity: 0,
+        totalQuantity: FixedDecimal.ZERO,
       };
-      this.priceMap.set(order.price, priceLevel);
+      this.priceMap.set(order.price.toString(), priceLevel);
       this.priceTree.insert(order.price);
     }
 
-    // 添加订单到价格级别
-    priceLevel.orders.push(order);
-    priceLevel.totalQuantity += order.quantity;
+    // 按下单时间插入价格级别，保证触发单、恢复单保持原有排队优先级
+    let index = priceLevel.orders.length;
+    while (index > 0 && priceLevel.orders[index - 1].timestamp > order.timestamp) {
+      index--;
+    }
+    priceLevel.orders.splice(index, 0, order);
+    priceLevel.totalQuantity = priceLevel.totalQuantity.plus(order.quantity);
     this.orderMap.set(order.id, order);
   }
 
@@ -62,7 +68,7 @@ export class OrderBook {
       return false;
     }
 
-    const priceLevel = this.priceMap.get(order.price);
+    const priceLevel = this.priceMap.get(order.price.toString());
     if (!priceLevel) {
       return false;
     }
@@ -74,11 +80,11 @@ export class OrderBook {
     }
 
     priceLevel.orders.splice(orderIndex, 1);
-    priceLevel.totalQuantity -= order.quantity;
+    priceLevel.totalQuantity = priceLevel.totalQuantity.minus(order.quantity);
 
     // 如果价格级别为空，则移除该级别
     if (priceLevel.orders.length === 0) {
-      this.priceMap.delete(order.price);
+      this.priceMap.delete(order.price.toString());
       this.priceTree.remove(order.price);
     }
 
@@ -86,27 +92,35 @@ export class OrderBook {
     return true;
   }
 
-  reduceOrderQuantity(orderId: string, quantity: number): void {
+  hasOrder(orderId: string): boolean {
+    return this.orderMap.has(orderId);
+  }
+
+  getOrder(orderId: string): Order | null {
+    return this.orderMap.get(orderId) ?? null;
+  }
+
+  reduceOrderQuantity(orderId: string, quantity: FixedDecimal): void {
     const order = this.orderMap.get(orderId);
     if (!order) {
       throw new Error('Order not found');
     }
 
-    const priceLevel = this.priceMap.get(order.price);
+    const priceLevel = this.priceMap.get(order.price.toString());
     if (!priceLevel) {
       throw new Error('Price level not found');
     }
 
-    if (quantity > order.quantity) {
+    if (quantity.gt(order.quantity)) {
       throw new Error('Insufficient quantity');
     }
 
     // 更新订单数量
-    order.quantity -= quantity;
-    priceLevel.totalQuantity -= quantity;
+    order.quantity = order.quantity.minus(quantity);
+    priceLevel.totalQuantity = priceLevel.totalQuantity.minus(quantity);
 
     // 如果订单数量为0，移除订单
-    if (order.quantity === 0) {
+    if (order.quantity.isZero()) {
       this.removeOrder(orderId);
     }
   }
@@ -117,7 +131,7 @@ export class OrderBook {
       return null;
     }
 
-    const priceLevel = this.priceMap.get(bestPrice);
+    const priceLevel = this.priceMap.get(bestPrice.toString());
     if (!priceLevel || priceLevel.orders.length === 0) {
       return null;
     }
@@ -125,7 +139,7 @@ export class OrderBook {
     return priceLevel.orders[0];
   }
 
-  getNextBestOrder(currentPrice: number): Order | null {
+  getNextBestOrder(currentPrice: FixedDecimal): Order | null {
     const nextPrice = this.side === OrderSide.BUY
       ? this.priceTree.prev(currentPrice)
       : this.priceTree.next(currentPrice);
@@ -134,7 +148,7 @@ export class OrderBook {
       return null;
     }
 
-    const priceLevel = this.priceMap.get(nextPrice);
+    const priceLevel = this.priceMap.get(nextPrice.toString());
     if (!priceLevel || priceLevel.orders.length === 0) {
       return null;
     }
@@ -142,18 +156,36 @@ export class OrderBook {
     return priceLevel.orders[0];
   }
 
-  getSnapshot(depth: number = 100): Array<[number, number, number]> {
-    const snapshot: Array<[number, number, number]> = [];
+  /**
+   * 按价格、时间优先级返回订单簿中的全部订单。
+   */
+  getOrders(): Order[] {
+    const orders: Order[] = [];
+    let currentPrice = this.priceTree.min();
+
+    while (currentPrice !== null) {
+      const priceLevel = this.priceMap.get(currentPrice.toString());
+      if (priceLevel) {
+        orders.push(...priceLevel.orders);
+      }
+      currentPrice = this.priceTree.next(currentPrice);
+    }
+
+    return orders;
+  }
+
+  getSnapshot(depth: number = 100): Array<[string, string, number]> {
+    const snapshot: Array<[string, string, number]> = [];
     let currentPrice = this.side === OrderSide.BUY
       ? this.priceTree.max()
       : this.priceTree.min();
 
     while (currentPrice !== null && snapshot.length < depth) {
-      const priceLevel = this.priceMap.get(currentPrice);
-      if (priceLevel && priceLevel.totalQuantity > 0) {
+      const priceLevel = this.priceMap.get(currentPrice.toString());
+      if (priceLevel && priceLevel.totalQuantity.isPositive()) {
         snapshot.push([
-          priceLevel.price,
-          priceLevel.totalQuantity,
+          priceLevel.price.toString(),
+          priceLevel.totalQuantity.toString(),
           priceLevel.orders.length,
         ]);
       }
@@ -1,5 +1,24 @@
-import { OrderSide, OrderType, TimeInForce, OrderMatchDto } from '../dto/order.dto';
+import {
+  OrderSide,
+  OrderType,
+  TimeInForce,
+  OrderMatchDto,
+  OrderRejectReason,
+  OrderStpCancelDto,
+  SelfTradePreventionMode,
+} from '../dto/order.dto';
+import { OrderRejectedError } from '../errors/order.error';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
 import { OrderBook } from './order-book';
+import { StopOrder, StopOrderBook } from './stop-order-book';
+import {
+  EngineCommand,
+  EngineCommandJournal,
+  EngineCommandType,
+  EngineState,
+  SerializedOrder,
+  SerializedStopOrder,
+} from '../types/engine-journal.types';
 
 interface Order {
   id: string;
@@ -7,9 +26,10 @@ interface Order {
   symbol: string;
   side: OrderSide;
   type: OrderType;
-  price: number;
-  quantity: number;
+  price: FixedDecimal;
+  quantity: FixedDecimal;
   timeInForce: TimeInForce;
+  stpMode?: SelfTradePreventionMode;
   timestamp: number;
 }
 
@@ -18,22 +38,46 @@ interface MarketOrder {
   userId: string;
   symbol: string;
   side: OrderSide;
-  quantity: number;
+  quantity: FixedDecimal;
+  stpMode?: SelfTradePreventionMode;
   timestamp: number;
 }
 
+interface BookOrder {
+  id: string;
+  userId: string;
+  price: FixedDecimal;
+  quantity: FixedDecimal;
+}
+
 export class OrderMatchingEngine {
   private readonly buyOrderBook: OrderBook;
   private readonly sellOrderBook: OrderBook;
+  private readonly stopOrderBook: StopOrderBook;
   private readonly symbol: string;
+  private lastTradePrice: FixedDecimal | null = null;
+  private stpCancels: OrderStpCancelDto[] = [];
+  private journal: EngineCommandJournal | null;
+  private journalSuspended = false;
 
-  constructor(symbol: string) {
+  constructor(symbol: string, journal: EngineCommandJournal | null = null) {
     this.symbol = symbol;
+    this.journal = journal;
     this.buyOrderBook = new OrderBook(OrderSide.BUY);
     this.sellOrderBook = new OrderBook(OrderSide.SELL);
+    this.stopOrderBook = new StopOrderBook();
+  }
+
+  setJournal(journal: EngineCommandJournal | null): void {
+    this.journal = journal;
   }
 
   addOrder(order: Order): OrderMatchDto[] {
+    this.record({ type: EngineCommandType.ADD_ORDER, order: this.serializeOrder(order) });
+    return this.submitLimitOrder(order);
+  }
+
+  private submitLimitOrder(order: Order): OrderMatchDto[] {
     const matches: OrderMatchDto[] = [];
 
     if (order.timeInForce === TimeInForce.IOC || order.timeInForce === TimeInForce.FOK) {
@@ -43,15 +87,28 @@ export class OrderMatchingEngine {
     const oppositeOrderBook = order.side === OrderSide.BUY ? this.sellOrderBook : this.buyOrderBook;
     const sameOrderBook = order.side === OrderSide.BUY ? this.buyOrderBook : this.sellOrderBook;
 
+    // 只做Maker的订单如果会立即成交则直接拒绝
+    if (order.timeInForce === TimeInForce.GTX && this.wouldCross(order.side, order.price)) {
+      throw new OrderRejectedError(
+        OrderRejectReason.POST_ONLY_WOULD_TAKE,
+        `Post-only order ${order.id} would take liquidity at ${order.price}`,
+      );
+    }
+
     // 尝试匹配订单
     let remainingQuantity = order.quantity;
-    while (remainingQuantity > 0) {
+    while (remainingQuantity.isPositive()) {
       const bestOrder = oppositeOrderBook.getBestOrder();
       if (!bestOrder || !this.isPriceMatched(order, bestOrder)) {
         break;
       }
 
-      const matchQuantity = Math.min(remainingQuantity, bestOrder.quantity);
+      if (this.isSelfTrade(order, bestOrder)) {
+        remainingQuantity = this.preventSelfTrade(order, bestOrder, oppositeOrderBook, remainingQuantity);
+        continue;
+      }
+
+      const matchQuantity = FixedDecimal.min(remainingQuantity, bestOrder.quantity);
       const matchPrice = bestOrder.price;
 
       matches.push({
@@ -62,31 +119,42 @@ export class OrderMatchingEngine {
         timestamp: new Date(),
       });
 
-      remainingQuantity -= matchQuantity;
+      remainingQuantity = remainingQuantity.minus(matchQuantity);
       oppositeOrderBook.reduceOrderQuantity(bestOrder.id, matchQuantity);
     }
 
     // 如果还有剩余数量，将订单添加到订单簿
-    if (remainingQuantity > 0) {
+    if (remainingQuantity.isPositive()) {
       const remainingOrder = { ...order, quantity: remainingQuantity };
       sameOrderBook.addOrder(remainingOrder);
     }
 
+    this.updateLastTradePrice(matches);
     return matches;
   }
 
   executeMarketOrder(order: MarketOrder): OrderMatchDto[] {
+    this.record({
+      type: EngineCommandType.MARKET_ORDER,
+      order: { ...order, quantity: order.quantity.toString() },
+    });
+
     const matches: OrderMatchDto[] = [];
     const oppositeOrderBook = order.side === OrderSide.BUY ? this.sellOrderBook : this.buyOrderBook;
 
     let remainingQuantity = order.quantity;
-    while (remainingQuantity > 0) {
+    while (remainingQuantity.isPositive()) {
       const bestOrder = oppositeOrderBook.getBestOrder();
       if (!bestOrder) {
         throw new Error('Insufficient liquidity for market order');
       }
 
-      const matchQuantity = Math.min(remainingQuantity, bestOrder.quantity);
+      if (this.isSelfTrade(order, bestOrder)) {
+        remainingQuantity = this.preventSelfTrade(order, bestOrder, oppositeOrderBook, remainingQuantity);
+        continue;
+      }
+
+      const matchQuantity = FixedDecimal.min(remainingQuantity, bestOrder.quantity);
       const matchPrice = bestOrder.price;
 
       matches.push({
@@ -97,17 +165,134 @@ export class OrderMatchingEngine {
         timestamp: new Date(),
       });
 
-      remainingQuantity -= matchQuantity;
+      remainingQuantity = remainingQuantity.minus(matchQuantity);
       oppositeOrderBook.reduceOrderQuantity(bestOrder.id, matchQuantity);
     }
 
+    this.updateLastTradePrice(matches);
     return matches;
   }
 
+  /**
+   * 修改挂单价格或数量。仅减少数量时保留原有排队位置；改价或增加数量视为重新下单，
+   * 以新的时间戳排到对应价格档位末尾，并可能立即成交。
+   */
+  amendOrder(orderId: string, price: FixedDecimal, quantity: FixedDecimal, timestamp: number): OrderMatchDto[] {
+    this.record({
+      type: EngineCommandType.AMEND_ORDER,
+      orderId,
+      price: price.toString(),
+      quantity: quantity.toString(),
+      timestamp,
+    });
+
+    const orderBook = this.buyOrderBook.hasOrder(orderId) ? this.buyOrderBook : this.sellOrderBook;
+    const order = orderBook.getOrder(orderId) as Order;
+    if (!order) {
+      throw new Error('Order not found in order book');
+    }
+
+    if (price.eq(order.price) && quantity.lte(order.quantity)) {
+      if (quantity.lt(order.quantity)) {
+        orderBook.reduceOrderQuantity(orderId, order.quantity.minus(quantity));
+      }
+      return [];
+    }
+
+    if (order.timeInForce === TimeInForce.GTX && this.wouldCross(order.side, price)) {
+      throw new OrderRejectedError(
+        OrderRejectReason.POST_ONLY_WOULD_TAKE,
+        `Post-only order ${orderId} would take liquidity at ${price}`,
+      );
+    }
+
+    orderBook.removeOrder(orderId);
+    return this.submitLimitOrder({ ...order, price, quantity, timestamp });
+  }
+
+  /**
+   * 判断指定方向和价格的订单是否会与对手盘最优价成交。
+   */
+  wouldCross(side: OrderSide, price: FixedDecimal): boolean {
+    const oppositeOrderBook = side === OrderSide.BUY ? this.sellOrderBook : this.buyOrderBook;
+    const bestOrder = oppositeOrderBook.getBestOrder();
+    if (!bestOrder) {
+      return false;
+    }
+    return side === OrderSide.BUY ? price.gte(bestOrder.price) : price.lte(bestOrder.price);
+  }
+
+  /**
+   * 恢复时将订单直接挂入订单簿而不撮合：数据库中的挂单均已完成结算，
+   * 重放撮合会产生没有对应成交记录的成交。
+   */
+  restoreOrder(order: Order): void {
+    this.record({ type: EngineCommandType.RESTORE_ORDER, order: this.serializeOrder(order) });
+    const sameOrderBook = order.side === OrderSide.BUY ? this.buyOrderBook : this.sellOrderBook;
+    sameOrderBook.addOrder(order);
+  }
+
+  hasOrder(orderId: string): boolean {
+    return (
+      this.buyOrderBook.hasOrder(orderId) ||
+      this.sellOrderBook.hasOrder(orderId) ||
+      this.stopOrderBook.hasOrder(orderId)
+    );
+  }
+
+  /**
+   * 买一价不低于卖一价说明订单簿状态与撮合规则不一致。
+   */
+  isCrossed(): boolean {
+    const bestBid = this.buyOrderBook.getBestOrder();
+    const bestAsk = this.sellOrderBook.getBestOrder();
+    return !!bestBid && !!bestAsk && bestBid.price.gte(bestAsk.price);
+  }
+
+  clear(): void {
+    this.record({ type: EngineCommandType.CLEAR });
+    this.buyOrderBook.clear();
+    this.sellOrderBook.clear();
+    this.stopOrderBook.clear();
+    this.stpCancels = [];
+    this.lastTradePrice = null;
+  }
+
+  addStopOrder(order: StopOrder): void {
+    this.record({ type: EngineCommandType.ADD_STOP_ORDER, order: this.serializeStopOrder(order) });
+    this.stopOrderBook.addOrder(order);
+  }
+
+  /**
+   * 取出最新成交价已穿越触发价的止损单，调用方负责将其转为限价/市价单重新提交。
+   */
+  takeTriggeredStopOrders(): StopOrder[] {
+    if (this.lastTradePrice === null) {
+      return [];
+    }
+
+    const triggered = this.stopOrderBook.takeTriggered(this.lastTradePrice);
+    if (triggered.length > 0) {
+      this.record({ type: EngineCommandType.TRIGGER_STOP_ORDERS });
+    }
+    return triggered;
+  }
+
+  getLastTradePrice(): FixedDecimal | null {
+    return this.lastTradePrice;
+  }
+
+  setLastTradePrice(price: FixedDecimal): void {
+    this.record({ type: EngineCommandType.SET_LAST_TRADE_PRICE, price: price.toString() });
+    this.lastTradePrice = price;
+  }
+
   cancelOrder(orderId: string): boolean {
+    this.record({ type: EngineCommandType.CANCEL_ORDER, orderId });
     return (
       this.buyOrderBook.removeOrder(orderId) ||
-      this.sellOrderBook.removeOrder(orderId)
+      this.sellOrderBook.removeOrder(orderId) ||
+      this.stopOrderBook.removeOrder(orderId)
     );
   }
 
@@ -118,32 +303,24 @@ export class OrderMatchingEngine {
     let remainingQuantity = order.quantity;
     const tempMatches: OrderMatchDto[] = [];
 
-    // 预先检查是否可以完全成交（FOK）
-    if (order.timeInForce === TimeInForce.FOK) {
-      let availableQuantity = 0;
-      let currentLevel = oppositeOrderBook.getBestOrder();
-
-      while (currentLevel && this.isPriceMatched(order, currentLevel)) {
-        availableQuantity += currentLevel.quantity;
-        if (availableQuantity >= order.quantity) {
-          break;
-        }
-        currentLevel = oppositeOrderBook.getNextBestOrder(currentLevel.price);
-      }
-
-      if (availableQuantity < order.quantity) {
-        return []; // FOK订单无法完全成交，返回空
-      }
+    // 预先检查是否可以完全成交（FOK），检查通过前不能改动订单簿
+    if (order.timeInForce === TimeInForce.FOK && !this.canFillCompletely(order, oppositeOrderBook)) {
+      return []; // FOK订单无法完全成交，返回空
     }
 
     // 执行匹配
-    while (remainingQuantity > 0) {
+    while (remainingQuantity.isPositive()) {
       const bestOrder = oppositeOrderBook.getBestOrder();
       if (!bestOrder || !this.isPriceMatched(order, bestOrder)) {
         break;
       }
 
-      const matchQuantity = Math.min(remainingQuantity, bestOrder.quantity);
+      if (this.isSelfTrade(order, bestOrder)) {
+        remainingQuantity = this.preventSelfTrade(order, bestOrder, oppositeOrderBook, remainingQuantity);
+        continue;
+      }
+
+      const matchQuantity = FixedDecimal.min(remainingQuantity, bestOrder.quantity);
       const matchPrice = bestOrder.price;
 
       tempMatches.push({
@@ -154,23 +331,142 @@ export class OrderMatchingEngine {
         timestamp: new Date(),
       });
 
-      remainingQuantity -= matchQuantity;
+      remainingQuantity = remainingQuantity.minus(matchQuantity);
       oppositeOrderBook.reduceOrderQuantity(bestOrder.id, matchQuantity);
     }
 
     // IOC订单可以部分成交
-    if (order.timeInForce === TimeInForce.IOC || remainingQuantity === 0) {
+    if (order.timeInForce === TimeInForce.IOC || remainingQuantity.isZero()) {
       matches.push(...tempMatches);
     }
 
+    this.updateLastTradePrice(matches);
     return matches;
   }
 
-  private isPriceMatched(order: Order, oppositeOrder: Order): boolean {
+  /**
+   * 按撮合顺序遍历对手盘所有档位的全部订单试算成交，不修改订单簿。自己的挂单不计入可成交数量；
+   * 会因自成交保护撤销taker的模式下，遇到自己的挂单即无法完全成交。
+   */
+  private canFillCompletely(order: Order, oppositeOrderBook: OrderBook): boolean {
+    let remainingQuantity = order.quantity;
+
+    for (const bookOrder of oppositeOrderBook.getOrders()) {
+      if (!remainingQuantity.isPositive() || !this.isPriceMatched(order, bookOrder)) {
+        break;
+      }
+
+      if (this.isSelfTrade(order, bookOrder)) {
+        if (
+          order.stpMode === SelfTradePreventionMode.CANCEL_NEWEST ||
+          order.stpMode === SelfTradePreventionMode.CANCEL_BOTH
+        ) {
+          return false;
+        }
+        continue;
+      }
+
+      remainingQuantity = remainingQuantity.minus(FixedDecimal.min(remainingQuantity, bookOrder.quantity));
+    }
+
+    return !remainingQuantity.isPositive();
+  }
+
+  /**
+   * 取出自上次调用以来因自成交保护被撤销或减少数量的订单记录。
+   */
+  takeStpCancels(): OrderStpCancelDto[] {
+    const cancels = this.stpCancels;
+    this.stpCancels = [];
+    return cancels;
+  }
+
+  private isSelfTrade(order: Order | MarketOrder, bestOrder: BookOrder): boolean {
+    return (
+      !!order.stpMode &&
+      order.stpMode !== SelfTradePreventionMode.NONE &&
+      order.userId === bestOrder.userId
+    );
+  }
+
+  /**
+   * 按taker订单的STP模式处理与自己挂单的对手成交，返回taker剩余可撮合数量（taker被撤销时为0）。
+   */
+  private preventSelfTrade(
+    order: Order | MarketOrder,
+    bestOrder: BookOrder,
+    oppositeOrderBook: OrderBook,
+    remainingQuantity: FixedDecimal,
+  ): FixedDecimal {
+    const cancelMaker = (quantity: FixedDecimal) => {
+      this.recordStpCancel(order.stpMode, bestOrder, order.id, false, quantity);
+      oppositeOrderBook.reduceOrderQuantity(bestOrder.id, quantity);
+    };
+    const cancelTaker = (quantity: FixedDecimal) => {
+      this.recordStpCancel(order.stpMode, order, bestOrder.id, true, quantity);
+    };
+
+    switch (order.stpMode) {
+      case SelfTradePreventionMode.CANCEL_NEWEST:
+        cancelTaker(remainingQuantity);
+        return FixedDecimal.ZERO;
+      case SelfTradePreventionMode.CANCEL_OLDEST:
+        cancelMaker(bestOrder.quantity);
+        return remainingQuantity;
+      case SelfTradePreventionMode.CANCEL_BOTH:
+        cancelMaker(bestOrder.quantity);
+        cancelTaker(remainingQuantity);
+        return FixedDecimal.ZERO;
+      case SelfTradePreventionMode.DECREMENT_AND_CANCEL: {
+        const overlap = FixedDecimal.min(remainingQuantity, bestOrder.quantity);
+        cancelMaker(overlap);
+        cancelTaker(overlap);
+        return remainingQuantity.minus(overlap);
+      }
+      default:
+        return remainingQuantity;
+    }
+  }
+
+  private recordStpCancel(
+    mode: SelfTradePreventionMode,
+    order: { id: string; userId: string },
+    counterOrderId: string,
+    isTaker: boolean,
+    canceledQuantity: FixedDecimal,
+  ): void {
+    this.stpCancels.push({
+      orderId: order.id,
+      userId: order.userId,
+      counterOrderId,
+      mode,
+      isTaker,
+      canceledQuantity,
+      timestamp: new Date(),
+    });
+  }
+
+  private updateLastTradePrice(matches: OrderMatchDto[]): void {
+    for (const match of matches) {
+      this.record({
+        type: EngineCommandType.MATCH,
+        makerOrderId: match.makerOrderId,
+        takerOrderId: match.takerOrderId,
+        price: match.price.toString(),
+        quantity: match.quantity.toString(),
+      });
+    }
+
+    if (matches.length > 0) {
+      this.lastTradePrice = matches[matches.length - 1].price;
+    }
+  }
+
+  private isPriceMatched(order: Order, oppositeOrder: { price: FixedDecimal }): boolean {
     if (order.side === OrderSide.BUY) {
-      return order.price >= oppositeOrder.price;
+      return order.price.gte(oppositeOrder.price);
     }
-    return order.price <= oppositeOrder.price;
+    return order.price.lte(oppositeOrder.price);
   }
 
   getOrderBookSnapshot(depth: number = 100) {
@@ -181,4 +477,131 @@ export class OrderMatchingEngine {
       timestamp: Date.now(),
     };
   }
+
+  /**
+   * 导出引擎完整状态，用于写快照。
+   */
+  exportState(): EngineState {
+    return {
+      symbol: this.symbol,
+      bids: this.buyOrderBook.getOrders().map(order => this.serializeOrder(order as Order)),
+      asks: this.sellOrderBook.getOrders().map(order => this.serializeOrder(order as Order)),
+      stopOrders: this.stopOrderBook.getOrders().map(order => this.serializeStopOrder(order)),
+      lastTradePrice: this.lastTradePrice?.toString() ?? null,
+    };
+  }
+
+  /**
+   * 用快照替换引擎当前状态，不写日志。
+   */
+  importState(state: EngineState): void {
+    this.withoutJournal(() => {
+      this.clear();
+      for (const order of [...state.bids, ...state.asks]) {
+        this.restoreOrder(this.deserializeOrder(order));
+      }
+      for (const order of state.stopOrders) {
+        this.addStopOrder(this.deserializeStopOrder(order));
+      }
+      if (state.lastTradePrice !== null) {
+        this.setLastTradePrice(FixedDecimal.from(state.lastTradePrice));
+      }
+    });
+  }
+
+  /**
+   * 重放一条日志命令。命令按写入前的状态记录，原本失败的命令重放时同样失败，
+   * 这类错误直接忽略；重放产生的撮合结果和自成交保护记录在原执行时已处理过，一并丢弃。
+   */
+  replay(command: EngineCommand): void {
+    this.withoutJournal(() => {
+      try {
+        this.applyCommand(command);
+      } catch {
+        // 与原执行结果一致
+      }
+      this.stpCancels = [];
+    });
+  }
+
+  private applyCommand(command: EngineCommand): void {
+    switch (command.type) {
+      case EngineCommandType.ADD_ORDER:
+        this.addOrder(this.deserializeOrder(command.order));
+        break;
+      case EngineCommandType.MARKET_ORDER:
+        this.executeMarketOrder({ ...command.order, quantity: FixedDecimal.from(command.order.quantity) });
+        break;
+      case EngineCommandType.AMEND_ORDER:
+        this.amendOrder(
+          command.orderId,
+          FixedDecimal.from(command.price),
+          FixedDecimal.from(command.quantity),
+          command.timestamp,
+        );
+        break;
+      case EngineCommandType.RESTORE_ORDER:
+        this.restoreOrder(this.deserializeOrder(command.order));
+        break;
+      case EngineCommandType.CANCEL_ORDER:
+        this.cancelOrder(command.orderId);
+        break;
+      case EngineCommandType.ADD_STOP_ORDER:
+        this.addStopOrder(this.deserializeStopOrder(command.order));
+        break;
+      case EngineCommandType.TRIGGER_STOP_ORDERS:
+        this.takeTriggeredStopOrders();
+        break;
+      case EngineCommandType.SET_LAST_TRADE_PRICE:
+        this.setLastTradePrice(FixedDecimal.from(command.price));
+        break;
+      case EngineCommandType.CLEAR:
+        this.clear();
+        break;
+      default:
+        break;
+    }
+  }
+
+  private record(command: EngineCommand): void {
+    if (this.journal && !this.journalSuspended) {
+      this.journal.append(command);
+    }
+  }
+
+  private withoutJournal(fn: () => void): void {
+    const suspended = this.journalSuspended;
+    this.journalSuspended = true;
+    try {
+      fn();
+    } finally {
+      this.journalSuspended = suspended;
+    }
+  }
+
+  private serializeOrder(order: Order): SerializedOrder {
+    return { ...order, price: order.price.toString(), quantity: order.quantity.toString() };
+  }
+
+  private deserializeOrder(order: SerializedOrder): Order {
+    return { ...order, price: FixedDecimal.from(order.price), quantity: FixedDecimal.from(order.quantity) };
+  }
+
+  private serializeStopOrder(order: StopOrder): SerializedStopOrder {
+    return {
+      ...order,
+      price: order.price.toString(),
+      stopPrice: order.stopPrice.toString(),
+      quantity: order.quantity.toString(),
+    };
+  }
+
+  private deserializeStopOrder(order: SerializedStopOrder): StopOrder {
+    return {
+      ...order,
+      price: FixedDecimal.from(order.price),
+      stopPrice: FixedDecimal.from(order.stopPrice),
+      quantity: FixedDecimal.from(order.quantity),
+    };
+  }
 }
@@ -0,0 +1,134 @@
+import { OrderSide, OrderType, TimeInForce } from '../dto/order.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { RBTree } from './rb-tree';
+
+export interface StopOrder {
+  id: string;
+  userId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  price: FixedDecimal;
+  stopPrice: FixedDecimal;
+  quantity: FixedDecimal;
+  timeInForce: TimeInForce;
+  timestamp: number;
+}
+
+interface StopLevel {
+  stopPrice: FixedDecimal;
+  orders: StopOrder[];
+}
+
+export class StopOrderBook {
+  // 买入止损单在最新价 >= 触发价时触发，按触发价升序排列
+  private readonly buyTree: RBTree<FixedDecimal>;
+  // 卖出止损单在最新价 <= 触发价时触发，按触发价降序排列
+  private readonly sellTree: RBTree<FixedDecimal>;
+  private readonly buyLevels = new Map<string, StopLevel>();
+  private readonly sellLevels = new Map<string, StopLevel>();
+  private readonly orderMap = new Map<string, StopOrder>();
+
+  constructor() {
+    this.buyTree = new RBTree<FixedDecimal>((a, b) => a.cmp(b));
+    this.sellTree = new RBTree<FixedDecimal>((a, b) => b.cmp(a));
+  }
+
+  addOrder(order: StopOrder): void {
+    if (this.orderMap.has(order.id)) {
+      throw new Error('Order already exists');
+    }
+
+    const { tree, levels } = this.getSide(order.side);
+    let level = levels.get(order.stopPrice.toString());
+    if (!level) {
+      level = { stopPrice: order.stopPrice, orders: [] };
+      levels.set(order.stopPrice.toString(), level);
+      tree.insert(order.stopPrice);
+    }
+
+    level.orders.push(order);
+    this.orderMap.set(order.id, order);
+  }
+
+  removeOrder(orderId: string): boolean {
+    const order = this.orderMap.get(orderId);
+    if (!order) {
+      return false;
+    }
+
+    const { tree, levels } = this.getSide(order.side);
+    const level = levels.get(order.stopPrice.toString());
+    if (level) {
+      level.orders = level.orders.filter(o => o.id !== orderId);
+      if (level.orders.length === 0) {
+        levels.delete(order.stopPrice.toString());
+        tree.remove(order.stopPrice);
+      }
+    }
+
+    this.orderMap.delete(orderId);
+    return true;
+  }
+
+  hasOrder(orderId: string): boolean {
+    return this.orderMap.has(orderId);
+  }
+
+  /**
+   * 根据最新成交价取出所有被触发的止损单，并按原始下单时间排序，
+   * 保证同一批触发的订单按原有优先级进入撮合。
+   */
+  takeTriggered(lastPrice: FixedDecimal): StopOrder[] {
+    const triggered = [
+      ...this.drain(OrderSide.BUY, stopPrice => lastPrice.gte(stopPrice)),
+      ...this.drain(OrderSide.SELL, stopPrice => lastPrice.lte(stopPrice)),
+    ];
+
+    return triggered.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  getOrders(): StopOrder[] {
+    return [...this.orderMap.values()].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  size(): number {
+    return this.orderMap.size;
+  }
+
+  clear(): void {
+    this.buyTree.clear();
+    this.sellTree.clear();
+    this.buyLevels.clear();
+    this.sellLevels.clear();
+    this.orderMap.clear();
+  }
+
+  private drain(side: OrderSide, isCrossed: (stopPrice: FixedDecimal) => boolean): StopOrder[] {
+    const { tree, levels } = this.getSide(side);
+    const drained: StopOrder[] = [];
+
+    let stopPrice = tree.min();
+    while (stopPrice !== null && isCrossed(stopPrice)) {
+      const level = levels.get(stopPrice.toString());
+      if (level) {
+        for (const order of level.orders) {
+          this.orderMap.delete(order.id);
+          drained.push(order);
+        }
+      }
+
+      levels.delete(stopPrice.toString());
+      tree.remove(stopPrice);
+      stopPrice = tree.min();
+    }
+
+    return drained;
+  }
+
+  private getSide(side: OrderSide) {
+    return side === OrderSide.BUY
+      ? { tree: this.buyTree, levels: this.buyLevels }
+      : { tree: this.sellTree, levels: this.sellLevels };
+  }
+}
@@ -2,6 +2,8 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Patch,
   Delete,
   Body,
   Param,
@@ -11,11 +13,18 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { OrderService } from './order.service';
+import { FeeService } from './services/fee.service';
+import { FeePaymentSettingDto, FeeTierQueryDto, FeeTierResponseDto } from './dto/fee.dto';
 import {
   CreateOrderDto,
   OrderResponseDto,
   CancelOrderDto,
   OrderQueryDto,
+  AmendOrderDto,
+  BatchCreateOrderDto,
+  BatchOrderResultDto,
+  CancelAllOrdersDto,
+  StpSettingDto,
 } from './dto/order.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 
@@ -24,7 +33,10 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class OrderController {
-  constructor(private readonly orderService: OrderService) {}
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly feeService: FeeService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new order' })
@@ -36,6 +48,79 @@ export class OrderController {
     return this.orderService.createOrder(req.user.id, createOrderDto);
   }
 
+  @Post('batch')
+  @ApiOperation({ summary: 'Create multiple orders' })
+  @ApiResponse({ status: 201, description: 'Per-order results', type: [BatchOrderResultDto] })
+  async createOrders(
+    @Request() req,
+    @Body() batchCreateOrderDto: BatchCreateOrderDto,
+  ): Promise<BatchOrderResultDto[]> {
+    return this.orderService.createOrders(req.user.id, batchCreateOrderDto.orders);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Cancel all open orders on a symbol' })
+  @ApiResponse({ status: 200, description: 'Cancelled orders', type: [OrderResponseDto] })
+  async cancelAllOrders(
+    @Request() req,
+    @Query() query: CancelAllOrdersDto,
+  ): Promise<OrderResponseDto[]> {
+    return this.orderService.cancelAllOrders(req.user.id, query.symbol);
+  }
+
+  @Get('fees/tier')
+  @ApiOperation({ summary: 'Get current VIP fee tier and effective rates' })
+  @ApiResponse({ status: 200, description: 'Fee tier details', type: FeeTierResponseDto })
+  async getFeeTier(
+    @Request() req,
+    @Query() query: FeeTierQueryDto,
+  ): Promise<FeeTierResponseDto> {
+    return this.feeService.getFeeTierSummary(req.user.id, query.symbol);
+  }
+
+  @Put('settings/fee-payment')
+  @ApiOperation({ summary: 'Enable or disable paying fees with the platform token' })
+  @ApiResponse({ status: 200, description: 'Fee payment setting updated', type: FeePaymentSettingDto })
+  async updateFeePaymentSetting(
+    @Request() req,
+    @Body() feePaymentSettingDto: FeePaymentSettingDto,
+  ): Promise<FeePaymentSettingDto> {
+    return {
+      payFeesWithPlatformToken: await this.feeService.updatePlatformTokenPayment(
+        req.user.id,
+        feePaymentSettingDto.payFeesWithPlatformToken,
+      ),
+    };
+  }
+
+  @Get('settings/stp')
+  @ApiOperation({ summary: 'Get account default self-trade prevention mode' })
+  @ApiResponse({ status: 200, description: 'Current STP mode', type: StpSettingDto })
+  async getStpSetting(@Request() req): Promise<StpSettingDto> {
+    return { stpMode: await this.orderService.getStpMode(req.user.id) };
+  }
+
+  @Put('settings/stp')
+  @ApiOperation({ summary: 'Update account default self-trade prevention mode' })
+  @ApiResponse({ status: 200, description: 'STP mode updated', type: StpSettingDto })
+  async updateStpSetting(
+    @Request() req,
+    @Body() stpSettingDto: StpSettingDto,
+  ): Promise<StpSettingDto> {
+    return { stpMode: await this.orderService.updateStpMode(req.user.id, stpSettingDto.stpMode) };
+  }
+
+  @Patch(':orderId')
+  @ApiOperation({ summary: 'Amend price or quantity of an open order' })
+  @ApiResponse({ status: 200, description: 'Order amended successfully', type: OrderResponseDto })
+  async amendOrder(
+    @Request() req,
+    @Param('orderId') orderId: string,
+    @Body() amendOrderDto: AmendOrderDto,
+  ): Promise<OrderResponseDto> {
+    return this.orderService.amendOrder(req.user.id, orderId, amendOrderDto);
+  }
+
   @Delete(':orderId')
   @ApiOperation({ summary: 'Cancel an order' })
   @ApiResponse({ status: 200, description: 'Order cancelled successfully', type: OrderResponseDto })
@@ -1,7 +1,12 @@
 import { Module } from '@nestjs/common';
 import { OrderController } from './order.controller';
 import { OrderService } from './order.service';
+import { OrderSettlementService } from './services/order-settlement.service';
+import { FeeService } from './services/fee.service';
+import { OrderValidationService } from './services/order-validation.service';
+import { EngineRecoveryService } from './services/engine-recovery.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { MarketModule } from '../market/market.module';
 import { RedisModule } from '@liaoliaots/nestjs-redis';
 import { ConfigModule } from '@nestjs/config';
 import { EventEmitterModule } from '@nestjs/event-emitter';
@@ -9,12 +14,19 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 @Module({
   imports: [
     PrismaModule,
+    MarketModule,
     RedisModule,
     ConfigModule,
     EventEmitterModule.forRoot(),
   ],
   controllers: [OrderController],
-  providers: [OrderService],
+  providers: [
+    OrderService,
+    OrderSettlementService,
+    FeeService,
+    OrderValidationService,
+    EngineRecoveryService,
+  ],
   exports: [OrderService],
 })
 export class OrderModule {}
@@ -12,8 +12,19 @@ import {
   OrderQueryDto,
   OrderUpdateDto,
   OrderMatchDto,
+  AmendOrderDto,
+  BatchOrderResultDto,
+  OrderRejectReason,
+  TimeInForce,
+  SelfTradePreventionMode,
 } from './dto/order.dto';
+import { OrderRejectedError } from './errors/order.error';
 import { OrderMatchingEngine } from './matching/order-matching.engine';
+import { StopOrder } from './matching/stop-order-book';
+import { OrderSettlementService } from './services/order-settlement.service';
+import { OrderValidationService } from './services/order-validation.service';
+import { EngineRecoveryService } from './services/engine-recovery.service';
+import { FixedDecimal } from '../../shared/utils/fixed-decimal';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -21,20 +32,36 @@ import { v4 as uuidv4 } from 'uuid';
 export class OrderService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(OrderService.name);
   private readonly matchingEngines = new Map<string, OrderMatchingEngine>();
+  private snapshotTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private readonly prisma: PrismaService,
     @InjectRedis() private readonly redis: Redis,
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly settlementService: OrderSettlementService,
+    private readonly validationService: OrderValidationService,
+    private readonly engineRecoveryService: EngineRecoveryService,
   ) {}
 
   async onModuleInit() {
     await this.initializeMatchingEngines();
+
+    // 定期为有变化的订单簿写快照，缩短下次启动时需要重放的日志
+    const snapshotInterval = Number(this.configService.get('MATCHING_SNAPSHOT_INTERVAL_MS', 60000));
+    this.snapshotTimer = setInterval(
+      () => this.engineRecoveryService.snapshotChanged(this.matchingEngines),
+      snapshotInterval,
+    );
   }
 
   async onModuleDestroy() {
     // 清理资源
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+    }
+    this.engineRecoveryService.snapshotChanged(this.matchingEngines);
+    this.engineRecoveryService.close();
     this.matchingEngines.clear();
   }
 
@@ -44,11 +71,20 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
         where: { isActive: true },
       });
 
-      for (const pair of tradingPairs) {
-        const engine = new OrderMatchingEngine(pair.symbol);
-        await this.loadExistingOrders(engine, pair.symbol);
-        this.matchingEngines.set(pair.symbol, engine);
-      }
+      await Promise.all(
+        tradingPairs.map(async (pair) => {
+          const engine = this.engineRecoveryService.createEngine(pair.symbol);
+
+          // 优先从快照和日志恢复，失败时以数据库为准重建
+          if (!(await this.engineRecoveryService.recover(engine, pair.symbol))) {
+            engine.clear();
+            await this.loadExistingOrders(engine, pair.symbol);
+          }
+          this.engineRecoveryService.snapshot(engine, pair.symbol);
+
+          this.matchingEngines.set(pair.symbol, engine);
+        }),
+      );
 
       this.logger.log(`Initialized matching engines for ${tradingPairs.length} trading pairs`);
     } catch (error) {
@@ -70,19 +106,58 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
       },
     });
 
+    const lastTrade = await this.prisma.trade.findFirst({
+      where: { symbol },
+      orderBy: { timestamp: 'desc' },
+    });
+    if (lastTrade) {
+      engine.setLastTradePrice(FixedDecimal.from(lastTrade.price));
+    }
+
     for (const order of activeOrders) {
-      engine.addOrder({
+      if (this.isStopOrder(order.type) && !order.triggeredAt) {
+        engine.addStopOrder(this.toStopOrder(order));
+        continue;
+      }
+
+      // 市价单、IOC 和 FOK 单不在订单簿上挂单，停机前未处理完的剩余部分直接失效
+      if (!this.isRestingOrder(order)) {
+        await this.expireOrder(order.id);
+        continue;
+      }
+
+      engine.restoreOrder({
         id: order.id,
         userId: order.userId,
         symbol: order.symbol,
         side: order.side,
         type: order.type,
-        price: order.price,
-        quantity: order.remainingQuantity,
+        price: FixedDecimal.from(order.price),
+        quantity: FixedDecimal.from(order.remainingQuantity),
         timeInForce: order.timeInForce,
-        timestamp: order.createdAt.getTime(),
+        // 改价后的订单按改价时间排队
+        timestamp: (order.queuedAt ?? order.createdAt).getTime(),
       });
     }
+
+    // 买卖挂单价格交叉说明未结束的订单与成交记录不一致，不能带着交叉的订单簿继续撮合
+    if (engine.isCrossed()) {
+      throw new Error(`Restored order book for ${symbol} is crossed, open orders are inconsistent with trades`);
+    }
+  }
+
+  /**
+   * 撮合或结算失败时内存订单簿已领先于数据库：先结束taker订单，再以数据库为准重建订单簿。
+   */
+  private async expireAndRebuild(engine: OrderMatchingEngine, order: any) {
+    const expiredOrder = await this.expireOrder(order.id);
+
+    engine.clear();
+    await this.loadExistingOrders(engine, order.symbol);
+    this.engineRecoveryService.snapshot(engine, order.symbol);
+    this.logger.warn(`Rebuilt matching engine for ${order.symbol} from database`);
+
+    return expiredOrder;
   }
 
   async createOrder(userId: string, createOrderDto: CreateOrderDto): Promise<OrderResponseDto> {
@@ -91,59 +166,298 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
       throw new Error('Trading pair not found');
     }
 
-    // 创建订单记录
-    const order = await this.prisma.order.create({
-      data: {
-        id: uuidv4(),
-        userId,
-        symbol: createOrderDto.symbol,
-        type: createOrderDto.type,
-        side: createOrderDto.side,
-        price: createOrderDto.price || 0,
-        quantity: createOrderDto.quantity,
-        remainingQuantity: createOrderDto.quantity,
-        stopPrice: createOrderDto.stopPrice,
-        timeInForce: createOrderDto.timeInForce,
-        clientOrderId: createOrderDto.clientOrderId,
-        status: OrderStatus.NEW,
-      },
+    if (this.isStopOrder(createOrderDto.type) && !createOrderDto.stopPrice) {
+      throw new Error('Stop price is required for stop orders');
+    }
+
+    if (createOrderDto.type === OrderType.STOP_LIMIT && !createOrderDto.price) {
+      throw new Error('Price is required for stop-limit orders');
+    }
+
+    const timeInForce = createOrderDto.postOnly ? TimeInForce.GTX : createOrderDto.timeInForce;
+    if (
+      timeInForce === TimeInForce.GTX &&
+      createOrderDto.type !== OrderType.LIMIT &&
+      createOrderDto.type !== OrderType.STOP_LIMIT
+    ) {
+      throw new Error('Post-only is only supported for limit orders');
+    }
+
+    const stpMode = createOrderDto.stpMode ?? (await this.getStpMode(userId));
+
+    const quantity = FixedDecimal.from(createOrderDto.quantity);
+    const price = createOrderDto.price ? FixedDecimal.from(createOrderDto.price) : FixedDecimal.ZERO;
+    const stopPrice = createOrderDto.stopPrice ? FixedDecimal.from(createOrderDto.stopPrice) : null;
+
+    // 交易规则校验失败直接拒绝，不落库也不冻结资金
+    await this.validationService.validateOrder({
+      symbol: createOrderDto.symbol,
+      type: createOrderDto.type,
+      price: createOrderDto.price ? price : null,
+      stopPrice,
+      quantity,
+      referencePrice: engine.getLastTradePrice(),
     });
 
-    // 将订单添加到匹配引擎
-    if (order.type === OrderType.LIMIT) {
-      const matches = engine.addOrder({
-        id: order.id,
-        userId: order.userId,
-        symbol: order.symbol,
-        side: order.side,
-        type: order.type,
-        price: order.price,
-        quantity: order.remainingQuantity,
-        timeInForce: order.timeInForce,
-        timestamp: order.createdAt.getTime(),
+    // 创建订单记录并冻结资金
+    const order = await this.prisma.$transaction(async (prisma) => {
+      const createdOrder = await prisma.order.create({
+        data: {
+          id: uuidv4(),
+          userId,
+          symbol: createOrderDto.symbol,
+          type: createOrderDto.type,
+          side: createOrderDto.side,
+          price: price.toString(),
+          quantity: quantity.toString(),
+          remainingQuantity: quantity.toString(),
+          stopPrice: stopPrice?.toString(),
+          timeInForce,
+          stpMode,
+          clientOrderId: createOrderDto.clientOrderId,
+          status: OrderStatus.NEW,
+        },
       });
 
-      // 处理订单匹配
+      await this.settlementService.lockOrderFunds(prisma, createdOrder);
+      return createdOrder;
+    });
+
+    // 发送订单创建事件
+    this.eventEmitter.emit('order.created', order);
+
+    // 将订单添加到匹配引擎
+    let result = order;
+    if (this.isStopOrder(order.type)) {
+      engine.addStopOrder(this.toStopOrder(order));
+    } else {
+      result = await this.executeOrder(engine, order, order.type);
+    }
+
+    // 成交价变化后检查止损单触发
+    await this.processTriggeredStopOrders(engine);
+
+    return this.mapOrderToResponse(result);
+  }
+
+  /**
+   * 将订单提交到撮合引擎并结算撮合结果，返回数据库中订单的最新状态。
+   */
+  private async executeOrder(engine: OrderMatchingEngine, order: any, type: OrderType) {
+    let matches: OrderMatchDto[];
+    try {
+      matches = this.submitToEngine(engine, order, type);
+    } catch (error) {
+      if (error instanceof OrderRejectedError) {
+        return this.rejectOrder(order.id, error.reason);
+      }
+
+      // 引擎可能已在抛错前修改了订单簿
+      this.logger.error(`Failed to match order ${order.id}: ${error.message}`);
+      return this.expireAndRebuild(engine, order);
+    }
+
+    // 处理订单匹配
+    try {
       if (matches.length > 0) {
         await this.processMatches(matches);
       }
-    } else if (order.type === OrderType.MARKET) {
-      const matches = engine.executeMarketOrder({
+    } catch (error) {
+      this.logger.error(`Failed to settle matches for order ${order.id}: ${error.message}`);
+      return this.expireAndRebuild(engine, order);
+    }
+    await this.processStpCancels(engine);
+
+    // IOC/FOK及市价单未成交部分不会进入订单簿
+    const current = await this.prisma.order.findUnique({ where: { id: order.id } });
+    if (this.isOpen(current) && !engine.hasOrder(order.id)) {
+      return this.expireOrder(order.id);
+    }
+    return current;
+  }
+
+  /**
+   * 批量下单：逐笔按单笔下单流程处理，单笔失败不影响其余订单。
+   */
+  async createOrders(userId: string, createOrderDtos: CreateOrderDto[]): Promise<BatchOrderResultDto[]> {
+    const results: BatchOrderResultDto[] = [];
+
+    for (const [index, createOrderDto] of createOrderDtos.entries()) {
+      try {
+        const order = await this.createOrder(userId, createOrderDto);
+        results.push({ index, success: true, order });
+      } catch (error) {
+        results.push({ index, success: false, code: error.code, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  private submitToEngine(engine: OrderMatchingEngine, order: any, type: OrderType): OrderMatchDto[] {
+    if (type === OrderType.MARKET) {
+      return engine.executeMarketOrder({
         id: order.id,
         userId: order.userId,
         symbol: order.symbol,
         side: order.side,
-        quantity: order.quantity,
+        quantity: FixedDecimal.from(order.remainingQuantity),
+        stpMode: order.stpMode,
         timestamp: order.createdAt.getTime(),
       });
+    }
+
+    return engine.addOrder({
+      id: order.id,
+      userId: order.userId,
+      symbol: order.symbol,
+      side: order.side,
+      type,
+      price: FixedDecimal.from(order.price),
+      quantity: FixedDecimal.from(order.remainingQuantity),
+      timeInForce: order.timeInForce,
+      stpMode: order.stpMode,
+      timestamp: order.createdAt.getTime(),
+    });
+  }
+
+  /**
+   * 将撮合引擎中因自成交保护被撤销/减少的订单同步到数据库，并发送 order.stp_canceled 事件。
+   */
+  private async processStpCancels(engine: OrderMatchingEngine) {
+    for (const stpCancel of engine.takeStpCancels()) {
+      const order = await this.prisma.$transaction(async (prisma) => {
+        const current = await prisma.order.findUnique({
+          where: { id: stpCancel.orderId },
+        });
+        const remainingQuantity = FixedDecimal.from(current.remainingQuantity).minus(stpCancel.canceledQuantity);
+
+        await this.settlementService.releaseOrderFunds(prisma, current, stpCancel.canceledQuantity);
+        return prisma.order.update({
+          where: { id: stpCancel.orderId },
+          data: {
+            remainingQuantity: remainingQuantity.toString(),
+            status: remainingQuantity.isPositive() ? current.status : OrderStatus.CANCELED,
+            updatedAt: stpCancel.timestamp,
+          },
+        });
+      });
 
-      await this.processMatches(matches);
+      this.eventEmitter.emit('order.stp_canceled', { ...stpCancel, order });
     }
+  }
 
-    // 发送订单创建事件
-    this.eventEmitter.emit('order.created', order);
+  async getStpMode(userId: string): Promise<SelfTradePreventionMode> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { stpMode: true },
+    });
 
-    return this.mapOrderToResponse(order);
+    return (user?.stpMode as SelfTradePreventionMode) ?? SelfTradePreventionMode.NONE;
+  }
+
+  async updateStpMode(userId: string, stpMode: SelfTradePreventionMode): Promise<SelfTradePreventionMode> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { stpMode },
+    });
+
+    return stpMode;
+  }
+
+  /**
+   * 循环处理被最新成交价触发的止损单：触发单成交后可能继续推动价格，
+   * 因此需要反复检查直到没有新的触发。
+   */
+  private async processTriggeredStopOrders(engine: OrderMatchingEngine) {
+    let triggered = engine.takeTriggeredStopOrders();
+
+    while (triggered.length > 0) {
+      for (const stopOrder of triggered) {
+        const order = await this.prisma.order.update({
+          where: { id: stopOrder.id },
+          data: {
+            triggeredAt: new Date(),
+            updatedAt: new Date(),
+          },
+        });
+
+        this.eventEmitter.emit('order.triggered', order);
+
+        const type = stopOrder.type === OrderType.STOP_MARKET ? OrderType.MARKET : OrderType.LIMIT;
+        try {
+          await this.executeOrder(engine, order, type);
+        } catch (error) {
+          this.logger.error(`Failed to execute triggered order ${stopOrder.id}: ${error.message}`);
+        }
+      }
+
+      triggered = engine.takeTriggeredStopOrders();
+    }
+  }
+
+  private async rejectOrder(orderId: string, reason: OrderRejectReason) {
+    const rejectedOrder = await this.closeOrder(orderId, {
+      status: OrderStatus.REJECTED,
+      rejectReason: reason,
+    });
+
+    this.eventEmitter.emit('order.updated', rejectedOrder);
+    return rejectedOrder;
+  }
+
+  private async expireOrder(orderId: string) {
+    const expiredOrder = await this.closeOrder(orderId, { status: OrderStatus.EXPIRED });
+
+    this.eventEmitter.emit('order.updated', expiredOrder);
+    return expiredOrder;
+  }
+
+  /**
+   * 结束订单并在同一事务中释放未成交部分的冻结资金。
+   */
+  private async closeOrder(orderId: string, data: Record<string, any>) {
+    return this.prisma.$transaction(async (prisma) => {
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      await this.settlementService.releaseOrderFunds(prisma, order, order.remainingQuantity);
+
+      return prisma.order.update({
+        where: { id: orderId },
+        data: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      });
+    });
+  }
+
+  private isOpen(order: any): boolean {
+    return order.status === OrderStatus.NEW || order.status === OrderStatus.PARTIALLY_FILLED;
+  }
+
+  // 限价单和触发后的止损限价单可以挂单，市价单、触发后的止损市价单和 IOC、FOK 单都不挂单
+  private isRestingOrder(order: any): boolean {
+    const isLimit = order.type === OrderType.LIMIT || order.type === OrderType.STOP_LIMIT;
+    return isLimit && order.timeInForce !== TimeInForce.IOC && order.timeInForce !== TimeInForce.FOK;
+  }
+
+  private isStopOrder(type: OrderType): boolean {
+    return type === OrderType.STOP_LIMIT || type === OrderType.STOP_MARKET;
+  }
+
+  private toStopOrder(order: any): StopOrder {
+    return {
+      id: order.id,
+      userId: order.userId,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      price: FixedDecimal.from(order.price),
+      stopPrice: FixedDecimal.from(order.stopPrice),
+      quantity: FixedDecimal.from(order.remainingQuantity),
+      timeInForce: order.timeInForce,
+      timestamp: order.createdAt.getTime(),
+    };
   }
 
   async cancelOrder(userId: string, orderId: string): Promise<OrderResponseDto> {
@@ -155,7 +469,7 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
       throw new Error('Order not found');
     }
 
-    if (order.status !== OrderStatus.NEW && order.status !== OrderStatus.PARTIALLY_FILLED) {
+    if (!this.isOpen(order)) {
       throw new Error('Order cannot be canceled');
     }
 
@@ -167,14 +481,8 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
     // 从匹配引擎中移除订单
     engine.cancelOrder(orderId);
 
-    // 更新订单状态
-    const canceledOrder = await this.prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: OrderStatus.CANCELED,
-        updatedAt: new Date(),
-      },
-    });
+    // 更新订单状态并释放冻结资金
+    const canceledOrder = await this.closeOrder(orderId, { status: OrderStatus.CANCELED });
 
     // 发送订单取消事件
     this.eventEmitter.emit('order.canceled', canceledOrder);
@@ -182,6 +490,137 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
     return this.mapOrderToResponse(canceledOrder);
   }
 
+  /**
+   * 撤销用户在某交易对上的全部挂单（含未触发的止损单），在一个事务内释放冻结资金。
+   */
+  async cancelAllOrders(userId: string, symbol: string): Promise<OrderResponseDto[]> {
+    const engine = this.matchingEngines.get(symbol);
+    if (!engine) {
+      throw new Error('Trading pair not found');
+    }
+
+    const openOrders = await this.prisma.order.findMany({
+      where: {
+        userId,
+        symbol,
+        status: {
+          in: [OrderStatus.NEW, OrderStatus.PARTIALLY_FILLED],
+        },
+      },
+    });
+
+    // 从匹配引擎中移除订单
+    for (const order of openOrders) {
+      engine.cancelOrder(order.id);
+    }
+
+    const canceledOrders = await this.prisma.$transaction(async (prisma) => {
+      const updatedOrders = [];
+      for (const order of openOrders) {
+        await this.settlementService.releaseOrderFunds(prisma, order, order.remainingQuantity);
+        updatedOrders.push(
+          await prisma.order.update({
+            where: { id: order.id },
+            data: {
+              status: OrderStatus.CANCELED,
+              updatedAt: new Date(),
+            },
+          }),
+        );
+      }
+      return updatedOrders;
+    });
+
+    for (const canceledOrder of canceledOrders) {
+      this.eventEmitter.emit('order.canceled', canceledOrder);
+    }
+
+    return canceledOrders.map(order => this.mapOrderToResponse(order));
+  }
+
+  async amendOrder(userId: string, orderId: string, amendOrderDto: AmendOrderDto): Promise<OrderResponseDto> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order || order.userId !== userId) {
+      throw new Error('Order not found');
+    }
+
+    if (!this.isOpen(order)) {
+      throw new Error('Order cannot be amended');
+    }
+
+    const engine = this.matchingEngines.get(order.symbol);
+    if (!engine) {
+      throw new Error('Trading pair not found');
+    }
+
+    // 只有已挂在订单簿中的限价单可以修改
+    if (!engine.hasOrder(orderId) || (this.isStopOrder(order.type) && !order.triggeredAt)) {
+      throw new Error('Only resting limit orders can be amended');
+    }
+
+    const price = FixedDecimal.from(amendOrderDto.price ?? order.price);
+    const quantity = FixedDecimal.from(amendOrderDto.quantity ?? order.quantity);
+    await this.validationService.validateOrder({
+      symbol: order.symbol,
+      type: OrderType.LIMIT,
+      price,
+      quantity,
+    });
+
+    const remainingQuantity = quantity.minus(order.filledQuantity);
+    if (!remainingQuantity.isPositive()) {
+      throw new Error('Amended quantity must be greater than filled quantity');
+    }
+
+    if (order.timeInForce === TimeInForce.GTX && engine.wouldCross(order.side, price)) {
+      throw new OrderRejectedError(
+        OrderRejectReason.POST_ONLY_WOULD_TAKE,
+        `Post-only order ${orderId} would take liquidity at ${price}`,
+      );
+    }
+
+    // 仅减少数量时保留排队优先级，改价或加量重新排队
+    const keepsPriority = price.eq(order.price) && remainingQuantity.lte(order.remainingQuantity);
+    const queuedAt = keepsPriority ? order.queuedAt ?? order.createdAt : new Date();
+
+    // 先按新价格和数量调整冻结资金，余额不足时不改动订单簿
+    const amendedOrder = await this.prisma.$transaction(async (prisma) => {
+      await this.settlementService.releaseOrderFunds(prisma, order, order.remainingQuantity);
+      const updatedOrder = await prisma.order.update({
+        where: { id: orderId },
+        data: {
+          price: price.toString(),
+          quantity: quantity.toString(),
+          remainingQuantity: remainingQuantity.toString(),
+          queuedAt,
+          updatedAt: new Date(),
+        },
+      });
+      await this.settlementService.lockOrderFunds(prisma, updatedOrder, remainingQuantity);
+      return updatedOrder;
+    });
+
+    this.eventEmitter.emit('order.updated', amendedOrder);
+
+    const matches = engine.amendOrder(orderId, price, remainingQuantity, queuedAt.getTime());
+    if (matches.length > 0) {
+      try {
+        await this.processMatches(matches);
+      } catch (error) {
+        this.logger.error(`Failed to settle matches for amended order ${orderId}: ${error.message}`);
+        return this.mapOrderToResponse(await this.expireAndRebuild(engine, amendedOrder));
+      }
+    }
+    await this.processStpCancels(engine);
+    await this.processTriggeredStopOrders(engine);
+
+    const result = await this.prisma.order.findUnique({ where: { id: orderId } });
+    return this.mapOrderToResponse(result);
+  }
+
   async getOrder(userId: string, orderId: string): Promise<OrderResponseDto> {
     const order = await this.prisma.order.findUnique({
       where: { id: orderId },
@@ -215,63 +654,74 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
     return orders.map(order => this.mapOrderToResponse(order));
   }
 
+  /**
+   * 在一个数据库事务内结算一批撮合结果：更新maker/taker成交数量、写入成交记录并划转双方资产。
+   * 要么整批提交，要么整批回滚，数据库中的挂单始终与已写入的成交记录一致。
+   */
   private async processMatches(matches: OrderMatchDto[]) {
-    for (const match of matches) {
-      try {
-        await this.prisma.$transaction(async (prisma) => {
-          // 更新maker订单
-          const makerOrder = await prisma.order.update({
-            where: { id: match.makerOrderId },
-            data: {
-              filledQuantity: { increment: match.quantity },
-              remainingQuantity: { decrement: match.quantity },
-              status: this.getUpdatedOrderStatus(match.quantity),
-              lastFilledPrice: match.price,
-              lastFilledQuantity: match.quantity,
-              updatedAt: match.timestamp,
-            },
-          });
+    const updatedOrders = await this.prisma.$transaction(async (prisma) => {
+      const orders = new Map<string, any>();
+
+      for (const match of matches) {
+        // 更新maker和taker订单
+        const makerOrder = await this.applyFill(prisma, match.makerOrderId, match);
+        const takerOrder = await this.applyFill(prisma, match.takerOrderId, match);
+
+        // 划转双方资产并扣收手续费
+        const makerFee = await this.settlementService.settleFill(prisma, makerOrder, match, true);
+        const takerFee = await this.settlementService.settleFill(prisma, takerOrder, match, false);
+
+        // 创建交易记录
+        await prisma.trade.create({
+          data: {
+            symbol: makerOrder.symbol,
+            price: match.price.toString(),
+            quantity: match.quantity.toString(),
+            quoteQuantity: match.price.times(match.quantity).toString(),
+            makerOrderId: match.makerOrderId,
+            takerOrderId: match.takerOrderId,
+            makerUserId: makerOrder.userId,
+            takerUserId: takerOrder.userId,
+            makerFee: makerFee.amount.toString(),
+            makerFeeAsset: makerFee.asset,
+            takerFee: takerFee.amount.toString(),
+            takerFeeAsset: takerFee.asset,
+            timestamp: match.timestamp,
+          },
+        });
 
-          // 更新taker订单
-          const takerOrder = await prisma.order.update({
-            where: { id: match.takerOrderId },
-            data: {
-              filledQuantity: { increment: match.quantity },
-              remainingQuantity: { decrement: match.quantity },
-              status: this.getUpdatedOrderStatus(match.quantity),
-              lastFilledPrice: match.price,
-              lastFilledQuantity: match.quantity,
-              updatedAt: match.timestamp,
-            },
-          });
+        orders.set(makerOrder.id, makerOrder);
+        orders.set(takerOrder.id, takerOrder);
+      }
 
-          // 创建交易记录
-          await prisma.trade.create({
-            data: {
-              symbol: makerOrder.symbol,
-              price: match.price,
-              quantity: match.quantity,
-              makerOrderId: match.makerOrderId,
-              takerOrderId: match.takerOrderId,
-              makerUserId: makerOrder.userId,
-              takerUserId: takerOrder.userId,
-              timestamp: match.timestamp,
-            },
-          });
+      return [...orders.values()];
+    });
 
-          // 发送订单更新事件
-          this.eventEmitter.emit('order.updated', makerOrder);
-          this.eventEmitter.emit('order.updated', takerOrder);
-        });
-      } catch (error) {
-        this.logger.error(`Failed to process match: ${error.message}`, error);
-        throw error;
-      }
+    // 事务提交后再发送订单更新事件
+    for (const order of updatedOrders) {
+      this.eventEmitter.emit('order.updated', order);
     }
   }
 
-  private getUpdatedOrderStatus(remainingQuantity: number): OrderStatus {
-    return remainingQuantity === 0 ? OrderStatus.FILLED : OrderStatus.PARTIALLY_FILLED;
+  private async applyFill(prisma: any, orderId: string, match: OrderMatchDto) {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    const remainingQuantity = FixedDecimal.from(order.remainingQuantity).minus(match.quantity);
+
+    return prisma.order.update({
+      where: { id: orderId },
+      data: {
+        filledQuantity: FixedDecimal.from(order.filledQuantity).plus(match.quantity).toString(),
+        remainingQuantity: remainingQuantity.toString(),
+        status: this.getUpdatedOrderStatus(remainingQuantity),
+        lastFilledPrice: match.price.toString(),
+        lastFilledQuantity: match.quantity.toString(),
+        updatedAt: match.timestamp,
+      },
+    });
+  }
+
+  private getUpdatedOrderStatus(remainingQuantity: FixedDecimal): OrderStatus {
+    return remainingQuantity.isPositive() ? OrderStatus.PARTIALLY_FILLED : OrderStatus.FILLED;
   }
 
   private mapOrderToResponse(order: any): OrderResponseDto {
@@ -282,13 +732,15 @@ export class OrderService implements OnModuleInit, OnModuleDestroy {
       type: order.type,
       side: order.side,
       status: order.status,
-      price: order.price,
-      quantity: order.quantity,
-      filledQuantity: order.filledQuantity,
-      remainingQuantity: order.remainingQuantity,
-      stopPrice: order.stopPrice,
+      price: FixedDecimal.from(order.price).toString(),
+      quantity: FixedDecimal.from(order.quantity).toString(),
+      filledQuantity: FixedDecimal.from(order.filledQuantity).toString(),
+      remainingQuantity: FixedDecimal.from(order.remainingQuantity).toString(),
+      stopPrice: order.stopPrice ? FixedDecimal.from(order.stopPrice).toString() : undefined,
       timeInForce: order.timeInForce,
       clientOrderId: order.clientOrderId,
+      rejectReason: order.rejectReason,
+      triggeredAt: order.triggeredAt,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
     };
@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { OrderStatus, OrderType } from '../dto/order.dto';
+import { FileEngineJournal } from '../matching/engine-journal';
+import { OrderMatchingEngine } from '../matching/order-matching.engine';
+import { EngineState } from '../types/engine-journal.types';
+
+/**
+ * 撮合引擎的快照与命令日志管理：启动时从最新快照加日志尾部恢复订单簿，
+ * 并用挂单校验和与数据库比对，不一致时由调用方改为从数据库重建。
+ */
+@Injectable()
+export class EngineRecoveryService {
+  private readonly logger = new Logger(EngineRecoveryService.name);
+  private readonly journals = new Map<string, FileEngineJournal>();
+  private readonly dataDir: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.dataDir = this.configService.get('MATCHING_ENGINE_DATA_DIR', 'data/matching-engine');
+  }
+
+  /**
+   * 创建挂接了命令日志的撮合引擎。
+   */
+  createEngine(symbol: string): OrderMatchingEngine {
+    let journal = this.journals.get(symbol);
+    if (!journal) {
+      journal = new FileEngineJournal(this.dataDir, symbol);
+      this.journals.set(symbol, journal);
+    }
+    return new OrderMatchingEngine(symbol, journal);
+  }
+
+  /**
+   * 加载快照并重放日志，校验通过返回 true。没有快照或校验失败时返回 false，引擎状态不可用。
+   */
+  async recover(engine: OrderMatchingEngine, symbol: string): Promise<boolean> {
+    const journal = this.journals.get(symbol);
+    const snapshot = journal?.readSnapshot();
+    if (!snapshot) {
+      return false;
+    }
+
+    engine.importState(snapshot.state);
+    const entries = journal.readEntries(snapshot.seq);
+    for (const entry of entries) {
+      engine.replay(entry.command);
+    }
+
+    const engineChecksum = this.getEngineChecksum(engine.exportState());
+    const databaseChecksum = await this.getDatabaseChecksum(symbol);
+    if (engineChecksum !== databaseChecksum) {
+      this.logger.error(
+        `Recovered order book for ${symbol} does not match the database ` +
+          `(engine ${engineChecksum}, database ${databaseChecksum})`,
+      );
+      return false;
+    }
+
+    this.logger.log(`Recovered ${symbol} from snapshot #${snapshot.seq} and ${entries.length} journal entries`);
+    return true;
+  }
+
+  snapshot(engine: OrderMatchingEngine, symbol: string): void {
+    const journal = this.journals.get(symbol);
+    if (!journal) {
+      return;
+    }
+    journal.writeSnapshot(engine.exportState());
+  }
+
+  /**
+   * 只为自上次快照以来有新日志的引擎写快照。
+   */
+  snapshotChanged(engines: Map<string, OrderMatchingEngine>): void {
+    for (const [symbol, engine] of engines) {
+      const journal = this.journals.get(symbol);
+      if (!journal || journal.getEntriesSinceSnapshot() === 0) {
+        continue;
+      }
+
+      try {
+        journal.writeSnapshot(engine.exportState());
+      } catch (error) {
+        this.logger.error(`Failed to write snapshot for ${symbol}: ${error.message}`);
+      }
+    }
+  }
+
+  close(): void {
+    for (const journal of this.journals.values()) {
+      journal.close();
+    }
+    this.journals.clear();
+  }
+
+  /**
+   * 挂单校验和：订单簿中的订单按 id、价格、剩余数量计算，未触发的止损单按触发价计算。
+   */
+  getEngineChecksum(state: EngineState): string {
+    const lines = [
+      ...[...state.bids, ...state.asks].map(order => this.checksumLine(order.id, order.price, order.quantity)),
+      ...state.stopOrders.map(order => this.checksumLine(order.id, order.stopPrice, order.quantity, true)),
+    ];
+    return this.hash(lines);
+  }
+
+  async getDatabaseChecksum(symbol: string): Promise<string> {
+    const openOrders = await this.prisma.order.findMany({
+      where: {
+        symbol,
+        status: {
+          in: [OrderStatus.NEW, OrderStatus.PARTIALLY_FILLED],
+        },
+      },
+      select: {
+        id: true,
+        type: true,
+        price: true,
+        stopPrice: true,
+        remainingQty: true,
+        triggeredAt: true,
+      },
+    });
+
+    const lines = openOrders.map(order => {
+      const isPendingStop =
+        (order.type === OrderType.STOP_LIMIT || order.type === OrderType.STOP_MARKET) && !order.triggeredAt;
+      return isPendingStop
+        ? this.checksumLine(order.id, order.stopPrice, order.remainingQty, true)
+        : this.checksumLine(order.id, order.price, order.remainingQty);
+    });
+    return this.hash(lines);
+  }
+
+  private checksumLine(id: string, price: string, quantity: string, isStop = false): string {
+    const prefix = isStop ? 'STOP:' : '';
+    return `${prefix}${id}:${FixedDecimal.from(price)}:${FixedDecimal.from(quantity)}`;
+  }
+
+  private hash(lines: string[]): string {
+    return createHash('sha256').update(lines.sort().join('\n')).digest('hex');
+  }
+}
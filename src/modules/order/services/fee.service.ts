@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal, RoundingMode } from '../../../shared/utils/fixed-decimal';
+import { FEE_TIERS, FEE_VOLUME_WINDOW_DAYS, FeeCharge, FeeRates, FeeTier } from '../types/fee.types';
+import { FeeTierResponseDto } from '../dto/fee.dto';
+
+interface CachedTier {
+  tier: FeeTier;
+  volume: number;
+  expiresAt: number;
+}
+
+interface FeeChargeParams {
+  userId: string;
+  symbol: string;
+  isMaker: boolean;
+  // 用户本次成交收到的币种和数量，默认从中扣除手续费
+  receivedAsset: string;
+  receivedAmount: FixedDecimal;
+  quoteAsset: string;
+  notional: FixedDecimal;
+}
+
+@Injectable()
+export class FeeService {
+  private readonly TIER_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+  private readonly tierCache = new Map<string, CachedTier>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getPairFeeRates(symbol: string): Promise<FeeRates> {
+    const tradingPair = await this.prisma.tradingPair.findUnique({
+      where: { symbol },
+    });
+
+    return {
+      makerRate: FixedDecimal.from(tradingPair?.makerFeeRate ?? this.configService.get('SPOT_MAKER_FEE_RATE', '0.001')),
+      takerRate: FixedDecimal.from(tradingPair?.takerFeeRate ?? this.configService.get('SPOT_TAKER_FEE_RATE', '0.001')),
+    };
+  }
+
+  /**
+   * 统计用户30日滚动成交额（maker与taker双边，按计价币计）。
+   * quoteQuantity 以十进制字符串存储，数据库无法直接求和，取出后用定点数累加。
+   */
+  async getRollingVolume(userId: string): Promise<number> {
+    const since = new Date(Date.now() - FEE_VOLUME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const trades = await this.prisma.trade.findMany({
+      where: {
+        OR: [{ makerUserId: userId }, { takerUserId: userId }],
+        createdAt: { gte: since },
+      },
+      select: { quoteQuantity: true, makerUserId: true, takerUserId: true },
+    });
+
+    // 自成交时用户同时是maker和taker，双边各计一次
+    const volume = FixedDecimal.sum(
+      trades.flatMap(trade => {
+        const quantity = trade.quoteQuantity ?? '0';
+        return trade.makerUserId === trade.takerUserId ? [quantity, quantity] : [quantity];
+      }),
+    );
+
+    return volume.toNumber();
+  }
+
+  async getUserTier(userId: string): Promise<{ tier: FeeTier; volume: number }> {
+    // 费率等级按成交额缓慢变化，结算时每笔成交都会查询，缓存一段时间
+    const cached = this.tierCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { tier: cached.tier, volume: cached.volume };
+    }
+
+    const volume = await this.getRollingVolume(userId);
+    const tier = [...FEE_TIERS].reverse().find(t => volume >= t.minVolume) ?? FEE_TIERS[0];
+    this.tierCache.set(userId, { tier, volume, expiresAt: Date.now() + this.TIER_CACHE_TTL });
+
+    return { tier, volume };
+  }
+
+  async getFeeTierSummary(userId: string, symbol?: string): Promise<FeeTierResponseDto> {
+    const { tier, volume } = await this.getUserTier(userId);
+    const nextTier = FEE_TIERS.find(t => t.level === tier.level + 1);
+
+    const summary: FeeTierResponseDto = {
+      level: tier.level,
+      thirtyDayVolume: volume,
+      makerRateMultiplier: tier.makerRateMultiplier,
+      takerRateMultiplier: tier.takerRateMultiplier,
+      nextTierVolume: nextTier?.minVolume,
+    };
+
+    if (symbol) {
+      const rates = await this.getEffectiveRates(userId, symbol);
+      summary.makerRate = rates.makerRate.toString();
+      summary.takerRate = rates.takerRate.toString();
+    }
+
+    return summary;
+  }
+
+  async updatePlatformTokenPayment(userId: string, enabled: boolean): Promise<boolean> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { payFeesWithPlatformToken: enabled },
+    });
+
+    return enabled;
+  }
+
+  async getEffectiveRates(userId: string, symbol: string): Promise<FeeRates> {
+    const [pairRates, { tier }] = await Promise.all([
+      this.getPairFeeRates(symbol),
+      this.getUserTier(userId),
+    ]);
+
+    return {
+      makerRate: pairRates.makerRate.times(tier.makerRateMultiplier),
+      takerRate: pairRates.takerRate.times(tier.takerRateMultiplier),
+    };
+  }
+
+  /**
+   * 计算并扣收单边手续费，扣收的手续费记入平台手续费账户。
+   * 用户开启平台币抵扣且余额充足时按折扣改用平台币支付，否则从收到的币种中扣除，
+   * 此时由调用方少记入对应数量。
+   */
+  async chargeFee(prisma: Prisma.TransactionClient, params: FeeChargeParams): Promise<FeeCharge> {
+    const rates = await this.getEffectiveRates(params.userId, params.symbol);
+    const rate = params.isMaker ? rates.makerRate : rates.takerRate;
+
+    if (!rate.isPositive()) {
+      return { asset: params.receivedAsset, amount: FixedDecimal.ZERO, rate, paidWithPlatformToken: false };
+    }
+
+    const tokenCharge = await this.chargeInPlatformToken(prisma, params, rate);
+    if (tokenCharge) {
+      return tokenCharge;
+    }
+
+    // 手续费向上取整，避免截断后少收
+    const amount = params.receivedAmount.times(rate, RoundingMode.UP);
+    await this.creditFeeAccount(prisma, params.receivedAsset, amount);
+    return { asset: params.receivedAsset, amount, rate, paidWithPlatformToken: false };
+  }
+
+  private async chargeInPlatformToken(
+    prisma: Prisma.TransactionClient,
+    params: FeeChargeParams,
+    rate: FixedDecimal,
+  ): Promise<FeeCharge | null> {
+    const token = this.configService.get<string>('PLATFORM_TOKEN');
+    if (!token) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId },
+      select: { payFeesWithPlatformToken: true },
+    });
+    if (!user?.payFeesWithPlatformToken) {
+      return null;
+    }
+
+    // 平台币价格取平台币/计价币交易对的最新成交价
+    const lastTrade = await prisma.trade.findFirst({
+      where: { symbol: `${token}-${params.quoteAsset}` },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!lastTrade || !FixedDecimal.from(lastTrade.price).isPositive()) {
+      return null;
+    }
+
+    const discountedRate = rate.times(
+      FixedDecimal.from(1).minus(this.configService.get('PLATFORM_TOKEN_FEE_DISCOUNT', '0.25')),
+    );
+    const amount = params.notional.times(discountedRate).div(lastTrade.price, RoundingMode.UP);
+
+    const asset = await prisma.asset.findUnique({
+      where: { userId_currency: { userId: params.userId, currency: token } },
+    });
+    if (!asset || FixedDecimal.from(asset.available).lt(amount)) {
+      return null;
+    }
+
+    await prisma.asset.update({
+      where: { userId_currency: { userId: params.userId, currency: token } },
+      data: { available: { decrement: amount.toPrismaDecimal() } },
+    });
+    await this.creditFeeAccount(prisma, token, amount);
+
+    return { asset: token, amount, rate: discountedRate, paidWithPlatformToken: true };
+  }
+
+  private async creditFeeAccount(prisma: Prisma.TransactionClient, currency: string, amount: FixedDecimal) {
+    const feeAccountId = this.configService.get<string>('PLATFORM_FEE_ACCOUNT_ID');
+    if (!feeAccountId) {
+      throw new Error('Platform fee account is not configured');
+    }
+
+    await prisma.asset.upsert({
+      where: { userId_currency: { userId: feeAccountId, currency } },
+      create: {
+        userId: feeAccountId,
+        currency,
+        available: amount.toPrismaDecimal(),
+        locked: 0,
+      },
+      update: {
+        available: { increment: amount.toPrismaDecimal() },
+      },
+    });
+  }
+}
@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OrderMatchDto, OrderSide, OrderType } from '../dto/order.dto';
+import { FeeCharge } from '../types/fee.types';
+import { FeeService } from './fee.service';
+import { DecimalValue, FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+interface TradingPairAssets {
+  baseAsset: string;
+  quoteAsset: string;
+}
+
+/**
+ * 现货订单的资金冻结、解冻与成交结算。
+ * 所有方法都接收事务客户端，由调用方决定事务边界。
+ */
+@Injectable()
+export class OrderSettlementService {
+  private readonly tradingPairs = new Map<string, TradingPairAssets>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly feeService: FeeService,
+  ) {}
+
+  async getTradingPair(symbol: string): Promise<TradingPairAssets> {
+    let pair = this.tradingPairs.get(symbol);
+    if (!pair) {
+      const tradingPair = await this.prisma.tradingPair.findUnique({
+        where: { symbol },
+      });
+      if (!tradingPair) {
+        throw new Error('Trading pair not found');
+      }
+
+      pair = { baseAsset: tradingPair.baseAsset, quoteAsset: tradingPair.quoteAsset };
+      this.tradingPairs.set(symbol, pair);
+    }
+    return pair;
+  }
+
+  /**
+   * 限价类订单下单时冻结资金：买单冻结 价格×数量 的计价币，卖单冻结数量对应的基础币。
+   * 市价类订单不冻结，成交时直接从可用余额扣除。
+   */
+  async lockOrderFunds(
+    prisma: Prisma.TransactionClient,
+    order: any,
+    quantity: DecimalValue = order.quantity,
+  ): Promise<void> {
+    if (!this.usesLockedFunds(order)) {
+      return;
+    }
+
+    const { currency, amount } = await this.getLockedAmount(order, FixedDecimal.from(quantity));
+    const asset = await prisma.asset.findUnique({
+      where: { userId_currency: { userId: order.userId, currency } },
+    });
+
+    if (!asset || FixedDecimal.from(asset.available).lt(amount)) {
+      throw new Error('Insufficient balance');
+    }
+
+    await prisma.asset.update({
+      where: { userId_currency: { userId: order.userId, currency } },
+      data: {
+        available: { decrement: amount.toPrismaDecimal() },
+        locked: { increment: amount.toPrismaDecimal() },
+      },
+    });
+  }
+
+  /**
+   * 撤单、过期、拒绝或自成交保护时释放未成交部分的冻结资金。
+   */
+  async releaseOrderFunds(prisma: Prisma.TransactionClient, order: any, quantity: DecimalValue): Promise<void> {
+    const releasedQuantity = FixedDecimal.from(quantity);
+    if (!this.usesLockedFunds(order) || !releasedQuantity.isPositive()) {
+      return;
+    }
+
+    const { currency, amount } = await this.getLockedAmount(order, releasedQuantity);
+    await prisma.asset.update({
+      where: { userId_currency: { userId: order.userId, currency } },
+      data: {
+        available: { increment: amount.toPrismaDecimal() },
+        locked: { decrement: amount.toPrismaDecimal() },
+      },
+    });
+  }
+
+  /**
+   * 结算单笔成交中一方的资产变动：支付方从冻结（或可用）余额扣款，收款方扣除手续费后增加可用余额。
+   */
+  async settleFill(
+    prisma: Prisma.TransactionClient,
+    order: any,
+    match: OrderMatchDto,
+    isMaker: boolean,
+  ): Promise<FeeCharge> {
+    const { baseAsset, quoteAsset } = await this.getTradingPair(order.symbol);
+    const notional = match.price.times(match.quantity);
+
+    let receivedAsset: string;
+    let receivedAmount: FixedDecimal;
+
+    if (order.side === OrderSide.BUY) {
+      if (this.usesLockedFunds(order)) {
+        // 按委托价冻结、按成交价结算，差额退回可用余额
+        const lockedAmount = match.quantity.times(order.price);
+        await this.updateAsset(prisma, order.userId, quoteAsset, {
+          locked: { decrement: lockedAmount.toPrismaDecimal() },
+          available: { increment: lockedAmount.minus(notional).toPrismaDecimal() },
+        });
+      } else {
+        await this.debitAvailable(prisma, order.userId, quoteAsset, notional);
+      }
+      receivedAsset = baseAsset;
+      receivedAmount = match.quantity;
+    } else {
+      if (this.usesLockedFunds(order)) {
+        await this.updateAsset(prisma, order.userId, baseAsset, {
+          locked: { decrement: match.quantity.toPrismaDecimal() },
+        });
+      } else {
+        await this.debitAvailable(prisma, order.userId, baseAsset, match.quantity);
+      }
+      receivedAsset = quoteAsset;
+      receivedAmount = notional;
+    }
+
+    const fee = await this.feeService.chargeFee(prisma, {
+      userId: order.userId,
+      symbol: order.symbol,
+      isMaker,
+      receivedAsset,
+      receivedAmount,
+      quoteAsset,
+      notional,
+    });
+
+    const feeFromReceived = fee.paidWithPlatformToken ? FixedDecimal.ZERO : fee.amount;
+    await this.creditAvailable(prisma, order.userId, receivedAsset, receivedAmount.minus(feeFromReceived));
+
+    return fee;
+  }
+
+  private usesLockedFunds(order: any): boolean {
+    return order.type === OrderType.LIMIT || order.type === OrderType.STOP_LIMIT;
+  }
+
+  private async getLockedAmount(order: any, quantity: FixedDecimal) {
+    const { baseAsset, quoteAsset } = await this.getTradingPair(order.symbol);
+    return order.side === OrderSide.BUY
+      ? { currency: quoteAsset, amount: quantity.times(order.price) }
+      : { currency: baseAsset, amount: quantity };
+  }
+
+  private async debitAvailable(
+    prisma: Prisma.TransactionClient,
+    userId: string,
+    currency: string,
+    amount: FixedDecimal,
+  ): Promise<void> {
+    const asset = await prisma.asset.findUnique({
+      where: { userId_currency: { userId, currency } },
+    });
+
+    if (!asset || FixedDecimal.from(asset.available).lt(amount)) {
+      throw new Error('Insufficient balance');
+    }
+
+    await this.updateAsset(prisma, userId, currency, {
+      available: { decrement: amount.toPrismaDecimal() },
+    });
+  }
+
+  private async creditAvailable(
+    prisma: Prisma.TransactionClient,
+    userId: string,
+    currency: string,
+    amount: FixedDecimal,
+  ): Promise<void> {
+    await prisma.asset.upsert({
+      where: { userId_currency: { userId, currency } },
+      create: {
+        userId,
+        currency,
+        available: amount.toPrismaDecimal(),
+        locked: 0,
+      },
+      update: {
+        available: { increment: amount.toPrismaDecimal() },
+      },
+    });
+  }
+
+  private async updateAsset(
+    prisma: Prisma.TransactionClient,
+    userId: string,
+    currency: string,
+    data: Record<string, any>,
+  ): Promise<void> {
+    await prisma.asset.update({
+      where: { userId_currency: { userId, currency } },
+      data,
+    });
+  }
+}
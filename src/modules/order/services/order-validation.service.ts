@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { TradingRulesService } from '../../market/services/trading-rules.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { OrderErrorCode, OrderType } from '../dto/order.dto';
+import { OrderValidationError } from '../errors/order.error';
+
+interface OrderParams {
+  symbol: string;
+  type: OrderType;
+  price?: FixedDecimal | null;
+  stopPrice?: FixedDecimal | null;
+  quantity: FixedDecimal;
+  // 市价单没有委托价，用最新成交价估算成交额
+  referencePrice?: FixedDecimal | null;
+}
+
+/**
+ * 在订单进入撮合引擎前按交易对交易规则校验价格步长、数量步长、数量上下限和最小成交额。
+ */
+@Injectable()
+export class OrderValidationService {
+  constructor(private readonly tradingRulesService: TradingRulesService) {}
+
+  async validateOrder(params: OrderParams): Promise<void> {
+    const rules = await this.tradingRulesService.getTradingRules(params.symbol);
+
+    if (!rules.isActive) {
+      throw new OrderValidationError(OrderErrorCode.SYMBOL_NOT_TRADING, `${params.symbol} is not open for trading`);
+    }
+
+    for (const [field, price] of [['price', params.price], ['stopPrice', params.stopPrice]] as const) {
+      if (price && rules.tickSize && !price.isMultipleOf(rules.tickSize)) {
+        throw new OrderValidationError(
+          OrderErrorCode.INVALID_TICK_SIZE,
+          `${field} ${price} is not a multiple of tick size ${rules.tickSize}`,
+        );
+      }
+    }
+
+    const { quantity } = params;
+    if (rules.stepSize && !quantity.isMultipleOf(rules.stepSize)) {
+      throw new OrderValidationError(
+        OrderErrorCode.INVALID_STEP_SIZE,
+        `Quantity ${quantity} is not a multiple of step size ${rules.stepSize}`,
+      );
+    }
+
+    if (rules.minQuantity && quantity.lt(rules.minQuantity)) {
+      throw new OrderValidationError(
+        OrderErrorCode.QUANTITY_TOO_LOW,
+        `Quantity ${quantity} is below the minimum ${rules.minQuantity}`,
+      );
+    }
+
+    if (rules.maxQuantity && quantity.gt(rules.maxQuantity)) {
+      throw new OrderValidationError(
+        OrderErrorCode.QUANTITY_TOO_HIGH,
+        `Quantity ${quantity} is above the maximum ${rules.maxQuantity}`,
+      );
+    }
+
+    const notionalPrice = this.getNotionalPrice(params);
+    if (rules.minNotional && notionalPrice) {
+      const notional = quantity.times(notionalPrice);
+      if (notional.lt(rules.minNotional)) {
+        throw new OrderValidationError(
+          OrderErrorCode.NOTIONAL_TOO_LOW,
+          `Order value ${notional} is below the minimum ${rules.minNotional} ${rules.quoteAsset}`,
+        );
+      }
+    }
+  }
+
+  private getNotionalPrice(params: OrderParams): FixedDecimal | null {
+    switch (params.type) {
+      case OrderType.LIMIT:
+      case OrderType.STOP_LIMIT:
+        return params.price ?? null;
+      case OrderType.STOP_MARKET:
+        return params.stopPrice ?? null;
+      default:
+        return params.referencePrice ?? null;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileEngineJournal } from '../matching/engine-journal';
+import { OrderMatchingEngine } from '../matching/order-matching.engine';
+import { OrderSide, OrderType, TimeInForce } from '../dto/order.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('FileEngineJournal', () => {
+  let directory: string;
+  let journal: FileEngineJournal;
+  let timestamp: number;
+
+  const limitOrder = (id: string, side: OrderSide, price: string, quantity: string) => ({
+    id,
+    userId: `user-${id}`,
+    symbol: 'BTC-USDT',
+    side,
+    type: OrderType.LIMIT,
+    price: FixedDecimal.from(price),
+    quantity: FixedDecimal.from(quantity),
+    timeInForce: TimeInForce.GTC,
+    timestamp: timestamp++,
+  });
+
+  const replayInto = (source: FileEngineJournal) => {
+    const engine = new OrderMatchingEngine('BTC-USDT');
+    const snapshot = source.readSnapshot();
+    if (snapshot) {
+      engine.importState(snapshot.state);
+    }
+    for (const entry of source.readEntries(snapshot?.seq ?? 0)) {
+      engine.replay(entry.command);
+    }
+    return engine;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-journal-'));
+    journal = new FileEngineJournal(directory, 'BTC-USDT');
+    timestamp = 1;
+  });
+
+  afterEach(() => {
+    journal.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should rebuild the same book by replaying the journal', () => {
+    const engine = new OrderMatchingEngine('BTC-USDT', journal);
+    engine.addOrder(limitOrder('ask-1', OrderSide.SELL, '101', '2'));
+    engine.addOrder(limitOrder('ask-2', OrderSide.SELL, '102', '1'));
+    engine.addOrder(limitOrder('bid-1', OrderSide.BUY, '101', '1.5'));
+    engine.addOrder(limitOrder('bid-2', OrderSide.BUY, '99', '1'));
+    engine.cancelOrder('ask-2');
+
+    expect(replayInto(journal).exportState()).toEqual(engine.exportState());
+  });
+
+  it('should record match results without replaying them', () => {
+    const engine = new OrderMatchingEngine('BTC-USDT', journal);
+    engine.addOrder(limitOrder('ask-1', OrderSide.SELL, '100', '1'));
+    engine.addOrder(limitOrder('bid-1', OrderSide.BUY, '100', '0.4'));
+
+    const commands = journal.readEntries(0).map(entry => entry.command.type);
+    expect(commands).toEqual(['ADD_ORDER', 'ADD_ORDER', 'MATCH']);
+    expect(replayInto(journal).exportState().asks).toEqual([
+      expect.objectContaining({ id: 'ask-1', quantity: '0.6' }),
+    ]);
+  });
+
+  it('should replay only the tail after the latest snapshot', () => {
+    const engine = new OrderMatchingEngine('BTC-USDT', journal);
+    engine.addOrder(limitOrder('ask-1', OrderSide.SELL, '101', '1'));
+    journal.writeSnapshot(engine.exportState());
+    engine.addOrder(limitOrder('ask-2', OrderSide.SELL, '102', '1'));
+
+    expect(journal.readEntries(journal.readSnapshot().seq)).toHaveLength(1);
+    expect(replayInto(journal).exportState()).toEqual(engine.exportState());
+  });
+
+  it('should continue the sequence after reopening', () => {
+    const engine = new OrderMatchingEngine('BTC-USDT', journal);
+    engine.addOrder(limitOrder('ask-1', OrderSide.SELL, '101', '1'));
+    journal.close();
+
+    journal = new FileEngineJournal(directory, 'BTC-USDT');
+    expect(journal.getSeq()).toBe(1);
+  });
+
+  it('should ignore a torn last line', () => {
+    const engine = new OrderMatchingEngine('BTC-USDT', journal);
+    engine.addOrder(limitOrder('ask-1', OrderSide.SELL, '101', '1'));
+    fs.appendFileSync(journal.journalPath, '{"seq":2,"timest');
+
+    expect(journal.readEntries(0)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { FeeService } from '../services/fee.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('FeeService', () => {
+  let service: FeeService;
+
+  const config: Record<string, string> = {
+    PLATFORM_FEE_ACCOUNT_ID: 'fee-account',
+    PLATFORM_TOKEN: 'DEX',
+    PLATFORM_TOKEN_FEE_DISCOUNT: '0.25',
+  };
+
+  const mockPrismaService = {
+    tradingPair: {
+      findUnique: jest.fn(),
+    },
+    trade: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    asset: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+
+  const chargeParams = {
+    userId: 'user-1',
+    symbol: 'BTC-USDT',
+    isMaker: false,
+    receivedAsset: 'USDT',
+    receivedAmount: FixedDecimal.from(1000),
+    quoteAsset: 'USDT',
+    notional: FixedDecimal.from(1000),
+  };
+
+  const mockVolume = (volume: number) => {
+    mockPrismaService.trade.findMany.mockResolvedValueOnce([
+      { quoteQuantity: String(volume), makerUserId: 'user-1', takerUserId: 'user-2' },
+    ]);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeeService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => config[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeeService>(FeeService);
+
+    jest.clearAllMocks();
+    mockPrismaService.tradingPair.findUnique.mockResolvedValue({
+      symbol: 'BTC-USDT',
+      makerFeeRate: '0.001',
+      takerFeeRate: '0.002',
+    });
+    mockPrismaService.user.findUnique.mockResolvedValue({ payFeesWithPlatformToken: false });
+  });
+
+  describe('getUserTier', () => {
+    it('should pick the highest tier reached by 30-day volume', async () => {
+      mockVolume(6_000_000);
+
+      const { tier, volume } = await service.getUserTier('user-1');
+
+      expect(tier.level).toBe(2);
+      expect(volume).toBe(6_000_000);
+    });
+
+    it('should cache the tier between fills', async () => {
+      mockVolume(0);
+
+      await service.getUserTier('user-1');
+      await service.getUserTier('user-1');
+
+      expect(mockPrismaService.trade.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should sum decimal string volumes from both sides of the book', async () => {
+      mockPrismaService.trade.findMany.mockResolvedValueOnce([
+        { quoteQuantity: '4999999.9', makerUserId: 'user-1', takerUserId: 'user-2' },
+        { quoteQuantity: '0.05', makerUserId: 'user-2', takerUserId: 'user-1' },
+        { quoteQuantity: '0.025', makerUserId: 'user-1', takerUserId: 'user-1' },
+      ]);
+
+      const { tier, volume } = await service.getUserTier('user-1');
+
+      expect(volume).toBe(5_000_000);
+      expect(tier.level).toBe(2);
+    });
+  });
+
+  describe('chargeFee', () => {
+    it('should charge the taker rate from the received currency', async () => {
+      mockVolume(0);
+
+      const fee = await service.chargeFee(mockPrismaService as any, chargeParams);
+
+      expect(fee.asset).toBe('USDT');
+      expect(fee.amount.toString()).toBe('2');
+      expect(fee.rate.toString()).toBe('0.002');
+      expect(fee.paidWithPlatformToken).toBe(false);
+      expect(mockPrismaService.asset.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_currency: { userId: 'fee-account', currency: 'USDT' } },
+          update: { available: { increment: new Prisma.Decimal(2) } },
+        }),
+      );
+    });
+
+    it('should charge a discounted fee in the platform token when enabled', async () => {
+      mockVolume(0);
+      mockPrismaService.user.findUnique.mockResolvedValue({ payFeesWithPlatformToken: true });
+      mockPrismaService.trade.findFirst.mockResolvedValue({ price: '0.5' });
+      mockPrismaService.asset.findUnique.mockResolvedValue({ available: 100 });
+
+      const fee = await service.chargeFee(mockPrismaService as any, chargeParams);
+
+      expect(fee.asset).toBe('DEX');
+      expect(fee.amount.toString()).toBe('3');
+      expect(fee.paidWithPlatformToken).toBe(true);
+    });
+
+    it('should fall back to the received currency when the token balance is insufficient', async () => {
+      mockVolume(0);
+      mockPrismaService.user.findUnique.mockResolvedValue({ payFeesWithPlatformToken: true });
+      mockPrismaService.trade.findFirst.mockResolvedValue({ price: '0.5' });
+      mockPrismaService.asset.findUnique.mockResolvedValue({ available: 1 });
+
+      const fee = await service.chargeFee(mockPrismaService as any, chargeParams);
+
+      expect(fee.asset).toBe('USDT');
+      expect(fee.amount.toString()).toBe('2');
+      expect(fee.rate.toString()).toBe('0.002');
+      expect(fee.paidWithPlatformToken).toBe(false);
+    });
+  });
+});
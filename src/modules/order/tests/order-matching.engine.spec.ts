@@ -0,0 +1,260 @@
+import { OrderMatchingEngine } from '../matching/order-matching.engine';
+import { OrderRejectedError } from '../errors/order.error';
+import {
+  OrderRejectReason,
+  OrderSide,
+  OrderType,
+  SelfTradePreventionMode,
+  TimeInForce,
+} from '../dto/order.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('OrderMatchingEngine', () => {
+  let engine: OrderMatchingEngine;
+  let timestamp: number;
+
+  const limitOrder = (
+    id: string,
+    side: OrderSide,
+    price: number | string,
+    quantity: number | string,
+    overrides: Record<string, any> = {},
+  ) => ({
+    id,
+    userId: `user-${id}`,
+    symbol: 'BTC-USDT',
+    side,
+    type: OrderType.LIMIT,
+    price: FixedDecimal.from(price),
+    quantity: FixedDecimal.from(quantity),
+    timeInForce: TimeInForce.GTC,
+    timestamp: timestamp++,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    engine = new OrderMatchingEngine('BTC-USDT');
+    timestamp = 1;
+  });
+
+  const amend = (orderId: string, price: number, quantity: number) =>
+    engine.amendOrder(orderId, FixedDecimal.from(price), FixedDecimal.from(quantity), timestamp++);
+
+  describe('post-only orders', () => {
+    beforeEach(() => {
+      engine.addOrder(limitOrder('ask-1', OrderSide.SELL, 101, 1));
+    });
+
+    it('should rest when it does not cross the book', () => {
+      const matches = engine.addOrder(
+        limitOrder('bid-1', OrderSide.BUY, 100, 1, { timeInForce: TimeInForce.GTX }),
+      );
+
+      expect(matches).toEqual([]);
+      expect(engine.getOrderBookSnapshot().bids).toEqual([['100', '1', 1]]);
+    });
+
+    it('should be rejected with a reason code when it would take liquidity', () => {
+      let error: OrderRejectedError;
+      try {
+        engine.addOrder(limitOrder('bid-1', OrderSide.BUY, 101, 1, { timeInForce: TimeInForce.GTX }));
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(OrderRejectedError);
+      expect(error.reason).toBe(OrderRejectReason.POST_ONLY_WOULD_TAKE);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([['101', '1', 1]]);
+      expect(engine.getOrderBookSnapshot().bids).toEqual([]);
+    });
+  });
+
+  describe('self-trade prevention', () => {
+    beforeEach(() => {
+      engine.addOrder(limitOrder('own-ask', OrderSide.SELL, 100, 2, { userId: 'user-1' }));
+      engine.addOrder(limitOrder('other-ask', OrderSide.SELL, 100, 2, { userId: 'user-2' }));
+    });
+
+    const takeOwnBid = (mode: SelfTradePreventionMode, quantity = 3) =>
+      engine.addOrder(
+        limitOrder('own-bid', OrderSide.BUY, 100, quantity, { userId: 'user-1', stpMode: mode }),
+      );
+
+    it('should match own orders when STP is disabled', () => {
+      const matches = takeOwnBid(SelfTradePreventionMode.NONE);
+
+      expect(matches.map(m => m.makerOrderId)).toEqual(['own-ask', 'other-ask']);
+      expect(engine.takeStpCancels()).toEqual([]);
+    });
+
+    it('should cancel the taker with CANCEL_NEWEST', () => {
+      const matches = takeOwnBid(SelfTradePreventionMode.CANCEL_NEWEST);
+
+      expect(matches).toEqual([]);
+      expect(engine.takeStpCancels()).toEqual([
+        expect.objectContaining({ orderId: 'own-bid', isTaker: true, canceledQuantity: FixedDecimal.from(3) }),
+      ]);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([['100', '4', 2]]);
+      expect(engine.getOrderBookSnapshot().bids).toEqual([]);
+    });
+
+    it('should cancel the resting order and keep matching with CANCEL_OLDEST', () => {
+      const matches = takeOwnBid(SelfTradePreventionMode.CANCEL_OLDEST);
+
+      expect(matches.map(m => [m.makerOrderId, m.quantity.toString()])).toEqual([['other-ask', '2']]);
+      expect(engine.takeStpCancels()).toEqual([
+        expect.objectContaining({ orderId: 'own-ask', isTaker: false, canceledQuantity: FixedDecimal.from(2) }),
+      ]);
+      expect(engine.getOrderBookSnapshot().bids).toEqual([['100', '1', 1]]);
+    });
+
+    it('should cancel both orders with CANCEL_BOTH', () => {
+      const matches = takeOwnBid(SelfTradePreventionMode.CANCEL_BOTH);
+
+      expect(matches).toEqual([]);
+      expect(engine.takeStpCancels().map(c => c.orderId)).toEqual(['own-ask', 'own-bid']);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([['100', '2', 1]]);
+      expect(engine.getOrderBookSnapshot().bids).toEqual([]);
+    });
+
+    it('should decrement both sides by the overlap with DECREMENT_AND_CANCEL', () => {
+      const matches = takeOwnBid(SelfTradePreventionMode.DECREMENT_AND_CANCEL);
+
+      expect(matches.map(m => [m.makerOrderId, m.quantity.toString()])).toEqual([['other-ask', '1']]);
+      expect(engine.takeStpCancels().map(c => [c.orderId, c.canceledQuantity.toString()])).toEqual([
+        ['own-ask', '2'],
+        ['own-bid', '2'],
+      ]);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([['100', '1', 1]]);
+    });
+
+    it('should leave the book untouched when a FOK order cannot fill without its own orders', () => {
+      engine.clear();
+      engine.addOrder(limitOrder('own-ask', OrderSide.SELL, 100, 2, { userId: 'user-1' }));
+      engine.addOrder(limitOrder('other-ask', OrderSide.SELL, 101, 1, { userId: 'user-2' }));
+
+      const matches = engine.addOrder(
+        limitOrder('own-fok', OrderSide.BUY, 101, 2, {
+          userId: 'user-1',
+          timeInForce: TimeInForce.FOK,
+          stpMode: SelfTradePreventionMode.CANCEL_OLDEST,
+        }),
+      );
+
+      expect(matches).toEqual([]);
+      expect(engine.takeStpCancels()).toEqual([]);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([
+        ['100', '2', 1],
+        ['101', '1', 1],
+      ]);
+    });
+
+    it('should fill a FOK order from other users across every order on every level', () => {
+      engine.addOrder(limitOrder('other-ask-2', OrderSide.SELL, 101, 1, { userId: 'user-3' }));
+
+      const matches = engine.addOrder(
+        limitOrder('own-fok', OrderSide.BUY, 101, 3, {
+          userId: 'user-1',
+          timeInForce: TimeInForce.FOK,
+          stpMode: SelfTradePreventionMode.CANCEL_OLDEST,
+        }),
+      );
+
+      expect(matches.map(m => [m.makerOrderId, m.quantity.toString()])).toEqual([
+        ['other-ask', '2'],
+        ['other-ask-2', '1'],
+      ]);
+      expect(engine.takeStpCancels().map(c => c.orderId)).toEqual(['own-ask']);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([]);
+    });
+  });
+
+  describe('restoreOrder', () => {
+    it('should rest orders without matching them', () => {
+      engine.restoreOrder(limitOrder('ask-1', OrderSide.SELL, 100, 1));
+      engine.restoreOrder(limitOrder('bid-1', OrderSide.BUY, 99, 1));
+
+      expect(engine.hasOrder('ask-1')).toBe(true);
+      expect(engine.hasOrder('bid-1')).toBe(true);
+      expect(engine.isCrossed()).toBe(false);
+    });
+
+    it('should report a crossed book', () => {
+      engine.restoreOrder(limitOrder('ask-1', OrderSide.SELL, 100, 1));
+      engine.restoreOrder(limitOrder('bid-1', OrderSide.BUY, 101, 1));
+
+      expect(engine.isCrossed()).toBe(true);
+    });
+  });
+
+  describe('amendOrder', () => {
+    beforeEach(() => {
+      engine.addOrder(limitOrder('bid-1', OrderSide.BUY, 100, 2));
+      engine.addOrder(limitOrder('bid-2', OrderSide.BUY, 100, 2));
+      engine.addOrder(limitOrder('bid-3', OrderSide.BUY, 99, 2));
+    });
+
+    const sellTaker = (quantity: number) =>
+      engine.addOrder(limitOrder('ask', OrderSide.SELL, 99, quantity));
+
+    it('should keep queue priority when only the quantity is reduced', () => {
+      amend('bid-1', 100, 1);
+
+      const matches = sellTaker(1);
+      expect(matches.map(m => m.makerOrderId)).toEqual(['bid-1']);
+    });
+
+    it('should move the order to the back of the new price level', () => {
+      amend('bid-1', 99, 2);
+
+      const matches = sellTaker(6);
+      expect(matches.map(m => m.makerOrderId)).toEqual(['bid-2', 'bid-3', 'bid-1']);
+    });
+
+    it('should lose priority when the quantity is increased', () => {
+      amend('bid-1', 100, 3);
+
+      const matches = sellTaker(2);
+      expect(matches.map(m => m.makerOrderId)).toEqual(['bid-2']);
+    });
+
+    it('should match immediately when the new price crosses the book', () => {
+      engine.addOrder(limitOrder('ask-1', OrderSide.SELL, 101, 1));
+
+      const matches = amend('bid-3', 101, 2);
+
+      expect(matches.map(m => [m.makerOrderId, m.takerOrderId, m.quantity.toString()])).toEqual([['ask-1', 'bid-3', '1']]);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([]);
+    });
+
+    it('should reject a post-only amendment that would take liquidity', () => {
+      engine.addOrder(limitOrder('ask-1', OrderSide.SELL, 101, 1));
+      engine.addOrder(limitOrder('maker', OrderSide.BUY, 98, 1, { timeInForce: TimeInForce.GTX }));
+
+      expect(() => amend('maker', 101, 1)).toThrow(OrderRejectedError);
+      expect(engine.hasOrder('maker')).toBe(true);
+    });
+  });
+
+  describe('decimal prices and quantities', () => {
+    it('should place equal decimal prices on the same level', () => {
+      engine.addOrder(limitOrder('bid-1', OrderSide.BUY, FixedDecimal.from('0.1').plus('0.2').toString(), '0.1'));
+      engine.addOrder(limitOrder('bid-2', OrderSide.BUY, '0.30', '0.2'));
+
+      expect(engine.getOrderBookSnapshot().bids).toEqual([['0.3', '0.3', 2]]);
+    });
+
+    it('should fill fractional quantities without rounding drift', () => {
+      engine.addOrder(limitOrder('ask-1', OrderSide.SELL, '0.3', '0.3'));
+
+      const matches = [
+        ...engine.addOrder(limitOrder('bid-1', OrderSide.BUY, '0.3', '0.1')),
+        ...engine.addOrder(limitOrder('bid-2', OrderSide.BUY, '0.3', '0.2')),
+      ];
+
+      expect(matches.map(m => m.quantity.toString())).toEqual(['0.1', '0.2']);
+      expect(engine.hasOrder('ask-1')).toBe(false);
+      expect(engine.getOrderBookSnapshot().asks).toEqual([]);
+    });
+  });
+});
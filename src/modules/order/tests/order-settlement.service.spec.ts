@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { OrderSettlementService } from '../services/order-settlement.service';
+import { FeeService } from '../services/fee.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OrderSide, OrderType } from '../dto/order.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('OrderSettlementService', () => {
+  let service: OrderSettlementService;
+
+  const mockPrismaService = {
+    tradingPair: {
+      findUnique: jest.fn(),
+    },
+    asset: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+
+  const mockFeeService = {
+    chargeFee: jest.fn(),
+  };
+
+  const match = {
+    makerOrderId: 'maker-1',
+    takerOrderId: 'taker-1',
+    price: FixedDecimal.from(100),
+    quantity: FixedDecimal.from(2),
+    timestamp: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderSettlementService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: FeeService,
+          useValue: mockFeeService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderSettlementService>(OrderSettlementService);
+
+    jest.clearAllMocks();
+    mockPrismaService.tradingPair.findUnique.mockResolvedValue({
+      symbol: 'BTC-USDT',
+      baseAsset: 'BTC',
+      quoteAsset: 'USDT',
+    });
+    mockFeeService.chargeFee.mockResolvedValue({
+      asset: 'USDT',
+      amount: FixedDecimal.ZERO,
+      rate: FixedDecimal.ZERO,
+      paidWithPlatformToken: false,
+    });
+  });
+
+  describe('lockOrderFunds', () => {
+    it('should lock quote currency for limit buy orders', async () => {
+      mockPrismaService.asset.findUnique.mockResolvedValue({ available: 1000, locked: 0 });
+
+      await service.lockOrderFunds(mockPrismaService as any, {
+        userId: 'user-1',
+        symbol: 'BTC-USDT',
+        side: OrderSide.BUY,
+        type: OrderType.LIMIT,
+        price: 105,
+        quantity: 2,
+      });
+
+      expect(mockPrismaService.asset.update).toHaveBeenCalledWith({
+        where: { userId_currency: { userId: 'user-1', currency: 'USDT' } },
+        data: {
+          available: { decrement: new Prisma.Decimal(210) },
+          locked: { increment: new Prisma.Decimal(210) },
+        },
+      });
+    });
+
+    it('should reject when available balance is insufficient', async () => {
+      mockPrismaService.asset.findUnique.mockResolvedValue({ available: 1, locked: 0 });
+
+      await expect(
+        service.lockOrderFunds(mockPrismaService as any, {
+          userId: 'user-1',
+          symbol: 'BTC-USDT',
+          side: OrderSide.SELL,
+          type: OrderType.LIMIT,
+          price: 105,
+          quantity: 2,
+        }),
+      ).rejects.toThrow('Insufficient balance');
+    });
+
+    it('should not lock funds for market orders', async () => {
+      await service.lockOrderFunds(mockPrismaService as any, {
+        userId: 'user-1',
+        symbol: 'BTC-USDT',
+        side: OrderSide.BUY,
+        type: OrderType.MARKET,
+        price: 0,
+        quantity: 2,
+      });
+
+      expect(mockPrismaService.asset.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleFill', () => {
+    it('should settle a limit buy from locked funds and refund the price improvement', async () => {
+      await service.settleFill(
+        mockPrismaService as any,
+        { userId: 'buyer', symbol: 'BTC-USDT', side: OrderSide.BUY, type: OrderType.LIMIT, price: 105 },
+        match,
+        false,
+      );
+
+      expect(mockPrismaService.asset.update).toHaveBeenCalledWith({
+        where: { userId_currency: { userId: 'buyer', currency: 'USDT' } },
+        data: {
+          locked: { decrement: new Prisma.Decimal(210) },
+          available: { increment: new Prisma.Decimal(10) },
+        },
+      });
+      expect(mockPrismaService.asset.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_currency: { userId: 'buyer', currency: 'BTC' } },
+          update: { available: { increment: new Prisma.Decimal(2) } },
+        }),
+      );
+    });
+
+    it('should settle a limit sell from locked base currency', async () => {
+      await service.settleFill(
+        mockPrismaService as any,
+        { userId: 'seller', symbol: 'BTC-USDT', side: OrderSide.SELL, type: OrderType.LIMIT, price: 100 },
+        match,
+        true,
+      );
+
+      expect(mockPrismaService.asset.update).toHaveBeenCalledWith({
+        where: { userId_currency: { userId: 'seller', currency: 'BTC' } },
+        data: { locked: { decrement: new Prisma.Decimal(2) } },
+      });
+      expect(mockPrismaService.asset.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_currency: { userId: 'seller', currency: 'USDT' } },
+          update: { available: { increment: new Prisma.Decimal(200) } },
+        }),
+      );
+    });
+
+    it('should deduct the fee from the received currency', async () => {
+      mockFeeService.chargeFee.mockResolvedValue({
+        asset: 'USDT',
+        amount: FixedDecimal.from('0.2'),
+        rate: FixedDecimal.from('0.001'),
+        paidWithPlatformToken: false,
+      });
+
+      await service.settleFill(
+        mockPrismaService as any,
+        { userId: 'seller', symbol: 'BTC-USDT', side: OrderSide.SELL, type: OrderType.LIMIT, price: 100 },
+        match,
+        false,
+      );
+
+      expect(mockFeeService.chargeFee).toHaveBeenCalledWith(
+        mockPrismaService,
+        expect.objectContaining({ isMaker: false, receivedAsset: 'USDT', receivedAmount: FixedDecimal.from(200) }),
+      );
+      expect(mockPrismaService.asset.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_currency: { userId: 'seller', currency: 'USDT' } },
+          update: { available: { increment: new Prisma.Decimal(199.8) } },
+        }),
+      );
+    });
+
+    it('should credit the full amount when the fee is paid in the platform token', async () => {
+      mockFeeService.chargeFee.mockResolvedValue({
+        asset: 'DEX',
+        amount: FixedDecimal.from('0.5'),
+        rate: FixedDecimal.from('0.00075'),
+        paidWithPlatformToken: true,
+      });
+
+      await service.settleFill(
+        mockPrismaService as any,
+        { userId: 'buyer', symbol: 'BTC-USDT', side: OrderSide.BUY, type: OrderType.LIMIT, price: 100 },
+        match,
+        false,
+      );
+
+      expect(mockPrismaService.asset.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId_currency: { userId: 'buyer', currency: 'BTC' } },
+          update: { available: { increment: new Prisma.Decimal(2) } },
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OrderValidationService } from '../services/order-validation.service';
+import { TradingRulesService } from '../../market/services/trading-rules.service';
+import { OrderErrorCode, OrderType } from '../dto/order.dto';
+import { OrderValidationError } from '../errors/order.error';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('OrderValidationService', () => {
+  let service: OrderValidationService;
+
+  const mockTradingRulesService = {
+    getTradingRules: jest.fn(),
+  };
+
+  const rules = {
+    symbol: 'BTC-USDT',
+    baseAsset: 'BTC',
+    quoteAsset: 'USDT',
+    isActive: true,
+    tickSize: FixedDecimal.from('0.01'),
+    stepSize: FixedDecimal.from('0.001'),
+    minQuantity: FixedDecimal.from('0.001'),
+    maxQuantity: FixedDecimal.from('100'),
+    minNotional: FixedDecimal.from('10'),
+  };
+
+  const limitOrder = (price: string, quantity: string) => ({
+    symbol: 'BTC-USDT',
+    type: OrderType.LIMIT,
+    price: FixedDecimal.from(price),
+    quantity: FixedDecimal.from(quantity),
+  });
+
+  const expectErrorCode = async (promise: Promise<void>, code: OrderErrorCode) => {
+    let error: OrderValidationError;
+    try {
+      await promise;
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(OrderValidationError);
+    expect(error.code).toBe(code);
+    expect(error.getResponse()).toEqual(expect.objectContaining({ statusCode: 400, code }));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderValidationService,
+        {
+          provide: TradingRulesService,
+          useValue: mockTradingRulesService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderValidationService>(OrderValidationService);
+
+    jest.clearAllMocks();
+    mockTradingRulesService.getTradingRules.mockResolvedValue(rules);
+  });
+
+  it('should accept an order that follows all rules', async () => {
+    await expect(service.validateOrder(limitOrder('50000.01', '0.002'))).resolves.toBeUndefined();
+  });
+
+  it('should reject a price off the tick size', async () => {
+    await expectErrorCode(service.validateOrder(limitOrder('50000.015', '0.002')), OrderErrorCode.INVALID_TICK_SIZE);
+  });
+
+  it('should reject a stop price off the tick size', async () => {
+    await expectErrorCode(
+      service.validateOrder({ ...limitOrder('50000', '0.002'), stopPrice: FixedDecimal.from('49999.999') }),
+      OrderErrorCode.INVALID_TICK_SIZE,
+    );
+  });
+
+  it('should reject a quantity off the step size', async () => {
+    await expectErrorCode(service.validateOrder(limitOrder('50000', '0.0015')), OrderErrorCode.INVALID_STEP_SIZE);
+  });
+
+  it('should enforce quantity limits', async () => {
+    mockTradingRulesService.getTradingRules.mockResolvedValue({ ...rules, minQuantity: FixedDecimal.from('0.01') });
+    await expectErrorCode(service.validateOrder(limitOrder('50000', '0.005')), OrderErrorCode.QUANTITY_TOO_LOW);
+
+    mockTradingRulesService.getTradingRules.mockResolvedValue(rules);
+    await expectErrorCode(service.validateOrder(limitOrder('50000', '101')), OrderErrorCode.QUANTITY_TOO_HIGH);
+  });
+
+  it('should reject orders below the minimum notional', async () => {
+    await expectErrorCode(service.validateOrder(limitOrder('9000', '0.001')), OrderErrorCode.NOTIONAL_TOO_LOW);
+  });
+
+  it('should estimate market order notional from the reference price', async () => {
+    const marketOrder = { symbol: 'BTC-USDT', type: OrderType.MARKET, quantity: FixedDecimal.from('0.001') };
+
+    await expect(service.validateOrder(marketOrder)).resolves.toBeUndefined();
+    await expectErrorCode(
+      service.validateOrder({ ...marketOrder, referencePrice: FixedDecimal.from('5000') }),
+      OrderErrorCode.NOTIONAL_TOO_LOW,
+    );
+  });
+
+  it('should reject orders on halted pairs', async () => {
+    mockTradingRulesService.getTradingRules.mockResolvedValue({ ...rules, isActive: false });
+
+    await expectErrorCode(service.validateOrder(limitOrder('50000', '0.002')), OrderErrorCode.SYMBOL_NOT_TRADING);
+  });
+});
@@ -0,0 +1,77 @@
+import { StopOrderBook, StopOrder } from '../matching/stop-order-book';
+import { OrderSide, OrderType, TimeInForce } from '../dto/order.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('StopOrderBook', () => {
+  let book: StopOrderBook;
+
+  const createStopOrder = (
+    overrides: Partial<Omit<StopOrder, 'stopPrice'>> & { stopPrice?: number | string },
+  ): StopOrder => ({
+    id: 'order-1',
+    userId: 'user-1',
+    symbol: 'BTC-USDT',
+    side: OrderSide.BUY,
+    type: OrderType.STOP_MARKET,
+    price: FixedDecimal.ZERO,
+    quantity: FixedDecimal.from(1),
+    timeInForce: TimeInForce.GTC,
+    timestamp: 1,
+    ...overrides,
+    stopPrice: FixedDecimal.from(overrides.stopPrice ?? 100),
+  });
+
+  const takeTriggered = (lastPrice: number | string) => book.takeTriggered(FixedDecimal.from(lastPrice));
+
+  beforeEach(() => {
+    book = new StopOrderBook();
+  });
+
+  it('should trigger buy stops when last price rises to the stop price', () => {
+    book.addOrder(createStopOrder({ id: 'buy-100', stopPrice: 100 }));
+    book.addOrder(createStopOrder({ id: 'buy-110', stopPrice: 110 }));
+
+    expect(takeTriggered(99)).toEqual([]);
+
+    const triggered = takeTriggered(105);
+    expect(triggered.map(o => o.id)).toEqual(['buy-100']);
+    expect(book.hasOrder('buy-110')).toBe(true);
+  });
+
+  it('should trigger sell stops when last price falls to the stop price', () => {
+    book.addOrder(createStopOrder({ id: 'sell-90', side: OrderSide.SELL, stopPrice: 90 }));
+    book.addOrder(createStopOrder({ id: 'sell-80', side: OrderSide.SELL, stopPrice: 80 }));
+
+    expect(takeTriggered(95)).toEqual([]);
+
+    const triggered = takeTriggered(85);
+    expect(triggered.map(o => o.id)).toEqual(['sell-90']);
+    expect(book.size()).toBe(1);
+  });
+
+  it('should return triggered orders in their original time priority', () => {
+    book.addOrder(createStopOrder({ id: 'late', stopPrice: 100, timestamp: 3 }));
+    book.addOrder(createStopOrder({ id: 'early', stopPrice: 105, timestamp: 1 }));
+    book.addOrder(createStopOrder({ id: 'middle', stopPrice: 100, timestamp: 2 }));
+
+    const triggered = takeTriggered(110);
+    expect(triggered.map(o => o.id)).toEqual(['early', 'middle', 'late']);
+    expect(book.size()).toBe(0);
+  });
+
+  it('should treat equal decimal stop prices as the same level', () => {
+    book.addOrder(createStopOrder({ id: 'first', stopPrice: '0.3', timestamp: 1 }));
+    book.addOrder(createStopOrder({ id: 'second', stopPrice: '0.30', timestamp: 2 }));
+
+    expect(takeTriggered('0.29999999')).toEqual([]);
+    expect(book.takeTriggered(FixedDecimal.from('0.1').plus('0.2')).map(o => o.id)).toEqual(['first', 'second']);
+  });
+
+  it('should not trigger removed orders', () => {
+    book.addOrder(createStopOrder({ id: 'buy-100', stopPrice: 100 }));
+
+    expect(book.removeOrder('buy-100')).toBe(true);
+    expect(book.removeOrder('buy-100')).toBe(false);
+    expect(takeTriggered(200)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { OrderSide, OrderType, SelfTradePreventionMode, TimeInForce } from '../dto/order.dto';
+
+export enum EngineCommandType {
+  ADD_ORDER = 'ADD_ORDER',
+  MARKET_ORDER = 'MARKET_ORDER',
+  AMEND_ORDER = 'AMEND_ORDER',
+  RESTORE_ORDER = 'RESTORE_ORDER',
+  CANCEL_ORDER = 'CANCEL_ORDER',
+  ADD_STOP_ORDER = 'ADD_STOP_ORDER',
+  TRIGGER_STOP_ORDERS = 'TRIGGER_STOP_ORDERS',
+  SET_LAST_TRADE_PRICE = 'SET_LAST_TRADE_PRICE',
+  CLEAR = 'CLEAR',
+  // 撮合结果，仅用于审计，恢复时不重放
+  MATCH = 'MATCH',
+}
+
+// 日志和快照中的价格、数量均为规范化十进制字符串
+export interface SerializedOrder {
+  id: string;
+  userId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  price: string;
+  quantity: string;
+  timeInForce: TimeInForce;
+  stpMode?: SelfTradePreventionMode;
+  timestamp: number;
+}
+
+export interface SerializedStopOrder {
+  id: string;
+  userId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  price: string;
+  stopPrice: string;
+  quantity: string;
+  timeInForce: TimeInForce;
+  timestamp: number;
+}
+
+export type EngineCommand =
+  | { type: EngineCommandType.ADD_ORDER; order: SerializedOrder }
+  | { type: EngineCommandType.MARKET_ORDER; order: Omit<SerializedOrder, 'type' | 'price' | 'timeInForce'> }
+  | { type: EngineCommandType.AMEND_ORDER; orderId: string; price: string; quantity: string; timestamp: number }
+  | { type: EngineCommandType.RESTORE_ORDER; order: SerializedOrder }
+  | { type: EngineCommandType.CANCEL_ORDER; orderId: string }
+  | { type: EngineCommandType.ADD_STOP_ORDER; order: SerializedStopOrder }
+  | { type: EngineCommandType.TRIGGER_STOP_ORDERS }
+  | { type: EngineCommandType.SET_LAST_TRADE_PRICE; price: string }
+  | { type: EngineCommandType.CLEAR }
+  | {
+      type: EngineCommandType.MATCH;
+      makerOrderId: string;
+      takerOrderId: string;
+      price: string;
+      quantity: string;
+    };
+
+export interface JournalEntry {
+  seq: number;
+  timestamp: number;
+  command: EngineCommand;
+}
+
+/**
+ * 撮合引擎完整状态：挂单按价格、时间优先级排列，包含未触发的止损单。
+ */
+export interface EngineState {
+  symbol: string;
+  bids: SerializedOrder[];
+  asks: SerializedOrder[];
+  stopOrders: SerializedStopOrder[];
+  lastTradePrice: string | null;
+}
+
+export interface EngineSnapshot {
+  // 快照包含的最后一条日志序号，恢复时只重放其后的日志
+  seq: number;
+  createdAt: number;
+  state: EngineState;
+}
+
+/**
+ * 撮合引擎写入命令日志的接口，引擎本身不关心日志如何持久化。
+ */
+export interface EngineCommandJournal {
+  append(command: EngineCommand): void;
+}
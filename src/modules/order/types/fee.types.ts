@@ -0,0 +1,34 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+export interface FeeTier {
+  level: number;
+  // 30日滚动成交额（计价币）下限
+  minVolume: number;
+  // 相对交易对基础费率的折扣系数
+  makerRateMultiplier: number;
+  takerRateMultiplier: number;
+}
+
+export const FEE_TIERS: FeeTier[] = [
+  { level: 0, minVolume: 0, makerRateMultiplier: 1, takerRateMultiplier: 1 },
+  { level: 1, minVolume: 1_000_000, makerRateMultiplier: 0.9, takerRateMultiplier: 0.9 },
+  { level: 2, minVolume: 5_000_000, makerRateMultiplier: 0.8, takerRateMultiplier: 0.85 },
+  { level: 3, minVolume: 20_000_000, makerRateMultiplier: 0.6, takerRateMultiplier: 0.8 },
+  { level: 4, minVolume: 100_000_000, makerRateMultiplier: 0.4, takerRateMultiplier: 0.7 },
+  { level: 5, minVolume: 500_000_000, makerRateMultiplier: 0, takerRateMultiplier: 0.6 },
+];
+
+export const FEE_VOLUME_WINDOW_DAYS = 30;
+
+export interface FeeRates {
+  makerRate: FixedDecimal;
+  takerRate: FixedDecimal;
+}
+
+export interface FeeCharge {
+  // 实际扣收的币种与数量
+  asset: string;
+  amount: FixedDecimal;
+  rate: FixedDecimal;
+  paidWithPlatformToken: boolean;
+}
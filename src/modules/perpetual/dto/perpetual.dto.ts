@@ -1,4 +1,5 @@
-import { IsString, IsNumber, IsEnum, IsOptional } from 'class-validator';
+import { IsString, IsNumber, IsEnum, IsOptional, IsInt, Min, Max, IsBoolean } from 'class-validator';
+import { PositionMode, PositionSide } from '../types/perpetual.types';
 
 export enum OrderSide {
   BUY = 'BUY',
@@ -38,6 +39,24 @@ export class CreateOrderDto {
 
   @IsEnum(TimeInForce)
   timeInForce: TimeInForce;
+
+  // 双向持仓模式下必填，BUY + LONG 开多、SELL + LONG 平多、SELL + SHORT 开空、BUY + SHORT 平空
+  @IsOptional()
+  @IsEnum(PositionSide)
+  positionSide?: PositionSide;
+
+  @IsOptional()
+  @IsBoolean()
+  reduceOnly?: boolean;
+
+  // 随开仓单一起挂的止盈止损触发价（标记价格），触发后按市价只减仓平掉该持仓
+  @IsOptional()
+  @IsNumber()
+  takeProfit?: number;
+
+  @IsOptional()
+  @IsNumber()
+  stopLoss?: number;
 }
 
 export class OrderResponseDto {
@@ -51,6 +70,8 @@ export class OrderResponseDto {
   leverage: number;
   margin: string;
   timeInForce: TimeInForce;
+  positionSide?: PositionSide;
+  reduceOnly: boolean;
   status: string;
   createdAt: Date;
   updatedAt: Date;
@@ -71,3 +92,81 @@ export class PositionResponseDto {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export class AdjustLeverageDto {
+  @IsString()
+  symbol: string;
+
+  @IsInt()
+  @Min(1)
+  leverage: number;
+}
+
+export class RiskBracketDto {
+  bracket: number;
+  notionalFloor: number;
+  // 最高档没有上限时为 null
+  notionalCap: number | null;
+  maxLeverage: number;
+  maintMarginRate: number;
+  maintAmount: number;
+}
+
+export class ADLQuantileDto {
+  symbol: string;
+  side: PositionSide;
+  // 1-5 档，档位越高越先被自动减仓
+  quantile: number;
+}
+
+export class ChangePositionModeDto {
+  @IsEnum(PositionMode)
+  positionMode: PositionMode;
+}
+
+export class PositionTpSlDto {
+  @IsString()
+  symbol: string;
+
+  // 双向持仓模式下必填，单向持仓模式下取当前持仓方向
+  @IsOptional()
+  @IsEnum(PositionSide)
+  positionSide?: PositionSide;
+
+  @IsOptional()
+  @IsNumber()
+  takeProfit?: number;
+
+  // 设置时触发后挂限价单，否则按市价平仓
+  @IsOptional()
+  @IsNumber()
+  takeProfitLimitPrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  stopLoss?: number;
+
+  @IsOptional()
+  @IsNumber()
+  stopLossLimitPrice?: number;
+}
+
+export class TrailingStopDto {
+  @IsString()
+  symbol: string;
+
+  // 双向持仓模式下必填，单向持仓模式下取当前持仓方向
+  @IsOptional()
+  @IsEnum(PositionSide)
+  positionSide?: PositionSide;
+
+  // 回调比例（百分比），1 表示 1%
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  callbackRate: number;
+
+  @IsOptional()
+  @IsNumber()
+  activationPrice?: number;
+}
@@ -0,0 +1,63 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { PositionState } from '../types/perpetual.types';
+import { calculatePositionPnl } from './position-math';
+
+// 自动减仓指示灯档数
+export const ADL_QUANTILE_LEVELS = 5;
+
+/**
+ * 按标记价格计算自动减仓排名分数：
+ * 盈利时分数 = 收益率 * 有效杠杆，亏损时分数 = 收益率 / 有效杠杆。
+ * 收益率 = 未实现盈亏 / 开仓名义价值，有效杠杆 = 持仓名义价值 / 权益，不依赖持仓上记录的保证金。
+ * 权益不为正的持仓无法计算分数，返回 null，排在最后。
+ */
+export function calculateAdlRankingScore(
+  position: PositionState,
+  markPrice: FixedDecimal,
+  equity: FixedDecimal,
+): FixedDecimal | null {
+  const entryNotional = position.quantity.times(position.entryPrice);
+  if (!equity.isPositive() || !entryNotional.isPositive()) {
+    return null;
+  }
+
+  const unrealizedPnl = calculatePositionPnl(position.side, position.entryPrice, markPrice, position.quantity);
+  const pnlRatio = unrealizedPnl.div(entryNotional);
+  const effectiveLeverage = position.quantity.times(markPrice).div(equity);
+  return pnlRatio.isNegative() ? pnlRatio.div(effectiveLeverage) : pnlRatio.times(effectiveLeverage);
+}
+
+/**
+ * 逐仓持仓的权益：逐仓保证金加未实现盈亏。全仓持仓的权益是账户的保证金余额。
+ */
+export function calculateIsolatedEquity(position: PositionState, markPrice: FixedDecimal): FixedDecimal {
+  return position.margin.plus(
+    calculatePositionPnl(position.side, position.entryPrice, markPrice, position.quantity),
+  );
+}
+
+/**
+ * 按排名分数从高到低排序，分数相同时保持原有顺序。
+ */
+export function rankAdlPositions(
+  positions: PositionState[],
+  markPrice: FixedDecimal,
+  getEquity: (position: PositionState) => FixedDecimal,
+): PositionState[] {
+  return positions
+    .map(position => ({ position, score: calculateAdlRankingScore(position, markPrice, getEquity(position)) }))
+    .sort((a, b) => {
+      if (a.score === null || b.score === null) {
+        return (a.score === null ? 1 : 0) - (b.score === null ? 1 : 0);
+      }
+      return b.score.cmp(a.score);
+    })
+    .map(({ position }) => position);
+}
+
+/**
+ * 排名百分位对应的指示灯档位：排名最靠前的 20% 为 5 档。
+ */
+export function getAdlQuantile(rank: number, total: number): number {
+  return ADL_QUANTILE_LEVELS - Math.floor((rank * ADL_QUANTILE_LEVELS) / total);
+}
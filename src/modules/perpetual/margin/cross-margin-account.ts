@@ -0,0 +1,65 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import {
+  CrossMarginAccount,
+  CrossMarginPosition,
+  PositionState,
+  RiskBracket,
+} from '../types/perpetual.types';
+import { calculateMaintenanceMargin, calculatePositionPnl } from './position-math';
+
+/**
+ * 按标记价格计算全仓持仓的名义价值、未实现盈亏和所在档位的维持保证金。
+ */
+export function toCrossMarginPosition(
+  position: PositionState,
+  markPrice: FixedDecimal,
+  getBracket: (notional: FixedDecimal) => Pick<RiskBracket, 'maintMarginRate' | 'maintAmount'>,
+): CrossMarginPosition {
+  const notional = position.quantity.times(markPrice);
+
+  return {
+    positionId: position.id,
+    symbol: position.symbol,
+    side: position.side,
+    quantity: position.quantity,
+    entryPrice: position.entryPrice,
+    markPrice,
+    notional,
+    unrealizedPnl: calculatePositionPnl(position.side, position.entryPrice, markPrice, position.quantity),
+    maintMargin: calculateMaintenanceMargin(notional, getBracket(notional)),
+  };
+}
+
+export function buildCrossMarginAccount(
+  userId: string,
+  walletBalance: FixedDecimal,
+  positions: CrossMarginPosition[],
+): CrossMarginAccount {
+  const unrealizedPnl = FixedDecimal.sum(positions.map(position => position.unrealizedPnl));
+  const maintMargin = FixedDecimal.sum(positions.map(position => position.maintMargin));
+  const marginBalance = walletBalance.plus(unrealizedPnl);
+
+  return {
+    userId,
+    walletBalance,
+    unrealizedPnl,
+    marginBalance,
+    maintMargin,
+    marginRatio: maintMargin.isPositive() ? marginBalance.div(maintMargin).toNumber() : Infinity,
+    positions,
+  };
+}
+
+/**
+ * 保证金余额低于维持保证金总和时整个账户需要强平。
+ */
+export function isCrossMarginLiquidatable(account: CrossMarginAccount): boolean {
+  return account.positions.length > 0 && account.marginBalance.lt(account.maintMargin);
+}
+
+/**
+ * 强平顺序：亏损最大的持仓最先平仓。
+ */
+export function getCrossMarginLiquidationOrder(account: CrossMarginAccount): CrossMarginPosition[] {
+  return [...account.positions].sort((a, b) => a.unrealizedPnl.cmp(b.unrealizedPnl));
+}
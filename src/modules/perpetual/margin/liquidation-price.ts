@@ -0,0 +1,34 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { PositionSide, PositionState, RiskBracket } from '../types/perpetual.types';
+
+type IsolatedPosition = Pick<PositionState, 'side' | 'quantity' | 'entryPrice' | 'margin'>;
+
+/**
+ * 破产价格：逐仓保证金恰好亏完时的价格。
+ */
+export function calculateBankruptcyPrice(position: IsolatedPosition): FixedDecimal {
+  const marginPerUnit = position.margin.div(position.quantity);
+  return position.side === PositionSide.LONG
+    ? position.entryPrice.minus(marginPerUnit)
+    : position.entryPrice.plus(marginPerUnit);
+}
+
+/**
+ * 强平价格满足：保证金 + 未实现盈亏 = 名义价值 * 维持保证金率 - 速算扣除额，档位按开仓名义价值确定。
+ */
+export function calculateLiquidationPrice(
+  position: IsolatedPosition,
+  getBracket: (notional: FixedDecimal) => Pick<RiskBracket, 'maintMarginRate' | 'maintAmount'>,
+): FixedDecimal {
+  const { side, quantity, entryPrice, margin } = position;
+  if (!quantity.isPositive()) {
+    return FixedDecimal.ZERO;
+  }
+
+  const entryNotional = quantity.times(entryPrice);
+  const { maintMarginRate, maintAmount } = getBracket(entryNotional);
+  const liquidationPrice = side === PositionSide.LONG
+    ? entryNotional.minus(margin).minus(maintAmount).div(quantity.times(FixedDecimal.from(1).minus(maintMarginRate)))
+    : entryNotional.plus(margin).plus(maintAmount).div(quantity.times(FixedDecimal.from(1).plus(maintMarginRate)));
+  return FixedDecimal.max(liquidationPrice, 0);
+}
@@ -0,0 +1,42 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { LiquidationStagePlan, PositionState, RiskBracket } from '../types/perpetual.types';
+import { calculateBankruptcyPrice } from './liquidation-price';
+import { calculateMaintenanceMargin, calculatePositionPnl } from './position-math';
+
+/**
+ * 规划本阶段的强平：持仓所在档位之下还有档位时，减仓到低一档能以当前权益维持的名义价值，
+ * 且不超过低一档的上限；已处于最低档时 targetSize 为零，直接全部强平。
+ */
+export function planLiquidationStage(
+  position: PositionState,
+  markPrice: FixedDecimal,
+  stage: number,
+  bracket: RiskBracket,
+  lowerBracket?: RiskBracket,
+): LiquidationStagePlan {
+  const notional = position.quantity.times(markPrice);
+  const equity = position.margin.plus(
+    calculatePositionPnl(position.side, position.entryPrice, markPrice, position.quantity),
+  );
+  const maintMargin = calculateMaintenanceMargin(notional, bracket);
+
+  let targetSize = FixedDecimal.ZERO;
+  if (lowerBracket) {
+    // 低一档之上还有档位，其上限是有限值
+    const targetNotional = FixedDecimal.min(
+      lowerBracket.notionalCap,
+      equity.plus(lowerBracket.maintAmount).div(lowerBracket.maintMarginRate),
+    );
+    targetSize = FixedDecimal.max(targetNotional, 0).div(markPrice);
+  }
+
+  return {
+    positionId: position.id,
+    stage,
+    bracket: bracket.bracket,
+    size: position.quantity,
+    targetSize,
+    bankruptcyPrice: calculateBankruptcyPrice(position),
+    marginRatio: maintMargin.isPositive() ? equity.div(maintMargin).toNumber() : 0,
+  };
+}
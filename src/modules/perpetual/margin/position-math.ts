@@ -0,0 +1,97 @@
+import { DecimalValue, FixedDecimal, RoundingMode } from '../../../shared/utils/fixed-decimal';
+import { PositionSide, PositionState, RiskBracket } from '../types/perpetual.types';
+
+export interface ClosedPositionQuantity {
+  // 实际平仓数量，不超过持仓数量
+  closed: FixedDecimal;
+  remaining: FixedDecimal;
+  realizedPnl: FixedDecimal;
+}
+
+/**
+ * 以指定价格平掉一定数量持仓的盈亏：多仓价格高于开仓均价为盈利，空仓相反。
+ */
+export function calculatePositionPnl(
+  side: PositionSide,
+  entryPrice: DecimalValue,
+  price: DecimalValue,
+  quantity: DecimalValue,
+): FixedDecimal {
+  const pnl = FixedDecimal.from(price).minus(entryPrice).times(quantity);
+  return side === PositionSide.LONG ? pnl : pnl.negated();
+}
+
+/**
+ * 加仓后的开仓均价，按数量加权。
+ */
+export function calculateAverageEntryPrice(
+  quantity: DecimalValue,
+  entryPrice: DecimalValue,
+  addedQuantity: DecimalValue,
+  price: DecimalValue,
+): FixedDecimal {
+  const currentQuantity = FixedDecimal.from(quantity);
+  const newQuantity = currentQuantity.plus(addedQuantity);
+  return currentQuantity
+    .times(entryPrice)
+    .plus(FixedDecimal.from(addedQuantity).times(price))
+    .div(newQuantity);
+}
+
+/**
+ * 以指定价格平仓，超出持仓的数量不计入平仓。
+ */
+export function closePositionQuantity(
+  side: PositionSide,
+  quantity: DecimalValue,
+  entryPrice: DecimalValue,
+  closeQuantity: DecimalValue,
+  price: DecimalValue,
+): ClosedPositionQuantity {
+  const currentQuantity = FixedDecimal.from(quantity);
+  const closed = FixedDecimal.min(currentQuantity, closeQuantity);
+
+  return {
+    closed,
+    remaining: currentQuantity.minus(closed),
+    realizedPnl: calculatePositionPnl(side, entryPrice, price, closed),
+  };
+}
+
+/**
+ * 初始保证金 = 开仓名义价值 / 杠杆，向上取整，保证金不会少于杠杆要求。
+ */
+export function calculateInitialMargin(
+  quantity: DecimalValue,
+  entryPrice: DecimalValue,
+  leverage: DecimalValue,
+): FixedDecimal {
+  return FixedDecimal.from(quantity).times(entryPrice).div(leverage, RoundingMode.UP);
+}
+
+/**
+ * 维持保证金 = 名义价值 * 维持保证金率 - 速算扣除额，档位由名义价值决定。
+ */
+export function calculateMaintenanceMargin(
+  notional: DecimalValue,
+  bracket: Pick<RiskBracket, 'maintMarginRate' | 'maintAmount'>,
+): FixedDecimal {
+  return FixedDecimal.from(notional).abs().times(bracket.maintMarginRate).minus(bracket.maintAmount);
+}
+
+export function parsePosition(row: any): PositionState {
+  return {
+    id: row.id,
+    userId: row.userId,
+    symbol: row.symbol,
+    side: row.side,
+    marginType: row.marginType,
+    leverage: row.leverage,
+    quantity: FixedDecimal.from(row.quantity),
+    entryPrice: FixedDecimal.from(row.entryPrice),
+    margin: FixedDecimal.from(row.margin),
+    unrealizedPnl: FixedDecimal.from(row.unrealizedPnl),
+    realizedPnl: FixedDecimal.from(row.realizedPnl),
+    liquidationPrice: FixedDecimal.from(row.liquidationPrice),
+  };
+}
@@ -0,0 +1,154 @@
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { PerpetualOrder, PerpetualOrderType, PositionSide } from '../types/perpetual.types';
+
+const STOP_LOSS_TYPES = [PerpetualOrderType.STOP, PerpetualOrderType.STOP_MARKET];
+const TAKE_PROFIT_TYPES = [PerpetualOrderType.TAKE_PROFIT, PerpetualOrderType.TAKE_PROFIT_MARKET];
+
+export function isConditionalOrder(order: Pick<PerpetualOrder, 'type'>): boolean {
+  return (
+    STOP_LOSS_TYPES.includes(order.type) ||
+    TAKE_PROFIT_TYPES.includes(order.type) ||
+    order.type === PerpetualOrderType.TRAILING_STOP_MARKET
+  );
+}
+
+/**
+ * 条件单保护的持仓方向：双向持仓取 positionSide，单向持仓为买卖方向的反方向。
+ */
+export function getProtectedSide(order: Pick<PerpetualOrder, 'side' | 'positionSide'>): PositionSide {
+  if (order.positionSide) {
+    return order.positionSide;
+  }
+  return order.side === PositionSide.LONG ? PositionSide.SHORT : PositionSide.LONG;
+}
+
+/**
+ * 挂在持仓上的止盈止损单，按标记价格触发。数量跟随持仓数量，持仓为零时不会触发。
+ */
+export class ConditionalOrderBook {
+  private readonly orders = new Map<string, PerpetualOrder>();
+
+  addOrder(order: PerpetualOrder): void {
+    if (!isConditionalOrder(order)) {
+      throw new Error(`Order ${order.id} is not a conditional order`);
+    }
+    if (order.type === PerpetualOrderType.TRAILING_STOP_MARKET) {
+      if (!(order.callbackRate > 0)) {
+        throw new Error(`Trailing stop order ${order.id} requires a callback rate`);
+      }
+    } else if (!(order.stopPrice > 0)) {
+      throw new Error(`Conditional order ${order.id} requires a stop price`);
+    }
+    if (this.orders.has(order.id)) {
+      throw new Error('Order already exists');
+    }
+    this.orders.set(order.id, order);
+  }
+
+  removeOrder(orderId: string): PerpetualOrder | undefined {
+    const order = this.orders.get(orderId);
+    this.orders.delete(orderId);
+    return order;
+  }
+
+  hasOrder(orderId: string): boolean {
+    return this.orders.has(orderId);
+  }
+
+  getOrders(): PerpetualOrder[] {
+    return [...this.orders.values()].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  getPositionOrders(userId: string, positionSide: PositionSide): PerpetualOrder[] {
+    return this.getOrders().filter(
+      order => order.userId === userId && getProtectedSide(order) === positionSide,
+    );
+  }
+
+  /**
+   * 持仓数量变化后同步调整挂在该持仓上的条件单数量。
+   */
+  resizePositionOrders(userId: string, positionSide: PositionSide, quantity: number): PerpetualOrder[] {
+    const orders = this.getPositionOrders(userId, positionSide);
+    for (const order of orders) {
+      order.amount = quantity;
+    }
+    return orders;
+  }
+
+  removePositionOrders(userId: string, positionSide: PositionSide): PerpetualOrder[] {
+    const orders = this.getPositionOrders(userId, positionSide);
+    for (const order of orders) {
+      this.orders.delete(order.id);
+    }
+    return orders;
+  }
+
+  /**
+   * 用标记价格推进跟踪止损单的状态：到达激活价后开始记录极值，之后卖单跟踪最高价、买单跟踪最低价。
+   * 返回状态发生变化的订单，由调用方持久化。
+   */
+  updateTrailingStops(markPrice: number): PerpetualOrder[] {
+    const updated: PerpetualOrder[] = [];
+
+    for (const order of this.orders.values()) {
+      if (order.type !== PerpetualOrderType.TRAILING_STOP_MARKET) {
+        continue;
+      }
+
+      const isSell = order.side === PositionSide.SHORT;
+      if (order.trailingPrice === undefined || order.trailingPrice === null) {
+        const activated =
+          !order.activationPrice || (isSell ? markPrice >= order.activationPrice : markPrice <= order.activationPrice);
+        if (activated) {
+          order.trailingPrice = markPrice;
+          updated.push(order);
+        }
+        continue;
+      }
+
+      if (isSell ? markPrice > order.trailingPrice : markPrice < order.trailingPrice) {
+        order.trailingPrice = markPrice;
+        updated.push(order);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * 取出被标记价格触发的条件单，按下单时间排序：
+   * 止损卖单在标记价 <= 触发价时触发，止盈卖单在标记价 >= 触发价时触发，买单相反。
+   */
+  takeTriggered(markPrice: number): PerpetualOrder[] {
+    const triggered = this.getOrders().filter(
+      order => order.amount > 0 && this.isTriggered(order, markPrice),
+    );
+    for (const order of triggered) {
+      this.orders.delete(order.id);
+    }
+    return triggered;
+  }
+
+  size(): number {
+    return this.orders.size;
+  }
+
+  private isTriggered(order: PerpetualOrder, markPrice: number): boolean {
+    const isSell = order.side === PositionSide.SHORT;
+    if (order.type === PerpetualOrderType.TRAILING_STOP_MARKET) {
+      if (order.trailingPrice === undefined || order.trailingPrice === null) {
+        return false;
+      }
+      const trailingPrice = FixedDecimal.from(order.trailingPrice);
+      const callback = FixedDecimal.from(order.callbackRate).div(100);
+      return isSell
+        ? FixedDecimal.from(markPrice).lte(trailingPrice.times(FixedDecimal.from(1).minus(callback)))
+        : FixedDecimal.from(markPrice).gte(trailingPrice.times(callback.plus(1)));
+    }
+    if (STOP_LOSS_TYPES.includes(order.type)) {
+      return isSell ? markPrice <= order.stopPrice : markPrice >= order.stopPrice;
+    }
+    return isSell ? markPrice >= order.stopPrice : markPrice <= order.stopPrice;
+  }
+}
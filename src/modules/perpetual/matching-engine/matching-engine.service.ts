@@ -1,21 +1,36 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { RedisService } from '../../redis/redis.service';
+import { RedisClientService } from '../../redis/redis.service';
 import { OrderBook } from './order-book';
-import { PerpetualOrder, OrderStatus } from '../types/perpetual.types';
+import { ConditionalOrderBook, isConditionalOrder } from './conditional-order-book';
+import {
+  PerpetualOrder,
+  PerpetualOrderType,
+  OrderStatus,
+  PositionSide,
+} from '../types/perpetual.types';
 import { ConfigService } from '@nestjs/config';
-import { PrometheusService } from '../../../shared/services/prometheus.service';
+import { PrometheusService } from '../../prometheus/prometheus.service';
+import { ConditionalOrderService } from '../services/conditional-order.service';
+
+const MARKET_TRIGGER_TYPES = [
+  PerpetualOrderType.STOP_MARKET,
+  PerpetualOrderType.TAKE_PROFIT_MARKET,
+  PerpetualOrderType.TRAILING_STOP_MARKET,
+];
 
 @Injectable()
 export class MatchingEngineService implements OnModuleInit {
   private readonly logger = new Logger(MatchingEngineService.name);
   private readonly orderBooks = new Map<string, OrderBook>();
+  private readonly conditionalOrderBooks = new Map<string, ConditionalOrderBook>();
 
   constructor(
     private readonly eventEmitter: EventEmitter2,
-    private readonly redisService: RedisService,
+    private readonly redisService: RedisClientService,
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
+    private readonly conditionalOrderService: ConditionalOrderService,
   ) {}
 
   async onModuleInit() {
@@ -31,6 +46,13 @@ export class MatchingEngineService implements OnModuleInit {
           symbol,
           new OrderBook(symbol, this.eventEmitter, this.redisService),
         );
+
+        // 恢复未触发的条件单，跟踪止损从持久化的极值继续跟踪
+        const conditionalOrderBook = new ConditionalOrderBook();
+        for (const order of await this.conditionalOrderService.getPendingOrders(symbol)) {
+          conditionalOrderBook.addOrder(order);
+        }
+        this.conditionalOrderBooks.set(symbol, conditionalOrderBook);
       }
 
       // 订阅订单事件
@@ -51,15 +73,19 @@ export class MatchingEngineService implements OnModuleInit {
       const orderBook = this.getOrderBook(order.symbol);
       const startTime = Date.now();
 
-      await orderBook.addOrder(order);
+      // 止盈止损单先进入条件单簿，等待标记价格触发
+      if (isConditionalOrder(order)) {
+        this.getConditionalOrderBook(order.symbol).addOrder(order);
+        this.eventEmitter.emit('order.updated', order);
+      } else {
+        await orderBook.addOrder(order);
+      }
 
       // 记录订单处理延迟
-      this.prometheusService.observeOrderProcessingTime(
-        Date.now() - startTime,
-      );
+      this.prometheusService.recordLatency('order_processing', Date.now() - startTime);
 
       // 更新订单计数
-      this.prometheusService.incrementOrderCount(order.type);
+      this.prometheusService.incrementOrder(order.side, order.type, order.symbol);
     } catch (error) {
       this.logger.error(
         `Failed to place order ${order.id}: ${error.message}`,
@@ -71,11 +97,17 @@ export class MatchingEngineService implements OnModuleInit {
 
   async cancelOrder(orderId: string, symbol: string): Promise<void> {
     try {
-      const orderBook = this.getOrderBook(symbol);
-      await orderBook.cancelOrder(orderId);
+      const conditionalOrder = this.getConditionalOrderBook(symbol).removeOrder(orderId);
+      if (conditionalOrder) {
+        conditionalOrder.status = OrderStatus.CANCELED;
+        this.eventEmitter.emit('order.canceled', conditionalOrder);
+      } else {
+        const orderBook = this.getOrderBook(symbol);
+        await orderBook.cancelOrder(orderId);
+      }
 
       // 更新取消订单计数
-      this.prometheusService.incrementCancelledOrderCount();
+      this.prometheusService.incrementCanceledOrder(symbol);
     } catch (error) {
       this.logger.error(
         `Failed to cancel order ${orderId}: ${error.message}`,
@@ -88,7 +120,10 @@ export class MatchingEngineService implements OnModuleInit {
   getOrder(orderId: string, symbol: string): PerpetualOrder | undefined {
     try {
       const orderBook = this.getOrderBook(symbol);
-      return orderBook.getOrder(orderId);
+      return (
+        orderBook.getOrder(orderId) ??
+        this.getConditionalOrderBook(symbol).getOrders().find(order => order.id === orderId)
+      );
     } catch (error) {
       this.logger.error(
         `Failed to get order ${orderId}: ${error.message}`,
@@ -141,6 +176,48 @@ export class MatchingEngineService implements OnModuleInit {
     }
   }
 
+  /**
+   * 标记价格更新时触发条件单，触发后转为只减仓的市价单或限价单进入订单簿撮合。
+   */
+  async triggerConditionalOrders(symbol: string, markPrice: number): Promise<void> {
+    const conditionalOrderBook = this.conditionalOrderBooks.get(symbol);
+    if (!conditionalOrderBook) {
+      return;
+    }
+
+    // 跟踪止损的激活状态和价格极值需要持久化，重启后从数据库恢复
+    for (const order of conditionalOrderBook.updateTrailingStops(markPrice)) {
+      this.eventEmitter.emit('perpetual.trailing.updated', {
+        orderId: order.id,
+        trailingPrice: order.trailingPrice,
+      });
+    }
+
+    for (const order of conditionalOrderBook.takeTriggered(markPrice)) {
+      const triggerType = order.type;
+      order.type = MARKET_TRIGGER_TYPES.includes(triggerType)
+        ? PerpetualOrderType.MARKET
+        : PerpetualOrderType.LIMIT;
+      order.reduceOnly = true;
+      order.updatedAt = new Date();
+
+      this.eventEmitter.emit('perpetual.order.triggered', {
+        order,
+        triggerType,
+        markPrice,
+      });
+
+      try {
+        await this.placeOrder(order);
+      } catch (error) {
+        this.logger.error(
+          `Failed to place triggered order ${order.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
   private getOrderBook(symbol: string): OrderBook {
     const orderBook = this.orderBooks.get(symbol);
     if (!orderBook) {
@@ -149,7 +226,59 @@ export class MatchingEngineService implements OnModuleInit {
     return orderBook;
   }
 
+  private getConditionalOrderBook(symbol: string): ConditionalOrderBook {
+    const conditionalOrderBook = this.conditionalOrderBooks.get(symbol);
+    if (!conditionalOrderBook) {
+      throw new Error(`Order book not found for symbol: ${symbol}`);
+    }
+    return conditionalOrderBook;
+  }
+
   private subscribeToEvents(): void {
+    // 标记价格更新后检查止盈止损单
+    this.eventEmitter.on('price.updated', async (data: { symbol: string; price: number }) => {
+      try {
+        await this.triggerConditionalOrders(data.symbol, data.price);
+      } catch (error) {
+        this.logger.error(
+          `Failed to trigger conditional orders for ${data.symbol}: ${error.message}`,
+          error.stack,
+        );
+      }
+    });
+
+    // 新建的止盈止损单进入条件单簿
+    this.eventEmitter.on('perpetual.conditional.created', async (data: { order: PerpetualOrder }) => {
+      try {
+        await this.placeOrder(data.order);
+      } catch (error) {
+        this.logger.error(`Failed to add conditional order ${data.order.id}: ${error.message}`, error.stack);
+      }
+    });
+
+    // 持仓数量变化时止盈止损单跟随调整数量
+    this.eventEmitter.on(
+      'position.updated',
+      (data: { userId: string; symbol: string; side: PositionSide; quantity: number }) => {
+        this.conditionalOrderBooks
+          .get(data.symbol)
+          ?.resizePositionOrders(data.userId, data.side, data.quantity);
+      },
+    );
+
+    // 持仓平仓后撤销挂在该持仓上的全部止盈止损单
+    this.eventEmitter.on(
+      'position.closed',
+      (data: { userId: string; symbol: string; side: PositionSide }) => {
+        const orders =
+          this.conditionalOrderBooks.get(data.symbol)?.removePositionOrders(data.userId, data.side) ?? [];
+        for (const order of orders) {
+          order.status = OrderStatus.CANCELED;
+          this.eventEmitter.emit('order.canceled', order);
+        }
+      },
+    );
+
     // 监听订单更新事件
     this.eventEmitter.on('order.updated', (order: PerpetualOrder) => {
       try {
@@ -161,7 +290,7 @@ export class MatchingEngineService implements OnModuleInit {
 
         // 更新指标
         if (order.status === OrderStatus.FILLED) {
-          this.prometheusService.incrementFilledOrderCount();
+          this.prometheusService.incrementFilledOrder(order.symbol);
         }
       } catch (error) {
         this.logger.error(
@@ -1,8 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PriorityQueue } from './priority-queue';
-import { OrderStatus, PerpetualOrder, PositionSide } from '../types/perpetual.types';
+import { OrderStatus, PerpetualOrder, PerpetualOrderType, PositionSide } from '../types/perpetual.types';
+import { TimeInForce } from '../dto/perpetual.dto';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { RedisService } from '../../redis/redis.service';
+import { RedisClientService } from '../../redis/redis.service';
 
 interface OrderBookLevel {
   price: number;
@@ -20,7 +21,7 @@ export class OrderBook {
   constructor(
     private readonly symbol: string,
     private readonly eventEmitter: EventEmitter2,
-    private readonly redisService: RedisService,
+    private readonly redisService: RedisClientService,
   ) {
     // 买单按价格降序排列
     this.bids = new PriorityQueue<OrderBookLevel>((a, b) => b.price - a.price);
@@ -112,7 +113,7 @@ export class OrderBook {
     // 尝试与卖单匹配
     while (remainingAmount > 0) {
       const bestAsk = this.asks.peek();
-      if (!bestAsk || bestAsk.price > order.price) {
+      if (!bestAsk || (!this.isMarketOrder(order) && bestAsk.price > order.price)) {
         break;
       }
 
@@ -137,7 +138,9 @@ export class OrderBook {
     }
 
     // 如果还有剩余数量，添加到买单队列
-    if (remainingAmount > 0) {
+    if (remainingAmount > 0 && this.isImmediateOrder(order)) {
+      this.expireRemaining(order);
+    } else if (remainingAmount > 0) {
       this.addToBids({
         price: order.price,
         size: remainingAmount,
@@ -152,7 +155,7 @@ export class OrderBook {
     // 尝试与买单匹配
     while (remainingAmount > 0) {
       const bestBid = this.bids.peek();
-      if (!bestBid || bestBid.price < order.price) {
+      if (!bestBid || (!this.isMarketOrder(order) && bestBid.price < order.price)) {
         break;
       }
 
@@ -177,7 +180,9 @@ export class OrderBook {
     }
 
     // 如果还有剩余数量，添加到卖单队列
-    if (remainingAmount > 0) {
+    if (remainingAmount > 0 && this.isImmediateOrder(order)) {
+      this.expireRemaining(order);
+    } else if (remainingAmount > 0) {
       this.addToAsks({
         price: order.price,
         size: remainingAmount,
@@ -199,11 +204,13 @@ export class OrderBook {
       this.updateOrderStatus(buyOrder, amount, price);
       this.updateOrderStatus(sellOrder, amount, price);
 
-      // 发送成交事件
-      this.eventEmitter.emit('trade.executed', {
+      // 等待成交事件的监听器完成，下单返回时成交已计入双方持仓
+      await this.eventEmitter.emitAsync('trade.executed', {
         symbol: this.symbol,
         buyOrderId: buyOrder.id,
         sellOrderId: sellOrder.id,
+        buyOrder,
+        sellOrder,
         amount,
         price,
         timestamp: new Date(),
@@ -220,6 +227,21 @@ export class OrderBook {
     }
   }
 
+  private isMarketOrder(order: PerpetualOrder): boolean {
+    return order.type === PerpetualOrderType.MARKET;
+  }
+
+  // 市价单和 IOC 单不挂单
+  private isImmediateOrder(order: PerpetualOrder): boolean {
+    return this.isMarketOrder(order) || order.timeInForce === TimeInForce.IOC;
+  }
+
+  // 对手盘不足时剩余数量直接失效
+  private expireRemaining(order: PerpetualOrder): void {
+    order.status = OrderStatus.EXPIRED;
+    this.orders.delete(order.id);
+  }
+
   private updateOrderStatus(
     order: PerpetualOrder,
     amount: number,
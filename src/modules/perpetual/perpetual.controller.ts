@@ -1,7 +1,13 @@
-import { Controller, Get, Post, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Put, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { PerpetualService } from './services/perpetual.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { User } from '../auth/decorators/user.decorator';
+import {
+  AdjustLeverageDto,
+  ChangePositionModeDto,
+  PositionTpSlDto,
+  TrailingStopDto,
+} from './dto/perpetual.dto';
 
 @Controller('perpetual')
 @UseGuards(JwtAuthGuard)
@@ -31,4 +37,43 @@ export class PerpetualController {
   ) {
     return this.perpetualService.getPosition(user.id, symbol, side);
   }
+
+  // 自动减仓指示灯
+  @Get('positions/adl-quantile')
+  async getADLQuantiles(@User() user: any, @Query('symbol') symbol?: string) {
+    return this.perpetualService.getADLQuantiles(user.id, symbol);
+  }
+
+  // 调整杠杆，按持仓名义价值所在的风险限额档位校验
+  @Put('positions/leverage')
+  async adjustLeverage(@User() user: any, @Body() dto: AdjustLeverageDto) {
+    return this.perpetualService.adjustLeverage(user.id, dto.symbol, dto.leverage);
+  }
+
+  @Post('positions/tpsl')
+  async setPositionTpSl(@User() user: any, @Body() dto: PositionTpSlDto) {
+    return this.perpetualService.setPositionTpSl(user.id, dto);
+  }
+
+  @Post('positions/trailing-stop')
+  async setTrailingStop(@User() user: any, @Body() dto: TrailingStopDto) {
+    return this.perpetualService.setTrailingStop(user.id, dto);
+  }
+
+  // 单向/双向持仓模式
+  @Get('position-mode')
+  async getPositionMode(@User() user: any) {
+    return this.perpetualService.getPositionMode(user.id);
+  }
+
+  @Put('position-mode')
+  async changePositionMode(@User() user: any, @Body() dto: ChangePositionModeDto) {
+    return this.perpetualService.changePositionMode(user.id, dto.positionMode);
+  }
+
+  // 风险限额档位
+  @Get('risk-brackets/:symbol')
+  async getRiskBrackets(@Param('symbol') symbol: string) {
+    return this.perpetualService.getRiskBrackets(symbol);
+  }
 }
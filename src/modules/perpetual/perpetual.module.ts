@@ -1,17 +1,54 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PerpetualService } from './services/perpetual.service';
 import { PerpetualController } from './perpetual.controller';
 import { RedisCacheModule } from '../redis/redis.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { MarketModule } from '../market/market.module';
-import { RiskManagementService } from './services/risk-management.service';
+import { RiskManagementService } from './risk-management/risk-management.service';
 import { ADLService } from './services/adl.service';
+import { IndexPriceService } from './services/index-price.service';
+import { MarkPriceService } from './services/mark-price.service';
+import { RiskBracketService } from './services/risk-bracket.service';
+import { CrossMarginService } from './services/cross-margin.service';
+import { PositionService } from './services/position.service';
+import { ConditionalOrderService } from './services/conditional-order.service';
+import { LiquidationService } from './services/liquidation.service';
+import { FundingService } from './services/funding.service';
+import { MatchingEngineService } from './matching-engine/matching-engine.service';
 import { PrometheusModule } from '../prometheus/prometheus.module';
+import { PRICE_SOURCES } from './types/price-index.types';
+import { createPriceSources } from './price-sources/price-source.factory';
 
 @Module({
   imports: [RedisCacheModule, PrismaModule, MarketModule, PrometheusModule],
   controllers: [PerpetualController],
-  providers: [PerpetualService, RiskManagementService, ADLService],
-  exports: [PerpetualService],
+  providers: [
+    PerpetualService,
+    RiskManagementService,
+    ADLService,
+    {
+      provide: PRICE_SOURCES,
+      inject: [ConfigService],
+      useFactory: createPriceSources,
+    },
+    IndexPriceService,
+    MarkPriceService,
+    RiskBracketService,
+    CrossMarginService,
+    PositionService,
+    ConditionalOrderService,
+    MatchingEngineService,
+    LiquidationService,
+    FundingService,
+  ],
+  exports: [
+    PerpetualService,
+    IndexPriceService,
+    MarkPriceService,
+    RiskBracketService,
+    CrossMarginService,
+    PositionService,
+  ],
 })
 export class PerpetualModule {}
@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import { PriceQuote, PriceSource } from '../types/price-index.types';
+
+/**
+ * 从 JSON 文件读取报价，文件格式为 { "BTCUSDT": { "price": 50000, "timestamp": 1700000000000 } }。
+ * 由外部行情采集进程写入，也可在测试中作为交易所行情的替身。
+ */
+export class FilePriceSource implements PriceSource {
+  constructor(
+    readonly name: string,
+    private readonly filePath: string,
+    readonly weight: number = 1,
+  ) {}
+
+  async getPrice(symbol: string): Promise<PriceQuote | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const quote = JSON.parse(content)[symbol];
+    if (!quote) {
+      return null;
+    }
+
+    return {
+      price: Number(quote.price),
+      timestamp: Number(quote.timestamp),
+    };
+  }
+}
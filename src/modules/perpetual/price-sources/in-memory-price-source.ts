@@ -0,0 +1,25 @@
+import { PriceQuote, PriceSource } from '../types/price-index.types';
+
+/**
+ * 进程内价格来源，报价由调用方直接写入，用于测试和本地联调。
+ */
+export class InMemoryPriceSource implements PriceSource {
+  private readonly quotes = new Map<string, PriceQuote>();
+
+  constructor(
+    readonly name: string,
+    readonly weight: number = 1,
+  ) {}
+
+  setPrice(symbol: string, price: number, timestamp: number = Date.now()): void {
+    this.quotes.set(symbol, { price, timestamp });
+  }
+
+  removePrice(symbol: string): void {
+    this.quotes.delete(symbol);
+  }
+
+  async getPrice(symbol: string): Promise<PriceQuote | null> {
+    return this.quotes.get(symbol) ?? null;
+  }
+}
@@ -0,0 +1,32 @@
+import { ConfigService } from '@nestjs/config';
+import { PriceSource } from '../types/price-index.types';
+import { FilePriceSource } from './file-price-source';
+
+/**
+ * 按 INDEX_PRICE_SOURCES 配置创建价格来源，格式为逗号分隔的 name:weight:path，
+ * 例如 binance:1:data/index-prices/binance.json,okx:1:data/index-prices/okx.json
+ * 没有配置任何来源时指数价格无从计算，在启动时报错。
+ */
+export function createPriceSources(configService: ConfigService): PriceSource[] {
+  const config = configService.get<string>('INDEX_PRICE_SOURCES', '');
+
+  const sources = config
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [name, weight, ...path] = entry.split(':');
+      if (!name || !(Number(weight) > 0) || path.length === 0) {
+        throw new Error(`Invalid index price source "${entry}", expected name:weight:path with a positive weight`);
+      }
+      return new FilePriceSource(name, path.join(':'), Number(weight));
+    });
+
+  if (sources.length === 0) {
+    throw new Error(
+      'INDEX_PRICE_SOURCES is not configured: set comma-separated name:weight:path entries, see .env.example',
+    );
+  }
+
+  return sources;
+}
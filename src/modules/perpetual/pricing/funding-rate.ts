@@ -0,0 +1,39 @@
+import { PremiumIndexSample } from '../types/perpetual.types';
+
+export interface FundingRateLimits {
+  minRate: number;
+  maxRate: number;
+  // 利率与溢价指数之差的上下限
+  interestClamp: number;
+}
+
+/**
+ * 每个样本的权重为其到下一个样本的时长，最后一个样本覆盖到窗口结束（至少一个采样间隔）；
+ * 单个样本的权重不超过两个采样间隔，采样中断时缺口前的样本不会被过度放大。
+ */
+export function calculateTimeWeightedPremium(
+  samples: PremiumIndexSample[],
+  windowEnd: number,
+  sampleInterval: number,
+): number {
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  sorted.forEach((sample, i) => {
+    const next = sorted[i + 1]?.timestamp ?? Math.max(windowEnd, sample.timestamp + sampleInterval);
+    const weight = Math.min(next - sample.timestamp, sampleInterval * 2);
+    weightedSum += sample.premium * weight;
+    totalWeight += weight;
+  });
+
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * 资金费率 = 溢价指数 + clamp(利率 - 溢价指数, ±interestClamp)，再限制在合约的上下限内。
+ */
+export function calculateFundingRate(premiumIndex: number, interestRate: number, limits: FundingRateLimits): number {
+  const interest = Math.min(Math.max(interestRate - premiumIndex, -limits.interestClamp), limits.interestClamp);
+  return Math.min(Math.max(premiumIndex + interest, limits.minRate), limits.maxRate);
+}
@@ -0,0 +1,29 @@
+import { DecimalValue, FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+export interface BasisSample {
+  basis: FixedDecimal;
+  timestamp: number;
+}
+
+/**
+ * 丢弃移出窗口的基差样本，最新成交价有效时追加一个新样本。
+ */
+export function updateBasisSamples(
+  samples: BasisSample[],
+  indexPrice: DecimalValue,
+  lastPrice: number | null,
+  now: number,
+  basisWindow: number,
+): BasisSample[] {
+  const updated = samples.filter(sample => now - sample.timestamp < basisWindow);
+  if (lastPrice !== null && Number.isFinite(lastPrice) && lastPrice > 0) {
+    updated.push({ basis: FixedDecimal.from(lastPrice).minus(indexPrice), timestamp: now });
+  }
+  return updated;
+}
+
+export function calculateBasisAverage(samples: BasisSample[]): FixedDecimal {
+  return samples.length > 0
+    ? FixedDecimal.sum(samples.map(sample => sample.basis)).div(samples.length)
+    : FixedDecimal.ZERO;
+}
@@ -1,28 +1,31 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { RedisService } from '../../redis/redis.service';
+import { RedisClientService } from '../../redis/redis.service';
 import { ConfigService } from '@nestjs/config';
-import { PrometheusService } from '../../../shared/services/prometheus.service';
+import { PrometheusService } from '../../prometheus/prometheus.service';
 import {
   Position,
   MarginType,
   PerpetualConfig,
-  MarginLevel,
   FundingInfo,
 } from '../types/perpetual.types';
+import { RiskBracketService } from '../services/risk-bracket.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { calculateInitialMargin } from '../margin/position-math';
+import { calculateLiquidationPrice } from '../margin/liquidation-price';
 
 @Injectable()
 export class RiskManagementService {
   private readonly logger = new Logger(RiskManagementService.name);
   private readonly configs = new Map<string, PerpetualConfig>();
-  private readonly marginLevels = new Map<string, MarginLevel[]>();
   private readonly fundingInfo = new Map<string, FundingInfo>();
 
   constructor(
     private readonly eventEmitter: EventEmitter2,
-    private readonly redisService: RedisService,
+    private readonly redisService: RedisClientService,
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
+    private readonly riskBracketService: RiskBracketService,
   ) {
     this.initializeConfigs();
     this.subscribeToEvents();
@@ -73,6 +76,11 @@ export class RiskManagementService {
         );
       }
 
+      // 验证下单后仓位名义价值所在档位允许该杠杆
+      const currentPrice = await this.getCurrentPrice(symbol);
+      const notional = FixedDecimal.from(position?.amount ?? 0).abs().plus(size).times(currentPrice);
+      this.riskBracketService.validateLeverage(symbol, notional, leverage);
+
       // 验证保证金
       if (marginType === MarginType.ISOLATED) {
         await this.validateIsolatedMargin(position, size, leverage);
@@ -92,22 +100,10 @@ export class RiskManagementService {
 
   async calculateLiquidationPrice(position: Position): Promise<number> {
     try {
-      const config = this.getConfig(position.symbol);
-      const maintMarginRatio = this.getMaintenanceMarginRatio(
-        position.symbol,
-        position.leverage,
-      );
-
       if (position.marginType === MarginType.ISOLATED) {
-        return this.calculateIsolatedLiquidationPrice(
-          position,
-          maintMarginRatio,
-        );
+        return this.calculateIsolatedLiquidationPrice(position);
       } else {
-        return this.calculateCrossLiquidationPrice(
-          position,
-          maintMarginRatio,
-        );
+        return this.calculateCrossLiquidationPrice(position);
       }
     } catch (error) {
       this.logger.error(
@@ -130,7 +126,7 @@ export class RiskManagementService {
       const indexPrice = fundingInfo.indexPrice;
 
       // 计算资金费率
-      const premiumIndex = (markPrice - indexPrice) / indexPrice;
+      const premiumIndex = FixedDecimal.from(markPrice).minus(indexPrice).div(indexPrice).toNumber();
       const fundingRate = this.calculateFundingRate(
         premiumIndex,
         fundingInfo.interestRate,
@@ -198,14 +194,13 @@ export class RiskManagementService {
     size: number,
     leverage: number,
   ): Promise<void> {
-    const config = this.getConfig(position.symbol);
-    const requiredMargin = (size * position.entryPrice) / leverage;
+    const requiredMargin = calculateInitialMargin(size, position.entryPrice, leverage);
     const initialMarginRatio = this.getInitialMarginRatio(
       position.symbol,
-      leverage,
+      FixedDecimal.from(size).times(position.entryPrice),
     );
 
-    if (position.isolatedMargin! < requiredMargin * (1 + initialMarginRatio)) {
+    if (requiredMargin.times(initialMarginRatio.plus(1)).gt(position.isolatedMargin!)) {
       throw new Error('Insufficient isolated margin');
     }
   }
@@ -217,45 +212,38 @@ export class RiskManagementService {
     leverage: number,
   ): Promise<void> {
     const availableBalance = await this.getAvailableBalance(userId);
-    const requiredMargin = (size * position.entryPrice) / leverage;
+    const requiredMargin = calculateInitialMargin(size, position.entryPrice, leverage);
     const initialMarginRatio = this.getInitialMarginRatio(
       position.symbol,
-      leverage,
+      FixedDecimal.from(size).times(position.entryPrice),
     );
 
-    if (availableBalance < requiredMargin * (1 + initialMarginRatio)) {
+    if (requiredMargin.times(initialMarginRatio.plus(1)).gt(availableBalance)) {
       throw new Error('Insufficient cross margin');
     }
   }
 
-  private calculateIsolatedLiquidationPrice(
-    position: Position,
-    maintMarginRatio: number,
-  ): number {
-    const { side, amount, entryPrice, isolatedMargin } = position;
-    const bankruptcyPrice =
-      side === 'LONG'
-        ? entryPrice - isolatedMargin! / amount
-        : entryPrice + isolatedMargin! / amount;
-
-    return side === 'LONG'
-      ? bankruptcyPrice / (1 - maintMarginRatio)
-      : bankruptcyPrice * (1 + maintMarginRatio);
+  private calculateIsolatedLiquidationPrice(position: Position): number {
+    return this.calculateBracketLiquidationPrice(position, position.isolatedMargin!);
   }
 
-  private calculateCrossLiquidationPrice(
-    position: Position,
-    maintMarginRatio: number,
-  ): number {
-    const { side, amount, entryPrice, margin } = position;
-    const bankruptcyPrice =
-      side === 'LONG'
-        ? entryPrice - margin / amount
-        : entryPrice + margin / amount;
-
-    return side === 'LONG'
-      ? bankruptcyPrice / (1 - maintMarginRatio)
-      : bankruptcyPrice * (1 + maintMarginRatio);
+  private calculateCrossLiquidationPrice(position: Position): number {
+    return this.calculateBracketLiquidationPrice(position, position.margin);
+  }
+
+  /**
+   * 强平价格满足：保证金 + 未实现盈亏 = 名义价值 * 维持保证金率 - 速算扣除额，档位按开仓名义价值确定。
+   */
+  private calculateBracketLiquidationPrice(position: Position, margin: number): number {
+    return calculateLiquidationPrice(
+      {
+        side: position.side,
+        quantity: FixedDecimal.from(position.amount),
+        entryPrice: FixedDecimal.from(position.entryPrice),
+        margin: FixedDecimal.from(margin),
+      },
+      notional => this.riskBracketService.getBracket(position.symbol, notional),
+    ).toNumber();
   }
 
   private calculateFundingRate(
@@ -264,10 +252,10 @@ export class RiskManagementService {
   ): number {
     // 基于溢价指数和利率计算资金费率
     const maxRate = 0.0075; // 最大资金费率 0.75%
-    let fundingRate = premiumIndex + interestRate;
+    const fundingRate = FixedDecimal.from(premiumIndex).plus(interestRate);
 
     // 限制资金费率范围
-    return Math.max(Math.min(fundingRate, maxRate), -maxRate);
+    return FixedDecimal.max(FixedDecimal.min(fundingRate, maxRate), -maxRate).toNumber();
   }
 
   private getNextFundingTime(interval: number): number {
@@ -329,9 +317,9 @@ export class RiskManagementService {
     currentPrice: number,
     liquidationPrice: number,
   ): number {
-    const priceDistance = Math.abs(currentPrice - liquidationPrice);
-    const riskPercentage = (priceDistance / currentPrice) * 100;
-    return Math.min(Math.max(riskPercentage, 0), 100);
+    const priceDistance = FixedDecimal.from(currentPrice).minus(liquidationPrice).abs();
+    const riskPercentage = priceDistance.div(currentPrice).times(100);
+    return FixedDecimal.min(FixedDecimal.max(riskPercentage, 0), 100).toNumber();
   }
 
   private getConfig(symbol: string): PerpetualConfig {
@@ -363,27 +351,9 @@ export class RiskManagementService {
     return parseFloat(balance);
   }
 
-  private getMaintenanceMarginRatio(
-    symbol: string,
-    leverage: number,
-  ): number {
-    const levels = this.marginLevels.get(symbol);
-    if (!levels) {
-      throw new Error(`Margin levels not found for symbol: ${symbol}`);
-    }
-
-    const level = levels.find((l) => l.leverage >= leverage);
-    return level ? level.maintMarginRatio : levels[0].maintMarginRatio;
-  }
-
-  private getInitialMarginRatio(symbol: string, leverage: number): number {
-    const levels = this.marginLevels.get(symbol);
-    if (!levels) {
-      throw new Error(`Margin levels not found for symbol: ${symbol}`);
-    }
-
-    const level = levels.find((l) => l.leverage >= leverage);
-    return level ? level.initialMarginRatio : levels[0].initialMarginRatio;
+  // 初始保证金率为名义价值所在档位最大杠杆的倒数
+  private getInitialMarginRatio(symbol: string, notional: FixedDecimal): FixedDecimal {
+    return FixedDecimal.from(1).div(this.riskBracketService.getMaxLeverage(symbol, notional));
   }
 
   private subscribeToEvents(): void {
@@ -1,16 +1,36 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { Position, Prisma } from '@prisma/client';
 import { PrometheusService } from '../../../modules/prometheus/prometheus.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { MarkPriceService } from './mark-price.service';
+import { CrossMarginService } from './cross-margin.service';
+import { ADLEvent } from '../../liquidation/types/liquidation.types';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { ADLQuantile, ADLRequest, MarginType, PositionSide, PositionState } from '../types/perpetual.types';
+import { calculatePositionPnl, parsePosition } from '../margin/position-math';
+import { calculateIsolatedEquity, getAdlQuantile, rankAdlPositions } from '../margin/adl-ranking';
 
 @Injectable()
 export class ADLService {
+  private readonly logger = new Logger(ADLService.name);
+  private readonly liquidationAccountId: string;
+
   constructor(
     @InjectRedis() private readonly redis: Redis,
     private readonly prometheusService: PrometheusService,
     private readonly prisma: PrismaService,
-  ) {}
+    private readonly eventEmitter: EventEmitter2,
+    private readonly markPriceService: MarkPriceService,
+    private readonly configService: ConfigService,
+    private readonly crossMarginService: CrossMarginService,
+  ) {
+    this.liquidationAccountId = this.configService.get('LIQUIDATION_ACCOUNT_ID', 'liquidation-engine');
+    this.subscribeToEvents();
+  }
 
   async getADLQueue(symbol: string, side: string): Promise<string[]> {
     const key = `adl:${symbol}:${side}`;
@@ -33,38 +53,149 @@ export class ADLService {
     return insuranceFund < threshold;
   }
 
-  async executeADL(symbol: string, side: string) {
-    const queue = await this.getADLQueue(symbol, side);
-    if (queue.length === 0) {
-      return;
+  /**
+   * 按排名依次减少反方向持仓，以被强平持仓的破产价格与强平账户接管的持仓成交，直到剩余持仓全部被吸收。
+   * 返回实际减仓数量。
+   */
+  async executeADL(request: ADLRequest): Promise<FixedDecimal> {
+    const counterSide = request.side === PositionSide.LONG ? PositionSide.SHORT : PositionSide.LONG;
+    const { markPrice } = await this.markPriceService.getMarkPrice(request.symbol);
+    const ranked = await this.rankPositions(request.symbol, counterSide, markPrice);
+    const amount = FixedDecimal.from(request.amount);
+    const bankruptcyPrice = FixedDecimal.from(request.bankruptcyPrice);
+
+    let remaining = amount;
+    for (const position of ranked) {
+      if (!remaining.isPositive()) {
+        break;
+      }
+
+      const quantity = FixedDecimal.min(remaining, position.quantity);
+      await this.closePosition(position, quantity, bankruptcyPrice, request.side);
+      remaining = remaining.minus(quantity);
+    }
+
+    if (remaining.isPositive()) {
+      this.logger.error(
+        `ADL for liquidation ${request.liquidationId} left ${remaining} ${request.symbol} unabsorbed`,
+      );
     }
 
-    const userId = queue[0];
-    const position = await this.prisma.position.findUnique({
+    await this.updateADLRanking(request.symbol, counterSide);
+    return amount.minus(remaining);
+  }
+
+  /**
+   * 用户各持仓的自动减仓指示灯：按所在方向排名的百分位分为 1-5 档，排名最靠前的 20% 为 5 档。
+   */
+  async getADLQuantiles(userId: string, symbol?: string): Promise<ADLQuantile[]> {
+    const rows = await this.prisma.position.findMany({
       where: {
-        userId_symbol_side: {
-          userId,
-          symbol,
-          side,
-        },
+        userId,
+        ...(symbol && { symbol }),
       },
     });
 
-    if (!position) {
-      await this.removeFromADLQueue(symbol, side, userId);
-      return;
-    }
+    const quantiles: ADLQuantile[] = [];
+    for (const position of this.getOpenPositions(rows)) {
+      const { markPrice } = await this.markPriceService.getMarkPrice(position.symbol);
+      const ranked = await this.rankPositions(position.symbol, position.side, markPrice);
+      const rank = ranked.findIndex(p => p.id === position.id);
+      if (rank < 0) {
+        continue;
+      }
 
-    // Close position at market price
-    await this.closePosition(position);
+      quantiles.push({
+        symbol: position.symbol,
+        side: position.side,
+        quantile: getAdlQuantile(rank, ranked.length),
+      });
+    }
 
-    // Remove from ADL queue
-    await this.removeFromADLQueue(symbol, side, userId);
+    return quantiles;
   }
 
-  private async closePosition(position: any) {
-    // Implement position closing logic
-    // This should create a market order to close the position
+  /**
+   * 以破产价格减少对手方持仓：按比例释放保证金，平仓盈亏计入已实现盈亏和钱包余额。
+   * 同一事务中强平账户接管的 takenSide 方向持仓减少相同数量，按破产价格结算盈亏。
+   */
+  private async closePosition(
+    position: PositionState,
+    quantity: FixedDecimal,
+    price: FixedDecimal,
+    takenSide: PositionSide,
+  ) {
+    const realizedPnl = calculatePositionPnl(position.side, position.entryPrice, price, quantity);
+    const releasedMargin = position.margin.times(quantity).div(position.quantity);
+    const remaining = position.quantity.minus(quantity);
+
+    await this.prisma.$transaction(async (prisma: Prisma.TransactionClient) => {
+      const where = {
+        userId_symbol_side: { userId: this.liquidationAccountId, symbol: position.symbol, side: takenSide },
+      };
+      const taken = await prisma.position.findUnique({ where });
+      if (!taken || FixedDecimal.from(taken.quantity).lt(quantity)) {
+        throw new Error(`Liquidation account holds less than ${quantity} ${takenSide} ${position.symbol}`);
+      }
+      await prisma.position.update({
+        where,
+        data: {
+          quantity: FixedDecimal.from(taken.quantity).minus(quantity).toString(),
+          realizedPnl: FixedDecimal.from(taken.realizedPnl)
+            .plus(calculatePositionPnl(takenSide, taken.entryPrice, price, quantity))
+            .toString(),
+        },
+      });
+
+      await prisma.position.update({
+        where: { id: position.id },
+        data: {
+          quantity: remaining.toString(),
+          margin: position.margin.minus(releasedMargin).toString(),
+          unrealizedPnl: position.unrealizedPnl.times(remaining).div(position.quantity).toString(),
+          realizedPnl: position.realizedPnl.plus(realizedPnl).toString(),
+        },
+      });
+
+      // 全仓保证金本就在钱包余额中，逐仓减仓释放的保证金需返还钱包
+      const balanceChange = position.marginType === MarginType.ISOLATED ? realizedPnl.plus(releasedMargin) : realizedPnl;
+      await prisma.userBalance.update({
+        where: { userId: position.userId },
+        data: {
+          balance: {
+            increment: balanceChange.toPrismaDecimal(),
+          },
+        },
+      });
+    });
+
+    const adlEvent: ADLEvent = {
+      userId: position.userId,
+      positionId: position.id,
+      symbol: position.symbol,
+      side: position.side,
+      size: quantity.toNumber(),
+      price: price.toNumber(),
+      adlFee: 0,
+      marginType: position.marginType,
+      timestamp: new Date(),
+    };
+    this.eventEmitter.emit('position.adl', adlEvent);
+
+    // 止盈止损单随持仓数量调整，持仓被减完时撤销
+    this.eventEmitter.emit('position.updated', {
+      userId: position.userId,
+      symbol: position.symbol,
+      side: position.side,
+      quantity: remaining.toNumber(),
+    });
+    if (remaining.isZero()) {
+      this.eventEmitter.emit('position.closed', {
+        userId: position.userId,
+        symbol: position.symbol,
+        side: position.side,
+      });
+    }
   }
 
   private async getInsuranceFundBalance(symbol: string): Promise<number> {
@@ -78,19 +209,8 @@ export class ADLService {
   }
 
   async updateADLRanking(symbol: string, side: string) {
-    const positions = await this.prisma.position.findMany({
-      where: {
-        symbol,
-        side,
-      },
-    });
-
-    // Sort positions by profit ratio
-    const sortedPositions = positions.sort((a, b) => {
-      const profitRatioA = parseFloat(a.unrealizedPnl) / parseFloat(a.margin);
-      const profitRatioB = parseFloat(b.unrealizedPnl) / parseFloat(b.margin);
-      return profitRatioB - profitRatioA;
-    });
+    const { markPrice } = await this.markPriceService.getMarkPrice(symbol);
+    const sortedPositions = await this.rankPositions(symbol, side as PositionSide, markPrice);
 
     // Update ADL queue
     const key = `adl:${symbol}:${side}`;
@@ -102,4 +222,48 @@ export class ADLService {
       );
     }
   }
+
+  /**
+   * 按标记价格计算排名分数并从高到低排序。逐仓持仓以逐仓保证金加未实现盈亏为权益，
+   * 全仓持仓以所在账户的保证金余额为权益。强平账户接管的持仓不参与排名。
+   */
+  private async rankPositions(symbol: string, side: PositionSide, markPrice: number): Promise<PositionState[]> {
+    const rows = await this.prisma.position.findMany({
+      where: {
+        symbol,
+        side,
+      },
+    });
+    const positions = this.getOpenPositions(rows).filter(position => position.userId !== this.liquidationAccountId);
+    const price = FixedDecimal.from(markPrice);
+
+    const crossEquity = new Map<string, FixedDecimal>();
+    for (const position of positions) {
+      if (position.marginType === MarginType.CROSS && !crossEquity.has(position.userId)) {
+        const account = await this.crossMarginService.getCrossMarginAccount(position.userId);
+        crossEquity.set(position.userId, account.marginBalance);
+      }
+    }
+
+    return rankAdlPositions(positions, price, position =>
+      position.marginType === MarginType.CROSS
+        ? crossEquity.get(position.userId)
+        : calculateIsolatedEquity(position, price),
+    );
+  }
+
+  // quantity 以十进制字符串存储，无法在数据库中按数值过滤，已平仓的持仓在这里排除
+  private getOpenPositions(rows: Position[]): PositionState[] {
+    return rows.map(parsePosition).filter(position => position.quantity.isPositive());
+  }
+
+  private subscribeToEvents(): void {
+    this.eventEmitter.on('adl.required', async (request: ADLRequest) => {
+      try {
+        await this.executeADL(request);
+      } catch (error) {
+        this.logger.error(`ADL for liquidation ${request.liquidationId} failed: ${error.message}`);
+      }
+    });
+  }
 }
@@ -0,0 +1,356 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Order, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { OrderSide } from '../dto/perpetual.dto';
+import { MarkPriceService } from './mark-price.service';
+import { PositionService } from './position.service';
+import {
+  MarginType,
+  OrderStatus,
+  PerpetualOrder,
+  PerpetualOrderType,
+  PositionMode,
+  PositionSide,
+} from '../types/perpetual.types';
+
+const CONDITIONAL_ORDER_TYPES = [
+  PerpetualOrderType.STOP,
+  PerpetualOrderType.STOP_MARKET,
+  PerpetualOrderType.TAKE_PROFIT,
+  PerpetualOrderType.TAKE_PROFIT_MARKET,
+  PerpetualOrderType.TRAILING_STOP_MARKET,
+];
+
+// 跟踪止损回调比例范围（百分比）
+const MIN_CALLBACK_RATE = 0.1;
+const MAX_CALLBACK_RATE = 5;
+
+interface TrailingStop {
+  symbol: string;
+  positionSide?: PositionSide;
+  callbackRate: number;
+  activationPrice?: number;
+}
+
+interface PositionTpSl {
+  symbol: string;
+  // 被保护的持仓方向
+  positionSide: PositionSide;
+  takeProfit?: number;
+  takeProfitLimitPrice?: number;
+  stopLoss?: number;
+  stopLossLimitPrice?: number;
+}
+
+/**
+ * 挂在持仓上的止盈止损单：与开仓单一起创建或对已有持仓追加，
+ * 数量跟随持仓数量，持仓平仓后自动撤销。
+ */
+@Injectable()
+export class ConditionalOrderService {
+  private readonly logger = new Logger(ConditionalOrderService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly markPriceService: MarkPriceService,
+    private readonly positionService: PositionService,
+  ) {
+    this.subscribeToEvents();
+  }
+
+  /**
+   * 对已有持仓设置止盈止损，数量为当前持仓数量。
+   */
+  async createPositionOrders(
+    userId: string,
+    params: Omit<PositionTpSl, 'positionSide'> & { positionSide?: PositionSide },
+  ) {
+    const { positionMode, position } = await this.getOpenPosition(userId, params.symbol, params.positionSide);
+
+    const { markPrice } = await this.markPriceService.getMarkPrice(params.symbol);
+    return this.createOrders(
+      userId,
+      positionMode,
+      { ...params, positionSide: position.side },
+      markPrice,
+      FixedDecimal.from(position.quantity),
+      position.leverage,
+    );
+  }
+
+  /**
+   * 对已有持仓设置跟踪止损：激活后标记价格从最高价（多仓）或最低价（空仓）回撤 callbackRate% 时按市价平仓。
+   */
+  async createTrailingStop(userId: string, params: TrailingStop) {
+    if (!(params.callbackRate >= MIN_CALLBACK_RATE && params.callbackRate <= MAX_CALLBACK_RATE)) {
+      throw new Error(`Callback rate must be between ${MIN_CALLBACK_RATE}% and ${MAX_CALLBACK_RATE}%`);
+    }
+    if (params.activationPrice !== undefined && !(params.activationPrice > 0)) {
+      throw new Error(`Invalid activation price: ${params.activationPrice}`);
+    }
+
+    const { positionMode, position } = await this.getOpenPosition(userId, params.symbol, params.positionSide);
+    const isLong = position.side === PositionSide.LONG;
+
+    const order = await this.prisma.order.create({
+      data: {
+        userId,
+        symbol: params.symbol,
+        side: isLong ? OrderSide.SELL : OrderSide.BUY,
+        type: PerpetualOrderType.TRAILING_STOP_MARKET,
+        price: '0',
+        quantity: position.quantity,
+        leverage: position.leverage,
+        margin: '0',
+        timeInForce: 'GTC',
+        positionSide: positionMode === PositionMode.HEDGE ? position.side : null,
+        reduceOnly: true,
+        callbackRate: String(params.callbackRate),
+        activationPrice: params.activationPrice !== undefined ? String(params.activationPrice) : null,
+        status: OrderStatus.NEW,
+      },
+    });
+    this.publishCreatedOrders([order]);
+    return order;
+  }
+
+  /**
+   * 数据库中未触发的条件单，撮合引擎启动时据此恢复条件单簿。
+   */
+  async getPendingOrders(symbol: string): Promise<PerpetualOrder[]> {
+    const rows = await this.prisma.order.findMany({
+      where: {
+        symbol,
+        type: { in: CONDITIONAL_ORDER_TYPES },
+        status: OrderStatus.NEW,
+        triggeredAt: null,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return rows.map(row => this.toPerpetualOrder(row));
+  }
+
+  private toPerpetualOrder(row: Order): PerpetualOrder {
+    return {
+      id: row.id,
+      userId: row.userId,
+      symbol: row.symbol,
+      side: row.side === OrderSide.BUY ? PositionSide.LONG : PositionSide.SHORT,
+      positionSide: (row.positionSide as PositionSide) ?? undefined,
+      type: row.type as PerpetualOrderType,
+      price: Number(row.price),
+      amount: Number(row.quantity),
+      leverage: row.leverage,
+      marginType: row.marginType as MarginType,
+      stopPrice: row.stopPrice ? Number(row.stopPrice) : undefined,
+      callbackRate: row.callbackRate ? Number(row.callbackRate) : undefined,
+      activationPrice: row.activationPrice ? Number(row.activationPrice) : undefined,
+      trailingPrice: row.trailingPrice ? Number(row.trailingPrice) : undefined,
+      reduceOnly: true,
+      status: OrderStatus.NEW,
+      filled: 0,
+      avgPrice: 0,
+      fee: 0,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * 新建的条件单写入数据库后通知撮合引擎放入条件单簿，此后才会被标记价格触发。
+   */
+  private publishCreatedOrders(rows: Order[]): void {
+    for (const row of rows) {
+      this.eventEmitter.emit('perpetual.conditional.created', { order: this.toPerpetualOrder(row) });
+    }
+  }
+
+  /**
+   * 随开仓单创建止盈止损。持仓尚未建立，数量为零，开仓成交后按持仓数量调整。
+   */
+  async createEntryOrders(userId: string, entryOrder: any, takeProfit?: number, stopLoss?: number) {
+    if (takeProfit === undefined && stopLoss === undefined) {
+      return [];
+    }
+    if (entryOrder.reduceOnly) {
+      throw new Error('Take-profit/stop-loss cannot be attached to a reduce-only order');
+    }
+
+    const positionMode = await this.positionService.getPositionMode(userId);
+    const positionSide =
+      entryOrder.positionSide ?? (entryOrder.side === OrderSide.BUY ? PositionSide.LONG : PositionSide.SHORT);
+    const referencePrice = entryOrder.price
+      ? Number(entryOrder.price)
+      : (await this.markPriceService.getMarkPrice(entryOrder.symbol)).markPrice;
+
+    return this.createOrders(
+      userId,
+      positionMode,
+      { symbol: entryOrder.symbol, positionSide, takeProfit, stopLoss },
+      referencePrice,
+      FixedDecimal.ZERO,
+      entryOrder.leverage,
+    );
+  }
+
+  private async createOrders(
+    userId: string,
+    positionMode: PositionMode,
+    params: PositionTpSl,
+    referencePrice: number,
+    quantity: FixedDecimal,
+    leverage: number,
+  ) {
+    if (params.takeProfit === undefined && params.stopLoss === undefined) {
+      throw new Error('takeProfit or stopLoss is required');
+    }
+
+    const isLong = params.positionSide === PositionSide.LONG;
+    // 多仓止盈价须高于参考价、止损价须低于参考价，空仓相反
+    const { takeProfit, stopLoss } = params;
+    if (takeProfit !== undefined && (isLong ? takeProfit <= referencePrice : takeProfit >= referencePrice)) {
+      throw new Error(`Take-profit price ${params.takeProfit} would trigger immediately at ${referencePrice}`);
+    }
+    if (stopLoss !== undefined && (isLong ? stopLoss >= referencePrice : stopLoss <= referencePrice)) {
+      throw new Error(`Stop-loss price ${params.stopLoss} would trigger immediately at ${referencePrice}`);
+    }
+
+    const data = {
+      userId,
+      symbol: params.symbol,
+      side: isLong ? OrderSide.SELL : OrderSide.BUY,
+      quantity: quantity.toString(),
+      leverage,
+      margin: '0',
+      timeInForce: 'GTC',
+      positionSide: positionMode === PositionMode.HEDGE ? params.positionSide : null,
+      reduceOnly: true,
+      status: OrderStatus.NEW,
+    };
+
+    const orders = [];
+    if (params.takeProfit !== undefined) {
+      orders.push({
+        ...data,
+        type: params.takeProfitLimitPrice ? PerpetualOrderType.TAKE_PROFIT : PerpetualOrderType.TAKE_PROFIT_MARKET,
+        price: String(params.takeProfitLimitPrice ?? 0),
+        stopPrice: String(params.takeProfit),
+      });
+    }
+    if (params.stopLoss !== undefined) {
+      orders.push({
+        ...data,
+        type: params.stopLossLimitPrice ? PerpetualOrderType.STOP : PerpetualOrderType.STOP_MARKET,
+        price: String(params.stopLossLimitPrice ?? 0),
+        stopPrice: String(params.stopLoss),
+      });
+    }
+
+    const rows = await this.prisma.$transaction(async prisma =>
+      Promise.all(orders.map(order => prisma.order.create({ data: order }))),
+    );
+    this.publishCreatedOrders(rows);
+    return rows;
+  }
+
+  private async getOpenPosition(userId: string, symbol: string, positionSide?: PositionSide) {
+    const positionMode = await this.positionService.getPositionMode(userId);
+    const positions = await this.prisma.position.findMany({
+      where: { userId, symbol },
+    });
+    const openPositions = positions.filter(position => FixedDecimal.from(position.quantity).isPositive());
+
+    let position;
+    if (positionMode === PositionMode.HEDGE) {
+      if (!positionSide) {
+        throw new Error('positionSide is required in hedge mode');
+      }
+      position = openPositions.find(p => p.side === positionSide);
+    } else {
+      position = openPositions[0];
+    }
+    if (!position) {
+      throw new Error(`No open position for ${symbol}`);
+    }
+
+    return { positionMode, position };
+  }
+
+  /**
+   * 未触发的、挂在指定持仓上的条件单：双向持仓按 positionSide 关联，单向持仓按反方向的买卖方向关联。
+   */
+  private positionOrdersWhere(userId: string, symbol: string, side: PositionSide): Prisma.OrderWhereInput {
+    return {
+      userId,
+      symbol,
+      type: { in: CONDITIONAL_ORDER_TYPES },
+      status: OrderStatus.NEW,
+      triggeredAt: null,
+      OR: [
+        { positionSide: side },
+        { positionSide: null, side: side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY },
+      ],
+    };
+  }
+
+  private subscribeToEvents(): void {
+    this.eventEmitter.on(
+      'position.updated',
+      async (data: { userId: string; symbol: string; side: PositionSide; quantity: number }) => {
+        try {
+          await this.prisma.order.updateMany({
+            where: this.positionOrdersWhere(data.userId, data.symbol, data.side),
+            data: { quantity: String(data.quantity) },
+          });
+        } catch (error) {
+          this.logger.error(`Failed to resize conditional orders: ${error.message}`);
+        }
+      },
+    );
+
+    // 持仓平仓后撤销剩余的止盈止损单，一侧触发平仓后另一侧随之撤销
+    this.eventEmitter.on('position.closed', async (data: { userId: string; symbol: string; side: PositionSide }) => {
+      try {
+        await this.prisma.order.updateMany({
+          where: this.positionOrdersWhere(data.userId, data.symbol, data.side),
+          data: { status: OrderStatus.CANCELED },
+        });
+      } catch (error) {
+        this.logger.error(`Failed to cancel conditional orders: ${error.message}`);
+      }
+    });
+
+    this.eventEmitter.on(
+      'perpetual.trailing.updated',
+      async (data: { orderId: string; trailingPrice: number }) => {
+        try {
+          await this.prisma.order.update({
+            where: { id: data.orderId },
+            data: { trailingPrice: String(data.trailingPrice) },
+          });
+        } catch (error) {
+          this.logger.error(`Failed to persist trailing state of order ${data.orderId}: ${error.message}`);
+        }
+      },
+    );
+
+    this.eventEmitter.on('perpetual.order.triggered', async (data: { order: PerpetualOrder }) => {
+      try {
+        await this.prisma.order.update({
+          where: { id: data.order.id },
+          data: {
+            type: data.order.type,
+            quantity: String(data.order.amount),
+            triggeredAt: new Date(),
+          },
+        });
+      } catch (error) {
+        this.logger.error(`Failed to record triggered order ${data.order.id}: ${error.message}`);
+      }
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { MarkPriceService } from './mark-price.service';
+import { RiskBracketService } from './risk-bracket.service';
+import {
+  CrossMarginAccount,
+  CrossMarginPosition,
+  MarginType,
+} from '../types/perpetual.types';
+import { parsePosition } from '../margin/position-math';
+import {
+  buildCrossMarginAccount,
+  getCrossMarginLiquidationOrder,
+  isCrossMarginLiquidatable,
+  toCrossMarginPosition,
+} from '../margin/cross-margin-account';
+
+/**
+ * 全仓保证金账户：按标记价格汇总用户所有全仓持仓的未实现盈亏和维持保证金。
+ */
+@Injectable()
+export class CrossMarginService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly markPriceService: MarkPriceService,
+    private readonly riskBracketService: RiskBracketService,
+  ) {}
+
+  async getCrossMarginAccount(userId: string): Promise<CrossMarginAccount> {
+    const [balance, rows] = await Promise.all([
+      this.prisma.userBalance.findUnique({
+        where: { userId },
+      }),
+      this.prisma.position.findMany({
+        where: {
+          userId,
+          marginType: MarginType.CROSS,
+        },
+      }),
+    ]);
+
+    // quantity 以十进制字符串存储，无法在数据库中按数值过滤，已平仓的持仓在这里排除
+    const positions = rows.map(parsePosition).filter(position => position.quantity.isPositive());
+
+    const crossPositions: CrossMarginPosition[] = [];
+    for (const position of positions) {
+      const { markPrice } = await this.markPriceService.getMarkPrice(position.symbol);
+      crossPositions.push(
+        toCrossMarginPosition(position, FixedDecimal.from(markPrice), notional =>
+          this.riskBracketService.getBracket(position.symbol, notional),
+        ),
+      );
+    }
+
+    return this.buildAccount(userId, FixedDecimal.from(balance?.balance ?? 0), crossPositions);
+  }
+
+  buildAccount(
+    userId: string,
+    walletBalance: FixedDecimal,
+    positions: CrossMarginPosition[],
+  ): CrossMarginAccount {
+    return buildCrossMarginAccount(userId, walletBalance, positions);
+  }
+
+  isLiquidatable(account: CrossMarginAccount): boolean {
+    return isCrossMarginLiquidatable(account);
+  }
+
+  getLiquidationOrder(account: CrossMarginAccount): CrossMarginPosition[] {
+    return getCrossMarginLiquidationOrder(account);
+  }
+}
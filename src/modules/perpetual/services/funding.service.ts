@@ -1,21 +1,35 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectRedis } from '@liaoliaots/nestjs-redis';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
-import { PrometheusService } from '../../monitoring/services/prometheus.service';
-import { FundingRate, FundingInfo } from '../types/perpetual.types';
-import { MarketDataService } from '../../market/services/market-data.service';
-import { Cron } from '@nestjs/schedule';
+import { PrometheusService } from '../../prometheus/prometheus.service';
+import {
+  FundingRate,
+  FundingInfo,
+  PerpetualConfig,
+  PositionSide,
+  PositionState,
+  PremiumIndexSample,
+} from '../types/perpetual.types';
+import { calculateFundingRate, calculateTimeWeightedPremium } from '../pricing/funding-rate';
+import { parsePosition } from '../margin/position-math';
+import { MarkPriceService } from './mark-price.service';
 
 @Injectable()
-export class FundingService {
+export class FundingService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(FundingService.name);
   private readonly FUNDING_KEY_PREFIX = 'funding:rate:';
-  private readonly FUNDING_INTERVAL = 8 * 60 * 60; // 8小时
+  private readonly PREMIUM_KEY_PREFIX = 'funding:premium:';
+  private readonly NEXT_FUNDING_KEY_PREFIX = 'funding:next:';
+  private readonly PREMIUM_SAMPLE_INTERVAL = 60 * 1000; // 每分钟采样一次溢价指数
+  private readonly DEFAULT_FUNDING_INTERVAL = 8 * 60 * 60 * 1000; // 8小时
   private readonly MAX_FUNDING_RATE = 0.0075; // 0.75%
   private readonly MIN_FUNDING_RATE = -0.0075; // -0.75%
+  private readonly INTEREST_CLAMP = 0.0005; // 0.05%
+  private sampleTimer: NodeJS.Timeout;
 
   constructor(
     private readonly prisma: PrismaService,
@@ -23,11 +37,21 @@ export class FundingService {
     private readonly eventEmitter: EventEmitter2,
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
-    private readonly marketDataService: MarketDataService,
+    private readonly markPriceService: MarkPriceService,
   ) {}
 
-  @Cron('0 0 */8 * * *') // 每8小时执行一次
-  async calculateAndSettleFunding() {
+  onModuleInit() {
+    this.sampleTimer = setInterval(() => this.runFundingCycle(), this.PREMIUM_SAMPLE_INTERVAL);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sampleTimer);
+  }
+
+  /**
+   * 每分钟为所有活跃合约采样溢价指数，到达各自的结算时间时结算资金费。
+   */
+  async runFundingCycle() {
     const startTime = Date.now();
     try {
       // 获取所有活跃的永续合约
@@ -36,7 +60,17 @@ export class FundingService {
       });
 
       for (const pair of perpetualPairs) {
-        await this.calculateAndSettlePairFunding(pair.symbol);
+        try {
+          await this.samplePremiumIndex(pair.symbol);
+
+          const fundingTime = await this.getNextFundingTime(pair.symbol);
+          if (Date.now() >= fundingTime) {
+            await this.calculateAndSettlePairFunding(pair.symbol, fundingTime);
+          }
+        } catch (error) {
+          this.logger.error(`Funding cycle error for ${pair.symbol}: ${error.message}`);
+          this.prometheusService.incrementErrors('funding_settlement_error');
+        }
       }
 
       // 记录性能指标
@@ -47,18 +81,36 @@ export class FundingService {
     }
   }
 
-  private async calculateAndSettlePairFunding(symbol: string) {
+  /**
+   * 溢价指数 = (标记价格 - 指数价格) / 指数价格，按时间戳存入 Redis 有序集合。
+   */
+  async samplePremiumIndex(symbol: string): Promise<PremiumIndexSample> {
+    const { markPrice, indexPrice } = await this.markPriceService.getMarkPrice(symbol);
+    const sample: PremiumIndexSample = {
+      premium: (markPrice - indexPrice) / indexPrice,
+      timestamp: Date.now(),
+    };
+
+    const key = `${this.PREMIUM_KEY_PREFIX}${symbol}`;
+    await this.redis.zadd(key, sample.timestamp, JSON.stringify(sample));
+    // 只保留当前和上一个结算周期的样本
+    const interval = this.getPerpetualConfig(symbol).fundingInterval;
+    await this.redis.zremrangebyscore(key, '-inf', sample.timestamp - interval * 2);
+
+    return sample;
+  }
+
+  private async calculateAndSettlePairFunding(symbol: string, fundingTime: number) {
+    const interval = this.getPerpetualConfig(symbol).fundingInterval;
+
     await this.prisma.$transaction(async (prisma) => {
-      // 计算资金费率
-      const fundingRate = await this.calculateFundingRate(symbol);
+      // 计算本周期资金费率
+      const fundingRate = await this.calculateFundingRate(symbol, fundingTime - interval, fundingTime);
       
-      // 获取所有持仓
-      const positions = await prisma.position.findMany({
-        where: {
-          symbol,
-          amount: { gt: 0 },
-        },
-      });
+      // 获取所有持仓，数量列为字符串，在内存中过滤已平仓的持仓
+      const positions = (await prisma.position.findMany({ where: { symbol } }))
+        .map(parsePosition)
+        .filter(position => position.quantity.isPositive());
 
       // 结算资金费用
       for (const position of positions) {
@@ -70,7 +122,7 @@ export class FundingService {
         data: {
           symbol,
           rate: fundingRate,
-          timestamp: new Date(),
+          timestamp: new Date(fundingTime),
         },
       });
 
@@ -79,7 +131,7 @@ export class FundingService {
         `${this.FUNDING_KEY_PREFIX}${symbol}`,
         JSON.stringify({
           rate: fundingRate,
-          timestamp: Date.now(),
+          timestamp: fundingTime,
         })
       );
 
@@ -87,56 +139,99 @@ export class FundingService {
       this.eventEmitter.emit('funding.rate.updated', {
         symbol,
         rate: fundingRate,
-        timestamp: Date.now(),
+        timestamp: fundingTime,
       });
     });
+
+    // 停机错过多个周期时只结算一次，下次结算时间从当前时间重新对齐
+    await this.redis.set(
+      `${this.NEXT_FUNDING_KEY_PREFIX}${symbol}`,
+      this.alignFundingTime(Math.max(Date.now(), fundingTime + 1), interval).toString(),
+    );
   }
 
-  private async calculateFundingRate(symbol: string): Promise<number> {
+  /**
+   * 资金费率 = 溢价指数时间加权平均 + clamp(利率 - 溢价指数, ±0.05%)，再限制在合约的上下限内。
+   */
+  private async calculateFundingRate(symbol: string, windowStart: number, windowEnd: number): Promise<number> {
     try {
-      // 获取标记价格和指数价格
-      const [markPrice, indexPrice] = await Promise.all([
-        this.getMarkPrice(symbol),
-        this.getIndexPrice(symbol),
-      ]);
-
-      // 计算价格偏离率
-      const premium = (markPrice - indexPrice) / indexPrice;
+      const config = this.getPerpetualConfig(symbol);
 
-      // 获取利率
-      const interestRate = this.configService.get('FUNDING_INTEREST_RATE', 0.0002); // 0.02%
-
-      // 计算资金费率
-      let fundingRate = (premium * 3 + interestRate) / this.FUNDING_INTERVAL;
-
-      // 限制在最大和最小范围内
-      fundingRate = Math.min(Math.max(fundingRate, this.MIN_FUNDING_RATE), this.MAX_FUNDING_RATE);
+      const samples = (
+        await this.redis.zrangebyscore(`${this.PREMIUM_KEY_PREFIX}${symbol}`, windowStart, `(${windowEnd}`)
+      ).map(member => JSON.parse(member) as PremiumIndexSample);
+      if (samples.length === 0) {
+        samples.push(await this.samplePremiumIndex(symbol));
+      }
 
-      return fundingRate;
+      const premiumIndex = calculateTimeWeightedPremium(samples, windowEnd, this.PREMIUM_SAMPLE_INTERVAL);
+      return calculateFundingRate(premiumIndex, this.getInterestRate(config), {
+        minRate: config.minFundingRate ?? this.MIN_FUNDING_RATE,
+        maxRate: config.maxFundingRate ?? this.MAX_FUNDING_RATE,
+        interestClamp: this.INTEREST_CLAMP,
+      });
     } catch (error) {
       this.logger.error(`Error calculating funding rate: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * FUNDING_INTEREST_RATE 为每8小时利率，按合约结算周期折算；合约配置了 interestRate 时直接使用。
+   */
+  private getInterestRate(config: PerpetualConfig): number {
+    if (config.interestRate !== undefined) {
+      return config.interestRate;
+    }
+    const rate = Number(this.configService.get('FUNDING_INTEREST_RATE', 0.0001)); // 0.01%
+    return (rate * config.fundingInterval) / this.DEFAULT_FUNDING_INTERVAL;
+  }
+
+  private getPerpetualConfig(symbol: string): PerpetualConfig {
+    const configs = this.configService.get<PerpetualConfig[]>('perpetual.configs') ?? [];
+    const config = configs.find(c => c.symbol === symbol);
+    return {
+      ...config,
+      symbol,
+      fundingInterval: config?.fundingInterval || this.DEFAULT_FUNDING_INTERVAL,
+    } as PerpetualConfig;
+  }
+
+  private async getNextFundingTime(symbol: string): Promise<number> {
+    const key = `${this.NEXT_FUNDING_KEY_PREFIX}${symbol}`;
+    const stored = await this.redis.get(key);
+    if (stored) {
+      return Number(stored);
+    }
+
+    const nextFundingTime = this.alignFundingTime(Date.now(), this.getPerpetualConfig(symbol).fundingInterval);
+    await this.redis.set(key, nextFundingTime.toString());
+    return nextFundingTime;
+  }
+
+  // 结算时间按结算周期对齐到整点，例如8小时周期为 00:00、08:00、16:00 UTC
+  private alignFundingTime(time: number, interval: number): number {
+    return Math.ceil(time / interval) * interval;
+  }
+
   private async settleFundingFee(
     prisma: any,
-    position: any,
+    position: PositionState,
     fundingRate: number,
   ): Promise<void> {
     // 计算资金费用
-    const positionValue = position.amount * await this.getMarkPrice(position.symbol);
-    const fundingFee = positionValue * fundingRate;
+    const positionValue = position.quantity.times(await this.getMarkPrice(position.symbol));
+    const fundingFee = positionValue.times(fundingRate);
 
     // 多头支付，空头收取
-    const fee = position.side === 'LONG' ? fundingFee : -fundingFee;
+    const fee = position.side === PositionSide.LONG ? fundingFee : fundingFee.negated();
 
     // 更新用户余额
     await prisma.userBalance.update({
       where: { userId: position.userId },
       data: {
         balance: {
-          decrement: fee,
+          decrement: fee.toPrismaDecimal(),
         },
       },
     });
@@ -145,9 +240,7 @@ export class FundingService {
     await prisma.position.update({
       where: { id: position.id },
       data: {
-        realizedPnl: {
-          decrement: fee,
-        },
+        realizedPnl: position.realizedPnl.minus(fee).toString(),
       },
     });
 
@@ -157,7 +250,7 @@ export class FundingService {
         userId: position.userId,
         symbol: position.symbol,
         positionId: position.id,
-        amount: fee,
+        amount: fee.toString(),
         rate: fundingRate,
         timestamp: new Date(),
       },
@@ -165,14 +258,8 @@ export class FundingService {
   }
 
   private async getMarkPrice(symbol: string): Promise<number> {
-    const ticker = await this.marketDataService.getTickerData(symbol);
-    return ticker.price;
-  }
-
-  private async getIndexPrice(symbol: string): Promise<number> {
-    // 这里应该实现从多个交易所获取价格并计算指数价格的逻辑
-    // 暂时使用标记价格代替
-    return this.getMarkPrice(symbol);
+    const { markPrice } = await this.markPriceService.getMarkPrice(symbol);
+    return markPrice;
   }
 
   // 公共API方法
@@ -187,41 +274,52 @@ export class FundingService {
       orderBy: { timestamp: 'desc' },
     });
 
-    return rate;
+    return rate && this.toFundingRate(rate);
   }
 
   async getFundingHistory(
     symbol: string,
     limit: number = 100,
   ): Promise<FundingRate[]> {
-    return await this.prisma.fundingRate.findMany({
+    const rates = await this.prisma.fundingRate.findMany({
       where: { symbol },
       orderBy: { timestamp: 'desc' },
       take: limit,
     });
+    return rates.map(rate => this.toFundingRate(rate));
+  }
+
+  private toFundingRate(row: { symbol: string; rate: Prisma.Decimal; timestamp: Date }): FundingRate {
+    return { symbol: row.symbol, rate: row.rate.toNumber(), timestamp: row.timestamp.getTime() };
   }
 
+  /**
+   * 按当前结算周期内已采样的溢价指数预测本期资金费率。
+   */
   async getPredictedFundingRate(symbol: string): Promise<number> {
-    return await this.calculateFundingRate(symbol);
+    const interval = this.getPerpetualConfig(symbol).fundingInterval;
+    const fundingTime = await this.getNextFundingTime(symbol);
+    return await this.calculateFundingRate(symbol, fundingTime - interval, Date.now());
   }
 
   async getFundingInfo(symbol: string): Promise<FundingInfo> {
-    const [markPrice, indexPrice, lastFundingRate] = await Promise.all([
-      this.getMarkPrice(symbol),
-      this.getIndexPrice(symbol),
+    const config = this.getPerpetualConfig(symbol);
+    const [{ markPrice, indexPrice }, lastFundingRate, predictedFundingRate, nextFundingTime] = await Promise.all([
+      this.markPriceService.getMarkPrice(symbol),
       this.getFundingRate(symbol),
+      this.getPredictedFundingRate(symbol),
+      this.getNextFundingTime(symbol),
     ]);
 
-    const now = Date.now();
-    const nextFundingTime = Math.ceil(now / (this.FUNDING_INTERVAL * 1000)) * (this.FUNDING_INTERVAL * 1000);
-
     return {
       symbol,
       markPrice,
       indexPrice,
       lastFundingRate: lastFundingRate?.rate || 0,
+      predictedFundingRate,
       nextFundingTime,
-      interestRate: this.configService.get('FUNDING_INTEREST_RATE', 0.0002),
+      fundingInterval: config.fundingInterval,
+      interestRate: this.getInterestRate(config),
     };
   }
 
@@ -0,0 +1,116 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IndexPrice,
+  IndexPriceComponent,
+  PRICE_SOURCES,
+  PriceSource,
+  PriceSourceExclusion,
+} from '../types/price-index.types';
+
+/**
+ * 多来源指数价格：剔除无报价、过期和偏离中位数过大的来源后，按权重取加权中位数。
+ */
+@Injectable()
+export class IndexPriceService {
+  private readonly logger = new Logger(IndexPriceService.name);
+  private readonly maxQuoteAge: number;
+  private readonly maxDeviation: number;
+  private readonly minSources: number;
+
+  constructor(
+    @Inject(PRICE_SOURCES) private readonly sources: PriceSource[],
+    private readonly configService: ConfigService,
+  ) {
+    this.maxQuoteAge = Number(this.configService.get('INDEX_PRICE_MAX_AGE_MS', 10000));
+    this.maxDeviation = Number(this.configService.get('INDEX_PRICE_MAX_DEVIATION', 0.05)); // 5%
+    this.minSources = Number(this.configService.get('INDEX_PRICE_MIN_SOURCES', 1));
+  }
+
+  async getIndexPrice(symbol: string): Promise<IndexPrice> {
+    const now = Date.now();
+    const components = await Promise.all(
+      this.sources.map(source => this.fetchComponent(source, symbol, now)),
+    );
+
+    // 以所有有效报价的中位数为基准剔除异常来源
+    const fresh = components.filter(component => !component.excluded);
+    if (fresh.length > 0) {
+      const median = this.weightedMedian(fresh.map(component => ({ price: component.price, weight: 1 })));
+      for (const component of fresh) {
+        if (Math.abs(component.price - median) / median > this.maxDeviation) {
+          component.excluded = PriceSourceExclusion.OUTLIER;
+        }
+      }
+    }
+
+    const valid = components.filter(component => !component.excluded);
+    if (valid.length === 0 || valid.length < this.minSources) {
+      throw new Error(
+        `Not enough valid index price sources for ${symbol}: ${valid.length}/${this.minSources}`,
+      );
+    }
+
+    return {
+      symbol,
+      price: this.weightedMedian(valid),
+      timestamp: now,
+      components,
+    };
+  }
+
+  private async fetchComponent(
+    source: PriceSource,
+    symbol: string,
+    now: number,
+  ): Promise<IndexPriceComponent> {
+    const component: IndexPriceComponent = {
+      source: source.name,
+      weight: source.weight,
+      price: null,
+      timestamp: null,
+    };
+
+    try {
+      const quote = await source.getPrice(symbol);
+      if (!quote) {
+        component.excluded = PriceSourceExclusion.UNAVAILABLE;
+        return component;
+      }
+
+      component.price = quote.price;
+      component.timestamp = quote.timestamp;
+      if (!Number.isFinite(quote.price) || quote.price <= 0 || !(source.weight > 0)) {
+        component.excluded = PriceSourceExclusion.INVALID;
+      } else if (now - quote.timestamp > this.maxQuoteAge) {
+        component.excluded = PriceSourceExclusion.STALE;
+      }
+    } catch (error) {
+      this.logger.warn(`Price source ${source.name} failed for ${symbol}: ${error.message}`);
+      component.excluded = PriceSourceExclusion.UNAVAILABLE;
+    }
+
+    return component;
+  }
+
+  /**
+   * 按价格排序后累计权重，取累计权重首次达到一半处的价格；恰好落在两个价格之间时取平均。
+   */
+  private weightedMedian(entries: Array<{ price: number; weight: number }>): number {
+    const sorted = [...entries].sort((a, b) => a.price - b.price);
+    const half = sorted.reduce((sum, entry) => sum + entry.weight, 0) / 2;
+
+    let cumulative = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      cumulative += sorted[i].weight;
+      if (cumulative > half) {
+        return sorted[i].price;
+      }
+      if (cumulative === half) {
+        return (sorted[i].price + sorted[i + 1].price) / 2;
+      }
+    }
+
+    return sorted[sorted.length - 1].price;
+  }
+}
@@ -1,18 +1,55 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { InjectRedis } from '@liaoliaots/nestjs-redis';
+import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
-import { PrometheusService } from '../../monitoring/services/prometheus.service';
-import { Position, PositionSide, LiquidationOrder } from '../types/perpetual.types';
-import { MarketDataService } from '../../market/services/market-data.service';
+import { Prisma, LiquidationOrder as LiquidationOrderRow } from '@prisma/client';
+import { PrometheusService } from '../../prometheus/prometheus.service';
+import { randomUUID } from 'crypto';
+import { FixedDecimal, RoundingMode } from '../../../shared/utils/fixed-decimal';
+import {
+  PositionSide,
+  PositionState,
+  LiquidationOrder,
+  LiquidationStagePlan,
+  MarginType,
+  CrossMarginPosition,
+  OrderStatus,
+  PerpetualOrder,
+  PerpetualOrderType,
+  ADLRequest,
+} from '../types/perpetual.types';
+import { TimeInForce } from '../dto/perpetual.dto';
+import {
+  LiquidationEvent,
+  LiquidationEventType,
+} from '../../liquidation/types/liquidation.types';
+import {
+  calculateAverageEntryPrice,
+  calculateMaintenanceMargin,
+  calculatePositionPnl,
+  parsePosition,
+} from '../margin/position-math';
+import { calculateBankruptcyPrice, calculateLiquidationPrice } from '../margin/liquidation-price';
+import { planLiquidationStage } from '../margin/liquidation-stage';
+import { MarkPriceService } from './mark-price.service';
+import { CrossMarginService } from './cross-margin.service';
+import { RiskBracketService } from './risk-bracket.service';
+import { PerpetualService } from './perpetual.service';
+import { MatchingEngineService } from '../matching-engine/matching-engine.service';
 
 @Injectable()
 export class LiquidationService {
   private readonly logger = new Logger(LiquidationService.name);
   private readonly LIQUIDATION_QUEUE = 'liquidation:queue';
+  private readonly CROSS_LIQUIDATION_QUEUE = 'liquidation:cross:queue';
   private readonly LIQUIDATION_LOCK_TTL = 60; // 60 seconds
+  private readonly LIQUIDATION_ATTEMPTS_TTL = 3600; // 1 hour
+  private readonly liquidationAccountId: string;
+  private readonly maxSlippage: FixedDecimal;
+  private readonly closeAttempts: number;
+  private readonly maxRetries: number;
 
   constructor(
     private readonly prisma: PrismaService,
@@ -20,24 +57,47 @@ export class LiquidationService {
     private readonly eventEmitter: EventEmitter2,
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
-    private readonly marketDataService: MarketDataService,
+    private readonly markPriceService: MarkPriceService,
+    private readonly crossMarginService: CrossMarginService,
+    private readonly perpetualService: PerpetualService,
+    private readonly matchingEngineService: MatchingEngineService,
+    private readonly riskBracketService: RiskBracketService,
   ) {
+    this.liquidationAccountId = this.configService.get('LIQUIDATION_ACCOUNT_ID', 'liquidation-engine');
+    this.maxSlippage = FixedDecimal.from(this.configService.get('LIQUIDATION_MAX_SLIPPAGE', '0.01')); // 1%
+    this.closeAttempts = Number(this.configService.get('LIQUIDATION_CLOSE_ATTEMPTS', 3));
+    this.maxRetries = Number(this.configService.get('LIQUIDATION_MAX_RETRIES', 5));
+    this.subscribeToEvents();
     this.startLiquidationWorker();
   }
 
   private async startLiquidationWorker() {
+    // BRPOP 会阻塞所在连接，使用单独的连接，不影响共用连接上的其他命令
+    const queueRedis = this.redis.duplicate();
     while (true) {
       try {
-        // 从队列中获取待清算的持仓
-        const positionId = await this.redis.brpop(this.LIQUIDATION_QUEUE, 0);
+        // 从队列中获取待清算的逐仓持仓或全仓账户
+        const item = await queueRedis.brpop(this.LIQUIDATION_QUEUE, this.CROSS_LIQUIDATION_QUEUE, 0);
         
-        if (positionId) {
-          const lockKey = `liquidation:lock:${positionId[1]}`;
-          const locked = await this.redis.set(lockKey, '1', 'NX', 'EX', this.LIQUIDATION_LOCK_TTL);
+        if (item) {
+          const [queue, id] = item;
+          const lockKey = `liquidation:lock:${id}`;
+          const locked = await this.redis.set(lockKey, '1', 'EX', this.LIQUIDATION_LOCK_TTL, 'NX');
           
           if (locked) {
-            await this.processLiquidation(positionId[1]);
-            await this.redis.del(lockKey);
+            try {
+              if (queue === this.CROSS_LIQUIDATION_QUEUE) {
+                await this.processCrossMarginLiquidation(id);
+              } else {
+                await this.processLiquidation(id);
+              }
+              await this.redis.del(this.getAttemptsKey(id));
+            } catch (error) {
+              await this.requeueLiquidation(queue, id);
+              throw error;
+            } finally {
+              await this.redis.del(lockKey);
+            }
           }
         }
       } catch (error) {
@@ -49,17 +109,45 @@ export class LiquidationService {
     }
   }
 
+  /**
+   * 处理失败的清算放回队列末尾重试，超过重试次数后放弃并告警。
+   */
+  private async requeueLiquidation(queue: string, id: string): Promise<void> {
+    const attemptsKey = this.getAttemptsKey(id);
+    const attempts = await this.redis.incr(attemptsKey);
+    await this.redis.expire(attemptsKey, this.LIQUIDATION_ATTEMPTS_TTL);
+
+    if (attempts > this.maxRetries) {
+      this.logger.error(`Liquidation ${id} failed ${attempts} times, giving up`);
+      this.prometheusService.incrementErrors('liquidation_retries_exhausted');
+      await this.redis.del(attemptsKey);
+      return;
+    }
+
+    await this.redis.lpush(queue, id);
+  }
+
+  private getAttemptsKey(id: string): string {
+    return `liquidation:attempts:${id}`;
+  }
+
   async checkLiquidation(positionId: string): Promise<void> {
-    const position = await this.prisma.position.findUnique({
+    const row = await this.prisma.position.findUnique({
       where: { id: positionId },
     });
 
-    if (!position) {
+    if (!row) {
       throw new Error('Position not found');
     }
 
-    const markPrice = await this.marketDataService.getTickerData(position.symbol);
-    const shouldLiquidate = this.shouldLiquidatePosition(position, markPrice.price);
+    // 全仓持仓不单独清算，按账户整体判断
+    if (row.marginType === MarginType.CROSS) {
+      return this.checkCrossMarginAccount(row.userId);
+    }
+
+    const position = parsePosition(row);
+    const markPrice = await this.getMarkPrice(position.symbol);
+    const shouldLiquidate = this.shouldLiquidatePosition(position, markPrice);
 
     if (shouldLiquidate) {
       // 添加到清算队列
@@ -70,115 +158,702 @@ export class LiquidationService {
         positionId,
         userId: position.userId,
         symbol: position.symbol,
-        markPrice: markPrice.price,
+        markPrice: markPrice.toNumber(),
       });
     }
   }
 
-  private shouldLiquidatePosition(position: Position, markPrice: number): boolean {
-    if (position.amount === 0) return false;
+  private shouldLiquidatePosition(position: PositionState, markPrice: FixedDecimal): boolean {
+    if (!position.quantity.isPositive()) return false;
 
     if (position.side === PositionSide.LONG) {
-      return markPrice <= position.liquidationPrice;
+      return markPrice.lte(position.liquidationPrice);
     } else {
-      return markPrice >= position.liquidationPrice;
+      return markPrice.gte(position.liquidationPrice);
     }
   }
 
+  /**
+   * 逐仓强平：撤销该交易对的挂单，按破产价格接管持仓，再以 IOC 单在订单簿中平仓。
+   * 成交价优于破产价的盈余注入保险基金，差额由保险基金赔付，限价保证赔付不超过保险基金余额；
+   * 订单簿无法成交的部分交给自动减仓。
+   * 处于高风险档位的持仓先部分减仓到低一档，重新检查后仍低于维持保证金才全部强平。
+   */
   private async processLiquidation(positionId: string): Promise<void> {
     const startTime = Date.now();
-    
+
     try {
-      await this.prisma.$transaction(async (prisma) => {
-        // 获取持仓信息
-        const position = await prisma.position.findUnique({
-          where: { id: positionId },
-        });
+      const row = await this.prisma.position.findUnique({
+        where: { id: positionId },
+      });
 
-        if (!position) {
-          throw new Error('Position not found');
-        }
+      if (!row) {
+        throw new Error('Position not found');
+      }
+
+      if (row.marginType === MarginType.CROSS) {
+        return;
+      }
+
+      let position = parsePosition(row);
+
+      // 获取当前标记价格
+      const markPrice = await this.getMarkPrice(position.symbol);
+
+      // 如果不需要清算，直接返回
+      if (!this.shouldLiquidatePosition(position, markPrice)) {
+        return;
+      }
+
+      const liquidationId = randomUUID();
+      let stage = 1;
+      const record = (type: LiquidationEventType, details: Partial<LiquidationEvent>) =>
+        this.recordLiquidationEvent(liquidationId, position, type, { stage, ...details });
+
+      // 1. 撤销该交易对的全部挂单，释放占用的保证金
+      const canceledOrders = await this.perpetualService.cancelSymbolOrders(position.userId, position.symbol);
+      for (const order of canceledOrders) {
+        await this.cancelEngineOrder(order.id, position.symbol);
+        await record(LiquidationEventType.ORDERS_CANCELED, { orderId: order.id, price: markPrice.toString() });
+      }
 
-        // 获取当前市场价格
-        const markPrice = await this.marketDataService.getTickerData(position.symbol);
+      // 2. 高风险档位的持仓先减仓到低一档，按最新标记价格重新检查，恢复维持保证金要求即结束
+      const plan = this.planLiquidationStage(position, markPrice, stage);
+      if (plan.targetSize.isPositive()) {
+        position = await this.partiallyLiquidate(position, plan, record);
 
-        // 如果不需要清算，直接返回
-        if (!this.shouldLiquidatePosition(position, markPrice.price)) {
+        const latestPrice = await this.getMarkPrice(position.symbol);
+        if (!this.isMaintenanceBreached(position, latestPrice)) {
+          const closedQuantity = plan.size.minus(position.quantity);
+          await record(LiquidationEventType.COMPLETED, { size: closedQuantity.toString(), price: latestPrice.toString() });
+          this.eventEmitter.emit('position.partially.liquidated', {
+            position,
+            closedAmount: closedQuantity.toNumber(),
+            markPrice: latestPrice.toNumber(),
+          });
+          this.prometheusService.recordLatency('liquidation_process', Date.now() - startTime);
           return;
         }
+        stage++;
+      }
 
-        // 计算清算费用
-        const liquidationFee = this.calculateLiquidationFee(position, markPrice.price);
+      // 3. 按破产价格接管持仓，用户损失全部逐仓保证金
+      const bankruptcyPrice = calculateBankruptcyPrice(position);
+      await this.takeOverPosition(position, position.quantity, bankruptcyPrice);
+      this.emitPositionChange(position, FixedDecimal.ZERO);
+      await record(LiquidationEventType.TAKEOVER, {
+        size: position.quantity.toString(),
+        price: bankruptcyPrice.toString(),
+      });
 
-        // 创建清算订单
-        const liquidationOrder = await prisma.liquidationOrder.create({
-          data: {
-            positionId: position.id,
-            userId: position.userId,
-            symbol: position.symbol,
-            side: position.side === PositionSide.LONG ? PositionSide.SHORT : PositionSide.LONG,
-            amount: position.amount,
-            price: markPrice.price,
-            liquidationFee,
-          },
-        });
+      // 4. 以 IOC 单平掉接管的持仓，盈亏计入保险基金，剩余持仓交给自动减仓
+      const { liquidationOrder, closedQuantity, averagePrice } = await this.closeTakenOverPosition(
+        liquidationId,
+        position,
+        bankruptcyPrice,
+        FixedDecimal.ZERO,
+        record,
+      );
+      await record(LiquidationEventType.COMPLETED, {
+        size: closedQuantity.toString(),
+        price: averagePrice.toString(),
+      });
 
-        // 更新用户余额
-        await prisma.userBalance.update({
-          where: { userId: position.userId },
-          data: {
-            balance: {
-              decrement: liquidationFee,
+      // 发送清算完成事件
+      this.eventEmitter.emit('position.liquidated', {
+        position,
+        liquidationOrder,
+        markPrice: markPrice.toNumber(),
+      });
+
+      // 记录性能指标
+      this.prometheusService.recordLatency('liquidation_process', Date.now() - startTime);
+    } catch (error) {
+      this.logger.error(`Liquidation processing error: ${error.message}`);
+      this.prometheusService.incrementErrors('liquidation_process_error');
+      throw error;
+    }
+  }
+
+  /**
+   * 在同一事务中从用户持仓中移出 quantity，并按 price 把这部分持仓记到强平账户上。
+   * 之后的 IOC 平仓单减少的是强平账户的持仓，平仓中途失败时未平掉的部分仍留在强平账户上。
+   * 全部接管时用户损失全部逐仓保证金；部分接管时保证金留在用户持仓上，平仓后再结算盈亏。
+   */
+  private async takeOverPosition(
+    position: PositionState,
+    quantity: FixedDecimal,
+    price: FixedDecimal,
+  ): Promise<void> {
+    const remaining = position.quantity.minus(quantity);
+    await this.prisma.$transaction(async (prisma: Prisma.TransactionClient) => {
+      await prisma.position.update({
+        where: { id: position.id },
+        data: remaining.isPositive()
+          ? { quantity: remaining.toString() }
+          : {
+              quantity: '0',
+              margin: '0',
+              unrealizedPnl: '0',
+              realizedPnl: position.realizedPnl.minus(position.margin).toString(),
             },
-          },
+      });
+
+      await this.moveToLiquidationAccount(prisma, position, quantity, price);
+    });
+  }
+
+  /**
+   * 按 price 把 quantity 记到强平账户同方向的持仓上，已有持仓时按数量加权平均开仓价。
+   */
+  private async moveToLiquidationAccount(
+    prisma: Prisma.TransactionClient,
+    position: PositionState,
+    quantity: FixedDecimal,
+    price: FixedDecimal,
+  ): Promise<void> {
+    const where = this.getLiquidationAccountPositionWhere(position);
+    const taken = await prisma.position.findUnique({ where });
+    if (!taken) {
+      await prisma.position.create({
+        data: {
+          userId: this.liquidationAccountId,
+          symbol: position.symbol,
+          side: position.side,
+          quantity: quantity.toString(),
+          entryPrice: price.toString(),
+          leverage: position.leverage,
+          liquidationPrice: '0',
+          margin: '0',
+          unrealizedPnl: '0',
+          realizedPnl: '0',
+        },
+      });
+      return;
+    }
+
+    await prisma.position.update({
+      where,
+      data: {
+        quantity: FixedDecimal.from(taken.quantity).plus(quantity).toString(),
+        entryPrice: calculateAverageEntryPrice(taken.quantity, taken.entryPrice, quantity, price).toString(),
+      },
+    });
+  }
+
+  private getLiquidationAccountPositionWhere(position: PositionState): Prisma.PositionWhereUniqueInput {
+    return {
+      userId_symbol_side: { userId: this.liquidationAccountId, symbol: position.symbol, side: position.side },
+    };
+  }
+
+  /**
+   * 以强平账户的名义下 IOC 单平仓，每轮以最新标记价格加允许滑点为限价，且限价不差于破产价格；
+   * 使用保险基金时放宽到保险基金剩余额度能覆盖的价格。无法继续成交或达到轮数上限时停止。
+   * 返回成交数量、均价和相对破产价格的盈亏。
+   */
+  private async closeThroughOrderBook(
+    position: PositionState,
+    targetQuantity: FixedDecimal,
+    bankruptcyPrice: FixedDecimal,
+    useInsuranceFund: boolean,
+    record: (type: LiquidationEventType, details: Partial<LiquidationEvent>) => Promise<void>,
+  ): Promise<{ closedQuantity: FixedDecimal; averagePrice: FixedDecimal; pnl: FixedDecimal }> {
+    const isLong = position.side === PositionSide.LONG;
+    let closedQuantity = FixedDecimal.ZERO;
+    let notional = FixedDecimal.ZERO;
+    // 接管价格为破产价格：多仓卖出价高于破产价为盈余，空仓买入价低于破产价为盈余
+    const pnlAgainstBankruptcy = () => {
+      const bankruptcyNotional = closedQuantity.times(bankruptcyPrice);
+      return isLong ? notional.minus(bankruptcyNotional) : bankruptcyNotional.minus(notional);
+    };
+
+    for (let attempt = 0; attempt < this.closeAttempts && closedQuantity.lt(targetQuantity); attempt++) {
+      const markPrice = await this.getMarkPrice(position.symbol);
+      const quantity = targetQuantity.minus(closedQuantity);
+      // 本轮每单位最多允许的亏损，超出部分保险基金无力赔付，留给自动减仓
+      const lossBudget = useInsuranceFund
+        ? (await this.getInsuranceFundBalance(position.symbol)).plus(pnlAgainstBankruptcy())
+        : FixedDecimal.ZERO;
+      const maxLossPerUnit = FixedDecimal.max(lossBudget, 0).div(quantity);
+      const price = isLong
+        ? FixedDecimal.max(markPrice.times(FixedDecimal.from(1).minus(this.maxSlippage)), bankruptcyPrice.minus(maxLossPerUnit))
+        : FixedDecimal.min(markPrice.times(FixedDecimal.from(1).plus(this.maxSlippage)), bankruptcyPrice.plus(maxLossPerUnit));
+      const now = new Date();
+      const order: PerpetualOrder = {
+        id: randomUUID(),
+        userId: this.liquidationAccountId,
+        symbol: position.symbol,
+        side: isLong ? PositionSide.SHORT : PositionSide.LONG,
+        type: PerpetualOrderType.LIMIT,
+        price: price.toNumber(),
+        amount: quantity.toNumber(),
+        leverage: position.leverage,
+        marginType: MarginType.ISOLATED,
+        timeInForce: TimeInForce.IOC,
+        reduceOnly: true,
+        status: OrderStatus.NEW,
+        filled: 0,
+        avgPrice: 0,
+        fee: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.matchingEngineService.placeOrder(order);
+      const filled = FixedDecimal.from(order.filled);
+      if (!filled.isPositive()) {
+        break;
+      }
+
+      const fillPrice = FixedDecimal.from(order.avgPrice);
+      closedQuantity = closedQuantity.plus(filled);
+      notional = notional.plus(filled.times(fillPrice));
+      await record(LiquidationEventType.CLOSE_ORDER_FILLED, {
+        orderId: order.id,
+        size: filled.toString(),
+        price: fillPrice.toString(),
+      });
+    }
+
+    const averagePrice = closedQuantity.isPositive() ? notional.div(closedQuantity) : FixedDecimal.ZERO;
+
+    return { closedQuantity, averagePrice, pnl: pnlAgainstBankruptcy() };
+  }
+
+  /**
+   * 以 IOC 单在订单簿中平掉按 takeoverPrice 接管的持仓：成交价优于接管价的盈余注入保险基金，
+   * 差额由保险基金赔付；订单簿无法成交的部分交给自动减仓，按接管价格与对手方持仓成交。
+   */
+  private async closeTakenOverPosition(
+    liquidationId: string,
+    position: PositionState,
+    takeoverPrice: FixedDecimal,
+    liquidationFee: FixedDecimal,
+    record: (type: LiquidationEventType, details: Partial<LiquidationEvent>) => Promise<void>,
+  ): Promise<{ liquidationOrder: LiquidationOrderRow; closedQuantity: FixedDecimal; averagePrice: FixedDecimal }> {
+    const { closedQuantity, averagePrice, pnl } = await this.closeThroughOrderBook(
+      position,
+      position.quantity,
+      takeoverPrice,
+      true,
+      record,
+    );
+
+    if (pnl.isPositive()) {
+      await this.depositInsuranceFund(position.symbol, pnl);
+      await record(LiquidationEventType.INSURANCE_FUND_DEPOSIT, { insuranceFundChange: pnl.toString() });
+    } else if (pnl.isNegative()) {
+      const payout = await this.payoutInsuranceFund(position.symbol, pnl.negated());
+      await record(LiquidationEventType.INSURANCE_FUND_PAYOUT, { insuranceFundChange: payout.negated().toString() });
+    }
+
+    const remainingQuantity = position.quantity.minus(closedQuantity);
+    if (remainingQuantity.isPositive()) {
+      const adlRequest: ADLRequest = {
+        liquidationId,
+        positionId: position.id,
+        symbol: position.symbol,
+        side: position.side,
+        amount: remainingQuantity,
+        bankruptcyPrice: takeoverPrice,
+      };
+      this.eventEmitter.emit('adl.required', adlRequest);
+      await record(LiquidationEventType.ADL_HANDOFF, {
+        size: remainingQuantity.toString(),
+        price: takeoverPrice.toString(),
+      });
+    }
+
+    const liquidationOrder = await this.prisma.liquidationOrder.create({
+      data: {
+        positionId: position.id,
+        userId: position.userId,
+        symbol: position.symbol,
+        side: position.side === PositionSide.LONG ? PositionSide.SHORT : PositionSide.LONG,
+        // 强平单只减少被强平一侧的持仓，双向持仓下另一侧不受影响
+        positionSide: position.side,
+        amount: position.quantity.toPrismaDecimal(),
+        price: (closedQuantity.isPositive() ? averagePrice : takeoverPrice).toPrismaDecimal(),
+        liquidationFee: liquidationFee.plus(FixedDecimal.max(pnl, 0)).toPrismaDecimal(),
+      },
+    });
+
+    return { liquidationOrder, closedQuantity, averagePrice };
+  }
+
+  /**
+   * 分阶段强平的计划：高于第一档的持仓减仓到低一档，剩余名义价值须落入低一档，
+   * 且权益不低于低一档的维持保证金（名义价值 * 维持保证金率 - 速算扣除额）。
+   * 第一档或权益不足以支撑任何仓位时 targetSize 为 0，直接全部强平。
+   */
+  private planLiquidationStage(position: PositionState, markPrice: FixedDecimal, stage: number): LiquidationStagePlan {
+    const notional = position.quantity.times(markPrice);
+    const bracket = this.riskBracketService.getBracket(position.symbol, notional);
+    const lowerBracket = this.riskBracketService
+      .getRiskBrackets(position.symbol)
+      .find(b => b.bracket === bracket.bracket - 1);
+    return planLiquidationStage(position, markPrice, stage, bracket, lowerBracket);
+  }
+
+  /**
+   * 部分强平：按开仓价把超出目标数量的部分接管到强平账户，以 IOC 单平仓，成交价不差于破产价格。
+   * 未成交的部分退回用户持仓，平仓盈亏按成交均价留在逐仓保证金中，剩余持仓的强平价格按新的档位重新计算。
+   */
+  private async partiallyLiquidate(
+    position: PositionState,
+    plan: LiquidationStagePlan,
+    record: (type: LiquidationEventType, details: Partial<LiquidationEvent>) => Promise<void>,
+  ): Promise<PositionState> {
+    const quantity = plan.size.minus(plan.targetSize);
+    await this.takeOverPosition(position, quantity, position.entryPrice);
+    await record(LiquidationEventType.TAKEOVER, {
+      size: quantity.toString(),
+      price: position.entryPrice.toString(),
+    });
+
+    const { closedQuantity, averagePrice } = await this.closeThroughOrderBook(
+      position,
+      quantity,
+      plan.bankruptcyPrice,
+      false,
+      record,
+    );
+
+    const realizedPnl = calculatePositionPnl(position.side, position.entryPrice, averagePrice, closedQuantity);
+    const updated: PositionState = {
+      ...position,
+      quantity: position.quantity.minus(closedQuantity),
+      margin: position.margin.plus(realizedPnl),
+      realizedPnl: position.realizedPnl.plus(realizedPnl),
+    };
+    updated.liquidationPrice = calculateLiquidationPrice(updated, notional =>
+      this.riskBracketService.getBracket(position.symbol, notional),
+    );
+
+    const unfilled = quantity.minus(closedQuantity);
+    await this.prisma.$transaction(async (prisma: Prisma.TransactionClient) => {
+      if (unfilled.isPositive()) {
+        const where = this.getLiquidationAccountPositionWhere(position);
+        const taken = await prisma.position.findUnique({ where });
+        await prisma.position.update({
+          where,
+          data: { quantity: FixedDecimal.from(taken.quantity).minus(unfilled).toString() },
         });
+      }
+
+      await prisma.position.update({
+        where: { id: position.id },
+        data: {
+          quantity: updated.quantity.toString(),
+          margin: updated.margin.toString(),
+          realizedPnl: updated.realizedPnl.toString(),
+          liquidationPrice: updated.liquidationPrice.toString(),
+        },
+      });
+    });
+    if (closedQuantity.isPositive()) {
+      this.emitPositionChange(updated, updated.quantity);
+    }
+    await record(LiquidationEventType.PARTIAL_LIQUIDATION, {
+      size: closedQuantity.toString(),
+      price: averagePrice.toString(),
+    });
 
-        // 更新保险基金
+    return updated;
+  }
+
+  private isMaintenanceBreached(position: PositionState, markPrice: FixedDecimal): boolean {
+    const equity = position.margin.plus(this.calculateUnrealizedPnl(position, markPrice));
+    const notional = position.quantity.times(markPrice);
+    const bracket = this.riskBracketService.getBracket(position.symbol, notional);
+    return equity.lt(calculateMaintenanceMargin(notional, bracket));
+  }
+
+  private calculateUnrealizedPnl(position: PositionState, markPrice: FixedDecimal): FixedDecimal {
+    return calculatePositionPnl(position.side, position.entryPrice, markPrice, position.quantity);
+  }
+
+  /**
+   * 与 PositionService 一致的持仓变动通知，止盈止损单据此调整数量或撤销。
+   */
+  private emitPositionChange(
+    position: Pick<PositionState, 'userId' | 'symbol' | 'side'>,
+    quantity: FixedDecimal,
+  ): void {
+    const event = { userId: position.userId, symbol: position.symbol, side: position.side };
+    this.eventEmitter.emit('position.updated', { ...event, quantity: quantity.toNumber() });
+    if (quantity.isZero()) {
+      this.eventEmitter.emit('position.closed', event);
+    }
+  }
+
+  private async getMarkPrice(symbol: string): Promise<FixedDecimal> {
+    const { markPrice } = await this.markPriceService.getMarkPrice(symbol);
+    return FixedDecimal.from(markPrice);
+  }
+
+  private async cancelEngineOrder(orderId: string, symbol: string): Promise<void> {
+    try {
+      if (this.matchingEngineService.getOrder(orderId, symbol)) {
+        await this.matchingEngineService.cancelOrder(orderId, symbol);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to cancel order ${orderId} in the matching engine: ${error.message}`);
+    }
+  }
+
+  private async depositInsuranceFund(symbol: string, amount: FixedDecimal): Promise<void> {
+    await this.prisma.insuranceFund.update({
+      where: { symbol },
+      data: {
+        balance: { increment: amount.toPrismaDecimal() },
+        totalInjection: { increment: amount.toPrismaDecimal() },
+      },
+    });
+  }
+
+  private async getInsuranceFundBalance(symbol: string): Promise<FixedDecimal> {
+    const fund = await this.prisma.insuranceFund.findUnique({ where: { symbol } });
+    return FixedDecimal.from(fund?.balance ?? 0);
+  }
+
+  /**
+   * 从保险基金赔付亏损，最多赔付到余额为零，返回实际赔付金额。
+   */
+  private async payoutInsuranceFund(symbol: string, amount: FixedDecimal): Promise<FixedDecimal> {
+    return this.prisma.$transaction(async (prisma: Prisma.TransactionClient) => {
+      const fund = await prisma.insuranceFund.findUnique({ where: { symbol } });
+      const payout = FixedDecimal.min(amount, FixedDecimal.max(fund?.balance ?? 0, 0));
+      if (payout.isPositive()) {
         await prisma.insuranceFund.update({
-          where: { symbol: position.symbol },
+          where: { symbol },
           data: {
-            balance: {
-              increment: liquidationFee,
-            },
-            totalPayouts: {
-              increment: liquidationFee,
-            },
+            balance: { decrement: payout.toPrismaDecimal() },
+            totalPayouts: { increment: payout.toPrismaDecimal() },
           },
         });
+      }
+      return payout;
+    });
+  }
 
-        // 关闭持仓
-        await prisma.position.update({
-          where: { id: position.id },
-          data: {
-            amount: 0,
-            margin: 0,
-            unrealizedPnl: 0,
-            realizedPnl: position.realizedPnl - liquidationFee,
-            lastUpdateTime: new Date(),
-          },
+  private async recordLiquidationEvent(
+    liquidationId: string,
+    position: PositionState,
+    type: LiquidationEventType,
+    details: Partial<LiquidationEvent>,
+  ): Promise<void> {
+    const event: LiquidationEvent & Pick<Required<LiquidationEvent>, 'type' | 'liquidationId'> = {
+      userId: position.userId,
+      positionId: position.id,
+      symbol: position.symbol,
+      side: position.side,
+      size: '0',
+      price: '0',
+      liquidationFee: '0',
+      marginType: position.marginType,
+      timestamp: new Date(),
+      ...details,
+      type,
+      liquidationId,
+    };
+
+    await this.prisma.liquidationEvent.create({ data: event });
+    this.eventEmitter.emit('liquidation.event', event);
+  }
+
+  private calculateLiquidationFee(notional: FixedDecimal): FixedDecimal {
+    const feeRate = this.configService.get('LIQUIDATION_FEE_RATE', '0.005'); // 0.5%
+    return notional.times(feeRate, RoundingMode.UP);
+  }
+
+  /**
+   * 全仓账户保证金余额低于维持保证金总和时加入全仓清算队列。
+   */
+  async checkCrossMarginAccount(userId: string): Promise<void> {
+    const account = await this.crossMarginService.getCrossMarginAccount(userId);
+    if (!this.crossMarginService.isLiquidatable(account)) {
+      return;
+    }
+
+    await this.redis.lpush(this.CROSS_LIQUIDATION_QUEUE, userId);
+
+    this.eventEmitter.emit('account.liquidation.warning', {
+      userId,
+      marginBalance: account.marginBalance.toNumber(),
+      maintMargin: account.maintMargin.toNumber(),
+      marginRatio: account.marginRatio,
+    });
+  }
+
+  /**
+   * 全仓强平：撤销全仓持仓所在交易对的挂单，按亏损从大到小依次按标记价格接管全仓持仓，
+   * 与逐仓强平相同地以 IOC 单在订单簿中平仓，盈亏计入保险基金，无法成交的部分交给自动减仓。
+   * 每接管一个持仓重新计算账户，恢复健康即停止。
+   */
+  private async processCrossMarginLiquidation(userId: string): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      let account = await this.crossMarginService.getCrossMarginAccount(userId);
+      if (!this.crossMarginService.isLiquidatable(account)) {
+        return;
+      }
+
+      const liquidationId = randomUUID();
+      const positions = new Map<string, PositionState>();
+      for (const crossPosition of account.positions) {
+        const row = await this.prisma.position.findUnique({ where: { id: crossPosition.positionId } });
+        positions.set(crossPosition.positionId, parsePosition(row));
+      }
+      const recordFor = (position: PositionState) =>
+        (type: LiquidationEventType, details: Partial<LiquidationEvent>) =>
+          this.recordLiquidationEvent(liquidationId, position, type, details);
+
+      // 1. 撤销全仓持仓所在交易对的全部挂单，避免强平过程中继续成交
+      for (const position of positions.values()) {
+        const canceledOrders = await this.perpetualService.cancelSymbolOrders(userId, position.symbol);
+        for (const order of canceledOrders) {
+          await this.cancelEngineOrder(order.id, position.symbol);
+          await recordFor(position)(LiquidationEventType.ORDERS_CANCELED, { orderId: order.id });
+        }
+      }
+
+      let walletBalance = account.walletBalance;
+      let remaining = account.positions;
+
+      for (const crossPosition of this.crossMarginService.getLiquidationOrder(account)) {
+        if (!this.crossMarginService.isLiquidatable(account)) {
+          break;
+        }
+
+        const position = positions.get(crossPosition.positionId);
+        const record = recordFor(position);
+        const liquidationFee = this.calculateLiquidationFee(crossPosition.notional);
+
+        // 2. 按标记价格接管持仓，平仓盈亏扣除强平手续费后计入钱包余额
+        await this.prisma.$transaction(async (prisma: Prisma.TransactionClient) => {
+          await this.takeOverCrossMarginPosition(prisma, position, crossPosition, liquidationFee);
+        });
+        this.emitPositionChange(position, FixedDecimal.ZERO);
+        await record(LiquidationEventType.TAKEOVER, {
+          size: crossPosition.quantity.toString(),
+          price: crossPosition.markPrice.toString(),
+          liquidationFee: liquidationFee.toString(),
         });
 
-        // 发送清算完成事件
+        // 3. 以 IOC 单平掉接管的持仓，盈亏计入保险基金，剩余持仓交给自动减仓
+        const { liquidationOrder, closedQuantity, averagePrice } = await this.closeTakenOverPosition(
+          liquidationId,
+          position,
+          crossPosition.markPrice,
+          liquidationFee,
+          record,
+        );
+        await record(LiquidationEventType.COMPLETED, {
+          size: closedQuantity.toString(),
+          price: averagePrice.toString(),
+        });
         this.eventEmitter.emit('position.liquidated', {
           position,
           liquidationOrder,
-          markPrice: markPrice.price,
+          markPrice: crossPosition.markPrice.toNumber(),
         });
+
+        walletBalance = walletBalance.plus(crossPosition.unrealizedPnl).minus(liquidationFee);
+        remaining = remaining.filter(p => p.positionId !== crossPosition.positionId);
+        account = this.crossMarginService.buildAccount(userId, walletBalance, remaining);
+      }
+
+      this.eventEmitter.emit('account.liquidated', {
+        userId,
+        walletBalance: account.walletBalance.toNumber(),
+        marginRatio: account.marginRatio,
+        remainingPositions: account.positions.length,
       });
 
-      // 记录性能指标
-      this.prometheusService.recordLatency('liquidation_process', Date.now() - startTime);
+      this.prometheusService.recordLatency('cross_liquidation_process', Date.now() - startTime);
     } catch (error) {
-      this.logger.error(`Liquidation processing error: ${error.message}`);
-      this.prometheusService.incrementErrors('liquidation_process_error');
+      this.logger.error(`Cross margin liquidation error for ${userId}: ${error.message}`);
+      this.prometheusService.incrementErrors('cross_liquidation_process_error');
       throw error;
     }
   }
 
-  private calculateLiquidationFee(position: Position, markPrice: number): number {
-    const positionValue = position.amount * markPrice;
-    const feeRate = this.configService.get('LIQUIDATION_FEE_RATE', 0.005); // 0.5%
-    return positionValue * feeRate;
+  private async takeOverCrossMarginPosition(
+    prisma: Prisma.TransactionClient,
+    position: PositionState,
+    crossPosition: CrossMarginPosition,
+    liquidationFee: FixedDecimal,
+  ): Promise<void> {
+    const realizedPnl = crossPosition.unrealizedPnl.minus(liquidationFee);
+
+    // 全仓持仓平仓盈亏直接计入钱包余额
+    await prisma.userBalance.update({
+      where: { userId: position.userId },
+      data: {
+        balance: {
+          increment: realizedPnl.toPrismaDecimal(),
+        },
+      },
+    });
+
+    await prisma.insuranceFund.update({
+      where: { symbol: position.symbol },
+      data: {
+        balance: {
+          increment: liquidationFee.toPrismaDecimal(),
+        },
+      },
+    });
+
+    await prisma.position.update({
+      where: { id: position.id },
+      data: {
+        quantity: '0',
+        margin: '0',
+        unrealizedPnl: '0',
+        realizedPnl: position.realizedPnl.plus(realizedPnl).toString(),
+      },
+    });
+
+    await this.moveToLiquidationAccount(prisma, position, crossPosition.quantity, crossPosition.markPrice);
+  }
+
+  private subscribeToEvents(): void {
+    // 标记价格更新时检查该交易对下有全仓持仓的账户
+    this.eventEmitter.on('price.updated', async ({ symbol }: { symbol: string }) => {
+      try {
+        const positions = await this.prisma.position.findMany({
+          where: {
+            symbol,
+            marginType: MarginType.CROSS,
+          },
+          select: { userId: true, quantity: true },
+        });
+
+        // quantity 以十进制字符串存储，已平仓的持仓在这里排除
+        const userIds = new Set<string>(
+          positions
+            .filter(position => FixedDecimal.from(position.quantity).isPositive())
+            .map(position => position.userId),
+        );
+        for (const userId of userIds) {
+          await this.checkCrossMarginAccount(userId);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to check cross margin accounts for ${symbol}: ${error.message}`);
+      }
+    });
+
+    this.eventEmitter.on('cross.margin.check', async ({ userId }: { userId: string }) => {
+      try {
+        await this.checkCrossMarginAccount(userId);
+      } catch (error) {
+        this.logger.error(`Failed to check cross margin account ${userId}: ${error.message}`);
+      }
+    });
   }
 
   // 公共API方法
@@ -187,7 +862,7 @@ export class LiquidationService {
     symbol?: string,
     limit: number = 100,
   ): Promise<LiquidationOrder[]> {
-    return await this.prisma.liquidationOrder.findMany({
+    const rows = await this.prisma.liquidationOrder.findMany({
       where: {
         userId,
         symbol,
@@ -197,37 +872,56 @@ export class LiquidationService {
       },
       take: limit,
     });
+    return rows.map(row => this.toLiquidationOrder(row));
   }
 
+  /**
+   * 逐仓持仓的风险：保证金率 = (逐仓保证金 + 未实现盈亏) / 名义价值，均按标记价格计算。
+   */
   async getLiquidationRisk(positionId: string): Promise<{
     riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
     marginRatio: number;
     liquidationPrice: number;
     currentPrice: number;
   }> {
-    const position = await this.prisma.position.findUnique({
+    const row = await this.prisma.position.findUnique({
       where: { id: positionId },
     });
 
-    if (!position) {
+    if (!row) {
       throw new Error('Position not found');
     }
 
-    const markPrice = await this.marketDataService.getTickerData(position.symbol);
-    const marginRatio = position.marginRatio;
+    const position = parsePosition(row);
+    const markPrice = await this.getMarkPrice(position.symbol);
+    const notional = position.quantity.times(markPrice);
+    const marginRatio = notional.isPositive()
+      ? position.margin.plus(this.calculateUnrealizedPnl(position, markPrice)).div(notional).toNumber()
+      : 0;
 
     let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' = 'LOW';
-    if (marginRatio < 0.1) {
+    if (notional.isPositive() && marginRatio < 0.1) {
       riskLevel = 'HIGH';
-    } else if (marginRatio < 0.2) {
+    } else if (notional.isPositive() && marginRatio < 0.2) {
       riskLevel = 'MEDIUM';
     }
 
     return {
       riskLevel,
       marginRatio,
-      liquidationPrice: position.liquidationPrice,
-      currentPrice: markPrice.price,
+      liquidationPrice: position.liquidationPrice.toNumber(),
+      currentPrice: markPrice.toNumber(),
+    };
+  }
+
+  private toLiquidationOrder(row: LiquidationOrderRow): LiquidationOrder {
+    return {
+      ...row,
+      side: row.side as PositionSide,
+      positionSide: row.positionSide as PositionSide,
+      amount: row.amount.toNumber(),
+      price: row.price.toNumber(),
+      liquidationFee: row.liquidationFee.toNumber(),
     };
   }
 }
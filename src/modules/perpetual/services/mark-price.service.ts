@@ -0,0 +1,126 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import Redis from 'ioredis';
+import { PrismaService } from '../../prisma/prisma.service';
+import { IndexPriceService } from './index-price.service';
+import { MarkPrice } from '../types/price-index.types';
+import { BasisSample, calculateBasisAverage, updateBasisSamples } from '../pricing/mark-price';
+
+/**
+ * 合理标记价格：指数价格加上最新成交价相对指数价格的基差移动平均。
+ * 强平、资金费率和未实现盈亏都以标记价格计算，单笔插针成交不会直接触发强平。
+ */
+@Injectable()
+export class MarkPriceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MarkPriceService.name);
+  private readonly MARK_PRICE_KEY_PREFIX = 'markPrice:';
+  private readonly LAST_PRICE_KEY_PREFIX = 'lastPrice:';
+  private readonly SYMBOLS_CACHE_TTL = 60 * 1000; // 1 minute
+  private readonly basisSamples = new Map<string, BasisSample[]>();
+  private readonly markPrices = new Map<string, MarkPrice>();
+  private readonly updateInterval: number;
+  private readonly basisWindow: number;
+  private updateTimer: NodeJS.Timeout;
+  private symbols: string[] = [];
+  private symbolsExpiresAt = 0;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectRedis() private readonly redis: Redis,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+    private readonly indexPriceService: IndexPriceService,
+  ) {
+    this.updateInterval = Number(this.configService.get('MARK_PRICE_UPDATE_INTERVAL_MS', 1000));
+    this.basisWindow = Number(this.configService.get('MARK_PRICE_BASIS_WINDOW_MS', 5 * 60 * 1000));
+  }
+
+  onModuleInit() {
+    this.updateTimer = setInterval(() => this.updateAllMarkPrices(), this.updateInterval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.updateTimer);
+  }
+
+  /**
+   * 返回最近一次计算的标记价格，超过两个更新周期未刷新时重新计算。
+   */
+  async getMarkPrice(symbol: string): Promise<MarkPrice> {
+    const cached = this.markPrices.get(symbol);
+    if (cached && Date.now() - cached.timestamp <= this.updateInterval * 2) {
+      return cached;
+    }
+    return this.updateMarkPrice(symbol);
+  }
+
+  async updateMarkPrice(symbol: string): Promise<MarkPrice> {
+    const indexPrice = await this.indexPriceService.getIndexPrice(symbol);
+    const now = Date.now();
+
+    const lastPriceValue = await this.redis.get(`${this.LAST_PRICE_KEY_PREFIX}${symbol}`);
+    const lastPrice = lastPriceValue ? Number(lastPriceValue) : null;
+
+    const samples = updateBasisSamples(
+      this.basisSamples.get(symbol) ?? [],
+      indexPrice.price,
+      lastPrice,
+      now,
+      this.basisWindow,
+    );
+    this.basisSamples.set(symbol, samples);
+
+    const basisAverage = calculateBasisAverage(samples);
+
+    const markPrice: MarkPrice = {
+      symbol,
+      markPrice: basisAverage.plus(indexPrice.price).toNumber(),
+      indexPrice: indexPrice.price,
+      basisAverage: basisAverage.toNumber(),
+      lastPrice,
+      timestamp: now,
+    };
+    this.markPrices.set(symbol, markPrice);
+
+    await this.redis.set(`${this.MARK_PRICE_KEY_PREFIX}${symbol}`, JSON.stringify(markPrice));
+
+    // 风控、强平和自动减仓服务监听 price.updated 并以此价格计算保证金率和未实现盈亏
+    this.eventEmitter.emit('price.updated', {
+      symbol,
+      price: markPrice.markPrice,
+    });
+
+    return markPrice;
+  }
+
+  private async updateAllMarkPrices() {
+    try {
+      const symbols = await this.getActiveSymbols();
+      for (const symbol of symbols) {
+        try {
+          await this.updateMarkPrice(symbol);
+        } catch (error) {
+          this.logger.error(`Failed to update mark price for ${symbol}: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to update mark prices: ${error.message}`);
+    }
+  }
+
+  private async getActiveSymbols(): Promise<string[]> {
+    if (this.symbolsExpiresAt > Date.now()) {
+      return this.symbols;
+    }
+
+    const pairs = await this.prisma.perpetualPair.findMany({
+      where: { isActive: true },
+      select: { symbol: true },
+    });
+    this.symbols = pairs.map(pair => pair.symbol);
+    this.symbolsExpiresAt = Date.now() + this.SYMBOLS_CACHE_TTL;
+    return this.symbols;
+  }
+}
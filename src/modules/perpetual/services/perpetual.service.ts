@@ -2,9 +2,18 @@ import { Injectable } from '@nestjs/common';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 import { PrometheusService } from '../../../modules/prometheus/prometheus.service';
-import { RiskManagementService } from '../services/risk-management.service';
+import { RiskManagementService } from '../risk-management/risk-management.service';
 import { ADLService } from '../services/adl.service';
+import { RiskBracketService } from './risk-bracket.service';
+import { MarkPriceService } from './mark-price.service';
+import { PositionService } from './position.service';
+import { ConditionalOrderService } from './conditional-order.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { MarginType, PositionMode } from '../types/perpetual.types';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { calculateInitialMargin, parsePosition } from '../margin/position-math';
+import { calculateLiquidationPrice } from '../margin/liquidation-price';
+import { PositionTpSlDto, TrailingStopDto } from '../dto/perpetual.dto';
 import { BigNumber } from 'bignumber.js';
 
 @Injectable()
@@ -15,12 +24,19 @@ export class PerpetualService {
     private readonly riskManagementService: RiskManagementService,
     private readonly adlService: ADLService,
     private readonly prisma: PrismaService,
+    private readonly riskBracketService: RiskBracketService,
+    private readonly markPriceService: MarkPriceService,
+    private readonly positionService: PositionService,
+    private readonly conditionalOrderService: ConditionalOrderService,
   ) {}
 
   async createOrder(userId: string, orderData: any) {
     // Validate order parameters
     this.validateOrderParameters(orderData);
 
+    // Check position side and reduce-only against the user's position mode
+    await this.positionService.validateOrder(userId, orderData);
+
     // Check margin requirements
     await this.checkMarginRequirements(userId, orderData);
 
@@ -40,15 +56,30 @@ export class PerpetualService {
           leverage: orderData.leverage,
           margin: orderData.margin,
           timeInForce: orderData.timeInForce,
+          positionSide: orderData.positionSide,
+          reduceOnly: orderData.reduceOnly ?? false,
           status: 'NEW',
         },
       });
 
+      // Attach take-profit/stop-loss orders to the position this order opens
+      try {
+        await this.conditionalOrderService.createEntryOrders(
+          userId,
+          orderData,
+          orderData.takeProfit,
+          orderData.stopLoss,
+        );
+      } catch (error) {
+        await this.prisma.order.update({
+          where: { id: order.id },
+          data: { status: 'CANCELED' },
+        });
+        throw error;
+      }
+
       // Track metrics
-      this.prometheusService.incrementOrderCounter(
-        order.type,
-        order.status,
-      );
+      this.prometheusService.incrementOrder(order.side, order.type, order.symbol);
 
       return order;
     } catch (error) {
@@ -154,6 +185,75 @@ export class PerpetualService {
     });
   }
 
+  /**
+   * 调整交易对杠杆，当前持仓名义价值所在档位不允许新杠杆时拒绝。
+   * 持仓保证金按开仓名义价值 / 新杠杆重新计算，逐仓持仓的强平价格随之按所在档位更新。
+   */
+  async adjustLeverage(userId: string, symbol: string, leverage: number) {
+    const rows = await this.prisma.position.findMany({
+      where: { userId, symbol },
+    });
+    const positions = rows.map(parsePosition);
+
+    const quantity = FixedDecimal.sum(positions.map(position => position.quantity.abs()));
+    const notional = quantity.isZero()
+      ? FixedDecimal.ZERO
+      : quantity.times((await this.markPriceService.getMarkPrice(symbol)).markPrice);
+
+    this.riskBracketService.validateLeverage(symbol, notional, leverage);
+
+    await this.prisma.$transaction(async prisma => {
+      for (const position of positions) {
+        const margin = calculateInitialMargin(position.quantity, position.entryPrice, leverage);
+        const liquidationPrice = position.marginType === MarginType.ISOLATED
+          ? calculateLiquidationPrice({ ...position, margin }, entryNotional =>
+              this.riskBracketService.getBracket(symbol, entryNotional),
+            )
+          : position.liquidationPrice;
+
+        await prisma.position.update({
+          where: { id: position.id },
+          data: {
+            leverage,
+            margin: margin.toString(),
+            liquidationPrice: liquidationPrice.toString(),
+          },
+        });
+      }
+    });
+
+    return this.prisma.position.findFirst({
+      where: { userId, symbol },
+    });
+  }
+
+  async setPositionTpSl(userId: string, dto: PositionTpSlDto) {
+    return this.conditionalOrderService.createPositionOrders(userId, dto);
+  }
+
+  async setTrailingStop(userId: string, dto: TrailingStopDto) {
+    return this.conditionalOrderService.createTrailingStop(userId, dto);
+  }
+
+  async getPositionMode(userId: string) {
+    return { positionMode: await this.positionService.getPositionMode(userId) };
+  }
+
+  async changePositionMode(userId: string, positionMode: PositionMode) {
+    return { positionMode: await this.positionService.setPositionMode(userId, positionMode) };
+  }
+
+  async getADLQuantiles(userId: string, symbol?: string) {
+    return this.adlService.getADLQuantiles(userId, symbol);
+  }
+
+  getRiskBrackets(symbol: string) {
+    return this.riskBracketService.getRiskBrackets(symbol).map(bracket => ({
+      ...bracket,
+      notionalCap: Number.isFinite(bracket.notionalCap) ? bracket.notionalCap : null,
+    }));
+  }
+
   async getOpenOrders(userId: string) {
     return this.prisma.order.findMany({
       where: {
@@ -187,4 +287,27 @@ export class PerpetualService {
 
     return { success: true };
   }
+
+  /**
+   * Cancel all open orders of a user on one symbol and release their margin.
+   */
+  async cancelSymbolOrders(userId: string, symbol: string) {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        userId,
+        symbol,
+        status: { in: ['NEW', 'PARTIALLY_FILLED'] },
+      },
+    });
+
+    for (const order of orders) {
+      await this.prisma.order.update({
+        where: { id: order.id },
+        data: { status: 'CANCELED' },
+      });
+      await this.unlockMargin(userId, order);
+    }
+
+    return orders;
+  }
 }
@@ -0,0 +1,309 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { OrderSide } from '../dto/perpetual.dto';
+import { MarginType, PerpetualOrder, PositionMode, PositionSide, PositionState } from '../types/perpetual.types';
+import {
+  calculateAverageEntryPrice,
+  calculateInitialMargin,
+  closePositionQuantity,
+  parsePosition,
+} from '../margin/position-math';
+import { calculateLiquidationPrice } from '../margin/liquidation-price';
+import { RiskBracketService } from './risk-bracket.service';
+
+interface OrderPositionIntent {
+  symbol: string;
+  side: OrderSide;
+  quantity: number | string;
+  positionSide?: PositionSide;
+  reduceOnly?: boolean;
+}
+
+/**
+ * 持仓模式与持仓变动：单向持仓按净头寸开平仓，双向持仓由订单的 positionSide 决定开平哪一侧。
+ */
+@Injectable()
+export class PositionService {
+  private readonly logger = new Logger(PositionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly riskBracketService: RiskBracketService,
+  ) {
+    this.subscribeToEvents();
+  }
+
+  async getPositionMode(userId: string): Promise<PositionMode> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { positionMode: true },
+    });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user.positionMode as PositionMode;
+  }
+
+  /**
+   * 有持仓或未完成订单时不允许切换持仓模式。
+   */
+  async setPositionMode(userId: string, positionMode: PositionMode): Promise<PositionMode> {
+    const [openPositions, openOrders] = await Promise.all([
+      this.prisma.position.findMany({
+        where: { userId },
+        select: { quantity: true },
+      }),
+      this.prisma.order.count({
+        where: {
+          userId,
+          status: { in: ['NEW', 'PARTIALLY_FILLED'] },
+        },
+      }),
+    ]);
+
+    if (openPositions.some(position => !FixedDecimal.from(position.quantity).isZero())) {
+      throw new Error('Position mode cannot be changed while positions are open');
+    }
+    if (openOrders > 0) {
+      throw new Error('Position mode cannot be changed while orders are open');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { positionMode },
+    });
+
+    return positionMode;
+  }
+
+  /**
+   * 下单前校验 positionSide 与 reduceOnly：
+   * 双向持仓必须指定 positionSide，平仓方向的数量不能超过该侧持仓；
+   * 单向持仓不能指定 positionSide，reduceOnly 订单必须与净持仓方向相反且不超过持仓数量。
+   */
+  async validateOrder(userId: string, order: OrderPositionIntent): Promise<void> {
+    const positionMode = await this.getPositionMode(userId);
+    const orderSide = this.toPositionSide(order.side);
+    const quantity = FixedDecimal.from(order.quantity);
+
+    if (positionMode === PositionMode.HEDGE) {
+      if (!order.positionSide) {
+        throw new Error('positionSide is required in hedge mode');
+      }
+
+      const isClosing = orderSide !== order.positionSide;
+      if (!isClosing) {
+        if (order.reduceOnly) {
+          throw new Error(`Reduce-only order would increase the ${order.positionSide} position`);
+        }
+        return;
+      }
+
+      const position = await this.getPositionQuantity(userId, order.symbol, order.positionSide);
+      if (quantity.gt(position)) {
+        throw new Error(`Close quantity ${quantity} exceeds the ${order.positionSide} position ${position}`);
+      }
+      return;
+    }
+
+    if (order.positionSide) {
+      throw new Error('positionSide is only allowed in hedge mode');
+    }
+
+    if (order.reduceOnly) {
+      const oppositeSide = orderSide === PositionSide.LONG ? PositionSide.SHORT : PositionSide.LONG;
+      const position = await this.getPositionQuantity(userId, order.symbol, oppositeSide);
+      if (position.isZero()) {
+        throw new Error('Reduce-only order has no position to reduce');
+      }
+      if (quantity.gt(position)) {
+        throw new Error(`Reduce-only quantity ${quantity} exceeds the ${oppositeSide} position ${position}`);
+      }
+    }
+  }
+
+  /**
+   * 按成交更新持仓。单向持仓反向成交先平掉现有持仓，剩余数量反向开仓（reduceOnly 订单不反向开仓）。
+   */
+  async applyFill(order: PerpetualOrder, amount: number, price: number): Promise<void> {
+    const fillQuantity = FixedDecimal.from(amount);
+    const fillPrice = FixedDecimal.from(price);
+
+    await this.prisma.$transaction(async (prisma: Prisma.TransactionClient) => {
+      if (order.positionSide) {
+        if (order.side === order.positionSide) {
+          await this.openPosition(prisma, order, order.positionSide, fillQuantity, fillPrice);
+        } else {
+          await this.closePosition(prisma, order, order.positionSide, fillQuantity, fillPrice);
+        }
+        return;
+      }
+
+      const oppositeSide = order.side === PositionSide.LONG ? PositionSide.SHORT : PositionSide.LONG;
+      const closed = await this.closePosition(prisma, order, oppositeSide, fillQuantity, fillPrice);
+      const remaining = fillQuantity.minus(closed);
+      if (remaining.isPositive() && !order.reduceOnly) {
+        await this.openPosition(prisma, order, order.side, remaining, fillPrice);
+      }
+    });
+  }
+
+  /**
+   * 开仓或加仓：新增数量按成交价和持仓杠杆追加初始保证金，逐仓持仓按加仓后的保证金重新计算强平价格。
+   */
+  private async openPosition(
+    prisma: Prisma.TransactionClient,
+    order: PerpetualOrder,
+    side: PositionSide,
+    quantity: FixedDecimal,
+    price: FixedDecimal,
+  ): Promise<void> {
+    const where = { userId_symbol_side: { userId: order.userId, symbol: order.symbol, side } };
+    const row = await prisma.position.findUnique({ where });
+
+    if (!row) {
+      const marginType = order.marginType ?? MarginType.ISOLATED;
+      const margin = calculateInitialMargin(quantity, price, order.leverage);
+      await prisma.position.create({
+        data: {
+          userId: order.userId,
+          symbol: order.symbol,
+          side,
+          quantity: quantity.toString(),
+          entryPrice: price.toString(),
+          leverage: order.leverage,
+          liquidationPrice: this.getLiquidationPrice(
+            { symbol: order.symbol, side, marginType, quantity, entryPrice: price, margin },
+          ).toString(),
+          margin: margin.toString(),
+          unrealizedPnl: '0',
+          realizedPnl: '0',
+          marginType,
+        },
+      });
+      this.emitPositionChange(order, side, quantity);
+      return;
+    }
+
+    const position = parsePosition(row);
+    const newQuantity = position.quantity.plus(quantity);
+    const entryPrice = calculateAverageEntryPrice(position.quantity, position.entryPrice, quantity, price);
+    const margin = position.margin.plus(calculateInitialMargin(quantity, price, position.leverage));
+
+    await prisma.position.update({
+      where,
+      data: {
+        quantity: newQuantity.toString(),
+        entryPrice: entryPrice.toString(),
+        margin: margin.toString(),
+        liquidationPrice: this.getLiquidationPrice(
+          { ...position, quantity: newQuantity, entryPrice, margin },
+        ).toString(),
+      },
+    });
+    this.emitPositionChange(order, side, newQuantity);
+  }
+
+  /**
+   * 平掉指定方向持仓，返回实际平仓数量（不超过持仓数量）。
+   */
+  private async closePosition(
+    prisma: Prisma.TransactionClient,
+    order: PerpetualOrder,
+    side: PositionSide,
+    quantity: FixedDecimal,
+    price: FixedDecimal,
+  ): Promise<FixedDecimal> {
+    const where = { userId_symbol_side: { userId: order.userId, symbol: order.symbol, side } };
+    const row = await prisma.position.findUnique({ where });
+    if (!row || FixedDecimal.from(row.quantity).isZero()) {
+      return FixedDecimal.ZERO;
+    }
+
+    const position = parsePosition(row);
+    const { closed, remaining, realizedPnl } = closePositionQuantity(
+      side,
+      position.quantity,
+      position.entryPrice,
+      quantity,
+      price,
+    );
+    // 平仓按比例释放保证金，剩余持仓的强平价格随之重新计算
+    const margin = position.margin.times(remaining).div(position.quantity);
+
+    await prisma.position.update({
+      where,
+      data: {
+        quantity: remaining.toString(),
+        entryPrice: remaining.isZero() ? '0' : row.entryPrice,
+        margin: margin.toString(),
+        liquidationPrice: this.getLiquidationPrice({ ...position, quantity: remaining, margin }).toString(),
+        realizedPnl: realizedPnl.plus(position.realizedPnl).toString(),
+      },
+    });
+
+    this.emitPositionChange(order, side, remaining);
+
+    return closed;
+  }
+
+  /**
+   * 持仓数量变化通知，止盈止损单据此调整数量；数量归零时另发 position.closed 撤销这些条件单。
+   */
+  private emitPositionChange(order: PerpetualOrder, side: PositionSide, quantity: FixedDecimal): void {
+    const event = { userId: order.userId, symbol: order.symbol, side };
+    this.eventEmitter.emit('position.updated', { ...event, quantity: quantity.toNumber() });
+    if (quantity.isZero()) {
+      this.eventEmitter.emit('position.closed', event);
+    }
+  }
+
+  /**
+   * 逐仓持仓按风险档位计算强平价格。全仓持仓按账户整体强平，强平账户接管的持仓没有保证金，
+   * 都不记录单个持仓的强平价格。
+   */
+  private getLiquidationPrice(
+    position: Pick<PositionState, 'symbol' | 'side' | 'marginType' | 'quantity' | 'entryPrice' | 'margin'>,
+  ): FixedDecimal {
+    if (position.marginType === MarginType.CROSS || !position.margin.isPositive()) {
+      return FixedDecimal.ZERO;
+    }
+    return calculateLiquidationPrice(position, notional =>
+      this.riskBracketService.getBracket(position.symbol, notional),
+    );
+  }
+
+  private async getPositionQuantity(userId: string, symbol: string, side: PositionSide): Promise<FixedDecimal> {
+    const position = await this.prisma.position.findUnique({
+      where: { userId_symbol_side: { userId, symbol, side } },
+    });
+    return position ? FixedDecimal.from(position.quantity) : FixedDecimal.ZERO;
+  }
+
+  private toPositionSide(side: OrderSide): PositionSide {
+    return side === OrderSide.BUY ? PositionSide.LONG : PositionSide.SHORT;
+  }
+
+  private subscribeToEvents(): void {
+    // 撮合成交后分别更新买卖双方的持仓
+    this.eventEmitter.on(
+      'trade.executed',
+      async (trade: { buyOrder?: PerpetualOrder; sellOrder?: PerpetualOrder; amount: number; price: number }) => {
+        if (!trade.buyOrder || !trade.sellOrder) {
+          return;
+        }
+        for (const order of [trade.buyOrder, trade.sellOrder]) {
+          try {
+            await this.applyFill(order, trade.amount, trade.price);
+          } catch (error) {
+            this.logger.error(`Failed to apply fill of order ${order.id} to position: ${error.message}`);
+          }
+        }
+      },
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DecimalValue, FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { PerpetualConfig, RiskBracket } from '../types/perpetual.types';
+import { calculateMaintenanceMargin } from '../margin/position-math';
+
+/**
+ * 按仓位名义价值分档的风险限额：每档的最大杠杆、维持保证金率和维持保证金速算扣除额。
+ */
+@Injectable()
+export class RiskBracketService {
+  private readonly brackets = new Map<string, RiskBracket[]>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  getRiskBrackets(symbol: string): RiskBracket[] {
+    let brackets = this.brackets.get(symbol);
+    if (!brackets) {
+      brackets = this.buildBrackets(symbol);
+      this.brackets.set(symbol, brackets);
+    }
+    return brackets;
+  }
+
+  /**
+   * 名义价值按定点数与档位上限比较，最高档的上限为 Infinity。
+   */
+  getBracket(symbol: string, notional: DecimalValue): RiskBracket {
+    const brackets = this.getRiskBrackets(symbol);
+    const value = FixedDecimal.from(notional).abs();
+    return (
+      brackets.find(bracket => !Number.isFinite(bracket.notionalCap) || value.lte(bracket.notionalCap)) ??
+      brackets[brackets.length - 1]
+    );
+  }
+
+  getMaintenanceMargin(symbol: string, notional: DecimalValue): number {
+    return calculateMaintenanceMargin(notional, this.getBracket(symbol, notional)).toNumber();
+  }
+
+  getMaxLeverage(symbol: string, notional: DecimalValue): number {
+    return this.getBracket(symbol, notional).maxLeverage;
+  }
+
+  /**
+   * 杠杆超过名义价值所在档位允许的最大杠杆时抛出错误。
+   */
+  validateLeverage(symbol: string, notional: DecimalValue, leverage: number): void {
+    if (!Number.isFinite(leverage) || leverage < 1) {
+      throw new Error(`Invalid leverage: ${leverage}`);
+    }
+
+    const bracket = this.getBracket(symbol, notional);
+    if (leverage > bracket.maxLeverage) {
+      throw new Error(
+        `Leverage ${leverage}x exceeds the maximum ${bracket.maxLeverage}x ` +
+          `for a ${symbol} position notional of ${FixedDecimal.from(notional).abs()} (bracket ${bracket.bracket})`,
+      );
+    }
+  }
+
+  private buildBrackets(symbol: string): RiskBracket[] {
+    const configs = this.configService.get<PerpetualConfig[]>('perpetual.configs') ?? [];
+    const config = configs.find(c => c.symbol === symbol);
+    if (!config) {
+      throw new Error(`Config not found for symbol: ${symbol}`);
+    }
+
+    const bracketConfigs = config.riskBrackets?.length
+      ? config.riskBrackets
+      : [{ notionalCap: null, maxLeverage: config.maxLeverage, maintMarginRate: config.maintMarginRatio }];
+
+    const brackets: RiskBracket[] = [];
+    bracketConfigs.forEach((bracketConfig, i) => {
+      const previous = brackets[i - 1];
+      const notionalFloor = previous ? previous.notionalCap : 0;
+      const notionalCap = bracketConfig.notionalCap ?? Infinity;
+      if (notionalCap <= notionalFloor) {
+        throw new Error(`Risk brackets for ${symbol} must have increasing notional caps`);
+      }
+
+      // 速算扣除额使两档在边界处计算出的维持保证金相等
+      const maintAmount = previous
+        ? FixedDecimal.from(notionalFloor)
+            .times(FixedDecimal.from(bracketConfig.maintMarginRate).minus(previous.maintMarginRate))
+            .plus(previous.maintAmount)
+            .toNumber()
+        : 0;
+
+      brackets.push({
+        bracket: i + 1,
+        notionalFloor,
+        notionalCap,
+        maxLeverage: bracketConfig.maxLeverage,
+        maintMarginRate: bracketConfig.maintMarginRate,
+        maintAmount,
+      });
+    });
+
+    return brackets;
+  }
+}
@@ -7,6 +7,7 @@ import { ConfigService } from '@nestjs/config';
 import { PrometheusService } from '../../monitoring/services/prometheus.service';
 import { PerpetualOrder, Position, PositionSide, MarginType } from '../types/perpetual.types';
 import { MarketDataService } from '../../market/services/market-data.service';
+import { IndexPriceService } from './index-price.service';
 
 @Injectable()
 export class RiskControlService {
@@ -22,6 +23,7 @@ export class RiskControlService {
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
     private readonly marketDataService: MarketDataService,
+    private readonly indexPriceService: IndexPriceService,
   ) {
     this.initializeRiskLimits();
   }
@@ -102,7 +104,7 @@ export class RiskControlService {
       );
 
       // 获取指数价格
-      const indexPrice = await this.marketDataService.getIndexPrice(symbol);
+      const { price: indexPrice } = await this.indexPriceService.getIndexPrice(symbol);
 
       // 计算价格偏离度
       const deviation = Math.abs(price - indexPrice) / indexPrice;
@@ -1,22 +0,0 @@
-import { Injectable } from '@nestjs/common';
-import { PrismaService } from '../../prisma/prisma.service';
-import { BigNumber } from 'bignumber.js';
-
-@Injectable()
-export class RiskManagementService {
-  constructor(
-    private readonly prisma: PrismaService,
-  ) {}
-
-  async checkOrderRisk(
-    userId: string,
-    symbol: string,
-    side: string,
-    quantity: string,
-    leverage: number,
-    price: string,
-  ): Promise<boolean> {
-    // 实现风险检查逻辑
-    return true;
-  }
-} 
\ No newline at end of file
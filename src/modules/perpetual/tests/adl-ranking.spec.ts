@@ -0,0 +1,72 @@
+import {
+  calculateAdlRankingScore,
+  calculateIsolatedEquity,
+  getAdlQuantile,
+  rankAdlPositions,
+} from '../margin/adl-ranking';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { MarginType, PositionSide, PositionState } from '../types/perpetual.types';
+
+describe('ADL ranking', () => {
+  const markPrice = FixedDecimal.from(44000);
+
+  const shortPosition = (id: string, entryPrice: string, quantity: string, margin: string): PositionState => ({
+    id,
+    userId: `user-${id}`,
+    symbol: 'BTCUSDT',
+    side: PositionSide.SHORT,
+    marginType: MarginType.ISOLATED,
+    leverage: 10,
+    quantity: FixedDecimal.from(quantity),
+    entryPrice: FixedDecimal.from(entryPrice),
+    margin: FixedDecimal.from(margin),
+    unrealizedPnl: FixedDecimal.ZERO,
+    realizedPnl: FixedDecimal.ZERO,
+    liquidationPrice: FixedDecimal.ZERO,
+  });
+
+  const isolatedEquity = (position: PositionState) => calculateIsolatedEquity(position, markPrice);
+
+  it('should multiply the profit ratio by the effective leverage', () => {
+    // 盈利 6000，收益率按开仓名义价值 50000 计为 12%，权益 11000，有效杠杆 4
+    const position = shortPosition('A', '50000', '1', '5000');
+    const score = calculateAdlRankingScore(position, markPrice, isolatedEquity(position));
+
+    expect(score.toString()).toBe('0.48');
+  });
+
+  it('should divide a loss ratio by the effective leverage', () => {
+    // 亏损 1000，收益率 -1000 / 43000，权益 3000，有效杠杆 44000 / 3000
+    const position = shortPosition('C', '43000', '1', '4000');
+    const score = calculateAdlRankingScore(position, markPrice, isolatedEquity(position));
+
+    expect(score.isNegative()).toBe(true);
+    expect(score.toFixed(6)).toBe('-0.001585');
+  });
+
+  it('should score a position without margin from the account equity', () => {
+    // 全仓持仓不记录逐仓保证金，有效杠杆按账户保证金余额 2000 计为 22
+    const score = calculateAdlRankingScore(shortPosition('cross', '50000', '1', '0'), markPrice, FixedDecimal.from(2000));
+
+    expect(score.toString()).toBe('2.64');
+  });
+
+  it('should rank positions without positive equity last', () => {
+    const ranked = rankAdlPositions(
+      [
+        shortPosition('bankrupt', '40000', '1', '1000'),
+        shortPosition('loss', '43000', '1', '4300'),
+        shortPosition('profit', '50000', '1', '5000'),
+      ],
+      markPrice,
+      isolatedEquity,
+    );
+
+    expect(ranked.map(position => position.id)).toEqual(['profit', 'loss', 'bankrupt']);
+  });
+
+  it('should map the ranking percentile to 1-5 quantile lights', () => {
+    expect([0, 1, 2, 3, 4].map(rank => getAdlQuantile(rank, 5))).toEqual([5, 4, 3, 2, 1]);
+    expect([0, 1, 2].map(rank => getAdlQuantile(rank, 3))).toEqual([5, 4, 2]);
+  });
+});
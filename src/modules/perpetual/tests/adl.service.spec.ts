@@ -0,0 +1,182 @@
+import { ADLService } from '../services/adl.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { MarginType, PositionSide } from '../types/perpetual.types';
+
+describe('ADLService', () => {
+  let service: ADLService;
+  let positions: any[];
+  let liquidationAccountPosition: any;
+
+  // 标记价格 44000 下的空仓：A 收益率 12%、有效杠杆 4；B 收益率约 4.3%、有效杠杆约 6.7；C 亏损
+  const shortPosition = (id: string, entryPrice: string, quantity: string, margin: string) => ({
+    id,
+    userId: `user-${id}`,
+    symbol: 'BTCUSDT',
+    side: PositionSide.SHORT,
+    quantity,
+    entryPrice,
+    margin,
+    unrealizedPnl: '0',
+    realizedPnl: '0',
+    liquidationPrice: '0',
+    leverage: 10,
+    marginType: MarginType.ISOLATED,
+  });
+
+  const mockPrisma: any = {
+    position: {
+      findMany: jest.fn(async ({ where }) =>
+        positions.filter(
+          p =>
+            (!where.userId || p.userId === where.userId) &&
+            (!where.symbol || p.symbol === where.symbol) &&
+            (!where.side || p.side === where.side),
+        ),
+      ),
+      findUnique: jest.fn(async () => liquidationAccountPosition && { ...liquidationAccountPosition }),
+      update: jest.fn(async ({ where, data }) => {
+        if (where.userId_symbol_side) {
+          Object.assign(liquidationAccountPosition, data);
+        }
+      }),
+    },
+    userBalance: { update: jest.fn() },
+    $transaction: jest.fn(async (fn) => fn(mockPrisma)),
+  };
+
+  const mockRedis = { del: jest.fn(), rpush: jest.fn() };
+  const mockEventEmitter = { on: jest.fn(), emit: jest.fn() };
+  const mockMarkPriceService = { getMarkPrice: jest.fn(async () => ({ markPrice: 44000 })) };
+  const mockConfigService = { get: jest.fn((key: string, defaultValue?: any) => defaultValue) };
+  const mockCrossMarginService = {
+    getCrossMarginAccount: jest.fn(async () => ({ marginBalance: FixedDecimal.from(2000) })),
+  };
+
+  const positionUpdate = (id: string) =>
+    mockPrisma.position.update.mock.calls.find(([{ where }]) => where.id === id)?.[0].data;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    positions = [
+      shortPosition('C', '43000', '1', '4300'),
+      shortPosition('B', '46000', '2', '9200'),
+      shortPosition('A', '50000', '1', '5000'),
+      // 已平仓的持仓不参与排名
+      shortPosition('D', '0', '0', '0'),
+    ];
+    // 强平账户以破产价格 45000 接管的多仓
+    liquidationAccountPosition = {
+      ...shortPosition('taken', '45000', '2', '0'),
+      userId: 'liquidation-engine',
+      side: PositionSide.LONG,
+    };
+
+    service = new ADLService(
+      mockRedis as any,
+      {} as any,
+      mockPrisma,
+      mockEventEmitter as any,
+      mockMarkPriceService as any,
+      mockConfigService as any,
+      mockCrossMarginService as any,
+    );
+  });
+
+  it('should reduce the top-ranked opposite positions at the bankruptcy price', async () => {
+    const absorbed = await service.executeADL({
+      liquidationId: 'liq-1',
+      positionId: 'pos-1',
+      symbol: 'BTCUSDT',
+      side: PositionSide.LONG,
+      amount: FixedDecimal.from('1.5'),
+      bankruptcyPrice: FixedDecimal.from(45000),
+    });
+
+    expect(absorbed.toString()).toBe('1.5');
+    expect(positionUpdate('A')).toMatchObject({ quantity: '0', margin: '0', realizedPnl: '5000' });
+    expect(positionUpdate('B')).toMatchObject({ quantity: '1.5', margin: '6900', realizedPnl: '500' });
+    expect(positionUpdate('C')).toBeUndefined();
+
+    // 逐仓减仓的盈亏和释放的保证金返还钱包
+    const balanceUpdate = mockPrisma.userBalance.update.mock.calls.find(([{ where }]) => where.userId === 'user-B');
+    expect(balanceUpdate[0].data.balance.increment.toString()).toBe('2800');
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'position.adl',
+      expect.objectContaining({ userId: 'user-A', size: 1, price: 45000 }),
+    );
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'position.closed',
+      expect.objectContaining({ userId: 'user-A', side: PositionSide.SHORT }),
+    );
+    expect(mockRedis.rpush).toHaveBeenCalledWith('adl:BTCUSDT:SHORT', 'user-A', 'user-B', 'user-C');
+  });
+
+  it('should reduce the taken-over position on the liquidation account by the absorbed quantity', async () => {
+    await service.executeADL({
+      liquidationId: 'liq-1',
+      positionId: 'pos-1',
+      symbol: 'BTCUSDT',
+      side: PositionSide.LONG,
+      amount: FixedDecimal.from('1.5'),
+      bankruptcyPrice: FixedDecimal.from(45000),
+    });
+
+    const takenUpdates = mockPrisma.position.update.mock.calls
+      .filter(([{ where }]) => where.userId_symbol_side)
+      .map(([{ where, data }]) => [where.userId_symbol_side, data]);
+    expect(takenUpdates).toEqual([
+      [{ userId: 'liquidation-engine', symbol: 'BTCUSDT', side: PositionSide.LONG }, { quantity: '1', realizedPnl: '0' }],
+      [{ userId: 'liquidation-engine', symbol: 'BTCUSDT', side: PositionSide.LONG }, { quantity: '0.5', realizedPnl: '0' }],
+    ]);
+  });
+
+  it('should not reduce a counterparty the liquidation account cannot settle against', async () => {
+    liquidationAccountPosition = null;
+
+    await expect(
+      service.executeADL({
+        liquidationId: 'liq-1',
+        positionId: 'pos-1',
+        symbol: 'BTCUSDT',
+        side: PositionSide.LONG,
+        amount: FixedDecimal.from(1),
+        bankruptcyPrice: FixedDecimal.from(45000),
+      }),
+    ).rejects.toThrow('Liquidation account holds less than 1 LONG BTCUSDT');
+
+    expect(mockPrisma.position.update).not.toHaveBeenCalled();
+    expect(mockPrisma.userBalance.update).not.toHaveBeenCalled();
+  });
+
+  it('should rank cross positions by the account margin balance', async () => {
+    // 全仓空仓 E 没有逐仓保证金，收益率 12%，按账户保证金余额 2000 计算有效杠杆 22
+    positions.push({ ...shortPosition('E', '50000', '1', '0'), marginType: MarginType.CROSS });
+
+    await service.updateADLRanking('BTCUSDT', PositionSide.SHORT);
+
+    expect(mockCrossMarginService.getCrossMarginAccount).toHaveBeenCalledWith('user-E');
+    expect(mockRedis.rpush).toHaveBeenCalledWith('adl:BTCUSDT:SHORT', 'user-E', 'user-A', 'user-B', 'user-C');
+  });
+
+  it('should only touch positions on the opposite side of the liquidated position', async () => {
+    const absorbed = await service.executeADL({
+      liquidationId: 'liq-1',
+      positionId: 'pos-1',
+      symbol: 'BTCUSDT',
+      side: PositionSide.SHORT,
+      amount: FixedDecimal.from(1),
+      bankruptcyPrice: FixedDecimal.from(43000),
+    });
+
+    expect(absorbed.isZero()).toBe(true);
+    expect(mockPrisma.position.update).not.toHaveBeenCalled();
+  });
+
+  it('should map the ranking percentile to 1-5 quantile lights', async () => {
+    const quantile = async (userId: string) => (await service.getADLQuantiles(userId))[0].quantile;
+
+    expect(await quantile('user-A')).toBe(5);
+    expect(await quantile('user-B')).toBe(4);
+    expect(await quantile('user-C')).toBe(2);
+  });
+});
@@ -0,0 +1,140 @@
+import { ConditionalOrderBook } from '../matching-engine/conditional-order-book';
+import {
+  MarginType,
+  OrderStatus,
+  PerpetualOrder,
+  PerpetualOrderType,
+  PositionSide,
+} from '../types/perpetual.types';
+
+describe('ConditionalOrderBook', () => {
+  let book: ConditionalOrderBook;
+
+  const createOrder = (overrides: Partial<PerpetualOrder>): PerpetualOrder => ({
+    id: 'order-1',
+    userId: 'user-1',
+    symbol: 'BTCUSDT',
+    // 默认是保护多仓的卖单
+    side: PositionSide.SHORT,
+    type: PerpetualOrderType.STOP_MARKET,
+    price: 0,
+    amount: 1,
+    leverage: 10,
+    marginType: MarginType.ISOLATED,
+    stopPrice: 48000,
+    reduceOnly: true,
+    status: OrderStatus.NEW,
+    filled: 0,
+    avgPrice: 0,
+    fee: 0,
+    createdAt: new Date(1),
+    updatedAt: new Date(1),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    book = new ConditionalOrderBook();
+  });
+
+  it('should trigger long stop-loss and take-profit orders on opposite price moves', () => {
+    book.addOrder(createOrder({ id: 'sl', stopPrice: 48000 }));
+    book.addOrder(createOrder({ id: 'tp', type: PerpetualOrderType.TAKE_PROFIT_MARKET, stopPrice: 52000 }));
+
+    expect(book.takeTriggered(50000)).toEqual([]);
+    expect(book.takeTriggered(47900).map(order => order.id)).toEqual(['sl']);
+    expect(book.takeTriggered(52000).map(order => order.id)).toEqual(['tp']);
+    expect(book.size()).toBe(0);
+  });
+
+  it('should trigger short stop-loss orders when the mark price rises', () => {
+    book.addOrder(createOrder({ id: 'sl', side: PositionSide.LONG, stopPrice: 52000 }));
+    book.addOrder(
+      createOrder({ id: 'tp', side: PositionSide.LONG, type: PerpetualOrderType.TAKE_PROFIT, stopPrice: 48000 }),
+    );
+
+    expect(book.takeTriggered(51000)).toEqual([]);
+    expect(book.takeTriggered(52500).map(order => order.id)).toEqual(['sl']);
+    expect(book.takeTriggered(47000).map(order => order.id)).toEqual(['tp']);
+  });
+
+  it('should not trigger orders whose position has not been opened yet', () => {
+    book.addOrder(createOrder({ id: 'sl', amount: 0 }));
+
+    expect(book.takeTriggered(47000)).toEqual([]);
+
+    book.resizePositionOrders('user-1', PositionSide.LONG, 2);
+    const [triggered] = book.takeTriggered(47000);
+    expect(triggered.amount).toBe(2);
+  });
+
+  it('should resize and cancel only the orders linked to the given position side', () => {
+    book.addOrder(createOrder({ id: 'long-sl', positionSide: PositionSide.LONG }));
+    book.addOrder(
+      createOrder({
+        id: 'long-tp',
+        positionSide: PositionSide.LONG,
+        type: PerpetualOrderType.TAKE_PROFIT_MARKET,
+        stopPrice: 52000,
+      }),
+    );
+    book.addOrder(
+      createOrder({ id: 'short-sl', side: PositionSide.LONG, positionSide: PositionSide.SHORT, stopPrice: 52000 }),
+    );
+
+    book.resizePositionOrders('user-1', PositionSide.LONG, 0.5);
+    expect(book.getOrders().map(order => order.amount)).toEqual([0.5, 0.5, 1]);
+
+    const removed = book.removePositionOrders('user-1', PositionSide.LONG);
+    expect(removed.map(order => order.id)).toEqual(['long-sl', 'long-tp']);
+    expect(book.hasOrder('short-sl')).toBe(true);
+  });
+
+  it('should trail the running high of a long position and fire on the callback retrace', () => {
+    book.addOrder(
+      createOrder({
+        id: 'trailing',
+        type: PerpetualOrderType.TRAILING_STOP_MARKET,
+        stopPrice: undefined,
+        callbackRate: 1,
+        activationPrice: 51000,
+      }),
+    );
+
+    // 未到激活价不跟踪
+    expect(book.updateTrailingStops(50000)).toEqual([]);
+    expect(book.takeTriggered(45000)).toEqual([]);
+
+    expect(book.updateTrailingStops(51000).map(order => order.trailingPrice)).toEqual([51000]);
+    expect(book.updateTrailingStops(52000).map(order => order.trailingPrice)).toEqual([52000]);
+    expect(book.updateTrailingStops(51600)).toEqual([]);
+    expect(book.takeTriggered(51600)).toEqual([]);
+
+    // 52000 回撤 1% 为 51480
+    expect(book.takeTriggered(51480).map(order => order.id)).toEqual(['trailing']);
+  });
+
+  it('should trail the running low of a short position from a restored state', () => {
+    book.addOrder(
+      createOrder({
+        id: 'trailing',
+        side: PositionSide.LONG,
+        type: PerpetualOrderType.TRAILING_STOP_MARKET,
+        stopPrice: undefined,
+        callbackRate: 2,
+        trailingPrice: 40000,
+      }),
+    );
+
+    expect(book.updateTrailingStops(41000)).toEqual([]);
+    expect(book.takeTriggered(40700)).toEqual([]);
+    expect(book.takeTriggered(40800).map(order => order.id)).toEqual(['trailing']);
+  });
+
+  it('should reject non-conditional orders and orders without a stop price', () => {
+    expect(() => book.addOrder(createOrder({ type: PerpetualOrderType.LIMIT }))).toThrow('not a conditional order');
+    expect(() => book.addOrder(createOrder({ stopPrice: undefined }))).toThrow('requires a stop price');
+    expect(() =>
+      book.addOrder(createOrder({ type: PerpetualOrderType.TRAILING_STOP_MARKET, stopPrice: undefined })),
+    ).toThrow('requires a callback rate');
+  });
+});
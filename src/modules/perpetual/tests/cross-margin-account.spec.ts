@@ -0,0 +1,74 @@
+import {
+  buildCrossMarginAccount,
+  getCrossMarginLiquidationOrder,
+  isCrossMarginLiquidatable,
+  toCrossMarginPosition,
+} from '../margin/cross-margin-account';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { MarginType, PositionSide, PositionState } from '../types/perpetual.types';
+
+describe('cross-margin account', () => {
+  const position = (id: string, side: PositionSide, quantity: string, entryPrice: string): PositionState => ({
+    id,
+    userId: 'user-1',
+    symbol: 'BTCUSDT',
+    side,
+    marginType: MarginType.CROSS,
+    leverage: 10,
+    quantity: FixedDecimal.from(quantity),
+    entryPrice: FixedDecimal.from(entryPrice),
+    margin: FixedDecimal.ZERO,
+    unrealizedPnl: FixedDecimal.ZERO,
+    realizedPnl: FixedDecimal.ZERO,
+    liquidationPrice: FixedDecimal.ZERO,
+  });
+
+  // 名义价值 50000 以内 0.4%，以上 0.5%，速算扣除额 50
+  const getBracket = (notional: FixedDecimal) =>
+    notional.lte(50000) ? { maintMarginRate: 0.004, maintAmount: 0 } : { maintMarginRate: 0.005, maintAmount: 50 };
+
+  const at = (state: PositionState, markPrice: string) =>
+    toCrossMarginPosition(state, FixedDecimal.from(markPrice), getBracket);
+
+  it('should price each position at the mark price in its own bracket', () => {
+    const long = at(position('long', PositionSide.LONG, '1.5', '40000'), '41000.1');
+
+    expect(long.notional.toString()).toBe('61500.15');
+    expect(long.unrealizedPnl.toString()).toBe('1500.15');
+    expect(long.maintMargin.toString()).toBe('257.50075');
+  });
+
+  it('should let the wallet balance and profits cover the summed maintenance margin', () => {
+    const positions = [
+      at(position('long', PositionSide.LONG, '1', '50000'), '48000'),
+      at(position('short', PositionSide.SHORT, '10', '3000'), '2700'),
+    ];
+
+    const account = buildCrossMarginAccount('user-1', FixedDecimal.from('100.1'), positions);
+
+    expect(account.unrealizedPnl.toString()).toBe('1000');
+    expect(account.marginBalance.toString()).toBe('1100.1');
+    expect(account.maintMargin.toString()).toBe('300');
+    expect(isCrossMarginLiquidatable(account)).toBe(false);
+  });
+
+  it('should liquidate the largest loss first once the margin balance is below maintenance', () => {
+    const positions = [
+      at(position('small-loss', PositionSide.LONG, '1', '50000'), '49000'),
+      at(position('large-loss', PositionSide.SHORT, '10', '3000'), '3300'),
+    ];
+
+    const account = buildCrossMarginAccount('user-1', FixedDecimal.from(4000), positions);
+
+    expect(account.marginBalance.toString()).toBe('0');
+    expect(isCrossMarginLiquidatable(account)).toBe(true);
+    expect(getCrossMarginLiquidationOrder(account).map(p => p.positionId)).toEqual(['large-loss', 'small-loss']);
+  });
+
+  it('should not liquidate an account without positions', () => {
+    const account = buildCrossMarginAccount('user-1', FixedDecimal.from(-10), []);
+
+    expect(account.marginRatio).toBe(Infinity);
+    expect(isCrossMarginLiquidatable(account)).toBe(false);
+  });
+});
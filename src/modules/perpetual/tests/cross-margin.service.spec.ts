@@ -0,0 +1,93 @@
+import { CrossMarginService } from '../services/cross-margin.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { MarginType, PositionSide } from '../types/perpetual.types';
+
+describe('CrossMarginService', () => {
+  let service: CrossMarginService;
+
+  const mockPrisma = {
+    userBalance: { findUnique: jest.fn() },
+    position: { findMany: jest.fn() },
+  };
+
+  let markPrices: Record<string, number>;
+
+  const mockMarkPriceService = {
+    getMarkPrice: jest.fn(async (symbol: string) => ({ symbol, markPrice: markPrices[symbol] })),
+  };
+
+  // 固定 1% 维持保证金率
+  const mockRiskBracketService = {
+    getBracket: jest.fn(() => ({ maintMarginRate: 0.01, maintAmount: 0 })),
+  };
+
+  const crossPosition = (id: string, symbol: string, side: PositionSide, quantity: string, entryPrice: string) => ({
+    id,
+    userId: 'user-1',
+    symbol,
+    side,
+    marginType: MarginType.CROSS,
+    leverage: 10,
+    quantity,
+    entryPrice,
+    margin: '0',
+    unrealizedPnl: '0',
+    realizedPnl: '0',
+    liquidationPrice: '0',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    markPrices = { BTCUSDT: 48000, ETHUSDT: 3300 };
+    service = new CrossMarginService(
+      mockPrisma as any,
+      mockMarkPriceService as any,
+      mockRiskBracketService as any,
+    );
+
+    mockPrisma.userBalance.findUnique.mockResolvedValue({ userId: 'user-1', balance: 1000 });
+    mockPrisma.position.findMany.mockResolvedValue([
+      crossPosition('btc-long', 'BTCUSDT', PositionSide.LONG, '1', '50000'),
+      crossPosition('eth-short', 'ETHUSDT', PositionSide.SHORT, '10', '3000'),
+      crossPosition('btc-short', 'BTCUSDT', PositionSide.SHORT, '0', '0'),
+    ]);
+  });
+
+  it('should sum unrealized PnL and maintenance margin across cross positions', async () => {
+    const account = await service.getCrossMarginAccount('user-1');
+
+    expect(mockPrisma.position.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', marginType: MarginType.CROSS },
+    });
+    expect(account.positions.map(position => position.positionId)).toEqual(['btc-long', 'eth-short']);
+    expect(account.unrealizedPnl.toString()).toBe('-5000');
+    expect(account.marginBalance.toString()).toBe('-4000');
+    expect(account.maintMargin.toString()).toBe('810');
+    expect(service.isLiquidatable(account)).toBe(true);
+  });
+
+  it('should let profits on one position support another', async () => {
+    markPrices.ETHUSDT = 2700;
+    const account = await service.getCrossMarginAccount('user-1');
+
+    // BTC 亏损 2000，ETH 空仓盈利 3000
+    expect(account.marginBalance.toString()).toBe('2000');
+    expect(service.isLiquidatable(account)).toBe(false);
+  });
+
+  it('should liquidate the largest loss first', async () => {
+    const account = await service.getCrossMarginAccount('user-1');
+
+    expect(service.getLiquidationOrder(account).map(position => position.positionId)).toEqual([
+      'eth-short',
+      'btc-long',
+    ]);
+  });
+
+  it('should not liquidate an account without positions', () => {
+    const account = service.buildAccount('user-1', FixedDecimal.from(-10), []);
+
+    expect(account.marginRatio).toBe(Infinity);
+    expect(service.isLiquidatable(account)).toBe(false);
+  });
+});
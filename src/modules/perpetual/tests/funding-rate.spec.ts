@@ -0,0 +1,40 @@
+import { calculateFundingRate, calculateTimeWeightedPremium } from '../pricing/funding-rate';
+
+describe('funding rate', () => {
+  const minute = 60 * 1000;
+  const limits = { minRate: -0.0075, maxRate: 0.0075, interestClamp: 0.0005 };
+
+  it('should weight each premium sample by the time until the next one', () => {
+    const samples = [
+      { premium: 0.001, timestamp: 0 },
+      { premium: 0.004, timestamp: minute },
+    ];
+
+    // 两个样本各覆盖一分钟
+    expect(calculateTimeWeightedPremium(samples, 2 * minute, minute)).toBeCloseTo(0.0025);
+    // 乱序的样本按时间排序后计算
+    expect(calculateTimeWeightedPremium([...samples].reverse(), 2 * minute, minute)).toBeCloseTo(0.0025);
+  });
+
+  it('should cap the weight of a sample before a sampling gap', () => {
+    const samples = [
+      { premium: 0.01, timestamp: 0 },
+      { premium: 0, timestamp: 10 * minute },
+    ];
+
+    // 第一个样本最多覆盖两个采样间隔，最后一个样本至少覆盖一个采样间隔
+    expect(calculateTimeWeightedPremium(samples, 10 * minute, minute)).toBeCloseTo((0.01 * 2) / 3);
+    expect(calculateTimeWeightedPremium([], 10 * minute, minute)).toBe(0);
+  });
+
+  it('should use the interest rate while the premium stays within the clamp', () => {
+    expect(calculateFundingRate(0.0003, 0.0001, limits)).toBeCloseTo(0.0001);
+    expect(calculateFundingRate(0.002, 0.0001, limits)).toBeCloseTo(0.0015);
+    expect(calculateFundingRate(-0.002, 0.0001, limits)).toBeCloseTo(-0.0015);
+  });
+
+  it('should limit the rate to the contract bounds', () => {
+    expect(calculateFundingRate(0.02, 0.0001, limits)).toBe(0.0075);
+    expect(calculateFundingRate(-0.02, 0.0001, limits)).toBe(-0.0075);
+  });
+});
@@ -0,0 +1,149 @@
+import { FundingService } from '../services/funding.service';
+
+describe('FundingService', () => {
+  const HOUR = 60 * 60 * 1000;
+  const MINUTE = 60 * 1000;
+  const FUNDING_TIME = 1700006400000; // 8小时对齐的结算时间
+
+  let service: FundingService;
+  let now: number;
+  let markPrice: { markPrice: number; indexPrice: number };
+  let perpetualConfigs: any[];
+
+  // 只实现资金费率用到的 Redis 命令
+  const createRedis = () => {
+    const values = new Map<string, string>();
+    const sortedSets = new Map<string, Array<{ score: number; member: string }>>();
+    const inRange = (score: number, min: number | string, max: number | string) => {
+      const lower = min === '-inf' ? -Infinity : Number(min);
+      const upper = String(max).startsWith('(') ? Number(String(max).slice(1)) : Number(max);
+      return score >= lower && (String(max).startsWith('(') ? score < upper : score <= upper);
+    };
+
+    return {
+      get: jest.fn(async (key: string) => values.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        values.set(key, value);
+        return 'OK';
+      }),
+      zadd: jest.fn(async (key: string, score: number, member: string) => {
+        const set = sortedSets.get(key) ?? [];
+        set.push({ score, member });
+        set.sort((a, b) => a.score - b.score);
+        sortedSets.set(key, set);
+        return 1;
+      }),
+      zrangebyscore: jest.fn(async (key: string, min: number | string, max: number | string) =>
+        (sortedSets.get(key) ?? []).filter(entry => inRange(entry.score, min, max)).map(entry => entry.member),
+      ),
+      zremrangebyscore: jest.fn(async (key: string, min: number | string, max: number | string) => {
+        const set = sortedSets.get(key) ?? [];
+        sortedSets.set(key, set.filter(entry => !inRange(entry.score, min, max)));
+        return 0;
+      }),
+    };
+  };
+
+  const mockPrisma = {
+    perpetualPair: { findMany: jest.fn() },
+    position: { findMany: jest.fn() },
+    fundingRate: { create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const mockPrometheusService = {
+    recordLatency: jest.fn(),
+    incrementErrors: jest.fn(),
+  };
+
+  const sample = async (premium: number) => {
+    markPrice = { markPrice: 50000 * (1 + premium), indexPrice: 50000 };
+    await service.samplePremiumIndex('BTCUSDT');
+    now += MINUTE;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    now = FUNDING_TIME - 10 * MINUTE;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    perpetualConfigs = [{ symbol: 'BTCUSDT', fundingInterval: 8 * HOUR }];
+
+    const config = {
+      FUNDING_INTEREST_RATE: 0.0001,
+    };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: any) =>
+        key === 'perpetual.configs' ? perpetualConfigs : config[key] ?? defaultValue,
+      ),
+    };
+    const markPriceService = {
+      getMarkPrice: jest.fn(async () => markPrice),
+    };
+
+    mockPrisma.perpetualPair.findMany.mockResolvedValue([{ symbol: 'BTCUSDT' }]);
+    mockPrisma.position.findMany.mockResolvedValue([]);
+    mockPrisma.$transaction.mockImplementation(callback => callback(mockPrisma));
+
+    service = new FundingService(
+      mockPrisma as any,
+      createRedis() as any,
+      { emit: jest.fn() } as any,
+      configService as any,
+      mockPrometheusService as any,
+      markPriceService as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should weight premium samples by the time they cover', async () => {
+    await sample(0.001);
+    await sample(0.001);
+    await sample(0.001);
+    await sample(0.004);
+
+    // 时间加权溢价 0.00175，利率与溢价之差被限制在 -0.05%
+    expect(await service.getPredictedFundingRate('BTCUSDT')).toBeCloseTo(0.00175 - 0.0005, 10);
+  });
+
+  it('should fall back to the interest rate when the premium is small', async () => {
+    await sample(0.00005);
+    await sample(0.00005);
+
+    expect(await service.getPredictedFundingRate('BTCUSDT')).toBeCloseTo(0.0001, 10);
+  });
+
+  it('should cap the rate with the per-symbol limit', async () => {
+    perpetualConfigs = [{ symbol: 'BTCUSDT', fundingInterval: 8 * HOUR, maxFundingRate: 0.003 }];
+    await sample(0.01);
+
+    expect(await service.getPredictedFundingRate('BTCUSDT')).toBe(0.003);
+  });
+
+  it('should settle at the end of the per-symbol funding interval', async () => {
+    perpetualConfigs = [{ symbol: 'BTCUSDT', fundingInterval: HOUR }];
+    markPrice = { markPrice: 50000, indexPrice: 50000 };
+
+    await service.runFundingCycle();
+    expect(mockPrisma.fundingRate.create).not.toHaveBeenCalled();
+
+    now = FUNDING_TIME;
+    await service.runFundingCycle();
+
+    // 1小时周期的利率为 8 小时利率的 1/8
+    expect(mockPrisma.fundingRate.create).toHaveBeenCalledWith({
+      data: {
+        symbol: 'BTCUSDT',
+        rate: expect.closeTo(0.0001 / 8, 10),
+        timestamp: new Date(FUNDING_TIME),
+      },
+    });
+
+    now = FUNDING_TIME + MINUTE;
+    await service.runFundingCycle();
+    expect(mockPrisma.fundingRate.create).toHaveBeenCalledTimes(1);
+    expect((await service.getFundingInfo('BTCUSDT')).nextFundingTime).toBe(FUNDING_TIME + HOUR);
+  });
+});
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { IndexPriceService } from '../services/index-price.service';
+import { InMemoryPriceSource } from '../price-sources/in-memory-price-source';
+import { FilePriceSource } from '../price-sources/file-price-source';
+import { createPriceSources } from '../price-sources/price-source.factory';
+import { PRICE_SOURCES, PriceSource, PriceSourceExclusion } from '../types/price-index.types';
+
+describe('IndexPriceService', () => {
+  let service: IndexPriceService;
+  let binance: InMemoryPriceSource;
+  let okx: InMemoryPriceSource;
+  let coinbase: InMemoryPriceSource;
+
+  const config = {
+    INDEX_PRICE_MAX_AGE_MS: 10000,
+    INDEX_PRICE_MAX_DEVIATION: 0.05,
+    INDEX_PRICE_MIN_SOURCES: 2,
+  };
+
+  const createService = async (sources: PriceSource[]) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IndexPriceService,
+        {
+          provide: PRICE_SOURCES,
+          useValue: sources,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    return module.get<IndexPriceService>(IndexPriceService);
+  };
+
+  beforeEach(async () => {
+    binance = new InMemoryPriceSource('binance', 1);
+    okx = new InMemoryPriceSource('okx', 1);
+    coinbase = new InMemoryPriceSource('coinbase', 2);
+    service = await createService([binance, okx, coinbase]);
+  });
+
+  it('should take the weighted median of all sources', async () => {
+    binance.setPrice('BTCUSDT', 50000);
+    okx.setPrice('BTCUSDT', 50100);
+    coinbase.setPrice('BTCUSDT', 50050);
+
+    const index = await service.getIndexPrice('BTCUSDT');
+
+    // 按价格排序后累计权重 1、3、4，总权重一半为 2，落在 coinbase
+    expect(index.price).toBe(50050);
+    expect(index.components.every(component => !component.excluded)).toBe(true);
+  });
+
+  it('should average the two middle prices when weights split evenly', async () => {
+    service = await createService([binance, okx]);
+    binance.setPrice('BTCUSDT', 50000);
+    okx.setPrice('BTCUSDT', 50100);
+
+    expect((await service.getIndexPrice('BTCUSDT')).price).toBe(50050);
+  });
+
+  it('should drop stale quotes', async () => {
+    binance.setPrice('BTCUSDT', 50000);
+    okx.setPrice('BTCUSDT', 50100);
+    coinbase.setPrice('BTCUSDT', 48000, Date.now() - 60000);
+
+    const index = await service.getIndexPrice('BTCUSDT');
+
+    expect(index.price).toBe(50050);
+    expect(index.components.find(component => component.source === 'coinbase').excluded).toBe(
+      PriceSourceExclusion.STALE,
+    );
+  });
+
+  it('should drop sources that deviate too far from the median', async () => {
+    binance.setPrice('BTCUSDT', 50000);
+    okx.setPrice('BTCUSDT', 40000);
+    coinbase.setPrice('BTCUSDT', 50100);
+
+    const index = await service.getIndexPrice('BTCUSDT');
+
+    expect(index.price).toBe(50100);
+    expect(index.components.find(component => component.source === 'okx').excluded).toBe(
+      PriceSourceExclusion.OUTLIER,
+    );
+  });
+
+  it('should treat failing sources as unavailable', async () => {
+    const failing: PriceSource = {
+      name: 'failing',
+      weight: 1,
+      getPrice: jest.fn().mockRejectedValue(new Error('timeout')),
+    };
+    service = await createService([binance, okx, failing]);
+    binance.setPrice('BTCUSDT', 50000);
+    okx.setPrice('BTCUSDT', 50000);
+
+    const index = await service.getIndexPrice('BTCUSDT');
+
+    expect(index.price).toBe(50000);
+    expect(index.components.find(component => component.source === 'failing').excluded).toBe(
+      PriceSourceExclusion.UNAVAILABLE,
+    );
+  });
+
+  it('should fail when fewer than the minimum sources remain', async () => {
+    binance.setPrice('BTCUSDT', 50000);
+
+    await expect(service.getIndexPrice('BTCUSDT')).rejects.toThrow('Not enough valid index price sources');
+  });
+
+  it('should read quotes from a file source', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'index-price-'));
+    const filePath = path.join(directory, 'kraken.json');
+    fs.writeFileSync(filePath, JSON.stringify({ BTCUSDT: { price: '50020', timestamp: Date.now() } }));
+
+    try {
+      service = await createService([binance, new FilePriceSource('kraken', filePath)]);
+      binance.setPrice('BTCUSDT', 50000);
+
+      expect((await service.getIndexPrice('BTCUSDT')).price).toBe(50010);
+      expect(await new FilePriceSource('missing', path.join(directory, 'missing.json')).getPrice('BTCUSDT')).toBeNull();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createPriceSources', () => {
+  const configService = (sources?: string) =>
+    ({ get: jest.fn((key: string, defaultValue?: any) => sources ?? defaultValue) }) as unknown as ConfigService;
+
+  it('should create weighted file sources from the configuration', () => {
+    const sources = createPriceSources(configService('binance:1:data/binance.json,coinbase:2:C:/data/coinbase.json'));
+
+    expect(sources.map(source => [source.name, source.weight])).toEqual([
+      ['binance', 1],
+      ['coinbase', 2],
+    ]);
+  });
+
+  it('should fail at startup when no source is configured', () => {
+    expect(() => createPriceSources(configService())).toThrow('INDEX_PRICE_SOURCES is not configured');
+    expect(() => createPriceSources(configService(' , '))).toThrow('INDEX_PRICE_SOURCES is not configured');
+  });
+
+  it('should reject entries without a positive weight', () => {
+    expect(() => createPriceSources(configService('binance:abc:data/binance.json'))).toThrow(
+      'Invalid index price source "binance:abc:data/binance.json"',
+    );
+  });
+});
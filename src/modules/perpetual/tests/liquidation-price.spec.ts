@@ -0,0 +1,46 @@
+import { calculateBankruptcyPrice, calculateLiquidationPrice } from '../margin/liquidation-price';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { PositionSide } from '../types/perpetual.types';
+
+describe('liquidation price', () => {
+  const position = (side: PositionSide, quantity: string, entryPrice: string, margin: string) => ({
+    side,
+    quantity: FixedDecimal.from(quantity),
+    entryPrice: FixedDecimal.from(entryPrice),
+    margin: FixedDecimal.from(margin),
+  });
+
+  // 名义价值 250000 以内维持保证金率 1%，以上 2.5%、速算扣除额 3750
+  const getBracket = (notional: FixedDecimal) =>
+    notional.lte(250000) ? { maintMarginRate: 0.01, maintAmount: 0 } : { maintMarginRate: 0.025, maintAmount: 3750 };
+
+  it('should put the bankruptcy price where the isolated margin is used up', () => {
+    expect(calculateBankruptcyPrice(position(PositionSide.LONG, '1', '50000', '5000')).toString()).toBe('45000');
+    expect(calculateBankruptcyPrice(position(PositionSide.SHORT, '0.3', '100', '1')).toString()).toBe(
+      '103.333333333333333333',
+    );
+  });
+
+  it('should keep the maintenance margin when the liquidation price is reached', () => {
+    const long = position(PositionSide.LONG, '1', '50000', '5000');
+    const liquidationPrice = calculateLiquidationPrice(long, getBracket);
+
+    // 45000 / 0.99
+    expect(liquidationPrice.toFixed(6)).toBe('45454.545454');
+    const equity = long.margin.plus(liquidationPrice.minus(long.entryPrice));
+    expect(equity.minus(liquidationPrice.times('0.01')).abs().lt('0.000001')).toBe(true);
+  });
+
+  it('should use the bracket of the entry notional', () => {
+    const short = position(PositionSide.SHORT, '5', '52000', '14000');
+
+    expect(calculateLiquidationPrice(short, getBracket).toString()).toBe(
+      FixedDecimal.from(260000 + 14000 + 3750).div(5 * 1.025).toString(),
+    );
+  });
+
+  it('should not go below zero or price an empty position', () => {
+    expect(calculateLiquidationPrice(position(PositionSide.LONG, '1', '100', '200'), getBracket).isZero()).toBe(true);
+    expect(calculateLiquidationPrice(position(PositionSide.LONG, '0', '0', '0'), getBracket).isZero()).toBe(true);
+  });
+});
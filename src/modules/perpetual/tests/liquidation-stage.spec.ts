@@ -0,0 +1,78 @@
+import { planLiquidationStage } from '../margin/liquidation-stage';
+import { parsePosition } from '../margin/position-math';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { PositionSide } from '../types/perpetual.types';
+
+describe('liquidation stage planning', () => {
+  const brackets = [
+    { bracket: 1, notionalFloor: 0, notionalCap: 250000, maxLeverage: 50, maintMarginRate: 0.01, maintAmount: 0 },
+    { bracket: 2, notionalFloor: 250000, notionalCap: 1000000, maxLeverage: 20, maintMarginRate: 0.025, maintAmount: 3750 },
+    { bracket: 3, notionalFloor: 1000000, notionalCap: Infinity, maxLeverage: 10, maintMarginRate: 0.05, maintAmount: 28750 },
+  ];
+
+  const position = (quantity: string, entryPrice: string, margin: string) =>
+    parsePosition({
+      id: 'pos-1',
+      userId: 'user-1',
+      symbol: 'BTCUSDT',
+      side: PositionSide.LONG,
+      leverage: 20,
+      quantity,
+      entryPrice,
+      margin,
+      unrealizedPnl: '0',
+      realizedPnl: '0',
+      liquidationPrice: '0',
+    });
+
+  it('should reduce to the cap of the lower bracket', () => {
+    // 名义价值 500000 处于第二档，权益 4000 可维持第一档 400000，但第一档上限为 250000
+    const plan = planLiquidationStage(
+      position('10', '52000', '24000'),
+      FixedDecimal.from(50000),
+      1,
+      brackets[1],
+      brackets[0],
+    );
+
+    expect(plan.bracket).toBe(2);
+    expect(plan.size.toString()).toBe('10');
+    expect(plan.targetSize.toString()).toBe('5');
+    expect(plan.bankruptcyPrice.toString()).toBe('49600');
+    expect(plan.marginRatio).toBeCloseTo(4000 / 8750);
+  });
+
+  it('should reduce to the notional the equity can still maintain', () => {
+    // 权益 2000 在第二档可维持 (2000 + 3750) / 0.025 = 230000
+    const plan = planLiquidationStage(
+      position('24', '50000', '2000'),
+      FixedDecimal.from(50000),
+      2,
+      brackets[2],
+      brackets[1],
+    );
+
+    expect(plan.stage).toBe(2);
+    expect(plan.targetSize.toString()).toBe('4.6');
+  });
+
+  it('should not plan a negative target when the equity is exhausted', () => {
+    const plan = planLiquidationStage(
+      position('10', '52000', '10000'),
+      FixedDecimal.from(50000),
+      1,
+      brackets[1],
+      brackets[0],
+    );
+
+    expect(plan.targetSize.isZero()).toBe(true);
+  });
+
+  it('should fully liquidate positions in the lowest bracket', () => {
+    const plan = planLiquidationStage(position('1', '50000', '1000'), FixedDecimal.from(49500), 1, brackets[0]);
+
+    expect(plan.bracket).toBe(1);
+    expect(plan.targetSize.isZero()).toBe(true);
+    expect(plan.bankruptcyPrice.toString()).toBe('49000');
+  });
+});
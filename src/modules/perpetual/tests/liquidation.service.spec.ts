@@ -0,0 +1,451 @@
+import { Prisma } from '@prisma/client';
+import { LiquidationService } from '../services/liquidation.service';
+import { LiquidationEventType } from '../../liquidation/types/liquidation.types';
+import { MarginType, PerpetualOrder, PositionSide } from '../types/perpetual.types';
+import { TimeInForce } from '../dto/perpetual.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+import { parsePosition } from '../margin/position-math';
+import {
+  buildCrossMarginAccount,
+  getCrossMarginLiquidationOrder,
+  isCrossMarginLiquidatable,
+  toCrossMarginPosition,
+} from '../margin/cross-margin-account';
+
+describe('LiquidationService', () => {
+  let service: LiquidationService;
+  let fills: Array<{ amount: number; price: number }>;
+  let insuranceFundBalance: number;
+
+  // 多仓 1 BTC，开仓价 50000，逐仓保证金 5000，破产价格 45000
+  const position = {
+    id: 'pos-1',
+    userId: 'user-1',
+    symbol: 'BTCUSDT',
+    side: PositionSide.LONG,
+    quantity: '1',
+    entryPrice: '50000',
+    margin: '5000',
+    leverage: 10,
+    unrealizedPnl: '0',
+    realizedPnl: '0',
+    liquidationPrice: '45250',
+    marginType: MarginType.ISOLATED,
+  };
+
+  const mockPrisma: any = {
+    position: { findUnique: jest.fn(), update: jest.fn(), create: jest.fn() },
+    liquidationOrder: { create: jest.fn(async ({ data }) => ({ id: 'liq-order-1', ...data })) },
+    liquidationEvent: { create: jest.fn() },
+    userBalance: { update: jest.fn() },
+    insuranceFund: {
+      findUnique: jest.fn(async () => ({ balance: insuranceFundBalance })),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(async (fn) => fn(mockPrisma)),
+  };
+
+  const mockRedis: any = {
+    duplicate: jest.fn(() => mockRedis),
+    brpop: jest.fn(() => new Promise(() => undefined)),
+    set: jest.fn(async () => 'OK'),
+    del: jest.fn(),
+    incr: jest.fn(async () => 1),
+    expire: jest.fn(),
+    lpush: jest.fn(),
+  };
+  const mockEventEmitter = { on: jest.fn(), emit: jest.fn() };
+  const mockConfigService = { get: jest.fn((key: string, defaultValue?: any) => defaultValue) };
+  const mockPrometheusService = { recordLatency: jest.fn(), incrementErrors: jest.fn() };
+  const mockMarkPriceService = { getMarkPrice: jest.fn(async () => ({ markPrice: 45200 })) };
+  // 第一档名义价值 250000 以内维持保证金率 1%，第二档 2.5%、速算扣除额 3750
+  const brackets = [
+    { bracket: 1, notionalFloor: 0, notionalCap: 250000, maxLeverage: 50, maintMarginRate: 0.01, maintAmount: 0 },
+    { bracket: 2, notionalFloor: 250000, notionalCap: 1000000, maxLeverage: 20, maintMarginRate: 0.025, maintAmount: 3750 },
+  ];
+  const getBracket = (symbol: string, notional: FixedDecimal) =>
+    brackets.find(bracket => notional.lte(bracket.notionalCap)) ?? brackets[brackets.length - 1];
+  const mockRiskBracketService = {
+    getRiskBrackets: jest.fn(() => brackets),
+    getBracket: jest.fn(getBracket),
+  };
+  const mockCrossMarginService = {
+    getCrossMarginAccount: jest.fn(),
+    buildAccount: jest.fn(buildCrossMarginAccount),
+    isLiquidatable: jest.fn(isCrossMarginLiquidatable),
+    getLiquidationOrder: jest.fn(getCrossMarginLiquidationOrder),
+  };
+  const mockPerpetualService = {
+    cancelSymbolOrders: jest.fn(async () => [{ id: 'open-order-1' }]),
+  };
+  const mockMatchingEngineService = {
+    getOrder: jest.fn(() => ({ id: 'open-order-1' })),
+    cancelOrder: jest.fn(),
+    placeOrder: jest.fn(async (order: PerpetualOrder) => {
+      const fill = fills.shift();
+      if (fill) {
+        order.filled = fill.amount;
+        order.avgPrice = fill.price;
+      }
+    }),
+  };
+
+  const recordedTypes = () =>
+    mockPrisma.liquidationEvent.create.mock.calls.map(([{ data }]) => data.type);
+
+  const liquidate = () => (service as any).processLiquidation('pos-1');
+
+  const createService = () =>
+    new LiquidationService(
+      mockPrisma,
+      mockRedis as any,
+      mockEventEmitter as any,
+      mockConfigService as any,
+      mockPrometheusService as any,
+      mockMarkPriceService as any,
+      mockCrossMarginService as any,
+      mockPerpetualService as any,
+      mockMatchingEngineService as any,
+      mockRiskBracketService as any,
+    );
+
+  // 按 id 查询的是被强平的持仓，强平账户初始没有持仓
+  const mockPosition = (row: any) =>
+    mockPrisma.position.findUnique.mockImplementation(async ({ where }) => (where.id ? { ...row } : null));
+
+  const adlRequest = () =>
+    mockEventEmitter.emit.mock.calls.find(([event]) => event === 'adl.required')?.[1];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fills = [];
+    insuranceFundBalance = 10000;
+    mockPosition(position);
+    mockMarkPriceService.getMarkPrice.mockResolvedValue({ markPrice: 45200 });
+
+    service = createService();
+  });
+
+  it('should cancel open orders, take over at the bankruptcy price and close with IOC orders', async () => {
+    fills = [{ amount: 1, price: 45100 }];
+
+    await liquidate();
+
+    expect(mockPerpetualService.cancelSymbolOrders).toHaveBeenCalledWith('user-1', 'BTCUSDT');
+    expect(mockMatchingEngineService.cancelOrder).toHaveBeenCalledWith('open-order-1', 'BTCUSDT');
+    expect(mockPrisma.position.update).toHaveBeenCalledWith({
+      where: { id: 'pos-1' },
+      data: expect.objectContaining({ quantity: '0', margin: '0', realizedPnl: '-5000' }),
+    });
+
+    const [closeOrder] = mockMatchingEngineService.placeOrder.mock.calls[0];
+    expect(closeOrder).toMatchObject({
+      userId: 'liquidation-engine',
+      side: PositionSide.SHORT,
+      amount: 1,
+      timeInForce: TimeInForce.IOC,
+      reduceOnly: true,
+    });
+    expect(closeOrder.price).toBeCloseTo(45200 * 0.99);
+
+    // 以 45100 卖出，高于破产价 45000 的 100 注入保险基金
+    expect(mockPrisma.insuranceFund.update).toHaveBeenCalledWith({
+      where: { symbol: 'BTCUSDT' },
+      data: {
+        balance: { increment: new Prisma.Decimal(100) },
+        totalInjection: { increment: new Prisma.Decimal(100) },
+      },
+    });
+    expect(recordedTypes()).toEqual([
+      LiquidationEventType.ORDERS_CANCELED,
+      LiquidationEventType.TAKEOVER,
+      LiquidationEventType.CLOSE_ORDER_FILLED,
+      LiquidationEventType.INSURANCE_FUND_DEPOSIT,
+      LiquidationEventType.COMPLETED,
+    ]);
+  });
+
+  it('should record liquidation event amounts as decimal strings', async () => {
+    fills = [{ amount: 1, price: 45100 }];
+
+    await liquidate();
+
+    const events = mockPrisma.liquidationEvent.create.mock.calls.map(([{ data }]) => data);
+    expect(events.find(event => event.type === LiquidationEventType.TAKEOVER)).toMatchObject({
+      size: '1',
+      price: '45000',
+    });
+    expect(events.find(event => event.type === LiquidationEventType.CLOSE_ORDER_FILLED)).toMatchObject({
+      size: '1',
+      price: '45100',
+    });
+    expect(events.find(event => event.type === LiquidationEventType.INSURANCE_FUND_DEPOSIT)).toMatchObject({
+      insuranceFundChange: '100',
+    });
+  });
+
+  it('should move the taken-over position onto the liquidation account', async () => {
+    fills = [{ amount: 1, price: 45100 }];
+
+    await liquidate();
+
+    expect(mockPrisma.$transaction).toHaveBeenCalled();
+    expect(mockPrisma.position.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'liquidation-engine',
+        symbol: 'BTCUSDT',
+        side: PositionSide.LONG,
+        quantity: '1',
+        entryPrice: '45000',
+      }),
+    });
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith('position.updated', {
+      userId: 'user-1',
+      symbol: 'BTCUSDT',
+      side: PositionSide.LONG,
+      quantity: 0,
+    });
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith('position.closed', {
+      userId: 'user-1',
+      symbol: 'BTCUSDT',
+      side: PositionSide.LONG,
+    });
+  });
+
+  it('should keep the taken-over position on the liquidation account when closing fails', async () => {
+    mockMatchingEngineService.placeOrder.mockRejectedValueOnce(new Error('engine unavailable'));
+
+    await expect(liquidate()).rejects.toThrow('engine unavailable');
+
+    expect(mockPrisma.position.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'liquidation-engine', quantity: '1' }),
+    });
+    expect(mockPrisma.insuranceFund.update).not.toHaveBeenCalled();
+    expect(recordedTypes()).toEqual([LiquidationEventType.ORDERS_CANCELED, LiquidationEventType.TAKEOVER]);
+  });
+
+  it('should requeue a liquidation that failed', async () => {
+    mockPrisma.position.findUnique.mockRejectedValueOnce(new Error('database unavailable'));
+    mockRedis.brpop.mockResolvedValueOnce(['liquidation:queue', 'pos-1'] as any);
+
+    createService();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockRedis.lpush).toHaveBeenCalledWith('liquidation:queue', 'pos-1');
+    expect(mockRedis.del).toHaveBeenCalledWith('liquidation:lock:pos-1');
+  });
+
+  it('should pay the shortfall from the insurance fund', async () => {
+    fills = [{ amount: 0.5, price: 44900 }, { amount: 0.5, price: 44800 }];
+
+    await liquidate();
+
+    expect(mockMatchingEngineService.placeOrder).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.insuranceFund.update).toHaveBeenCalledWith({
+      where: { symbol: 'BTCUSDT' },
+      data: {
+        balance: { decrement: new Prisma.Decimal(150) },
+        totalPayouts: { increment: new Prisma.Decimal(150) },
+      },
+    });
+    expect(mockEventEmitter.emit).not.toHaveBeenCalledWith('adl.required', expect.anything());
+  });
+
+  it('should not close below the price the insurance fund can cover', async () => {
+    insuranceFundBalance = 50;
+
+    await liquidate();
+
+    // 保险基金只能覆盖每单位 50 的亏损，限价不低于 44950
+    const [closeOrder] = mockMatchingEngineService.placeOrder.mock.calls[0];
+    expect(closeOrder.price).toBeCloseTo(44950);
+    expect(adlRequest().amount.toString()).toBe('1');
+    expect(adlRequest().bankruptcyPrice.toString()).toBe('45000');
+    expect(recordedTypes()).toContain(LiquidationEventType.ADL_HANDOFF);
+  });
+
+  it('should hand the unfilled position to ADL when the book has no liquidity', async () => {
+    await liquidate();
+
+    expect(mockMatchingEngineService.placeOrder).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.insuranceFund.update).not.toHaveBeenCalled();
+    expect(adlRequest()).toMatchObject({ side: PositionSide.LONG });
+    expect(adlRequest().amount.toString()).toBe('1');
+  });
+
+  describe('staged liquidation', () => {
+    // 多仓 10 BTC，开仓价 52000，保证金 24000；标记价格 50000 时名义价值 500000 处于第二档，
+    // 权益 4000 低于维持保证金 8750。减仓到第一档上限 250000 即 5 BTC
+    const largePosition = {
+      ...position,
+      quantity: '10',
+      entryPrice: '52000',
+      margin: '24000',
+      leverage: 20,
+      liquidationPrice: '50500',
+    };
+
+    beforeEach(() => {
+      mockPosition(largePosition);
+      mockMarkPriceService.getMarkPrice.mockResolvedValue({ markPrice: 50000 });
+    });
+
+    it('should reduce the position to the lower bracket and stop once maintenance is met', async () => {
+      fills = [{ amount: 5, price: 50000 }];
+
+      await liquidate();
+
+      // 先按开仓价把减仓的 5 BTC 接管到强平账户，保证金留在用户持仓上
+      expect(mockPrisma.position.update.mock.calls[0][0]).toEqual({ where: { id: 'pos-1' }, data: { quantity: '5' } });
+      expect(mockPrisma.position.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'liquidation-engine', quantity: '5', entryPrice: '52000' }),
+      });
+
+      const [closeOrder] = mockMatchingEngineService.placeOrder.mock.calls[0];
+      expect(closeOrder.userId).toBe('liquidation-engine');
+      expect(closeOrder.amount).toBeCloseTo(5);
+      // 部分强平的限价不低于破产价 49600
+      expect(closeOrder.price).toBeCloseTo(49600);
+
+      // 剩余 5 BTC 在第一档：权益 4000 高于维持保证金 2500
+      const [{ data }] = mockPrisma.position.update.mock.calls[1];
+      expect(data).toMatchObject({ quantity: '5', margin: '14000', realizedPnl: '-10000' });
+      // 强平价格按开仓名义价值 260000 所在的第二档计算
+      expect(Number(data.liquidationPrice)).toBeCloseTo((260000 - 14000 - 3750) / (5 * 0.975));
+      expect(mockPrisma.position.update).toHaveBeenCalledTimes(2);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'position.updated',
+        expect.objectContaining({ userId: 'user-1', quantity: 5 }),
+      );
+      expect(mockPrisma.liquidationOrder.create).not.toHaveBeenCalled();
+      expect(recordedTypes()).toEqual([
+        LiquidationEventType.ORDERS_CANCELED,
+        LiquidationEventType.TAKEOVER,
+        LiquidationEventType.CLOSE_ORDER_FILLED,
+        LiquidationEventType.PARTIAL_LIQUIDATION,
+        LiquidationEventType.COMPLETED,
+      ]);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'position.partially.liquidated',
+        expect.objectContaining({ closedAmount: 5, markPrice: 50000 }),
+      );
+    });
+
+    it('should return the unfilled part of the partial takeover to the user', async () => {
+      fills = [{ amount: 2, price: 50000 }];
+      mockPrisma.position.findUnique.mockImplementation(async ({ where }) =>
+        where.id ? { ...largePosition } : { ...largePosition, userId: 'liquidation-engine', quantity: '5' },
+      );
+
+      await liquidate();
+
+      // 强平账户只保留已成交的 2 BTC，未成交的 3 BTC 退回用户
+      expect(mockPrisma.position.update).toHaveBeenCalledWith({
+        where: { userId_symbol_side: { userId: 'liquidation-engine', symbol: 'BTCUSDT', side: PositionSide.LONG } },
+        data: { quantity: '2' },
+      });
+      expect(mockPrisma.position.update).toHaveBeenCalledWith({
+        where: { id: 'pos-1' },
+        data: expect.objectContaining({ quantity: '8', margin: '20000', realizedPnl: '-4000' }),
+      });
+    });
+
+    it('should fully liquidate the remainder when the ratio is still breached', async () => {
+      fills = [{ amount: 5, price: 49600 }];
+
+      await liquidate();
+
+      // 以破产价成交后剩余权益 2000 低于第一档维持保证金 2500，接管剩余 5 BTC
+      expect(mockPrisma.position.update).toHaveBeenCalledWith({
+        where: { id: 'pos-1' },
+        data: expect.objectContaining({ quantity: '0', margin: '0', realizedPnl: '-24000' }),
+      });
+      expect(adlRequest().amount.toString()).toBe('5');
+      expect(adlRequest().bankruptcyPrice.toString()).toBe('49600');
+
+      const stages = mockPrisma.liquidationEvent.create.mock.calls.map(([{ data }]) => [data.type, data.stage]);
+      expect(stages).toEqual([
+        [LiquidationEventType.ORDERS_CANCELED, 1],
+        [LiquidationEventType.TAKEOVER, 1],
+        [LiquidationEventType.CLOSE_ORDER_FILLED, 1],
+        [LiquidationEventType.PARTIAL_LIQUIDATION, 1],
+        [LiquidationEventType.TAKEOVER, 2],
+        [LiquidationEventType.ADL_HANDOFF, 2],
+        [LiquidationEventType.COMPLETED, 2],
+      ]);
+    });
+  });
+  describe('cross margin liquidation', () => {
+    // 全仓多仓 1 BTC，开仓价 50000；钱包余额 3000，标记价格 45200 时权益 -1800 低于维持保证金 452
+    const crossPosition = { ...position, id: 'cross-1', margin: '0', liquidationPrice: '0', marginType: MarginType.CROSS };
+
+    beforeEach(() => {
+      mockPosition(crossPosition);
+      mockCrossMarginService.getCrossMarginAccount.mockImplementation(async (userId: string) =>
+        buildCrossMarginAccount(userId, FixedDecimal.from(3000), [
+          toCrossMarginPosition(parsePosition(crossPosition), FixedDecimal.from(45200), notional =>
+            getBracket('BTCUSDT', notional),
+          ),
+        ]),
+      );
+    });
+
+    const liquidateAccount = () => (service as any).processCrossMarginLiquidation('user-1');
+
+    it('should take over at the mark price and close through the order book', async () => {
+      fills = [{ amount: 1, price: 45100 }];
+
+      await liquidateAccount();
+
+      expect(mockPerpetualService.cancelSymbolOrders).toHaveBeenCalledWith('user-1', 'BTCUSDT');
+      expect(mockMatchingEngineService.cancelOrder).toHaveBeenCalledWith('open-order-1', 'BTCUSDT');
+
+      // 按标记价格平仓亏损 4800，加上强平手续费 226 计入钱包余额
+      expect(mockPrisma.userBalance.update).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: { balance: { increment: new Prisma.Decimal(-5026) } },
+      });
+      expect(mockPrisma.position.update).toHaveBeenCalledWith({
+        where: { id: 'cross-1' },
+        data: expect.objectContaining({ quantity: '0', realizedPnl: '-5026' }),
+      });
+      expect(mockPrisma.position.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'liquidation-engine', quantity: '1', entryPrice: '45200' }),
+      });
+
+      const [closeOrder] = mockMatchingEngineService.placeOrder.mock.calls[0];
+      expect(closeOrder).toMatchObject({ userId: 'liquidation-engine', timeInForce: TimeInForce.IOC, reduceOnly: true });
+
+      // 以 45100 卖出，低于接管价 45200 的 100 由保险基金赔付
+      expect(mockPrisma.insuranceFund.update).toHaveBeenCalledWith({
+        where: { symbol: 'BTCUSDT' },
+        data: {
+          balance: { decrement: new Prisma.Decimal(100) },
+          totalPayouts: { increment: new Prisma.Decimal(100) },
+        },
+      });
+      expect(mockPrisma.liquidationOrder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ positionId: 'cross-1', liquidationFee: new Prisma.Decimal(226) }),
+      });
+      expect(recordedTypes()).toEqual([
+        LiquidationEventType.ORDERS_CANCELED,
+        LiquidationEventType.TAKEOVER,
+        LiquidationEventType.CLOSE_ORDER_FILLED,
+        LiquidationEventType.INSURANCE_FUND_PAYOUT,
+        LiquidationEventType.COMPLETED,
+      ]);
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'account.liquidated',
+        expect.objectContaining({ userId: 'user-1', remainingPositions: 0 }),
+      );
+    });
+
+    it('should hand the unfilled cross position to ADL at the takeover price', async () => {
+      await liquidateAccount();
+
+      expect(adlRequest()).toMatchObject({ positionId: 'cross-1', side: PositionSide.LONG });
+      expect(adlRequest().amount.toString()).toBe('1');
+      expect(adlRequest().bankruptcyPrice.toString()).toBe('45200');
+    });
+  });
+});
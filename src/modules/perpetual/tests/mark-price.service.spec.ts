@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { getRedisConnectionToken } from '@nestjs-modules/ioredis';
+import { MarkPriceService } from '../services/mark-price.service';
+import { IndexPriceService } from '../services/index-price.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('MarkPriceService', () => {
+  let service: MarkPriceService;
+  let now: number;
+
+  const mockRedis = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+
+  const mockIndexPriceService = {
+    getIndexPrice: jest.fn(),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  const config = {
+    MARK_PRICE_UPDATE_INTERVAL_MS: 1000,
+    MARK_PRICE_BASIS_WINDOW_MS: 3000,
+  };
+
+  const tick = (indexPrice: number, lastPrice: number | null) => {
+    now += 1000;
+    mockIndexPriceService.getIndexPrice.mockResolvedValue({ symbol: 'BTCUSDT', price: indexPrice });
+    mockRedis.get.mockResolvedValue(lastPrice === null ? null : String(lastPrice));
+    return service.updateMarkPrice('BTCUSDT');
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarkPriceService,
+        { provide: PrismaService, useValue: {} },
+        { provide: getRedisConnectionToken(), useValue: mockRedis },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) },
+        },
+        { provide: IndexPriceService, useValue: mockIndexPriceService },
+      ],
+    }).compile();
+
+    service = module.get<MarkPriceService>(MarkPriceService);
+
+    jest.clearAllMocks();
+    now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should equal the index price without trades', async () => {
+    const markPrice = await tick(50000, null);
+
+    expect(markPrice.markPrice).toBe(50000);
+    expect(markPrice.basisAverage).toBe(0);
+  });
+
+  it('should smooth a single wick with the basis moving average', async () => {
+    await tick(50000, 50010);
+    await tick(50000, 50010);
+    const markPrice = await tick(50000, 47000);
+
+    // 基差 10、10、-3000 的平均值
+    expect(markPrice.markPrice).toBeCloseTo(50000 + (10 + 10 - 3000) / 3);
+    expect(markPrice.lastPrice).toBe(47000);
+  });
+
+  it('should drop basis samples older than the window', async () => {
+    await tick(50000, 47000);
+    await tick(50000, 50010);
+    await tick(50000, 50010);
+    const markPrice = await tick(50000, 50010);
+
+    expect(markPrice.basisAverage).toBe(10);
+  });
+
+  it('should publish the mark price for risk checks', async () => {
+    await tick(50000, 50020);
+
+    expect(mockRedis.set).toHaveBeenCalledWith('markPrice:BTCUSDT', expect.any(String));
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith('price.updated', {
+      symbol: 'BTCUSDT',
+      price: 50020,
+    });
+  });
+
+  it('should reuse a recent mark price', async () => {
+    await tick(50000, 50020);
+    mockIndexPriceService.getIndexPrice.mockClear();
+
+    const markPrice = await service.getMarkPrice('BTCUSDT');
+
+    expect(markPrice.markPrice).toBe(50020);
+    expect(mockIndexPriceService.getIndexPrice).not.toHaveBeenCalled();
+  });
+});
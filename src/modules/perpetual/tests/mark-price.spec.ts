@@ -0,0 +1,42 @@
+import { BasisSample, calculateBasisAverage, updateBasisSamples } from '../pricing/mark-price';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('mark price basis', () => {
+  const window = 3000;
+  const sample = (basis: number | string, timestamp: number): BasisSample => ({
+    basis: FixedDecimal.from(basis),
+    timestamp,
+  });
+
+  it('should add a sample for the basis of the last trade', () => {
+    const samples = updateBasisSamples([], 50000, 50010, 1000, window);
+
+    expect(samples).toEqual([sample(10, 1000)]);
+  });
+
+  it('should drop samples that left the window', () => {
+    const samples = [sample(10, 1000), sample(20, 2000)];
+
+    expect(updateBasisSamples(samples, 50000, 49970, 4000, window)).toEqual([
+      sample(20, 2000),
+      sample(-30, 4000),
+    ]);
+    // 原样本数组不被修改
+    expect(samples).toHaveLength(2);
+  });
+
+  it('should ignore missing or invalid last prices', () => {
+    const samples = [sample(10, 1000)];
+
+    expect(updateBasisSamples(samples, 50000, null, 2000, window)).toEqual(samples);
+    expect(updateBasisSamples(samples, 50000, 0, 2000, window)).toEqual(samples);
+    expect(updateBasisSamples(samples, 50000, NaN, 2000, window)).toEqual(samples);
+  });
+
+  it('should average the basis and fall back to zero without samples', () => {
+    expect(calculateBasisAverage([]).isZero()).toBe(true);
+    expect(
+      calculateBasisAverage([sample(10, 1000), sample(10, 2000), sample(-3000, 3000)]).toString(),
+    ).toBe('-993.333333333333333333');
+  });
+});
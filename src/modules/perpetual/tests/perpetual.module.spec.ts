@@ -0,0 +1,67 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRedisConnectionToken } from '@nestjs-modules/ioredis';
+import { PerpetualModule } from '../perpetual.module';
+import { RedisCacheModule } from '../../redis/redis.module';
+import { RedisClientService } from '../../redis/redis.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LiquidationService } from '../services/liquidation.service';
+import { FundingService } from '../services/funding.service';
+import { MatchingEngineService } from '../matching-engine/matching-engine.service';
+
+// 不连接 Redis：阻塞的队列读取永不返回
+const mockRedis: any = {
+  duplicate: jest.fn(() => mockRedis),
+  brpop: jest.fn(() => new Promise(() => undefined)),
+};
+
+@Global()
+@Module({
+  providers: [
+    { provide: getRedisConnectionToken(), useValue: mockRedis },
+    { provide: RedisClientService, useValue: {} },
+  ],
+  exports: [getRedisConnectionToken(), RedisClientService],
+})
+class MockRedisModule {}
+
+describe('PerpetualModule', () => {
+  let moduleRef: TestingModule;
+
+  beforeAll(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              INDEX_PRICE_SOURCES: 'test:1:data/index-prices/test.json',
+              perpetual: {
+                configs: [{ symbol: 'BTCUSDT', maxLeverage: 125, maintMarginRatio: 0.004 }],
+                symbols: ['BTCUSDT'],
+              },
+            }),
+          ],
+        }),
+        EventEmitterModule.forRoot(),
+        PerpetualModule,
+      ],
+    })
+      .overrideModule(RedisCacheModule)
+      .useModule(MockRedisModule)
+      .overrideProvider(PrismaService)
+      .useValue({})
+      .compile();
+  });
+
+  it.each([
+    ['LiquidationService', LiquidationService],
+    ['MatchingEngineService', MatchingEngineService],
+    ['FundingService', FundingService],
+  ])('should provide %s', (_, provider) => {
+    expect(moduleRef.get(provider)).toBeInstanceOf(provider);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  calculateAverageEntryPrice,
+  calculateInitialMargin,
+  calculatePositionPnl,
+  closePositionQuantity,
+} from '../margin/position-math';
+import { PositionSide } from '../types/perpetual.types';
+
+describe('position math', () => {
+  it('should compute PnL in opposite directions for long and short positions', () => {
+    expect(calculatePositionPnl(PositionSide.LONG, '50000', '51000', '0.5').toString()).toBe('500');
+    expect(calculatePositionPnl(PositionSide.SHORT, '50000', '51000', '0.5').toString()).toBe('-500');
+  });
+
+  it('should weight the entry price by quantity', () => {
+    expect(calculateAverageEntryPrice('1', '50000', '3', '46000').toString()).toBe('47000');
+  });
+
+  it('should keep fractional entry prices exact', () => {
+    expect(calculateAverageEntryPrice('0.1', '0.2', '0.2', '0.1').toString()).toBe(
+      '0.133333333333333333',
+    );
+  });
+
+  it('should round the initial margin up', () => {
+    expect(calculateInitialMargin('0.3', '50000', 20).toString()).toBe('750');
+    expect(calculateInitialMargin('1', '100', 3).toString()).toBe('33.333333333333333334');
+  });
+
+  it('should not close more than the position', () => {
+    const { closed, remaining, realizedPnl } = closePositionQuantity(
+      PositionSide.SHORT,
+      '0.3',
+      '100',
+      '0.5',
+      '90.1',
+    );
+
+    expect(closed.toString()).toBe('0.3');
+    expect(remaining.isZero()).toBe(true);
+    expect(realizedPnl.toString()).toBe('2.97');
+  });
+});
@@ -0,0 +1,180 @@
+import { PositionService } from '../services/position.service';
+import { OrderSide } from '../dto/perpetual.dto';
+import { MarginType, PerpetualOrder, PositionMode, PositionSide } from '../types/perpetual.types';
+
+describe('PositionService', () => {
+  let service: PositionService;
+  let positionMode: PositionMode;
+  let positions: Map<string, any>;
+
+  const key = (where: any) => {
+    const { userId, symbol, side } = where.userId_symbol_side;
+    return `${userId}:${symbol}:${side}`;
+  };
+
+  const mockPrisma: any = {
+    user: {
+      findUnique: jest.fn(async () => ({ positionMode })),
+      update: jest.fn(async ({ data }) => ({ positionMode: data.positionMode })),
+    },
+    position: {
+      findUnique: jest.fn(async ({ where }) => positions.get(key(where)) ?? null),
+      findMany: jest.fn(async () => [...positions.values()]),
+      create: jest.fn(async ({ data }) => {
+        positions.set(`${data.userId}:${data.symbol}:${data.side}`, { ...data });
+      }),
+      update: jest.fn(async ({ where, data }) => {
+        positions.set(key(where), { ...positions.get(key(where)), ...data });
+      }),
+    },
+    order: { count: jest.fn(async () => 0) },
+    $transaction: jest.fn(async (fn) => fn(mockPrisma)),
+  };
+
+  const mockEventEmitter = { on: jest.fn(), emit: jest.fn() };
+  // 名义价值 250000 以内维持保证金率 1%
+  const mockRiskBracketService = {
+    getBracket: jest.fn(() => ({ maintMarginRate: 0.01, maintAmount: 0 })),
+  };
+
+  const positionRow = (quantity: string, entryPrice: string, margin = '5000') => ({
+    quantity,
+    entryPrice,
+    margin,
+    leverage: 10,
+    unrealizedPnl: '0',
+    realizedPnl: '0',
+    liquidationPrice: '0',
+    marginType: MarginType.ISOLATED,
+  });
+
+  const order = (side: PositionSide, positionSide?: PositionSide, reduceOnly = false) =>
+    ({
+      userId: 'user-1',
+      symbol: 'BTCUSDT',
+      side,
+      positionSide,
+      reduceOnly,
+      leverage: 10,
+      marginType: MarginType.ISOLATED,
+    }) as PerpetualOrder;
+
+  const position = (side: PositionSide) => positions.get(`user-1:BTCUSDT:${side}`);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    positionMode = PositionMode.HEDGE;
+    positions = new Map();
+    service = new PositionService(mockPrisma, mockEventEmitter as any, mockRiskBracketService as any);
+  });
+
+  it('should open and close long and short positions independently in hedge mode', async () => {
+    await service.applyFill(order(PositionSide.LONG, PositionSide.LONG), 2, 50000);
+    await service.applyFill(order(PositionSide.SHORT, PositionSide.SHORT), 1, 50000);
+    await service.applyFill(order(PositionSide.SHORT, PositionSide.LONG), 1, 51000);
+
+    expect(position(PositionSide.LONG)).toMatchObject({ quantity: '1', entryPrice: '50000', realizedPnl: '1000' });
+    expect(position(PositionSide.SHORT)).toMatchObject({ quantity: '1', entryPrice: '50000' });
+  });
+
+  it('should lock initial margin and set the liquidation price on open and increase', async () => {
+    await service.applyFill(order(PositionSide.LONG, PositionSide.LONG), 2, 50000);
+
+    // 名义价值 100000，10 倍杠杆保证金 10000
+    expect(position(PositionSide.LONG)).toMatchObject({ margin: '10000', marginType: MarginType.ISOLATED });
+    expect(Number(position(PositionSide.LONG).liquidationPrice)).toBeCloseTo((100000 - 10000) / (2 * 0.99));
+
+    await service.applyFill(order(PositionSide.LONG, PositionSide.LONG), 1, 53000);
+
+    // 加仓 1 BTC 追加保证金 5300，开仓均价 51000
+    expect(position(PositionSide.LONG)).toMatchObject({ quantity: '3', entryPrice: '51000', margin: '15300' });
+    expect(Number(position(PositionSide.LONG).liquidationPrice)).toBeCloseTo((153000 - 15300) / (3 * 0.99));
+  });
+
+  it('should release margin in proportion when closing', async () => {
+    await service.applyFill(order(PositionSide.LONG, PositionSide.LONG), 2, 50000);
+    await service.applyFill(order(PositionSide.SHORT, PositionSide.LONG), 0.5, 51000);
+
+    expect(position(PositionSide.LONG)).toMatchObject({ quantity: '1.5', margin: '7500', realizedPnl: '500' });
+    expect(Number(position(PositionSide.LONG).liquidationPrice)).toBeCloseTo((75000 - 7500) / (1.5 * 0.99));
+
+    await service.applyFill(order(PositionSide.SHORT, PositionSide.LONG), 1.5, 51000);
+
+    expect(position(PositionSide.LONG)).toMatchObject({ quantity: '0', margin: '0', liquidationPrice: '0' });
+  });
+
+  it('should not set a liquidation price on cross positions', async () => {
+    await service.applyFill({ ...order(PositionSide.LONG, PositionSide.LONG), marginType: MarginType.CROSS }, 2, 50000);
+
+    expect(position(PositionSide.LONG)).toMatchObject({
+      margin: '10000',
+      liquidationPrice: '0',
+      marginType: MarginType.CROSS,
+    });
+  });
+
+  it('should require positionSide and reject oversized closes in hedge mode', async () => {
+    positions.set('user-1:BTCUSDT:SHORT', positionRow('1', '50000'));
+    const base = { symbol: 'BTCUSDT', quantity: 2 };
+
+    await expect(service.validateOrder('user-1', { ...base, side: OrderSide.BUY })).rejects.toThrow(
+      'positionSide is required in hedge mode',
+    );
+    await expect(
+      service.validateOrder('user-1', { ...base, side: OrderSide.BUY, positionSide: PositionSide.SHORT }),
+    ).rejects.toThrow('exceeds the SHORT position');
+    await expect(
+      service.validateOrder('user-1', {
+        ...base,
+        side: OrderSide.BUY,
+        positionSide: PositionSide.LONG,
+        reduceOnly: true,
+      }),
+    ).rejects.toThrow('Reduce-only order would increase the LONG position');
+    await expect(
+      service.validateOrder('user-1', { ...base, side: OrderSide.BUY, positionSide: PositionSide.LONG }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should net fills and flip the position in one-way mode', async () => {
+    positionMode = PositionMode.ONE_WAY;
+    await service.applyFill(order(PositionSide.LONG), 1, 50000);
+    await service.applyFill(order(PositionSide.SHORT), 3, 49000);
+
+    expect(position(PositionSide.LONG)).toMatchObject({ quantity: '0', realizedPnl: '-1000' });
+    expect(position(PositionSide.SHORT)).toMatchObject({ quantity: '2', entryPrice: '49000' });
+  });
+
+  it('should only reduce the position with reduce-only orders in one-way mode', async () => {
+    positionMode = PositionMode.ONE_WAY;
+    positions.set('user-1:BTCUSDT:LONG', positionRow('1', '50000'));
+
+    await expect(
+      service.validateOrder('user-1', { symbol: 'BTCUSDT', side: OrderSide.BUY, quantity: 1, reduceOnly: true }),
+    ).rejects.toThrow('Reduce-only order has no position to reduce');
+    await expect(
+      service.validateOrder('user-1', {
+        symbol: 'BTCUSDT',
+        side: OrderSide.SELL,
+        quantity: 1,
+        positionSide: PositionSide.LONG,
+      }),
+    ).rejects.toThrow('positionSide is only allowed in hedge mode');
+
+    await service.applyFill(order(PositionSide.SHORT, undefined, true), 3, 50000);
+
+    expect(position(PositionSide.LONG)).toMatchObject({ quantity: '0' });
+    expect(position(PositionSide.SHORT)).toBeUndefined();
+  });
+
+  it('should reject switching position mode with open positions', async () => {
+    positions.set('user-1:BTCUSDT:LONG', { quantity: '0.5' });
+
+    await expect(service.setPositionMode('user-1', PositionMode.ONE_WAY)).rejects.toThrow(
+      'Position mode cannot be changed while positions are open',
+    );
+
+    positions.clear();
+    await expect(service.setPositionMode('user-1', PositionMode.ONE_WAY)).resolves.toBe(PositionMode.ONE_WAY);
+  });
+});
@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { RiskBracketService } from '../services/risk-bracket.service';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+describe('RiskBracketService', () => {
+  let service: RiskBracketService;
+  let perpetualConfigs: any[];
+
+  beforeEach(() => {
+    perpetualConfigs = [
+      {
+        symbol: 'BTCUSDT',
+        maxLeverage: 125,
+        maintMarginRatio: 0.004,
+        riskBrackets: [
+          { notionalCap: 50000, maxLeverage: 125, maintMarginRate: 0.004 },
+          { notionalCap: 250000, maxLeverage: 100, maintMarginRate: 0.005 },
+          { notionalCap: 1000000, maxLeverage: 50, maintMarginRate: 0.01 },
+          { notionalCap: null, maxLeverage: 20, maintMarginRate: 0.025 },
+        ],
+      },
+      { symbol: 'ETHUSDT', maxLeverage: 75, maintMarginRatio: 0.005 },
+    ];
+    const configService = {
+      get: jest.fn((key: string) => (key === 'perpetual.configs' ? perpetualConfigs : undefined)),
+    };
+    service = new RiskBracketService(configService as unknown as ConfigService);
+  });
+
+  it('should derive notional floors and maintenance amounts from the previous bracket', () => {
+    const brackets = service.getRiskBrackets('BTCUSDT');
+
+    expect(brackets.map(bracket => [bracket.bracket, bracket.notionalFloor, bracket.notionalCap])).toEqual([
+      [1, 0, 50000],
+      [2, 50000, 250000],
+      [3, 250000, 1000000],
+      [4, 1000000, Infinity],
+    ]);
+    [0, 50, 1300, 16300].forEach((maintAmount, i) => expect(brackets[i].maintAmount).toBeCloseTo(maintAmount));
+  });
+
+  it('should keep the maintenance margin continuous at bracket boundaries', () => {
+    expect(service.getMaintenanceMargin('BTCUSDT', 250000)).toBeCloseTo(1200);
+    expect(service.getMaintenanceMargin('BTCUSDT', 250000.01)).toBeCloseTo(1200);
+    expect(service.getMaintenanceMargin('BTCUSDT', 2000000)).toBeCloseTo(2000000 * 0.025 - 16300);
+  });
+
+  it('should pick the bracket by absolute notional', () => {
+    expect(service.getBracket('BTCUSDT', 50000).bracket).toBe(1);
+    expect(service.getBracket('BTCUSDT', -60000).bracket).toBe(2);
+    expect(service.getMaxLeverage('BTCUSDT', 5000000)).toBe(20);
+  });
+
+  it('should compare fixed-point notionals against bracket caps exactly', () => {
+    expect(service.getBracket('BTCUSDT', FixedDecimal.from('50000')).bracket).toBe(1);
+    expect(service.getBracket('BTCUSDT', FixedDecimal.from('50000.000000000000000001')).bracket).toBe(2);
+    expect(service.getBracket('BTCUSDT', FixedDecimal.from('-1000000000')).bracket).toBe(4);
+  });
+
+  it('should reject leverage above the bracket maximum', () => {
+    expect(() => service.validateLeverage('BTCUSDT', 300000, 50)).not.toThrow();
+    expect(() => service.validateLeverage('BTCUSDT', 300000, 75)).toThrow('exceeds the maximum 50x');
+    expect(() => service.validateLeverage('BTCUSDT', 0, 0)).toThrow('Invalid leverage');
+  });
+
+  it('should fall back to a single bracket from the contract config', () => {
+    expect(service.getRiskBrackets('ETHUSDT')).toEqual([
+      {
+        bracket: 1,
+        notionalFloor: 0,
+        notionalCap: Infinity,
+        maxLeverage: 75,
+        maintMarginRate: 0.005,
+        maintAmount: 0,
+      },
+    ]);
+    expect(() => service.getRiskBrackets('DOGEUSDT')).toThrow('Config not found for symbol: DOGEUSDT');
+  });
+});
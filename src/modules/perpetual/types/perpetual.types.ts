@@ -1,3 +1,6 @@
+import { TimeInForce } from '../dto/perpetual.dto';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
 export enum PerpetualOrderType {
   MARKET = 'MARKET',
   LIMIT = 'LIMIT',
@@ -5,6 +8,7 @@ export enum PerpetualOrderType {
   TAKE_PROFIT = 'TAKE_PROFIT',
   STOP_MARKET = 'STOP_MARKET',
   TAKE_PROFIT_MARKET = 'TAKE_PROFIT_MARKET',
+  TRAILING_STOP_MARKET = 'TRAILING_STOP_MARKET',
 }
 
 export enum PositionSide {
@@ -12,6 +16,12 @@ export enum PositionSide {
   SHORT = 'SHORT',
 }
 
+// 单向持仓：每个交易对只有一个净持仓；双向持仓：多仓和空仓分别开平
+export enum PositionMode {
+  ONE_WAY = 'ONE_WAY',
+  HEDGE = 'HEDGE',
+}
+
 export enum MarginType {
   ISOLATED = 'ISOLATED',
   CROSS = 'CROSS',
@@ -21,13 +31,24 @@ export interface PerpetualOrder {
   id: string;
   userId: string;
   symbol: string;
+  // 买卖方向：LONG 为买入，SHORT 为卖出
   side: PositionSide;
+  // 双向持仓模式下订单开平的持仓方向，单向持仓模式下为空
+  positionSide?: PositionSide;
   type: PerpetualOrderType;
   price: number;
   amount: number;
   leverage: number;
   marginType: MarginType;
+  // 未设置时按 GTC 处理；IOC 单未成交部分不挂单直接失效
+  timeInForce?: TimeInForce;
   stopPrice?: number;
+  // 跟踪止损回调比例（百分比），标记价格从激活后的最高/最低价回撤该比例时触发
+  callbackRate?: number;
+  // 跟踪止损激活价格，未设置时下单即激活
+  activationPrice?: number;
+  // 跟踪止损激活后的标记价格极值：卖单为最高价，买单为最低价；未激活时为空
+  trailingPrice?: number;
   takeProfit?: number;
   stopLoss?: number;
   reduceOnly: boolean;
@@ -59,6 +80,51 @@ export interface Position {
   lastUpdateTime: Date;
 }
 
+/**
+ * 数据库中的持仓记录，数量、价格、保证金和盈亏以十进制字符串存储，读取后按定点数解析。
+ */
+export interface PositionState {
+  id: string;
+  userId: string;
+  symbol: string;
+  side: PositionSide;
+  marginType: MarginType;
+  leverage: number;
+  quantity: FixedDecimal;
+  entryPrice: FixedDecimal;
+  margin: FixedDecimal;
+  unrealizedPnl: FixedDecimal;
+  realizedPnl: FixedDecimal;
+  liquidationPrice: FixedDecimal;
+}
+
+export interface CrossMarginPosition {
+  positionId: string;
+  symbol: string;
+  side: PositionSide;
+  quantity: FixedDecimal;
+  entryPrice: FixedDecimal;
+  markPrice: FixedDecimal;
+  notional: FixedDecimal;
+  unrealizedPnl: FixedDecimal;
+  maintMargin: FixedDecimal;
+}
+
+/**
+ * 全仓账户：钱包余额与所有全仓持仓的未实现盈亏共同承担全部全仓持仓的维持保证金。
+ */
+export interface CrossMarginAccount {
+  userId: string;
+  walletBalance: FixedDecimal;
+  unrealizedPnl: FixedDecimal;
+  // 保证金余额 = 钱包余额 + 未实现盈亏
+  marginBalance: FixedDecimal;
+  maintMargin: FixedDecimal;
+  // 保证金余额 / 维持保证金，低于 1 时触发强平；没有维持保证金时为 Infinity
+  marginRatio: number;
+  positions: CrossMarginPosition[];
+}
+
 export interface FundingRate {
   symbol: string;
   rate: number;
@@ -80,12 +146,47 @@ export interface LiquidationOrder {
   userId: string;
   symbol: string;
   side: PositionSide;
+  positionSide: PositionSide;
   amount: number;
   price: number;
   liquidationFee: number;
   timestamp: Date;
 }
 
+// 强平后订单簿未能成交的剩余持仓，由自动减仓按破产价格与对手方持仓成交
+export interface ADLRequest {
+  liquidationId: string;
+  positionId: string;
+  symbol: string;
+  // 被强平持仓的方向，减仓对象为反方向持仓
+  side: PositionSide;
+  amount: FixedDecimal;
+  bankruptcyPrice: FixedDecimal;
+}
+
+/**
+ * 分阶段强平的计划：高风险档位的持仓本阶段先减仓到 targetSize，targetSize 为零时直接全部强平。
+ */
+export interface LiquidationStagePlan {
+  positionId: string;
+  // 阶段序号，从 1 开始
+  stage: number;
+  // 持仓名义价值所在的风险档位
+  bracket: number;
+  size: FixedDecimal;
+  targetSize: FixedDecimal;
+  bankruptcyPrice: FixedDecimal;
+  // 权益 / 维持保证金
+  marginRatio: number;
+}
+
+export interface ADLQuantile {
+  symbol: string;
+  side: PositionSide;
+  // 1-5 档，档位越高越先被自动减仓
+  quantile: number;
+}
+
 export interface PerpetualConfig {
   symbol: string;
   baseAsset: string;
@@ -99,25 +200,50 @@ export interface PerpetualConfig {
   minPrice: number;
   maxQuantity: number;
   minQuantity: number;
+  // 按名义价值从小到大排列的风险限额档位，未配置时用 maxLeverage 和 maintMarginRatio 作为单一档位
+  riskBrackets?: RiskBracketConfig[];
+  // 资金费率结算周期（毫秒）
   fundingInterval: number;
+  // 单期资金费率上下限，未配置时为 ±0.75%
+  maxFundingRate?: number;
+  minFundingRate?: number;
+  // 每个结算周期的利率，未配置时按 FUNDING_INTEREST_RATE 折算
+  interestRate?: number;
   insuranceFundFactor: number;
 }
 
-export interface MarginLevel {
-  leverage: number;
-  maintMarginRatio: number;
-  initialMarginRatio: number;
+/**
+ * 风险限额档位：按仓位名义价值分档，档位越高允许的杠杆越低、维持保证金率越高。
+ * 维持保证金 = 名义价值 * maintMarginRate - maintAmount，maintAmount 保证相邻档位在边界处连续。
+ */
+export interface RiskBracket {
+  bracket: number;
+  notionalFloor: number;
+  notionalCap: number;
+  maxLeverage: number;
+  maintMarginRate: number;
+  maintAmount: number;
 }
 
+// 配置中的档位只需给出上限、最大杠杆和维持保证金率，下限和速算扣除额由前一档推算
+export type RiskBracketConfig = Pick<RiskBracket, 'notionalCap' | 'maxLeverage' | 'maintMarginRate'>;
+
 export interface FundingInfo {
   symbol: string;
   markPrice: number;
   indexPrice: number;
   lastFundingRate: number;
+  predictedFundingRate: number;
   nextFundingTime: number;
+  fundingInterval: number;
   interestRate: number;
 }
 
+export interface PremiumIndexSample {
+  premium: number;
+  timestamp: number;
+}
+
 export enum OrderStatus {
   NEW = 'NEW',
   PARTIALLY_FILLED = 'PARTIALLY_FILLED',
@@ -0,0 +1,49 @@
+export const PRICE_SOURCES = 'PRICE_SOURCES';
+
+export interface PriceQuote {
+  price: number;
+  // 报价产生时间（毫秒）
+  timestamp: number;
+}
+
+/**
+ * 指数价格的现货价格来源，例如某个交易所的现货最新价。
+ */
+export interface PriceSource {
+  readonly name: string;
+  readonly weight: number;
+  // 没有该交易对报价时返回 null
+  getPrice(symbol: string): Promise<PriceQuote | null>;
+}
+
+export enum PriceSourceExclusion {
+  UNAVAILABLE = 'UNAVAILABLE',
+  INVALID = 'INVALID',
+  STALE = 'STALE',
+  OUTLIER = 'OUTLIER',
+}
+
+export interface IndexPriceComponent {
+  source: string;
+  weight: number;
+  price: number | null;
+  timestamp: number | null;
+  excluded?: PriceSourceExclusion;
+}
+
+export interface IndexPrice {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  components: IndexPriceComponent[];
+}
+
+export interface MarkPrice {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  // 基差移动平均值，标记价格 = 指数价格 + 基差移动平均
+  basisAverage: number;
+  lastPrice: number | null;
+  timestamp: number;
+}
@@ -1,5 +1,5 @@
 import { Injectable } from '@nestjs/common';
-import { Counter, Gauge, Registry } from 'prom-client';
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
 
 @Injectable()
 export class PrometheusService {
@@ -9,6 +9,15 @@ export class PrometheusService {
   private readonly depositCounter: Counter;
   private readonly withdrawCounter: Counter;
   private readonly positionGauge: Gauge;
+  private readonly fundingRateGauge: Gauge;
+  private readonly liquidationCounter: Counter;
+  private readonly adlCounter: Counter;
+  private readonly positionRiskGauge: Gauge;
+  private readonly canceledOrderCounter: Counter;
+  private readonly filledOrderCounter: Counter;
+  private readonly tradeVolumeCounter: Counter;
+  private readonly errorCounter: Counter;
+  private readonly latencyHistogram: Histogram;
 
   constructor() {
     this.registry = new Registry();
@@ -47,6 +56,70 @@ export class PrometheusService {
       labelNames: ['side', 'symbol'],
       registers: [this.registry],
     });
+
+    this.fundingRateGauge = new Gauge({
+      name: 'deiex_funding_rate',
+      help: 'Current funding rate of perpetual contracts',
+      labelNames: ['symbol'],
+      registers: [this.registry],
+    });
+
+    this.liquidationCounter = new Counter({
+      name: 'deiex_liquidations_total',
+      help: 'Total number of triggered liquidations',
+      labelNames: ['symbol'],
+      registers: [this.registry],
+    });
+
+    this.adlCounter = new Counter({
+      name: 'deiex_adl_total',
+      help: 'Total number of triggered auto-deleverages',
+      labelNames: ['symbol'],
+      registers: [this.registry],
+    });
+
+    this.positionRiskGauge = new Gauge({
+      name: 'deiex_position_risk_level',
+      help: 'Distance between mark price and liquidation price in percent',
+      labelNames: ['symbol', 'userId'],
+      registers: [this.registry],
+    });
+
+    this.canceledOrderCounter = new Counter({
+      name: 'deiex_orders_canceled_total',
+      help: 'Total number of canceled orders',
+      labelNames: ['symbol'],
+      registers: [this.registry],
+    });
+
+    this.filledOrderCounter = new Counter({
+      name: 'deiex_orders_filled_total',
+      help: 'Total number of fully filled orders',
+      labelNames: ['symbol'],
+      registers: [this.registry],
+    });
+
+    this.tradeVolumeCounter = new Counter({
+      name: 'deiex_trade_volume_total',
+      help: 'Total traded quote volume',
+      labelNames: ['symbol'],
+      registers: [this.registry],
+    });
+
+    this.errorCounter = new Counter({
+      name: 'deiex_errors_total',
+      help: 'Total number of errors',
+      labelNames: ['type'],
+      registers: [this.registry],
+    });
+
+    this.latencyHistogram = new Histogram({
+      name: 'deiex_operation_latency',
+      help: 'Latency of operations in milliseconds',
+      labelNames: ['operation'],
+      buckets: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+      registers: [this.registry],
+    });
   }
 
   incrementOrder(side: string, type: string, symbol: string): void {
@@ -69,6 +142,42 @@ export class PrometheusService {
     this.positionGauge.set({ side, symbol }, value);
   }
 
+  setFundingRate(symbol: string, rate: number): void {
+    this.fundingRateGauge.set({ symbol }, rate);
+  }
+
+  incrementLiquidationCount(symbol: string): void {
+    this.liquidationCounter.inc({ symbol });
+  }
+
+  incrementADLCount(symbol: string): void {
+    this.adlCounter.inc({ symbol });
+  }
+
+  setPositionRiskLevel(symbol: string, userId: string, level: number): void {
+    this.positionRiskGauge.set({ symbol, userId }, level);
+  }
+
+  incrementCanceledOrder(symbol: string): void {
+    this.canceledOrderCounter.inc({ symbol });
+  }
+
+  incrementFilledOrder(symbol: string): void {
+    this.filledOrderCounter.inc({ symbol });
+  }
+
+  incrementTradeVolume(symbol: string, volume: number): void {
+    this.tradeVolumeCounter.inc({ symbol }, volume);
+  }
+
+  incrementErrors(type: string): void {
+    this.errorCounter.inc({ type });
+  }
+
+  recordLatency(operation: string, duration: number): void {
+    this.latencyHistogram.observe({ operation }, duration);
+  }
+
   async getMetrics(): Promise<string> {
     return this.registry.metrics();
   }
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { RedisModule } from '@nestjs-modules/ioredis';
 import { ConfigService } from '@nestjs/config';
+import { RedisClientService } from './redis.service';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { ConfigService } from '@nestjs/config';
       }),
     }),
   ],
-  exports: [RedisModule],
+  providers: [RedisClientService],
+  exports: [RedisModule, RedisClientService],
 })
 export class RedisCacheModule {}
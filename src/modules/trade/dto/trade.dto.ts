@@ -140,6 +140,10 @@ export class TradeResponseDto {
   @IsString()
   fee?: string;
 
+  @IsOptional()
+  @IsString()
+  feeAsset?: string;
+
   @IsOptional()
   @IsString()
   makerOrderId?: string;
@@ -1,6 +1,8 @@
 import { OrderSide, OrderType, Order, Trade, MatchResult, OrderBook } from '../types/trade.types';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
 
 export class OrderMatchingEngine {
+  // 以规范化的十进制字符串作为价格档位键，"1.50" 与 "1.5" 属于同一档位
   private bids: Map<string, Order[]> = new Map();
   private asks: Map<string, Order[]> = new Map();
   private symbol: string;
@@ -11,9 +13,10 @@ export class OrderMatchingEngine {
 
   addOrder(order: Order): void {
     const orders = order.side === OrderSide.BUY ? this.bids : this.asks;
-    const priceLevel = orders.get(order.price) || [];
-    priceLevel.push(order);
-    orders.set(order.price, priceLevel);
+    const price = FixedDecimal.from(order.price).toString();
+    const priceLevel = orders.get(price) || [];
+    priceLevel.push({ ...order, price, quantity: FixedDecimal.from(order.quantity).toString() });
+    orders.set(price, priceLevel);
   }
 
   cancelOrder(orderId: string): void {
@@ -40,24 +43,23 @@ export class OrderMatchingEngine {
 
     if (order.type === OrderType.LIMIT) {
       const matchingOrders = order.side === OrderSide.BUY ? this.asks : this.bids;
+      const orderPrice = FixedDecimal.from(order.price);
       const sortedPrices = Array.from(matchingOrders.keys())
-        .map(price => parseFloat(price))
-        .sort(order.side === OrderSide.BUY ? (a, b) => a - b : (a, b) => b - a);
+        .map(price => FixedDecimal.from(price))
+        .sort(order.side === OrderSide.BUY ? (a, b) => a.cmp(b) : (a, b) => b.cmp(a));
 
       for (const price of sortedPrices) {
-        if (order.side === OrderSide.BUY && price > parseFloat(order.price)) break;
-        if (order.side === OrderSide.SELL && price < parseFloat(order.price)) break;
+        if (order.side === OrderSide.BUY && price.gt(orderPrice)) break;
+        if (order.side === OrderSide.SELL && price.lt(orderPrice)) break;
 
-        const priceLevel = matchingOrders.get(price.toString()) || [];
+        // 成交过程中会从档位中移除订单，遍历副本
+        const priceLevel = [...(matchingOrders.get(price.toString()) || [])];
         for (const matchingOrder of priceLevel) {
           if (!remainingOrder) break;
 
-          const tradeAmount = Math.min(
-            parseFloat(remainingOrder.quantity),
-            parseFloat(matchingOrder.quantity),
-          );
+          const tradeAmount = FixedDecimal.min(remainingOrder.quantity, matchingOrder.quantity);
 
-          if (tradeAmount > 0) {
+          if (tradeAmount.isPositive()) {
             trades.push({
               id: '',
               userId: remainingOrder.userId,
@@ -73,8 +75,8 @@ export class OrderMatchingEngine {
               updatedAt: new Date(),
             });
 
-            const remainingQuantity = parseFloat(remainingOrder.quantity) - tradeAmount;
-            if (remainingQuantity > 0) {
+            const remainingQuantity = FixedDecimal.from(remainingOrder.quantity).minus(tradeAmount);
+            if (remainingQuantity.isPositive()) {
               remainingOrder = {
                 ...remainingOrder,
                 quantity: remainingQuantity.toString(),
@@ -83,8 +85,8 @@ export class OrderMatchingEngine {
               remainingOrder = undefined;
             }
 
-            const matchingRemaining = parseFloat(matchingOrder.quantity) - tradeAmount;
-            if (matchingRemaining > 0) {
+            const matchingRemaining = FixedDecimal.from(matchingOrder.quantity).minus(tradeAmount);
+            if (matchingRemaining.isPositive()) {
               matchingOrder.quantity = matchingRemaining.toString();
             } else {
               this.removeOrder(matchingOrder.id, matchingOrders);
@@ -104,19 +106,19 @@ export class OrderMatchingEngine {
   getOrderBookSnapshot(): OrderBook {
     const bids = Array.from(this.bids.entries()).map(([price, orders]) => ({
       price,
-      quantity: orders.reduce((sum, order) => sum + parseFloat(order.quantity), 0).toString(),
+      quantity: FixedDecimal.sum(orders.map(order => order.quantity)).toString(),
       total: orders.length.toString(),
     }));
 
     const asks = Array.from(this.asks.entries()).map(([price, orders]) => ({
       price,
-      quantity: orders.reduce((sum, order) => sum + parseFloat(order.quantity), 0).toString(),
+      quantity: FixedDecimal.sum(orders.map(order => order.quantity)).toString(),
       total: orders.length.toString(),
     }));
 
     return {
-      bids: bids.sort((a, b) => parseFloat(b.price) - parseFloat(a.price)),
-      asks: asks.sort((a, b) => parseFloat(a.price) - parseFloat(b.price)),
+      bids: bids.sort((a, b) => FixedDecimal.from(b.price).cmp(a.price)),
+      asks: asks.sort((a, b) => FixedDecimal.from(a.price).cmp(b.price)),
     };
   }
 }
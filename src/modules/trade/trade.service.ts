@@ -273,7 +273,8 @@ export class TradeService {
     response.price = trade.price;
     response.profitPercent = trade.profitPercent || 0;
     response.pnl = trade.pnl || '0';
-    response.fee = trade.fee || '0';
+    response.fee = this.getTradeFee(trade) || '0';
+    response.feeAsset = trade.userId === trade.makerUserId ? trade.makerFeeAsset : trade.takerFeeAsset;
     response.makerOrderId = trade.makerOrderId || undefined;
     response.takerOrderId = trade.takerOrderId || undefined;
     response.makerUserId = trade.makerUserId || undefined;
@@ -283,6 +284,17 @@ export class TradeService {
     return response;
   }
 
+  // 现货撮合成交分别记录maker和taker手续费，按成交记录所属用户取对应一侧
+  private getTradeFee(trade: PrismaTrade): string | null {
+    if (trade.makerUserId && trade.userId === trade.makerUserId) {
+      return trade.makerFee ?? trade.fee;
+    }
+    if (trade.takerUserId && trade.userId === trade.takerUserId) {
+      return trade.takerFee ?? trade.fee;
+    }
+    return trade.fee;
+  }
+
   private mapPositionToResponse(position: PrismaPosition): PositionResponseDto {
     const response = new PositionResponseDto();
     response.id = position.id;
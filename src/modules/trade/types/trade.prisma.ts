@@ -7,11 +7,17 @@ export type PrismaPositionInclude = Prisma.PositionInclude;
 export interface PrismaTrade extends Prisma.TradeGetPayload<{
   include: { user: true }
 }> {
+  userId: string;
+  fee: string | null;
   makerOrderId?: string | null;
   takerOrderId?: string | null;
   makerUserId?: string | null;
   takerUserId?: string | null;
   orderId?: string | null;
+  makerFee?: string | null;
+  makerFeeAsset?: string | null;
+  takerFee?: string | null;
+  takerFeeAsset?: string | null;
 }
 
 export type PrismaOrder = Prisma.OrderGetPayload<{
@@ -50,6 +50,7 @@ export class UserService {
     
     if (updateUserDto.password) {
       data.password = await bcrypt.hash(updateUserDto.password, 10);
+      data.passwordChangedAt = new Date();
     }
 
     const user = await this.prisma.user.update({
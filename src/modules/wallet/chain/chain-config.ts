@@ -0,0 +1,20 @@
+import type { ChainConfig as ChainConfigRow } from '@prisma/client';
+import { ChainConfig } from '../types/wallet.types';
+
+/**
+ * 数据库中的链配置转换为服务使用的结构：原生币符号和精度合并为 nativeCurrency，代币合约表缺省为空。
+ */
+export function parseChainConfig(row: ChainConfigRow): ChainConfig {
+  return {
+    id: row.id,
+    chain: row.chain,
+    name: row.name,
+    rpcUrl: row.rpcUrl,
+    explorerUrl: row.explorerUrl,
+    nativeCurrency: { symbol: row.nativeCurrency, decimals: row.nativeDecimals },
+    contracts: (row.contracts ?? {}) as Record<string, string>,
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,155 @@
+// keccak256('Transfer(address,address,uint256)')
+export const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const ZERO = BigInt(0);
+
+export interface LogFilter {
+  address: string;
+  topics: string[];
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface ChainLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  removed?: boolean;
+}
+
+/**
+ * 扫描代币转账所需的最小 JSON-RPC 能力，ethers 的 JsonRpcProvider 满足该接口，测试中可用录制的区块数据替代。
+ */
+export interface LogProvider {
+  getLogs(filter: LogFilter): Promise<ChainLog[]>;
+  getBlock(blockNumber: number): Promise<{ number: number; timestamp: number }>;
+}
+
+export interface TokenContract {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+export interface TokenTransfer {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  contractAddress: string;
+  currency: string;
+  fromAddress: string;
+  toAddress: string;
+  // 按币种精度换算后的金额
+  amount: string;
+  timestamp: number;
+}
+
+/**
+ * 解析 ERC-20 Transfer 日志。from、to 为 indexed 参数，金额在 data 中；
+ * ERC-721 的 Transfer 事件 tokenId 也是 indexed，topics 有 4 个，不会被误认为代币转账。
+ */
+export function decodeTransferLog(log: ChainLog): { from: string; to: string; value: bigint } | null {
+  if (log.topics.length !== 3 || log.topics[0].toLowerCase() !== TRANSFER_EVENT_TOPIC) {
+    return null;
+  }
+  if (!/^0x[0-9a-fA-F]{64}$/.test(log.data)) {
+    return null;
+  }
+
+  return {
+    from: topicToAddress(log.topics[1]),
+    to: topicToAddress(log.topics[2]),
+    value: BigInt(log.data),
+  };
+}
+
+/**
+ * 按精度把最小单位的整数金额转换为十进制字符串，不经过浮点数。
+ */
+export function formatUnits(value: bigint, decimals: number): string {
+  const negative = value < ZERO;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const integer = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * formatUnits 的逆运算，把十进制金额字符串转换为最小单位的整数，超出精度的小数位直接截断。
+ */
+export function parseUnits(amount: string, decimals: number): bigint {
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount ${amount}`);
+  }
+
+  const [, sign, integer, fraction = ''] = match;
+  const value = BigInt(`${integer || '0'}${fraction.slice(0, decimals).padEnd(decimals, '0')}`);
+  return sign ? -value : value;
+}
+
+/**
+ * 按合约拉取区块范围内的 Transfer 日志，筛出转入充值地址的转账。
+ * 同一笔交易可能包含多条转账日志，(txHash, logIndex) 唯一标识一笔代币充值。
+ */
+export async function scanTokenTransfers(
+  provider: LogProvider,
+  contracts: TokenContract[],
+  fromBlock: number,
+  toBlock: number,
+  depositAddresses: Set<string>,
+): Promise<TokenTransfer[]> {
+  const transfers: TokenTransfer[] = [];
+  const blockTimestamps = new Map<number, number>();
+
+  for (const contract of contracts) {
+    const logs = await provider.getLogs({
+      address: contract.address,
+      topics: [TRANSFER_EVENT_TOPIC],
+      fromBlock,
+      toBlock,
+    });
+
+    for (const log of logs) {
+      // 节点只按地址和主题过滤，这里再校验一次来源合约
+      if (log.removed || log.address.toLowerCase() !== contract.address.toLowerCase()) {
+        continue;
+      }
+
+      const decoded = decodeTransferLog(log);
+      if (!decoded || decoded.value <= ZERO || !depositAddresses.has(decoded.to)) {
+        continue;
+      }
+
+      if (!blockTimestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        blockTimestamps.set(log.blockNumber, block.timestamp);
+      }
+
+      transfers.push({
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        contractAddress: contract.address,
+        currency: contract.symbol,
+        fromAddress: decoded.from,
+        toAddress: decoded.to,
+        amount: formatUnits(decoded.value, contract.decimals),
+        timestamp: blockTimestamps.get(log.blockNumber),
+      });
+    }
+  }
+
+  return transfers.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+// indexed 地址参数左侧补零到 32 字节，取末尾 20 字节，统一为小写
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`.toLowerCase();
+}
@@ -0,0 +1,22 @@
+import { ethers } from 'ethers';
+
+/**
+ * 账户级扩展密钥下第 derivationIndex 个充值地址的相对路径，取 BIP-44 的外部链（change = 0）。
+ */
+export function addressPath(derivationIndex: number): string {
+  if (!Number.isInteger(derivationIndex) || derivationIndex < 0 || derivationIndex >= 0x80000000) {
+    throw new Error(`Invalid derivation index ${derivationIndex}`);
+  }
+  return `0/${derivationIndex}`;
+}
+
+/**
+ * 从账户级扩展公钥派生充值地址，只做非硬化派生，不接触私钥。
+ */
+export function deriveAddress(extendedPublicKey: string, derivationIndex: number): string {
+  const account = ethers.utils.HDNode.fromExtendedKey(extendedPublicKey);
+  if (account.privateKey) {
+    throw new Error('Expected an extended public key, got an extended private key');
+  }
+  return account.derivePath(addressPath(derivationIndex)).address;
+}
@@ -0,0 +1,48 @@
+// 保留的区块头数量，也是可处理的最大重组深度
+export const MAX_REORG_DEPTH = 64;
+
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
+}
+
+/**
+ * 返回第一个与前一个区块断开的区块头下标，全部相接时返回 -1。
+ * 第一个区块头与 previousHash（上次扫描到的最后一个区块的哈希）比对，未记录时跳过。
+ */
+export function findDiscontinuity(previousHash: string | undefined, headers: BlockHeader[]): number {
+  let expected = previousHash;
+  for (let i = 0; i < headers.length; i++) {
+    if (expected !== undefined && headers[i].parentHash !== expected) {
+      return i;
+    }
+    expected = headers[i].hash;
+  }
+  return -1;
+}
+
+/**
+ * 从 fromBlock 开始向前逐个比对已记录的区块哈希和当前主链上的区块哈希，返回最后一个仍在主链上的区块号（分叉点）。
+ * 在 maxDepth 个区块内找不到共同祖先时抛出异常，需人工介入。
+ */
+export async function findForkBlock(
+  getHeader: (blockNumber: number) => Promise<BlockHeader | null>,
+  recordedHashes: Map<number, string>,
+  fromBlock: number,
+  maxDepth: number = MAX_REORG_DEPTH,
+): Promise<number> {
+  for (let blockNumber = fromBlock; blockNumber > fromBlock - maxDepth; blockNumber--) {
+    const recorded = recordedHashes.get(blockNumber);
+    if (!recorded) {
+      break;
+    }
+
+    const canonical = await getHeader(blockNumber);
+    if (canonical && canonical.hash === recorded) {
+      return blockNumber;
+    }
+  }
+
+  throw new Error(`No common ancestor found within ${maxDepth} blocks below ${fromBlock}`);
+}
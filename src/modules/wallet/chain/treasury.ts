@@ -0,0 +1,83 @@
+const ZERO = BigInt(0);
+const BASIS_POINTS = BigInt(10000);
+
+// 为代币归集补充的 gas 额外预留 20%，避免 gas 价格上涨后仍然不够
+const GAS_FUNDING_BUFFER_BPS = BigInt(12000);
+
+export interface SweepToken {
+  currency: string;
+  contractAddress: string;
+  balance: bigint;
+  threshold: bigint;
+}
+
+export interface SweepPlanInput {
+  nativeCurrency: string;
+  nativeBalance: bigint;
+  nativeThreshold: bigint;
+  tokens: SweepToken[];
+  gasPrice: bigint;
+  // 原生币转账和代币 transfer 调用的 gas 上限
+  nativeTransferGas: bigint;
+  tokenTransferGas: bigint;
+}
+
+export type SweepAction =
+  | { type: 'FUND_GAS'; currency: string; amount: bigint }
+  | { type: 'SWEEP_TOKEN'; currency: string; contractAddress: string; amount: bigint }
+  | { type: 'SWEEP_NATIVE'; currency: string; amount: bigint };
+
+/**
+ * 规划一个充值地址的归集：余额低于阈值的粉尘不归集。
+ * 代币归集需要地址上有原生币支付 gas，不足时先由热钱包补足，下一轮再归集；
+ * 原生币在没有待归集代币时再归集，扣除自身转账的 gas。
+ */
+export function planSweep(input: SweepPlanInput): SweepAction[] {
+  const tokens = input.tokens.filter(token => token.balance > ZERO && token.balance >= token.threshold);
+
+  if (tokens.length > 0) {
+    const gasNeeded = input.tokenTransferGas * input.gasPrice * BigInt(tokens.length);
+    if (input.nativeBalance < gasNeeded) {
+      return [{
+        type: 'FUND_GAS',
+        currency: input.nativeCurrency,
+        amount: (gasNeeded * GAS_FUNDING_BUFFER_BPS) / BASIS_POINTS - input.nativeBalance,
+      }];
+    }
+
+    return tokens.map(token => ({
+      type: 'SWEEP_TOKEN' as const,
+      currency: token.currency,
+      contractAddress: token.contractAddress,
+      amount: token.balance,
+    }));
+  }
+
+  const amount = input.nativeBalance - input.nativeTransferGas * input.gasPrice;
+  if (input.nativeBalance < input.nativeThreshold || amount <= ZERO) {
+    return [];
+  }
+  return [{ type: 'SWEEP_NATIVE', currency: input.nativeCurrency, amount }];
+}
+
+/**
+ * 热钱包余额超过用户负债总额的 maxHotRatio 时，计算转入冷钱包的金额，使热钱包回到 targetHotRatio；未超过时返回 null。
+ */
+export function planColdTransfer(
+  hotBalance: bigint,
+  liabilities: bigint,
+  maxHotRatio: number,
+  targetHotRatio: number,
+): bigint | null {
+  if (targetHotRatio > maxHotRatio) {
+    throw new Error(`Target hot wallet ratio ${targetHotRatio} exceeds the maximum ${maxHotRatio}`);
+  }
+
+  const maxBps = BigInt(Math.round(maxHotRatio * 10000));
+  const targetBps = BigInt(Math.round(targetHotRatio * 10000));
+  if (hotBalance * BASIS_POINTS <= liabilities * maxBps) {
+    return null;
+  }
+
+  return hotBalance - (liabilities * targetBps) / BASIS_POINTS;
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Param, Query, UseGuards, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { DepositService } from '../services/deposit.service';
+
+@ApiTags('充值')
+@Controller('wallet/deposit')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class DepositController {
+  constructor(private readonly depositService: DepositService) {}
+
+  @Get('address/:currency')
+  @ApiOperation({ summary: '获取充值地址，同一条链上的各币种共用一个地址' })
+  @ApiParam({ name: 'currency', description: '币种', example: 'USDT' })
+  @ApiQuery({ name: 'chain', description: '链ID', example: '1' })
+  @ApiResponse({ status: HttpStatus.OK, description: '充值地址' })
+  async getDepositAddress(
+    @CurrentUser() user: { id: string },
+    @Param('currency') currency: string,
+    @Query('chain') chain: string,
+  ) {
+    const address = await this.depositService.getDepositAddress(user.id, currency, chain);
+    return { currency, chain, address };
+  }
+}
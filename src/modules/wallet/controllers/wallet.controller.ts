@@ -212,10 +212,7 @@ export class WalletController {
   async getWithdrawalFee(
     @Query(ValidationPipe) query: WithdrawalFeeDto,
   ): Promise<WithdrawalFeeResponse> {
-    return await this.withdrawalService.getWithdrawalFee(
-      query.currency,
-      query.amount,
-    );
+    return await this.withdrawalService.getWithdrawalFee(query.currency);
   }
 
   @Get('withdraw/limits')
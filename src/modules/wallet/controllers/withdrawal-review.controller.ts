@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Ip,
+  UseGuards,
+  ValidationPipe,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { WithdrawalReviewService } from '../services/withdrawal-review.service';
+import { RejectWithdrawalDto, WithdrawalReviewDto } from '../dto/withdrawal.dto';
+
+@ApiTags('提现审核')
+@Controller('admin/withdrawals')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+@ApiBearerAuth()
+export class WithdrawalReviewController {
+  constructor(private readonly withdrawalReviewService: WithdrawalReviewService) {}
+
+  @Get('reviews')
+  @ApiOperation({ summary: '获取待审核的提现（仅管理员）' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: '待审核提现及已有的审核记录',
+  })
+  async getPendingReviews() {
+    return await this.withdrawalReviewService.getPendingReviews();
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: '批准提现（仅管理员），达到所需批准人数后进入广播' })
+  @ApiParam({ name: 'id', description: '提现ID' })
+  @ApiBody({ type: WithdrawalReviewDto })
+  @ApiResponse({ status: HttpStatus.CREATED, description: '已记录批准' })
+  async approve(
+    @CurrentUser() admin: { id: string },
+    @Ip() ipAddress: string,
+    @Param('id') withdrawalId: string,
+    @Body(ValidationPipe) dto: WithdrawalReviewDto,
+  ) {
+    return await this.withdrawalReviewService.approve(withdrawalId, admin.id, ipAddress, dto.reason);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: '拒绝提现（仅管理员），退回冻结余额' })
+  @ApiParam({ name: 'id', description: '提现ID' })
+  @ApiBody({ type: RejectWithdrawalDto })
+  @ApiResponse({ status: HttpStatus.CREATED, description: '提现已拒绝' })
+  async reject(
+    @CurrentUser() admin: { id: string },
+    @Ip() ipAddress: string,
+    @Param('id') withdrawalId: string,
+    @Body(ValidationPipe) dto: RejectWithdrawalDto,
+  ) {
+    return await this.withdrawalReviewService.reject(withdrawalId, admin.id, ipAddress, dto.reason);
+  }
+}
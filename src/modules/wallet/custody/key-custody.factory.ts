@@ -0,0 +1,21 @@
+import { ConfigService } from '@nestjs/config';
+import { KeyCustodyProvider } from '../types/wallet.types';
+import { LocalKeystoreCustody } from './local-keystore-custody';
+
+/**
+ * 按 KEY_CUSTODY_PROVIDER 配置创建密钥托管，目前支持 local（本地加密 keystore）。
+ * 生产环境接入 HSM 或 MPC 托管时在此增加实现。
+ */
+export function createKeyCustodyProvider(configService: ConfigService): KeyCustodyProvider {
+  const provider = configService.get<string>('KEY_CUSTODY_PROVIDER', 'local');
+
+  switch (provider) {
+    case 'local':
+      return new LocalKeystoreCustody(
+        configService.get<string>('KEY_CUSTODY_KEYSTORE_PATH'),
+        configService.get<string>('KEY_CUSTODY_KEYSTORE_PASSWORD'),
+      );
+    default:
+      throw new Error(`Unsupported key custody provider: ${provider}`);
+  }
+}
@@ -0,0 +1,63 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// scrypt 参数，N = 2^15 时派生一次约需 32MB 内存
+const SCRYPT_N = 1 << 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+export interface KeystoreCrypto {
+  kdf: 'scrypt';
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+/**
+ * 用口令加密扩展私钥：scrypt 派生密钥，AES-256-GCM 加密，认证标签防止密文被篡改。
+ */
+export function encryptSecret(secret: string, password: string): KeystoreCrypto {
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return {
+    kdf: 'scrypt',
+    n: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    salt: salt.toString('hex'),
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+export function decryptSecret(crypto: KeystoreCrypto, password: string): string {
+  if (crypto.kdf !== 'scrypt') {
+    throw new Error(`Unsupported keystore kdf ${crypto.kdf}`);
+  }
+
+  const key = deriveKey(password, Buffer.from(crypto.salt, 'hex'), crypto.n, crypto.r, crypto.p);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(crypto.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(crypto.tag, 'hex'));
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(crypto.ciphertext, 'hex')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error('Invalid keystore password or corrupted keystore');
+  }
+}
+
+function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number): Buffer {
+  return scryptSync(password, salt, 32, { N: n, r, p, maxmem: 256 * n * r });
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import { ethers } from 'ethers';
+import { KeyCustodyProvider, UnsignedTransaction } from '../types/wallet.types';
+import { addressPath } from '../chain/hd-wallet';
+import { KeystoreCrypto, decryptSecret } from './keystore-cipher';
+
+interface KeystoreAccount {
+  // 账户级派生路径，例如 m/44'/60'/0'
+  path: string;
+  xpub: string;
+  // 加密后的账户级扩展私钥
+  crypto: KeystoreCrypto;
+}
+
+/**
+ * 本地加密 keystore，供开发和测试使用。文件格式为 { "accounts": { "<chainId>": KeystoreAccount } }，
+ * 只保存各链账户级扩展私钥的密文，签名时按需解密，不缓存明文，也不包含主种子。
+ */
+export class LocalKeystoreCustody implements KeyCustodyProvider {
+  readonly name = 'local-keystore';
+
+  constructor(
+    private readonly filePath: string,
+    private readonly password: string,
+  ) {}
+
+  async getExtendedPublicKey(chainId: string): Promise<string> {
+    const account = await this.getAccount(chainId);
+    return account.xpub;
+  }
+
+  async signTransaction(chainId: string, derivationIndex: number, tx: UnsignedTransaction): Promise<string> {
+    const account = await this.getAccount(chainId);
+    const node = ethers.utils.HDNode
+      .fromExtendedKey(decryptSecret(account.crypto, this.password))
+      .derivePath(addressPath(derivationIndex));
+
+    // 解密出的扩展私钥须与登记的扩展公钥对应，防止 keystore 条目被替换
+    const expected = ethers.utils.HDNode.fromExtendedKey(account.xpub).derivePath(addressPath(derivationIndex));
+    if (expected.address !== node.address) {
+      throw new Error(`Keystore account for chain ${chainId} does not match its xpub`);
+    }
+
+    return new ethers.Wallet(node.privateKey).signTransaction(tx);
+  }
+
+  private async getAccount(chainId: string): Promise<KeystoreAccount> {
+    // 未配置时不影响启动，用到托管时再报错
+    if (!this.filePath || !this.password) {
+      throw new Error('KEY_CUSTODY_KEYSTORE_PATH and KEY_CUSTODY_KEYSTORE_PASSWORD are required for local key custody');
+    }
+
+    const keystore = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    const account = keystore.accounts?.[chainId];
+    if (!account) {
+      throw new Error(`No keystore account for chain ${chainId}`);
+    }
+    return account;
+  }
+}
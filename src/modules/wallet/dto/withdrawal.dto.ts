@@ -2,6 +2,7 @@ import { ApiProperty } from '@nestjs/swagger';
 import { 
   IsString, 
   IsNumber, 
+  IsNumberString,
   IsOptional, 
   Min, 
   IsEnum,
@@ -25,12 +26,11 @@ export class CreateWithdrawalDto {
   chain: string;
 
   @ApiProperty({
-    description: '提现金额',
-    example: 1.5,
+    description: '提现金额，十进制字符串',
+    example: '1.5',
   })
-  @IsNumber()
-  @Min(0)
-  amount: number;
+  @IsNumberString()
+  amount: string;
 
   @ApiProperty({
     description: '提现地址',
@@ -40,16 +40,7 @@ export class CreateWithdrawalDto {
   @Matches(/^[a-zA-Z0-9]+$/, {
     message: '无效的提现地址',
   })
-  toAddress: string;
-
-  @ApiProperty({
-    description: '备注',
-    required: false,
-    example: '提现到Binance',
-  })
-  @IsOptional()
-  @IsString()
-  memo?: string;
+  address: string;
 }
 
 export class WithdrawalHistoryQueryDto {
@@ -168,3 +159,23 @@ export class AddressWhitelistDto {
   @IsString()
   label: string;
 }
+
+export class WithdrawalReviewDto {
+  @ApiProperty({
+    description: '审核意见',
+    required: false,
+    example: '已电话核实用户本人操作',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class RejectWithdrawalDto {
+  @ApiProperty({
+    description: '拒绝原因',
+    example: '提现地址与用户历史行为不符',
+  })
+  @IsString()
+  reason: string;
+}
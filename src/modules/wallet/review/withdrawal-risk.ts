@@ -0,0 +1,119 @@
+import { DecimalValue, FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+const HOUR = 60 * 60 * 1000;
+
+export enum WithdrawalRiskRule {
+  NEW_ADDRESS = 'NEW_ADDRESS',
+  FIRST_WITHDRAWAL = 'FIRST_WITHDRAWAL',
+  AMOUNT_ANOMALY = 'AMOUNT_ANOMALY',
+  RECENT_SECURITY_CHANGE = 'RECENT_SECURITY_CHANGE',
+  DEPOSIT_VELOCITY = 'DEPOSIT_VELOCITY',
+}
+
+export interface WithdrawalRiskFactor {
+  rule: WithdrawalRiskRule;
+  score: number;
+  detail: string;
+}
+
+export interface WithdrawalRiskAssessment {
+  score: number;
+  factors: WithdrawalRiskFactor[];
+  requiresReview: boolean;
+}
+
+export interface WithdrawalRiskContext {
+  amount: DecimalValue;
+  toAddress: string;
+  // 该用户该币种已完成的历史提现
+  previousWithdrawals: Array<{ amount: DecimalValue; toAddress: string }>;
+  // 窗口期内到账的充值总额
+  recentDepositAmount: DecimalValue;
+  passwordChangedAt?: Date | null;
+  twoFactorChangedAt?: Date | null;
+  now: Date;
+}
+
+export interface WithdrawalRiskConfig {
+  // 总分达到该值时转入人工审核
+  reviewThreshold: number;
+  // 金额超过历史最大单笔提现的倍数时视为异常
+  amountMultiplier: number;
+  // 修改密码或两步验证后的观察期（小时）
+  securityChangeWindowHours: number;
+  // 充值后 depositVelocityWindowHours 内提现，且这些充值覆盖提现金额的比例达到 depositVelocityRatio 时视为快进快出
+  depositVelocityWindowHours: number;
+  depositVelocityRatio: number;
+}
+
+export const DEFAULT_WITHDRAWAL_RISK_CONFIG: WithdrawalRiskConfig = {
+  reviewThreshold: 50,
+  amountMultiplier: 3,
+  securityChangeWindowHours: 24,
+  depositVelocityWindowHours: 24,
+  depositVelocityRatio: 0.8,
+};
+
+/**
+ * 按规则为提现打分，各规则分值相加，达到阈值的提现需人工审核。
+ */
+export function scoreWithdrawal(
+  context: WithdrawalRiskContext,
+  config: WithdrawalRiskConfig = DEFAULT_WITHDRAWAL_RISK_CONFIG,
+): WithdrawalRiskAssessment {
+  const factors: WithdrawalRiskFactor[] = [];
+  const amount = FixedDecimal.from(context.amount);
+  const toAddress = context.toAddress.toLowerCase();
+
+  if (!context.previousWithdrawals.some(w => w.toAddress.toLowerCase() === toAddress)) {
+    factors.push({
+      rule: WithdrawalRiskRule.NEW_ADDRESS,
+      score: 30,
+      detail: `No previous withdrawal to ${context.toAddress}`,
+    });
+  }
+
+  if (context.previousWithdrawals.length === 0) {
+    factors.push({
+      rule: WithdrawalRiskRule.FIRST_WITHDRAWAL,
+      score: 20,
+      detail: 'No withdrawal history',
+    });
+  } else {
+    const [first, ...rest] = context.previousWithdrawals.map(w => w.amount);
+    const largest = FixedDecimal.max(first, ...rest);
+    if (amount.gt(largest.times(config.amountMultiplier))) {
+      factors.push({
+        rule: WithdrawalRiskRule.AMOUNT_ANOMALY,
+        score: 40,
+        detail: `Amount ${amount} exceeds ${config.amountMultiplier}x the largest previous withdrawal ${largest}`,
+      });
+    }
+  }
+
+  const windowStart = context.now.getTime() - config.securityChangeWindowHours * HOUR;
+  const changed = (changedAt?: Date | null) => !!changedAt && changedAt.getTime() >= windowStart;
+  const securityChanges = [
+    changed(context.passwordChangedAt) && 'password',
+    changed(context.twoFactorChangedAt) && '2FA',
+  ].filter(Boolean);
+  if (securityChanges.length > 0) {
+    factors.push({
+      rule: WithdrawalRiskRule.RECENT_SECURITY_CHANGE,
+      score: 50,
+      detail: `${securityChanges.join(' and ')} changed within ${config.securityChangeWindowHours}h`,
+    });
+  }
+
+  const recentDepositAmount = FixedDecimal.from(context.recentDepositAmount);
+  if (recentDepositAmount.gte(amount.times(config.depositVelocityRatio))) {
+    factors.push({
+      rule: WithdrawalRiskRule.DEPOSIT_VELOCITY,
+      score: 30,
+      detail: `Deposits of ${recentDepositAmount} within ${config.depositVelocityWindowHours}h cover the withdrawal amount`,
+    });
+  }
+
+  const score = factors.reduce((sum, factor) => sum + factor.score, 0);
+  return { score, factors, requiresReview: score >= config.reviewThreshold };
+}
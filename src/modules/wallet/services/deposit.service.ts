@@ -1,30 +1,37 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { InjectRedis } from '@liaoliaots/nestjs-redis';
+import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WalletTransaction } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
 import { PrometheusService } from '../../monitoring/services/prometheus.service';
 import { WalletService } from './wallet.service';
 import { Web3Service } from './web3.service';
 import { 
-  WalletTransaction,
   TransactionType,
   TransactionStatus,
   ChainConfig,
   CurrencyConfig,
 } from '../types/wallet.types';
 import { Cron } from '@nestjs/schedule';
+import { BlockHeader, MAX_REORG_DEPTH, findDiscontinuity, findForkBlock } from '../chain/reorg';
+import { parseChainConfig } from '../chain/chain-config';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
 
 interface DepositInfo {
   txHash: string;
+  // 代币充值为 Transfer 日志序号，原生币充值为 -1
+  logIndex: number;
   fromAddress: string;
   toAddress: string;
-  amount: number;
+  // 按币种精度格式化的十进制字符串，直接写入 Decimal 列，避免浮点数丢失精度
+  amount: string;
   currency: string;
   chain: string;
   confirmations: number;
   blockNumber: number;
+  blockHash: string;
   timestamp: number;
 }
 
@@ -35,6 +42,7 @@ export class DepositService {
   private readonly DEPOSIT_LOCK_TTL = 60; // 60 seconds
   private readonly currencyConfigs: Map<string, CurrencyConfig> = new Map();
   private readonly chainConfigs: Map<string, ChainConfig> = new Map();
+  private readonly hotWalletUserId: string;
 
   constructor(
     private readonly prisma: PrismaService,
@@ -45,6 +53,7 @@ export class DepositService {
     private readonly walletService: WalletService,
     private readonly web3Service: Web3Service,
   ) {
+    this.hotWalletUserId = this.configService.get('wallet.hotWalletUserId', 'hot-wallet');
     this.initializeConfigs();
   }
 
@@ -58,7 +67,7 @@ export class DepositService {
     }
 
     for (const chain of chains) {
-      this.chainConfigs.set(chain.chainId, chain);
+      this.chainConfigs.set(chain.chain, parseChainConfig(chain));
     }
   }
 
@@ -85,7 +94,7 @@ export class DepositService {
 
   private async scanChainDeposits(chainId: string) {
     const lockKey = `${this.DEPOSIT_SCAN_KEY}${chainId}`;
-    const locked = await this.redis.set(lockKey, '1', 'NX', 'EX', this.DEPOSIT_LOCK_TTL);
+    const locked = await this.redis.set(lockKey, '1', 'EX', this.DEPOSIT_LOCK_TTL, 'NX');
     
     if (!locked) {
       return; // 另一个进程正在扫描
@@ -101,23 +110,56 @@ export class DepositService {
       // 计算需要扫描的区块范围
       const fromBlock = lastScannedBlock + 1;
       const toBlock = Math.min(currentBlock, fromBlock + 100); // 每次最多扫描100个区块
+      if (toBlock < fromBlock) {
+        return;
+      }
+
+      // 新区块须与上次扫描到的区块首尾相接，否则已扫描的区块发生了重组
+      const headers = await this.web3Service.getBlockHeaders(chainId, fromBlock, toBlock);
+      const lastHeader = await this.prisma.chainBlock.findUnique({
+        where: { chainId_blockNumber: { chainId, blockNumber: lastScannedBlock } },
+      });
+      const breakAt = findDiscontinuity(lastHeader?.blockHash, headers);
+      if (breakAt === 0) {
+        await this.handleReorg(chainId, lastScannedBlock);
+        return; // 下一轮从分叉点重新扫描
+      }
+      if (breakAt > 0) {
+        throw new Error(`Chain ${chainId} reorganized while fetching blocks ${fromBlock}-${toBlock}`);
+      }
 
       // 获取系统所有充值地址
       const depositAddresses = await this.getSystemDepositAddresses(chainId);
 
       // 扫描区块
-      const deposits = await this.web3Service.scanBlocksForDeposits(
+      const deposits: DepositInfo[] = await this.web3Service.scanBlocksForDeposits(
         chainId,
         fromBlock,
         toBlock,
         depositAddresses
       );
 
+      // 扫描期间区块被替换时放弃本轮，避免记入已被废弃的区块中的充值
+      const blockHashes = new Map(headers.map(header => [header.number, header.hash]));
+      const stale = deposits.find(deposit => blockHashes.get(deposit.blockNumber) !== deposit.blockHash);
+      if (stale) {
+        throw new Error(`Block ${stale.blockNumber} on chain ${chainId} changed during scan`);
+      }
+
+      // 热钱包为代币归集补充的 gas 不是用户充值
+      const hotWalletAddresses = await this.getHotWalletAddresses(chainId);
+
       // 处理找到的充值
       for (const deposit of deposits) {
+        if (hotWalletAddresses.has(deposit.fromAddress.toLowerCase())) {
+          continue;
+        }
         await this.processDeposit(deposit);
       }
 
+      // 记录已扫描的区块头，用于检测之后的重组
+      await this.saveBlockHeaders(chainId, headers);
+
       // 更新最后扫描的区块
       await this.updateLastScannedBlock(chainId, toBlock);
 
@@ -128,52 +170,191 @@ export class DepositService {
   }
 
   private async getLastScannedBlock(chainId: string): Promise<number> {
-    const block = await this.prisma.chainScanStatus.findUnique({
-      where: { chainId },
+    const status = await this.prisma.chainScanStatus.findUnique({
+      where: { chain: chainId },
     });
 
-    if (!block) {
+    if (!status) {
       // 如果没有记录，从当前区块开始扫描
       const currentBlock = await this.web3Service.getCurrentBlockNumber(chainId);
       await this.prisma.chainScanStatus.create({
         data: {
-          chainId,
-          lastScannedBlock: currentBlock,
-          updatedAt: new Date(),
+          chain: chainId,
+          lastBlock: BigInt(currentBlock),
         },
       });
       return currentBlock;
     }
 
-    return block.lastScannedBlock;
+    return Number(status.lastBlock);
   }
 
   private async updateLastScannedBlock(chainId: string, blockNumber: number) {
     await this.prisma.chainScanStatus.update({
-      where: { chainId },
+      where: { chain: chainId },
       data: {
-        lastScannedBlock: blockNumber,
-        updatedAt: new Date(),
+        lastBlock: BigInt(blockNumber),
+      },
+    });
+  }
+
+  private async saveBlockHeaders(chainId: string, headers: BlockHeader[]) {
+    await this.prisma.chainBlock.createMany({
+      data: headers.map(header => ({
+        chainId,
+        blockNumber: header.number,
+        blockHash: header.hash,
+        parentHash: header.parentHash,
+      })),
+      skipDuplicates: true,
+    });
+
+    // 超出最大重组深度的区块头不再需要
+    await this.prisma.chainBlock.deleteMany({
+      where: {
+        chainId,
+        blockNumber: { lte: headers[headers.length - 1].number - MAX_REORG_DEPTH },
+      },
+    });
+  }
+
+  /**
+   * 处理链重组：找到分叉点，冲正分叉点之后区块中的充值，并把扫描进度回退到分叉点。
+   */
+  private async handleReorg(chainId: string, lastScannedBlock: number) {
+    const recorded = await this.prisma.chainBlock.findMany({
+      where: {
+        chainId,
+        blockNumber: { gt: lastScannedBlock - MAX_REORG_DEPTH, lte: lastScannedBlock },
+      },
+    });
+    const forkBlock = await findForkBlock(
+      blockNumber => this.web3Service.getBlockHeader(chainId, blockNumber),
+      new Map(recorded.map(block => [block.blockNumber, block.blockHash])),
+      lastScannedBlock,
+    );
+
+    this.logger.warn(
+      `Chain ${chainId} reorganized: blocks ${forkBlock + 1}-${lastScannedBlock} orphaned`
+    );
+    this.prometheusService.incrementErrors('chain_reorg');
+
+    const orphanedDeposits = await this.prisma.walletTransaction.findMany({
+      where: {
+        type: TransactionType.DEPOSIT,
+        chain: chainId,
+        blockNumber: { gt: forkBlock },
+        status: { in: [TransactionStatus.PROCESSING, TransactionStatus.COMPLETED] },
+      },
+    });
+
+    for (const deposit of orphanedDeposits) {
+      await this.reverseDeposit(deposit, 'Chain reorganization');
+    }
+
+    await this.prisma.chainBlock.deleteMany({
+      where: { chainId, blockNumber: { gt: forkBlock } },
+    });
+    await this.updateLastScannedBlock(chainId, forkBlock);
+
+    this.eventEmitter.emit('wallet.chain.reorg', {
+      chainId,
+      forkBlock,
+      orphanedBlocks: lastScannedBlock - forkBlock,
+      reversedDeposits: orphanedDeposits.length,
+    });
+  }
+
+  /**
+   * 冲正充值：已入账的从可用余额扣回，并记录审计日志。
+   * 交易若被重新打包进新区块，重新扫描时会作为新的充值记录入账。
+   */
+  private async reverseDeposit(deposit: WalletTransaction, reason: string) {
+    const credited = deposit.status === TransactionStatus.COMPLETED;
+    let negativeBalance = false;
+
+    await this.prisma.$transaction(async (prisma) => {
+      await prisma.walletTransaction.update({
+        where: { id: deposit.id },
+        data: {
+          status: TransactionStatus.REVERSED,
+          updatedAt: new Date(),
+        },
+      });
+
+      if (credited) {
+        const balance = await this.walletService.debitBalance(
+          deposit.userId,
+          deposit.currency,
+          deposit.amount,
+          prisma,
+        );
+
+        // 充值已被使用时扣回后余额为负，保留负余额并在审计日志中标记，等待人工处理
+        negativeBalance = FixedDecimal.from(balance.available).isNegative();
+      }
+    });
+
+    await this.walletService.createAuditLog({
+      userId: deposit.userId,
+      currency: deposit.currency,
+      action: 'DEPOSIT_REVERSED',
+      changes: {
+        txHash: deposit.txHash,
+        logIndex: deposit.logIndex,
+        blockNumber: deposit.blockNumber,
+        blockHash: deposit.blockHash,
+        previousStatus: deposit.status,
+        balanceAdjustment: credited ? `-${deposit.amount}` : '0',
+        negativeBalance,
       },
+      reason,
+      operator: 'system',
+      ipAddress: '',
+    });
+
+    this.eventEmitter.emit('wallet.deposit.reversed', {
+      userId: deposit.userId,
+      currency: deposit.currency,
+      amount: deposit.amount,
+      credited,
+      reason,
+      transaction: deposit,
     });
   }
 
+  private async getHotWalletAddresses(chainId: string): Promise<Set<string>> {
+    const hotWallets = await this.prisma.walletAddress.findMany({
+      where: { chainId, userId: this.hotWalletUserId },
+      select: { address: true },
+    });
+
+    return new Set(hotWallets.map(w => w.address.toLowerCase()));
+  }
+
+  /**
+   * 链上所有用户的派生充值地址，不含热钱包地址。
+   */
   private async getSystemDepositAddresses(chainId: string): Promise<Set<string>> {
-    const wallets = await this.prisma.wallet.findMany({
+    const addresses = await this.prisma.walletAddress.findMany({
+      where: { chainId, userId: { not: this.hotWalletUserId } },
       select: { address: true },
     });
 
-    return new Set(wallets.map(w => w.address.toLowerCase()));
+    return new Set(addresses.map(a => a.address.toLowerCase()));
   }
 
   private async processDeposit(deposit: DepositInfo): Promise<void> {
     const startTime = Date.now();
     try {
-      // 检查交易是否已处理
+      // 检查交易是否已处理，同一笔交易可能包含多笔代币转账，按 (txHash, logIndex) 去重；
+      // 因重组冲正的记录不算，交易被重新打包后需再次入账
       const existingTx = await this.prisma.walletTransaction.findFirst({
         where: {
           txHash: deposit.txHash,
+          logIndex: deposit.logIndex,
           type: TransactionType.DEPOSIT,
+          status: { not: TransactionStatus.REVERSED },
         },
       });
 
@@ -181,16 +362,16 @@ export class DepositService {
         return; // 交易已处理
       }
 
-      // 查找钱包
-      const wallet = await this.prisma.wallet.findFirst({
+      // 按充值地址查找所属用户
+      const owner = await this.prisma.walletAddress.findFirst({
         where: {
-          address: deposit.toAddress,
-          currency: deposit.currency,
+          chainId: deposit.chain,
+          address: { equals: deposit.toAddress, mode: 'insensitive' },
         },
       });
 
-      if (!wallet) {
-        this.logger.error(`Wallet not found for address ${deposit.toAddress}`);
+      if (!owner) {
+        this.logger.error(`Deposit address ${deposit.toAddress} not found on chain ${deposit.chain}`);
         return;
       }
 
@@ -208,45 +389,32 @@ export class DepositService {
       await this.prisma.$transaction(async (prisma) => {
         const transaction = await prisma.walletTransaction.create({
           data: {
-            walletId: wallet.id,
-            userId: wallet.userId,
+            userId: owner.userId,
             currency: deposit.currency,
             type: TransactionType.DEPOSIT,
             amount: deposit.amount,
-            fee: 0,
+            fee: '0',
             status,
             txHash: deposit.txHash,
+            logIndex: deposit.logIndex,
+            chain: deposit.chain,
+            blockNumber: deposit.blockNumber,
+            blockHash: deposit.blockHash,
             confirmations: deposit.confirmations,
-            fromAddress: deposit.fromAddress,
-            toAddress: deposit.toAddress,
+            address: deposit.toAddress,
             createdAt: new Date(deposit.timestamp * 1000),
             updatedAt: new Date(),
           },
         });
 
-        // 如果确认数足够，更新钱包余额
+        // 如果确认数足够，增加可用余额
         if (status === TransactionStatus.COMPLETED) {
-          await this.walletService.updateBalance(
-            wallet.id,
-            deposit.amount,
-            TransactionType.DEPOSIT,
-            { txHash: deposit.txHash }
-          );
-
-          // 更新总充值金额
-          await prisma.wallet.update({
-            where: { id: wallet.id },
-            data: {
-              totalDeposit: {
-                increment: deposit.amount,
-              },
-            },
-          });
+          await this.walletService.creditBalance(owner.userId, deposit.currency, deposit.amount, prisma);
         }
 
         // 发送充值事件
         this.eventEmitter.emit('wallet.deposit', {
-          userId: wallet.userId,
+          userId: owner.userId,
           currency: deposit.currency,
           amount: deposit.amount,
           status,
@@ -257,6 +425,11 @@ export class DepositService {
       // 记录性能指标
       this.prometheusService.recordLatency('process_deposit', Date.now() - startTime);
     } catch (error) {
+      // 并发扫描时唯一索引兜底，重复的充值直接忽略
+      if (error.code === 'P2002') {
+        this.logger.warn(`Deposit ${deposit.txHash}:${deposit.logIndex} already recorded`);
+        return;
+      }
       this.logger.error(`Failed to process deposit: ${error.message}`);
       this.prometheusService.incrementErrors('process_deposit_error');
       throw error;
@@ -292,10 +465,20 @@ export class DepositService {
     try {
       // 获取交易确认数
       const confirmations = await this.web3Service.getTransactionConfirmations(
-        deposit.currency,
+        deposit.chain,
         deposit.txHash
       );
 
+      // 已上链的交易查不到收据时，以区块哈希确认所在区块已被重组废弃后才冲正，
+      // 节点暂时查不到收据时保持原状，下一轮再检查
+      if (confirmations === 0 && deposit.confirmations > 0) {
+        const block = await this.web3Service.getBlockHeader(deposit.chain, deposit.blockNumber);
+        if (!block || block.hash !== deposit.blockHash) {
+          await this.reverseDeposit(deposit, 'Transaction dropped from chain');
+        }
+        return;
+      }
+
       // 获取币种配置
       const currencyConfig = this.currencyConfigs.get(deposit.currency);
       if (!currencyConfig) {
@@ -322,23 +505,8 @@ export class DepositService {
             },
           });
 
-          // 更新钱包余额
-          await this.walletService.updateBalance(
-            deposit.walletId,
-            deposit.amount,
-            TransactionType.DEPOSIT,
-            { txHash: deposit.txHash }
-          );
-
-          // 更新总充值金额
-          await prisma.wallet.update({
-            where: { id: deposit.walletId },
-            data: {
-              totalDeposit: {
-                increment: deposit.amount,
-              },
-            },
-          });
+          // 增加可用余额
+          await this.walletService.creditBalance(deposit.userId, deposit.currency, deposit.amount, prisma);
 
           // 发送充值完成事件
           this.eventEmitter.emit('wallet.deposit.completed', {
@@ -358,20 +526,24 @@ export class DepositService {
   }
 
   // 公共API方法
+  /**
+   * 用户在链上的充值地址，同一条链上的各币种共用一个派生地址，首次请求时分配。
+   */
   async getDepositAddress(
     userId: string,
     currency: string,
     chain: string,
   ): Promise<string> {
-    // 获取或创建钱包
-    let wallet = await this.walletService.getWallet(userId, currency);
-    if (!wallet) {
-      wallet = await this.walletService.createWallet(userId, currency);
+    const chainConfig = this.chainConfigs.get(chain);
+    if (
+      !this.currencyConfigs.has(currency) ||
+      !chainConfig ||
+      (chainConfig.nativeCurrency.symbol !== currency && !chainConfig.contracts[currency])
+    ) {
+      throw new Error(`Currency ${currency} is not supported on chain ${chain}`);
     }
 
-    // 对于不同的链，可能需要不同的地址
-    const address = await this.web3Service.getDepositAddress(chain, wallet.address);
-    return address;
+    return this.web3Service.generateAddress(chain, userId);
   }
 
   async getDepositHistory(
@@ -400,11 +572,11 @@ export class DepositService {
     });
   }
 
-  async getMinimumDepositAmount(currency: string): Promise<number> {
+  async getMinimumDepositAmount(currency: string): Promise<string> {
     const config = this.currencyConfigs.get(currency);
     if (!config) {
       throw new Error(`Currency ${currency} not supported`);
     }
-    return config.minWithdrawal; // 使用最小提现额作为最小充值额
+    return config.minWithdraw; // 使用最小提现额作为最小充值额
   }
 }
@@ -0,0 +1,366 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import Redis from 'ioredis';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PrometheusService } from '../../monitoring/services/prometheus.service';
+import { Web3Service } from './web3.service';
+import {
+  ChainConfig,
+  CurrencyConfig,
+  TransactionStatus,
+  TransactionType,
+  TreasuryConfig,
+  WalletAddress,
+} from '../types/wallet.types';
+import { formatUnits, parseUnits } from '../chain/erc20-transfers';
+import { SweepAction, planColdTransfer, planSweep } from '../chain/treasury';
+import { parseChainConfig } from '../chain/chain-config';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+// 原生币转账和 ERC-20 transfer 调用的 gas 上限
+const NATIVE_TRANSFER_GAS = BigInt(21000);
+const TOKEN_TRANSFER_GAS = BigInt(65000);
+
+const INTERNAL_TRANSACTION_TYPES = [
+  TransactionType.SWEEP,
+  TransactionType.GAS_FUNDING,
+  TransactionType.REBALANCE,
+];
+
+/**
+ * 资金归集与冷热钱包调度：把用户充值地址上的资金归集到热钱包，热钱包超出比例时提议转入冷钱包。
+ * 所有划转记录为内部类型的 WalletTransaction，不影响用户余额。
+ */
+@Injectable()
+export class SweepService {
+  private readonly logger = new Logger(SweepService.name);
+  private readonly SWEEP_LOCK_KEY = 'wallet:sweep:';
+  private readonly SWEEP_LOCK_TTL = 300; // 5 minutes
+  private readonly currencyConfigs: Map<string, CurrencyConfig> = new Map();
+  private readonly chainConfigs: Map<string, ChainConfig> = new Map();
+  private readonly hotWalletUserId: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectRedis() private readonly redis: Redis,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+    private readonly prometheusService: PrometheusService,
+    private readonly web3Service: Web3Service,
+  ) {
+    this.hotWalletUserId = this.configService.get('wallet.hotWalletUserId', 'hot-wallet');
+    this.initializeConfigs();
+  }
+
+  private async initializeConfigs() {
+    // 加载币种和链的配置
+    const currencies = await this.prisma.currencyConfig.findMany();
+    const chains = await this.prisma.chainConfig.findMany();
+
+    for (const currency of currencies) {
+      this.currencyConfigs.set(currency.symbol, currency);
+    }
+
+    for (const chain of chains) {
+      this.chainConfigs.set(chain.chain, parseChainConfig(chain));
+    }
+  }
+
+  // 每 10 分钟归集一次充值地址
+  @Cron('*/10 * * * *')
+  async sweepDeposits() {
+    const startTime = Date.now();
+    try {
+      for (const treasury of this.getTreasuryConfigs()) {
+        await this.withChainLock(treasury.chainId, () => this.sweepChain(treasury));
+      }
+
+      // 记录性能指标
+      this.prometheusService.recordLatency('sweep_deposits', Date.now() - startTime);
+    } catch (error) {
+      this.logger.error(`Failed to sweep deposits: ${error.message}`);
+      this.prometheusService.incrementErrors('sweep_deposits_error');
+    }
+  }
+
+  // 每小时检查热钱包比例
+  @Cron('0 * * * *')
+  async rebalanceHotWallets() {
+    try {
+      for (const treasury of this.getTreasuryConfigs()) {
+        await this.withChainLock(treasury.chainId, () => this.proposeColdTransfers(treasury));
+      }
+    } catch (error) {
+      this.logger.error(`Failed to rebalance hot wallets: ${error.message}`);
+      this.prometheusService.incrementErrors('rebalance_hot_wallets_error');
+    }
+  }
+
+  // 确认已广播的归集和补充 gas 交易
+  @Cron('*/5 * * * *')
+  async updateInternalTransfers() {
+    const transfers = await this.prisma.walletTransaction.findMany({
+      where: {
+        type: { in: [TransactionType.SWEEP, TransactionType.GAS_FUNDING] },
+        status: TransactionStatus.PROCESSING,
+      },
+    });
+
+    for (const transfer of transfers) {
+      try {
+        const confirmations = await this.web3Service.getTransactionConfirmations(transfer.chain, transfer.txHash);
+        const currencyConfig = this.currencyConfigs.get(transfer.currency);
+        if (currencyConfig && confirmations >= currencyConfig.confirmations) {
+          await this.prisma.walletTransaction.update({
+            where: { id: transfer.id },
+            data: { status: TransactionStatus.COMPLETED, confirmations, updatedAt: new Date() },
+          });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to update internal transfer ${transfer.id}: ${error.message}`);
+      }
+    }
+  }
+
+  private async sweepChain(treasury: TreasuryConfig) {
+    const { chainId } = treasury;
+    const chainConfig = this.chainConfigs.get(chainId);
+    if (!chainConfig) {
+      throw new Error(`Chain config not found for ${chainId}`);
+    }
+
+    const hotWallet = await this.getHotWallet(chainId);
+    const tokens = this.web3Service.getTokenContracts(chainId);
+    const gasPrice = await this.web3Service.getGasPrice(chainId);
+    const nativeCurrency = chainConfig.nativeCurrency.symbol;
+
+    const addresses = await this.prisma.walletAddress.findMany({
+      where: { chainId, userId: { not: this.hotWalletUserId } },
+    });
+
+    for (const depositAddress of addresses) {
+      // 上一轮的归集或补充 gas 尚未确认时跳过，避免 nonce 冲突和重复补充
+      const inFlight = await this.prisma.walletTransaction.findFirst({
+        where: {
+          type: { in: [TransactionType.SWEEP, TransactionType.GAS_FUNDING] },
+          status: TransactionStatus.PROCESSING,
+          chain: chainId,
+          address: depositAddress.address,
+        },
+      });
+      if (inFlight) {
+        continue;
+      }
+
+      try {
+        const actions = planSweep({
+          nativeCurrency,
+          nativeBalance: await this.web3Service.getBalance(chainId, nativeCurrency, depositAddress.address),
+          nativeThreshold: this.getSweepThreshold(treasury, nativeCurrency, chainConfig.nativeCurrency.decimals),
+          tokens: await Promise.all(
+            tokens.map(async token => ({
+              currency: token.symbol,
+              contractAddress: token.address,
+              balance: await this.web3Service.getBalance(chainId, token.symbol, depositAddress.address),
+              threshold: this.getSweepThreshold(treasury, token.symbol, token.decimals),
+            })),
+          ),
+          gasPrice,
+          nativeTransferGas: NATIVE_TRANSFER_GAS,
+          tokenTransferGas: TOKEN_TRANSFER_GAS,
+        });
+
+        for (const action of actions) {
+          await this.executeSweepAction(chainId, depositAddress, hotWallet, action);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to sweep ${depositAddress.address} on chain ${chainId}: ${error.message}`);
+        this.prometheusService.incrementErrors('sweep_address_error');
+      }
+    }
+  }
+
+  private async executeSweepAction(
+    chainId: string,
+    depositAddress: WalletAddress,
+    hotWallet: WalletAddress,
+    action: SweepAction,
+  ) {
+    let txHash: string;
+    if (action.type === 'FUND_GAS') {
+      // 热钱包同时用于提现，须在签名锁内签名，避免与提现取到相同的 nonce
+      const funded = await this.web3Service.withSignerLock(chainId, hotWallet.derivationIndex, async () => {
+        txHash = await this.web3Service.sendTransaction(chainId, hotWallet.derivationIndex, {
+          to: depositAddress.address,
+          value: action.amount.toString(),
+        });
+      });
+      if (!funded) {
+        throw new Error(`Hot wallet on chain ${chainId} is busy signing`);
+      }
+    } else if (action.type === 'SWEEP_TOKEN') {
+      txHash = await this.web3Service.sendTransaction(chainId, depositAddress.derivationIndex, {
+        to: action.contractAddress,
+        value: '0',
+        data: this.web3Service.encodeTokenTransfer(chainId, action.currency, hotWallet.address, action.amount),
+      });
+    } else {
+      txHash = await this.web3Service.sendTransaction(chainId, depositAddress.derivationIndex, {
+        to: hotWallet.address,
+        value: action.amount.toString(),
+      });
+    }
+
+    const transaction = await this.prisma.walletTransaction.create({
+      data: {
+        userId: depositAddress.userId,
+        type: action.type === 'FUND_GAS' ? TransactionType.GAS_FUNDING : TransactionType.SWEEP,
+        status: TransactionStatus.PROCESSING,
+        currency: action.currency,
+        amount: formatUnits(action.amount, this.getDecimals(chainId, action.currency)),
+        fee: '0',
+        txHash,
+        // 内部划转记录充值地址，方向由类型区分：归集从该地址转出，补充 gas 转入该地址
+        address: depositAddress.address,
+        chain: chainId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    this.eventEmitter.emit('wallet.sweep', {
+      chainId,
+      type: transaction.type,
+      currency: action.currency,
+      address: depositAddress.address,
+      amount: transaction.amount,
+      txHash,
+    });
+  }
+
+  /**
+   * 按币种比较热钱包链上余额和用户负债总额，超过比例时记录一笔待审批的热转冷划转。
+   * 转出需人工确认后由冷钱包流程执行，这里只生成提议。
+   */
+  private async proposeColdTransfers(treasury: TreasuryConfig) {
+    const { chainId } = treasury;
+    const chainConfig = this.chainConfigs.get(chainId);
+    if (!chainConfig) {
+      throw new Error(`Chain config not found for ${chainId}`);
+    }
+
+    const hotWallet = await this.getHotWallet(chainId);
+    const currencies = [
+      { symbol: chainConfig.nativeCurrency.symbol, decimals: chainConfig.nativeCurrency.decimals },
+      ...this.web3Service.getTokenContracts(chainId).map(token => ({ symbol: token.symbol, decimals: token.decimals })),
+    ];
+
+    for (const currency of currencies) {
+      const pending = await this.prisma.walletTransaction.findFirst({
+        where: {
+          type: TransactionType.REBALANCE,
+          status: TransactionStatus.PENDING,
+          chain: chainId,
+          currency: currency.symbol,
+        },
+      });
+      if (pending) {
+        continue;
+      }
+
+      const hotBalance = await this.web3Service.getBalance(chainId, currency.symbol, hotWallet.address);
+      const liabilities = await this.getLiabilities(currency.symbol, currency.decimals);
+      const amount = planColdTransfer(hotBalance, liabilities, treasury.maxHotRatio, treasury.targetHotRatio);
+      if (amount === null) {
+        continue;
+      }
+
+      const proposal = await this.prisma.walletTransaction.create({
+        data: {
+          userId: this.hotWalletUserId,
+          type: TransactionType.REBALANCE,
+          status: TransactionStatus.PENDING,
+          currency: currency.symbol,
+          amount: formatUnits(amount, currency.decimals),
+          fee: '0',
+          address: treasury.coldAddress,
+          chain: chainId,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+
+      this.logger.warn(
+        `Hot wallet ${currency.symbol} on chain ${chainId} exceeds ${treasury.maxHotRatio} of liabilities, ` +
+        `proposed ${proposal.amount} to cold wallet`
+      );
+      this.eventEmitter.emit('wallet.rebalance.proposed', {
+        chainId,
+        currency: currency.symbol,
+        amount: proposal.amount,
+        hotBalance: formatUnits(hotBalance, currency.decimals),
+        liabilities: formatUnits(liabilities, currency.decimals),
+        proposal,
+      });
+    }
+  }
+
+  // 用户负债 = 所有用户该币种的可用余额 + 冻结余额。余额是十进制字符串列，无法在数据库中求和
+  private async getLiabilities(currency: string, decimals: number): Promise<bigint> {
+    const balances = await this.prisma.balance.findMany({
+      where: { currency },
+      select: { available: true, locked: true },
+    });
+    const total = FixedDecimal.sum(balances.flatMap(balance => [balance.available, balance.locked]));
+    return parseUnits(total.toFixed(decimals), decimals);
+  }
+
+  private async getHotWallet(chainId: string): Promise<WalletAddress> {
+    await this.web3Service.generateAddress(chainId, this.hotWalletUserId);
+    return this.prisma.walletAddress.findUnique({
+      where: { userId_chainId: { userId: this.hotWalletUserId, chainId } },
+    });
+  }
+
+  private getSweepThreshold(treasury: TreasuryConfig, currency: string, decimals: number): bigint {
+    const threshold = treasury.sweepThresholds[currency];
+    if (!threshold) {
+      throw new Error(`Sweep threshold not configured for ${currency} on chain ${treasury.chainId}`);
+    }
+    return parseUnits(threshold, decimals);
+  }
+
+  private getDecimals(chainId: string, currency: string): number {
+    const chainConfig = this.chainConfigs.get(chainId);
+    if (chainConfig?.nativeCurrency.symbol === currency) {
+      return chainConfig.nativeCurrency.decimals;
+    }
+
+    const currencyConfig = this.currencyConfigs.get(currency);
+    if (!currencyConfig) {
+      throw new Error(`Currency config not found for ${currency}`);
+    }
+    return currencyConfig.decimals;
+  }
+
+  private getTreasuryConfigs(): TreasuryConfig[] {
+    return this.configService.get<TreasuryConfig[]>('wallet.treasuries') ?? [];
+  }
+
+  private async withChainLock(chainId: string, task: () => Promise<void>) {
+    const lockKey = `${this.SWEEP_LOCK_KEY}${chainId}`;
+    const locked = await this.redis.set(lockKey, '1', 'EX', this.SWEEP_LOCK_TTL, 'NX');
+    if (!locked) {
+      return; // 另一个进程正在处理
+    }
+
+    try {
+      await task();
+    } finally {
+      await this.redis.del(lockKey);
+    }
+  }
+}
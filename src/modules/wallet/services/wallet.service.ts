@@ -3,7 +3,10 @@ import { InjectRedis } from '@nestjs-modules/ioredis';
 import { Redis } from 'ioredis';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
 import { TransactionType, TransactionStatus, CurrencyConfig, ChainConfig } from '../types/wallet.types';
+import { parseChainConfig } from '../chain/chain-config';
+import { DecimalValue, FixedDecimal } from '../../../shared/utils/fixed-decimal';
 
 @Injectable()
 export class WalletService {
@@ -31,9 +34,7 @@ export class WalletService {
     }
 
     for (const chain of chains) {
-      this.chainConfigs.set(chain.chain, {
-        ...chain,
-      });
+      this.chainConfigs.set(chain.chain, parseChainConfig(chain));
     }
   }
 
@@ -100,75 +101,180 @@ export class WalletService {
     });
   }
 
-  async freezeBalance(userId: string, currency: string, amount: string) {
-    const balance = await this.prisma.balance.findFirst({
-      where: {
-        userId,
-        currency,
-      },
+  async freezeBalance(
+    userId: string,
+    currency: string,
+    amount: DecimalValue,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const balance = await prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency } },
     });
 
     if (!balance) {
       throw new Error('Insufficient balance');
     }
 
-    const available = BigInt(balance.available);
-    const amountBigInt = BigInt(amount);
+    const available = FixedDecimal.from(balance.available);
+    const frozen = FixedDecimal.from(amount);
 
-    if (available < amountBigInt) {
+    if (available.lt(frozen)) {
       throw new Error('Insufficient balance');
     }
 
-    return await this.prisma.balance.update({
+    return await prisma.balance.update({
       where: {
         id: balance.id,
       },
       data: {
-        available: (available - amountBigInt).toString(),
-        locked: (BigInt(balance.locked) + amountBigInt).toString(),
+        available: available.minus(frozen).toString(),
+        locked: FixedDecimal.from(balance.locked).plus(frozen).toString(),
       },
     });
   }
 
-  async unfreezeBalance(userId: string, currency: string, amount: string) {
-    const balance = await this.prisma.balance.findFirst({
+  async unfreezeBalance(
+    userId: string,
+    currency: string,
+    amount: DecimalValue,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const balance = await prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency } },
+    });
+
+    if (!balance) {
+      throw new Error('Balance not found');
+    }
+
+    const locked = FixedDecimal.from(balance.locked);
+    const released = FixedDecimal.from(amount);
+
+    if (locked.lt(released)) {
+      throw new Error('Insufficient locked balance');
+    }
+
+    return await prisma.balance.update({
       where: {
-        userId,
-        currency,
+        id: balance.id,
+      },
+      data: {
+        available: FixedDecimal.from(balance.available).plus(released).toString(),
+        locked: locked.minus(released).toString(),
       },
     });
+  }
+
+  /**
+   * 增加可用余额，该币种还没有余额记录时创建。
+   */
+  async creditBalance(
+    userId: string,
+    currency: string,
+    amount: DecimalValue,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const balance = await prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency } },
+    });
+
+    if (!balance) {
+      return await prisma.balance.create({
+        data: { userId, currency, available: FixedDecimal.from(amount).toString() },
+      });
+    }
+
+    return await prisma.balance.update({
+      where: {
+        id: balance.id,
+      },
+      data: {
+        available: FixedDecimal.from(balance.available).plus(amount).toString(),
+      },
+    });
+  }
+
+  /**
+   * 扣减可用余额。不检查余额是否充足：冲正已被使用的充值时余额记为负数，由人工处理。
+   */
+  async debitBalance(
+    userId: string,
+    currency: string,
+    amount: DecimalValue,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const balance = await prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency } },
+    });
+
+    if (!balance) {
+      throw new Error('Balance not found');
+    }
+
+    return await prisma.balance.update({
+      where: {
+        id: balance.id,
+      },
+      data: {
+        available: FixedDecimal.from(balance.available).minus(amount).toString(),
+      },
+    });
+  }
+
+  /**
+   * 从冻结余额中扣除已出账的金额。
+   */
+  async deductLockedBalance(
+    userId: string,
+    currency: string,
+    amount: DecimalValue,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const balance = await prisma.balance.findUnique({
+      where: { userId_currency: { userId, currency } },
+    });
 
     if (!balance) {
       throw new Error('Balance not found');
     }
 
-    const locked = BigInt(balance.locked);
-    const amountBigInt = BigInt(amount);
+    const locked = FixedDecimal.from(balance.locked);
+    const deducted = FixedDecimal.from(amount);
 
-    if (locked < amountBigInt) {
+    if (locked.lt(deducted)) {
       throw new Error('Insufficient locked balance');
     }
 
-    return await this.prisma.balance.update({
+    return await prisma.balance.update({
       where: {
         id: balance.id,
       },
       data: {
-        available: (BigInt(balance.available) + amountBigInt).toString(),
-        locked: (locked - amountBigInt).toString(),
+        locked: locked.minus(deducted).toString(),
       },
     });
   }
 
+  /**
+   * 写入钱包审计日志，walletId 记录该用户该币种的 Balance 记录。
+   */
   async createAuditLog(data: {
     userId: string;
-    walletId: string;
+    currency: string;
     action: string;
     changes: Record<string, any>;
     reason?: string;
     operator: string;
     ipAddress: string;
   }) {
+    const balance = await this.prisma.balance.findUnique({
+      where: { userId_currency: { userId: data.userId, currency: data.currency } },
+      select: { id: true },
+    });
+    if (!balance) {
+      throw new Error('Balance not found');
+    }
+
     return await this.prisma.$queryRaw`
       INSERT INTO "WalletAuditLog" (
         "id",
@@ -184,7 +290,7 @@ export class WalletService {
       ) VALUES (
         gen_random_uuid(),
         ${data.userId},
-        ${data.walletId},
+        ${balance.id},
         ${data.action},
         ${data.changes}::jsonb,
         ${data.reason},
@@ -208,8 +314,12 @@ export class WalletService {
     });
   }
 
-  async getWithdrawalLimits(userId: string, currency: string) {
-    const limit = await this.prisma.withdrawalLimit.findUnique({
+  async getWithdrawalLimits(
+    userId: string,
+    currency: string,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const limit = await prisma.withdrawalLimit.findUnique({
       where: {
         userId_currency: {
           userId,
@@ -219,38 +329,53 @@ export class WalletService {
     });
 
     if (!limit) {
-      const dailyLimit = this.configService.get(`WITHDRAWAL_DAILY_LIMIT_${currency}`, '10000');
-      const monthlyLimitValue = (BigInt(dailyLimit) * BigInt(30)).toString();
-      
-      return await this.prisma.$queryRaw`
-        INSERT INTO "WithdrawalLimit" (
-          "id",
-          "userId",
-          "currency",
-          "dailyLimit",
-          "dailyUsed",
-          "monthlyLimit",
-          "monthlyUsed",
-          "lastResetDaily",
-          "lastResetMonthly",
-          "createdAt",
-          "updatedAt"
-        ) VALUES (
-          gen_random_uuid(),
-          ${userId},
-          ${currency},
-          ${dailyLimit},
-          '0',
-          ${monthlyLimitValue},
-          '0',
-          NOW(),
-          NOW(),
-          NOW(),
-          NOW()
-        ) RETURNING *
-      `;
+      const dailyLimit = FixedDecimal.from(this.configService.get(`WITHDRAWAL_DAILY_LIMIT_${currency}`, '10000'));
+
+      return await prisma.withdrawalLimit.create({
+        data: {
+          userId,
+          currency,
+          dailyLimit: dailyLimit.toString(),
+          monthlyLimit: dailyLimit.times(30).toString(),
+        },
+      });
     }
 
     return limit;
   }
+
+  /**
+   * 检查提现限额并累加已用额度，按 UTC 跨日、跨月后已用额度从零开始计算。
+   */
+  async checkAndUpdateWithdrawalLimit(
+    userId: string,
+    currency: string,
+    amount: DecimalValue,
+    prisma: Prisma.TransactionClient = this.prisma,
+  ) {
+    const limit = await this.getWithdrawalLimits(userId, currency, prisma);
+    const now = new Date();
+    const newDay = limit.lastResetDaily.toISOString().slice(0, 10) !== now.toISOString().slice(0, 10);
+    const newMonth = limit.lastResetMonthly.toISOString().slice(0, 7) !== now.toISOString().slice(0, 7);
+
+    const dailyUsed = FixedDecimal.from(newDay ? '0' : limit.dailyUsed).plus(amount);
+    const monthlyUsed = FixedDecimal.from(newMonth ? '0' : limit.monthlyUsed).plus(amount);
+
+    if (dailyUsed.gt(limit.dailyLimit)) {
+      throw new Error('Daily withdrawal limit exceeded');
+    }
+    if (monthlyUsed.gt(limit.monthlyLimit)) {
+      throw new Error('Monthly withdrawal limit exceeded');
+    }
+
+    return await prisma.withdrawalLimit.update({
+      where: { id: limit.id },
+      data: {
+        dailyUsed: dailyUsed.toString(),
+        monthlyUsed: monthlyUsed.toString(),
+        ...(newDay ? { lastResetDaily: now } : {}),
+        ...(newMonth ? { lastResetMonthly: now } : {}),
+      },
+    });
+  }
 }
@@ -1,9 +1,21 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectRedis } from '@nestjs-modules/ioredis';
+import Redis from 'ioredis';
 import { PrometheusService } from '../../monitoring/services/prometheus.service';
 import { ethers } from 'ethers';
-import { ChainConfig, CurrencyConfig } from '../types/wallet.types';
+import {
+  ChainConfig,
+  CurrencyConfig,
+  KEY_CUSTODY_PROVIDER,
+  KeyCustodyProvider,
+  UnsignedTransaction,
+} from '../types/wallet.types';
 import { PrismaService } from '../../prisma/prisma.service';
+import { scanTokenTransfers, TokenContract } from '../chain/erc20-transfers';
+import { BlockHeader } from '../chain/reorg';
+import { deriveAddress } from '../chain/hd-wallet';
+import { parseChainConfig } from '../chain/chain-config';
 
 interface Web3Provider {
   chainId: string;
@@ -11,17 +23,27 @@ interface Web3Provider {
   contracts: Map<string, ethers.Contract>;
 }
 
+export interface SignedTransaction {
+  hash: string;
+  rawTx: string;
+  nonce: number;
+}
+
 @Injectable()
 export class Web3Service {
   private readonly logger = new Logger(Web3Service.name);
+  private readonly SIGNER_LOCK_KEY = 'wallet:signer:';
+  private readonly SIGNER_LOCK_TTL = 60; // 60 seconds
   private readonly providers: Map<string, Web3Provider> = new Map();
   private readonly currencyConfigs: Map<string, CurrencyConfig> = new Map();
   private readonly chainConfigs: Map<string, ChainConfig> = new Map();
 
   constructor(
+    @InjectRedis() private readonly redis: Redis,
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
+    @Inject(KEY_CUSTODY_PROVIDER) private readonly keyCustody: KeyCustodyProvider,
   ) {
     this.initializeConfigs();
   }
@@ -36,8 +58,9 @@ export class Web3Service {
     }
 
     for (const chain of chains) {
-      this.chainConfigs.set(chain.chainId, chain);
-      await this.initializeProvider(chain);
+      const chainConfig = parseChainConfig(chain);
+      this.chainConfigs.set(chainConfig.chain, chainConfig);
+      await this.initializeProvider(chainConfig);
     }
   }
 
@@ -45,49 +68,82 @@ export class Web3Service {
     try {
       // 创建provider
       const provider = new ethers.providers.JsonRpcProvider(
-        chainConfig.rpcUrls[0],
+        chainConfig.rpcUrl,
         {
-          name: chainConfig.chainName,
-          chainId: parseInt(chainConfig.chainId),
+          name: chainConfig.name,
+          chainId: parseInt(chainConfig.chain),
         }
       );
 
       // 初始化合约
       const contracts = new Map<string, ethers.Contract>();
-      if (chainConfig.contracts) {
-        for (const [symbol, address] of Object.entries(chainConfig.contracts)) {
-          const contract = new ethers.Contract(
-            address,
-            ['function balanceOf(address) view returns (uint256)'],
-            provider
-          );
-          contracts.set(symbol, contract);
-        }
+      for (const [symbol, address] of Object.entries(chainConfig.contracts)) {
+        const contract = new ethers.Contract(
+          address,
+          [
+            'function balanceOf(address) view returns (uint256)',
+            'function transfer(address to, uint256 amount) returns (bool)',
+          ],
+          provider
+        );
+        contracts.set(symbol, contract);
       }
 
-      this.providers.set(chainConfig.chainId, {
-        chainId: chainConfig.chainId,
+      this.providers.set(chainConfig.chain, {
+        chainId: chainConfig.chain,
         provider,
         contracts,
       });
     } catch (error) {
       this.logger.error(
-        `Failed to initialize provider for chain ${chainConfig.chainId}: ${error.message}`
+        `Failed to initialize provider for chain ${chainConfig.chain}: ${error.message}`
       );
       throw error;
     }
   }
 
-  async generateAddress(chainId: string): Promise<string> {
+  /**
+   * 获取用户在链上的充值地址：首次请求时分配下一个派生序号，从托管方提供的扩展公钥派生地址并记录，之后返回同一地址。
+   */
+  async generateAddress(chainId: string, userId: string): Promise<string> {
     const startTime = Date.now();
     try {
-      // 生成新的钱包
-      const wallet = ethers.Wallet.createRandom();
-      
-      // 记录性能指标
-      this.prometheusService.recordLatency('generate_address', Date.now() - startTime);
-      
-      return wallet.address;
+      const extendedPublicKey = await this.keyCustody.getExtendedPublicKey(chainId);
+
+      // 并发分配到同一序号时唯一索引冲突，重新读取后重试
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const existing = await this.prisma.walletAddress.findUnique({
+          where: { userId_chainId: { userId, chainId } },
+        });
+        if (existing) {
+          return existing.address;
+        }
+
+        const { _max } = await this.prisma.walletAddress.aggregate({
+          where: { chainId },
+          _max: { derivationIndex: true },
+        });
+        const derivationIndex = (_max.derivationIndex ?? -1) + 1;
+        const address = deriveAddress(extendedPublicKey, derivationIndex);
+
+        try {
+          await this.prisma.walletAddress.create({
+            data: { userId, chainId, derivationIndex, address },
+          });
+        } catch (error) {
+          if (error.code === 'P2002') {
+            continue;
+          }
+          throw error;
+        }
+
+        // 记录性能指标
+        this.prometheusService.recordLatency('generate_address', Date.now() - startTime);
+
+        return address;
+      }
+
+      throw new Error(`Failed to allocate derivation index on chain ${chainId}`);
     } catch (error) {
       this.logger.error(`Failed to generate address: ${error.message}`);
       this.prometheusService.incrementErrors('generate_address_error');
@@ -95,11 +151,147 @@ export class Web3Service {
     }
   }
 
+  /**
+   * 从派生地址发出交易：补全 nonce 和 gas，由密钥托管签名后广播，返回交易哈希。
+   */
+  async sendTransaction(
+    chainId: string,
+    derivationIndex: number,
+    tx: { to: string; value: string; data?: string },
+  ): Promise<string> {
+    const signed = await this.signTransaction(chainId, derivationIndex, tx);
+    return this.broadcastTransaction(chainId, signed.rawTx);
+  }
+
+  /**
+   * 补全 nonce 和 gas 并由密钥托管签名，不广播。签名后的原始交易可以原样重新广播，nonce 不变。
+   */
+  async signTransaction(
+    chainId: string,
+    derivationIndex: number,
+    tx: { to: string; value: string; data?: string },
+  ): Promise<SignedTransaction> {
+    const provider = this.getProvider(chainId);
+    const extendedPublicKey = await this.keyCustody.getExtendedPublicKey(chainId);
+    const from = deriveAddress(extendedPublicKey, derivationIndex);
+
+    const [nonce, gasPrice, gasLimit] = await Promise.all([
+      provider.provider.getTransactionCount(from, 'pending'),
+      provider.provider.getGasPrice(),
+      provider.provider.estimateGas({ from, to: tx.to, value: tx.value, data: tx.data }),
+    ]);
+
+    const unsigned: UnsignedTransaction = {
+      chainId: parseInt(chainId),
+      to: tx.to,
+      value: tx.value,
+      data: tx.data,
+      nonce,
+      gasLimit: gasLimit.toString(),
+      gasPrice: gasPrice.toString(),
+    };
+    const rawTx = await this.keyCustody.signTransaction(chainId, derivationIndex, unsigned);
+    return { hash: ethers.utils.keccak256(rawTx), rawTx, nonce };
+  }
+
+  /**
+   * 同一账户的签名到广播须串行执行：nonce 取自节点的待处理交易数，并发签名会取到相同的 nonce。
+   * 热钱包同时用于提现和为归集补充 gas，两处都在此锁内签名。取不到锁时返回 false，由调用方下一轮重试。
+   */
+  async withSignerLock(chainId: string, derivationIndex: number, task: () => Promise<void>): Promise<boolean> {
+    const lockKey = `${this.SIGNER_LOCK_KEY}${chainId}:${derivationIndex}`;
+    const locked = await this.redis.set(lockKey, '1', 'EX', this.SIGNER_LOCK_TTL, 'NX');
+    if (!locked) {
+      return false;
+    }
+
+    try {
+      await task();
+      return true;
+    } finally {
+      await this.redis.del(lockKey);
+    }
+  }
+
+  async broadcastTransaction(chainId: string, rawTx: string): Promise<string> {
+    const response = await this.getProvider(chainId).provider.sendTransaction(rawTx);
+    return response.hash;
+  }
+
+  /**
+   * 签名交易的 nonce 是否已被已确认的交易占用。占用后同一签名交易无法再广播，
+   * 它要么已在链上，要么被同一 nonce 的其他交易替代。
+   */
+  async isNonceConsumed(chainId: string, rawTx: string): Promise<boolean> {
+    const { from, nonce } = ethers.utils.parseTransaction(rawTx);
+    const confirmedNonce = await this.getProvider(chainId).provider.getTransactionCount(from, 'latest');
+    return confirmedNonce > nonce;
+  }
+
   async getCurrentBlockNumber(chainId: string): Promise<number> {
     const provider = this.getProvider(chainId);
     return await provider.provider.getBlockNumber();
   }
 
+  /**
+   * 地址上原生币或代币的余额，以最小单位表示。
+   */
+  async getBalance(chainId: string, currency: string, address: string): Promise<bigint> {
+    const provider = this.getProvider(chainId);
+    const contract = provider.contracts.get(currency);
+    const balance = contract
+      ? await contract.balanceOf(address)
+      : await provider.provider.getBalance(address);
+    return BigInt(balance.toString());
+  }
+
+  async getGasPrice(chainId: string): Promise<bigint> {
+    const provider = this.getProvider(chainId);
+    const gasPrice = await provider.provider.getGasPrice();
+    return BigInt(gasPrice.toString());
+  }
+
+  /**
+   * 向 to 转账的交易内容：代币为对合约的 transfer 调用，原生币直接转账。
+   */
+  buildTransfer(chainId: string, currency: string, to: string, amount: bigint): { to: string; value: string; data?: string } {
+    const contract = this.getProvider(chainId).contracts.get(currency);
+    if (!contract) {
+      return { to, value: amount.toString() };
+    }
+    return { to: contract.address, value: '0', data: this.encodeTokenTransfer(chainId, currency, to, amount) };
+  }
+
+  encodeTokenTransfer(chainId: string, currency: string, to: string, amount: bigint): string {
+    const contract = this.getProvider(chainId).contracts.get(currency);
+    if (!contract) {
+      throw new Error(`Token contract not found for ${currency} on chain ${chainId}`);
+    }
+    return contract.interface.encodeFunctionData('transfer', [to, amount.toString()]);
+  }
+
+  async getBlockHeader(chainId: string, blockNumber: number): Promise<BlockHeader | null> {
+    const provider = this.getProvider(chainId);
+    const block = await provider.provider.getBlock(blockNumber);
+    if (!block) {
+      return null;
+    }
+    return { number: block.number, hash: block.hash, parentHash: block.parentHash };
+  }
+
+  async getBlockHeaders(chainId: string, fromBlock: number, toBlock: number): Promise<BlockHeader[]> {
+    const headers = await Promise.all(
+      Array.from({ length: toBlock - fromBlock + 1 }, (_, i) => this.getBlockHeader(chainId, fromBlock + i))
+    );
+    if (headers.some(header => !header)) {
+      throw new Error(`Blocks ${fromBlock}-${toBlock} not available on chain ${chainId}`);
+    }
+    return headers;
+  }
+
+  /**
+   * 扫描区块范围内的充值：原生币按交易的 to 地址识别，代币按各合约的 Transfer 日志识别。
+   */
   async scanBlocksForDeposits(
     chainId: string,
     fromBlock: number,
@@ -110,6 +302,7 @@ export class Web3Service {
     try {
       const provider = this.getProvider(chainId);
       const deposits: any[] = [];
+      const currentBlock = await provider.provider.getBlockNumber();
 
       // 获取区块
       const blocks = await Promise.all(
@@ -122,12 +315,12 @@ export class Web3Service {
       for (const block of blocks) {
         // 处理区块中的交易
         for (const tx of block.transactions) {
-          // 检查交易是否是转账到我们的地址
-          if (depositAddresses.has(tx.to?.toLowerCase())) {
+          // 检查交易是否是原生币转账到我们的地址，代币转账的 to 是合约地址
+          if (depositAddresses.has(tx.to?.toLowerCase()) && (!tx.data || tx.data === '0x')) {
             const receipt = await provider.provider.getTransactionReceipt(tx.hash);
             
             // 解析交易信息
-            const deposit = await this.parseTransaction(chainId, tx, receipt, block);
+            const deposit = await this.parseTransaction(chainId, tx, receipt, block, currentBlock);
             if (deposit) {
               deposits.push(deposit);
             }
@@ -135,6 +328,30 @@ export class Web3Service {
         }
       }
 
+      // 代币充值
+      const transfers = await scanTokenTransfers(
+        provider.provider,
+        this.getTokenContracts(chainId),
+        fromBlock,
+        toBlock,
+        depositAddresses,
+      );
+      for (const transfer of transfers) {
+        deposits.push({
+          txHash: transfer.txHash,
+          logIndex: transfer.logIndex,
+          fromAddress: transfer.fromAddress,
+          toAddress: transfer.toAddress,
+          amount: transfer.amount,
+          currency: transfer.currency,
+          chain: chainId,
+          confirmations: currentBlock - transfer.blockNumber + 1,
+          blockNumber: transfer.blockNumber,
+          blockHash: transfer.blockHash,
+          timestamp: transfer.timestamp,
+        });
+      }
+
       // 记录性能指标
       this.prometheusService.recordLatency('scan_blocks', Date.now() - startTime);
 
@@ -146,15 +363,28 @@ export class Web3Service {
     }
   }
 
+  /**
+   * 链上配置的代币合约及其精度，精度取自币种配置。
+   */
+  getTokenContracts(chainId: string): TokenContract[] {
+    const chainConfig = this.chainConfigs.get(chainId);
+    return Object.entries(chainConfig?.contracts ?? {}).map(([symbol, address]) => {
+      const currencyConfig = this.currencyConfigs.get(symbol);
+      if (!currencyConfig) {
+        throw new Error(`Currency config not found for ${symbol}`);
+      }
+      return { symbol, address, decimals: currencyConfig.decimals };
+    });
+  }
+
   private async parseTransaction(
     chainId: string,
     tx: any,
     receipt: any,
     block: any,
+    currentBlock: number,
   ): Promise<any | null> {
     try {
-      const provider = this.getProvider(chainId);
-      
       // 判断交易是否成功
       if (!receipt || !receipt.status) {
         return null;
@@ -166,21 +396,24 @@ export class Web3Service {
         return null;
       }
 
-      // 获取转账金额
+      // 获取转账金额，保留链上精度的十进制字符串
       const amount = await this.getTransactionAmount(chainId, tx, currency);
-      if (!amount || amount <= 0) {
+      if (!(Number(amount) > 0)) {
         return null;
       }
 
       return {
         txHash: tx.hash,
+        // 原生币转账没有日志
+        logIndex: -1,
         fromAddress: tx.from,
         toAddress: tx.to,
         amount,
         currency,
         chain: chainId,
-        confirmations: await provider.provider.getBlockNumber() - block.number + 1,
+        confirmations: currentBlock - block.number + 1,
         blockNumber: block.number,
+        blockHash: block.hash,
         timestamp: block.timestamp,
       };
     } catch (error) {
@@ -193,66 +426,31 @@ export class Web3Service {
     chainId: string,
     tx: any,
   ): Promise<string | null> {
-    const provider = this.getProvider(chainId);
-    
-    // 如果是原生币转账
-    if (!tx.data || tx.data === '0x') {
-      const chainConfig = this.chainConfigs.get(chainId);
-      return chainConfig?.nativeCurrency.symbol || null;
-    }
-
-    // 如果是代币转账
-    for (const [symbol, contract] of provider.contracts.entries()) {
-      if (tx.to.toLowerCase() === contract.address.toLowerCase()) {
-        return symbol;
-      }
-    }
-
-    return null;
+    const chainConfig = this.chainConfigs.get(chainId);
+    return chainConfig?.nativeCurrency.symbol || null;
   }
 
   private async getTransactionAmount(
     chainId: string,
     tx: any,
     currency: string,
-  ): Promise<number> {
-    const provider = this.getProvider(chainId);
+  ): Promise<string> {
     const currencyConfig = this.currencyConfigs.get(currency);
     
     if (!currencyConfig) {
       throw new Error(`Currency config not found for ${currency}`);
     }
 
-    // 如果是原生币转账
-    if (!tx.data || tx.data === '0x') {
-      return parseFloat(ethers.utils.formatUnits(tx.value, currencyConfig.decimals));
-    }
-
-    // 如果是代币转账
-    const contract = provider.contracts.get(currency);
-    if (!contract) {
-      throw new Error(`Contract not found for ${currency}`);
-    }
-
-    // 解析转账数据
-    const iface = new ethers.utils.Interface([
-      'function transfer(address to, uint256 amount)',
-    ]);
-    const decoded = iface.decodeFunctionData('transfer', tx.data);
-    return parseFloat(ethers.utils.formatUnits(decoded.amount, currencyConfig.decimals));
+    return ethers.utils.formatUnits(tx.value, currencyConfig.decimals);
   }
 
+  /**
+   * 交易在所在链上的确认数，查不到收据时为 0。同一币种可能跨多条链，须按交易记录的链查询。
+   */
   async getTransactionConfirmations(
-    currency: string,
+    chainId: string,
     txHash: string,
   ): Promise<number> {
-    const currencyConfig = this.currencyConfigs.get(currency);
-    if (!currencyConfig) {
-      throw new Error(`Currency config not found for ${currency}`);
-    }
-
-    // 获取交易所在的链
-    const chainId = currencyConfig.chains[0]; // 使用第一条支持的链
     const provider = this.getProvider(chainId);
 
     // 获取交易收据
@@ -266,12 +464,6 @@ export class Web3Service {
     return currentBlock - receipt.blockNumber + 1;
   }
 
-  async getDepositAddress(chain: string, baseAddress: string): Promise<string> {
-    // 对于不同的链，可能需要不同的地址格式
-    // 这里简单返回基础地址
-    return baseAddress;
-  }
-
   isValidAddress(chain: string, address: string): boolean {
     try {
       return ethers.utils.isAddress(address);
@@ -0,0 +1,282 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, WalletTransaction } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WalletService } from './wallet.service';
+import {
+  TransactionStatus,
+  TransactionType,
+  WithdrawalReviewDecision,
+} from '../types/wallet.types';
+import {
+  DEFAULT_WITHDRAWAL_RISK_CONFIG,
+  WithdrawalRiskAssessment,
+  WithdrawalRiskConfig,
+  scoreWithdrawal,
+} from '../review/withdrawal-risk';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 提现审核：按风险规则为提现打分，高风险提现进入 PENDING_REVIEW，
+ * 需 M 位管理员中的 N 位批准后才会广播，任一管理员拒绝即退回。每个决定都写入钱包审计日志。
+ */
+@Injectable()
+export class WithdrawalReviewService {
+  private readonly logger = new Logger(WithdrawalReviewService.name);
+  private readonly riskConfig: WithdrawalRiskConfig;
+  private readonly requiredApprovals: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly walletService: WalletService,
+  ) {
+    this.riskConfig = {
+      ...DEFAULT_WITHDRAWAL_RISK_CONFIG,
+      reviewThreshold: Number(
+        this.configService.get('WITHDRAWAL_REVIEW_RISK_THRESHOLD', DEFAULT_WITHDRAWAL_RISK_CONFIG.reviewThreshold),
+      ),
+    };
+    this.requiredApprovals = Number(this.configService.get('WITHDRAWAL_REVIEW_APPROVALS', 2));
+  }
+
+  async assessRisk(request: {
+    userId: string;
+    currency: string;
+    amount: string;
+    address: string;
+  }): Promise<WithdrawalRiskAssessment> {
+    const now = new Date();
+    const [previousWithdrawals, recentDeposits, user] = await Promise.all([
+      this.prisma.walletTransaction.findMany({
+        where: {
+          userId: request.userId,
+          currency: request.currency,
+          type: TransactionType.WITHDRAW,
+          status: TransactionStatus.COMPLETED,
+        },
+        select: { amount: true, address: true },
+      }),
+      this.prisma.walletTransaction.findMany({
+        where: {
+          userId: request.userId,
+          currency: request.currency,
+          type: TransactionType.DEPOSIT,
+          status: TransactionStatus.COMPLETED,
+          createdAt: { gte: new Date(now.getTime() - this.riskConfig.depositVelocityWindowHours * HOUR) },
+        },
+        select: { amount: true },
+      }),
+      this.prisma.user.findUnique({
+        where: { id: request.userId },
+        select: { passwordChangedAt: true, twoFactorChangedAt: true },
+      }),
+    ]);
+
+    return scoreWithdrawal(
+      {
+        amount: request.amount,
+        toAddress: request.address,
+        previousWithdrawals: previousWithdrawals.map(w => ({ amount: w.amount, toAddress: w.address ?? '' })),
+        recentDepositAmount: FixedDecimal.sum(recentDeposits.map(d => d.amount)),
+        passwordChangedAt: user?.passwordChangedAt,
+        twoFactorChangedAt: user?.twoFactorChangedAt,
+        now,
+      },
+      this.riskConfig,
+    );
+  }
+
+  /**
+   * 提现进入人工审核时记录审计日志并通知管理员。
+   */
+  async submitForReview(withdrawal: WalletTransaction, assessment: WithdrawalRiskAssessment) {
+    await this.walletService.createAuditLog({
+      userId: withdrawal.userId,
+      currency: withdrawal.currency,
+      action: 'WITHDRAWAL_REVIEW_REQUIRED',
+      changes: {
+        withdrawalId: withdrawal.id,
+        riskScore: assessment.score,
+        riskFactors: assessment.factors,
+      },
+      reason: assessment.factors.map(factor => factor.rule).join(','),
+      operator: 'system',
+      ipAddress: '',
+    });
+
+    this.eventEmitter.emit('wallet.withdrawal.review', {
+      userId: withdrawal.userId,
+      currency: withdrawal.currency,
+      amount: withdrawal.amount,
+      riskScore: assessment.score,
+      withdrawal,
+    });
+  }
+
+  async getPendingReviews() {
+    const [withdrawals, adminCount] = await Promise.all([
+      this.prisma.walletTransaction.findMany({
+        where: {
+          type: TransactionType.WITHDRAW,
+          status: TransactionStatus.PENDING_REVIEW,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.user.count({ where: { role: 'admin' } }),
+    ]);
+
+    const approvals = await this.prisma.withdrawalApproval.findMany({
+      where: { withdrawalId: { in: withdrawals.map(w => w.id) } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return withdrawals.map(withdrawal => ({
+      ...withdrawal,
+      approvals: approvals.filter(approval => approval.withdrawalId === withdrawal.id),
+      requiredApprovals: this.requiredApprovals,
+      adminCount,
+    }));
+  }
+
+  /**
+   * 管理员批准：批准数达到 N 时提现回到 PENDING，由提现任务广播。
+   */
+  async approve(withdrawalId: string, adminId: string, ipAddress: string, reason?: string) {
+    const withdrawal = await this.getReviewableWithdrawal(withdrawalId, adminId);
+
+    const approved = await this.prisma.$transaction(async prisma => {
+      await this.recordDecision(prisma, withdrawalId, adminId, WithdrawalReviewDecision.APPROVE, reason);
+
+      const approvals = await prisma.withdrawalApproval.count({
+        where: { withdrawalId, decision: WithdrawalReviewDecision.APPROVE },
+      });
+      if (approvals < this.requiredApprovals) {
+        return false;
+      }
+
+      // 按状态条件更新，避免与并发的拒绝互相覆盖
+      const { count } = await prisma.walletTransaction.updateMany({
+        where: { id: withdrawalId, status: TransactionStatus.PENDING_REVIEW },
+        data: { status: TransactionStatus.PENDING, updatedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new Error('Withdrawal is no longer pending review');
+      }
+      return true;
+    });
+
+    await this.walletService.createAuditLog({
+      userId: withdrawal.userId,
+      currency: withdrawal.currency,
+      action: 'WITHDRAWAL_APPROVED',
+      changes: {
+        withdrawalId,
+        status: approved ? TransactionStatus.PENDING : TransactionStatus.PENDING_REVIEW,
+        requiredApprovals: this.requiredApprovals,
+      },
+      reason,
+      operator: adminId,
+      ipAddress,
+    });
+
+    if (approved) {
+      this.logger.log(`Withdrawal ${withdrawalId} approved for broadcast`);
+      this.eventEmitter.emit('wallet.withdrawal.approved', {
+        userId: withdrawal.userId,
+        currency: withdrawal.currency,
+        amount: withdrawal.amount,
+        withdrawal,
+      });
+    }
+
+    return { withdrawalId, approved };
+  }
+
+  /**
+   * 管理员拒绝：提现直接终止并退回冻结的余额。
+   */
+  async reject(withdrawalId: string, adminId: string, ipAddress: string, reason: string) {
+    const withdrawal = await this.getReviewableWithdrawal(withdrawalId, adminId);
+
+    await this.prisma.$transaction(async prisma => {
+      await this.recordDecision(prisma, withdrawalId, adminId, WithdrawalReviewDecision.REJECT, reason);
+
+      const { count } = await prisma.walletTransaction.updateMany({
+        where: { id: withdrawalId, status: TransactionStatus.PENDING_REVIEW },
+        data: { status: TransactionStatus.REJECTED, updatedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new Error('Withdrawal is no longer pending review');
+      }
+    });
+
+    // 退回创建提现时冻结的金额和手续费
+    await this.walletService.unfreezeBalance(
+      withdrawal.userId,
+      withdrawal.currency,
+      FixedDecimal.from(withdrawal.amount).plus(withdrawal.fee ?? '0').toString(),
+    );
+
+    await this.walletService.createAuditLog({
+      userId: withdrawal.userId,
+      currency: withdrawal.currency,
+      action: 'WITHDRAWAL_REJECTED',
+      changes: { withdrawalId, status: TransactionStatus.REJECTED },
+      reason,
+      operator: adminId,
+      ipAddress,
+    });
+
+    this.eventEmitter.emit('wallet.withdrawal.rejected', {
+      userId: withdrawal.userId,
+      currency: withdrawal.currency,
+      amount: withdrawal.amount,
+      reason,
+      withdrawal,
+    });
+
+    return { withdrawalId, rejected: true };
+  }
+
+  private async getReviewableWithdrawal(withdrawalId: string, adminId: string): Promise<WalletTransaction> {
+    const withdrawal = await this.prisma.walletTransaction.findUnique({
+      where: { id: withdrawalId },
+    });
+
+    if (!withdrawal || withdrawal.type !== TransactionType.WITHDRAW) {
+      throw new Error('Withdrawal not found');
+    }
+    if (withdrawal.status !== TransactionStatus.PENDING_REVIEW) {
+      throw new Error('Withdrawal is not pending review');
+    }
+    if (withdrawal.userId === adminId) {
+      throw new Error('Cannot review your own withdrawal');
+    }
+
+    return withdrawal;
+  }
+
+  private async recordDecision(
+    prisma: Prisma.TransactionClient,
+    withdrawalId: string,
+    adminId: string,
+    decision: WithdrawalReviewDecision,
+    reason?: string,
+  ) {
+    try {
+      await prisma.withdrawalApproval.create({
+        data: { withdrawalId, adminId, decision, reason },
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new Error('Withdrawal already reviewed by this admin');
+      }
+      throw error;
+    }
+  }
+}
@@ -2,18 +2,32 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 import { PrismaService } from '../../prisma/prisma.service';
-import { Web3Service } from '../../web3/web3.service';
+import { Web3Service } from './web3.service';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WalletTransaction, WithdrawalLimit } from '@prisma/client';
 import { Cron } from '@nestjs/schedule';
+import { PrometheusService } from '../../monitoring/services/prometheus.service';
+import { WithdrawalReviewService } from './withdrawal-review.service';
+import { WalletService } from './wallet.service';
+import {
+  ChainConfig,
+  CurrencyConfig,
+  TransactionStatus,
+  TransactionType,
+  WalletAddress,
+} from '../types/wallet.types';
+import { parseUnits } from '../chain/erc20-transfers';
+import { parseChainConfig } from '../chain/chain-config';
+import { FixedDecimal } from '../../../shared/utils/fixed-decimal';
 
 interface WithdrawalRequest {
   userId: string;
   currency: string;
   chain: string;
-  amount: number;
-  toAddress: string;
-  memo?: string;
+  // 十进制金额字符串，不含手续费
+  amount: string;
+  address: string;
 }
 
 @Injectable()
@@ -21,8 +35,11 @@ export class WithdrawalService {
   private readonly logger = new Logger(WithdrawalService.name);
   private readonly WITHDRAWAL_LOCK_KEY = 'withdrawal:lock:';
   private readonly WITHDRAWAL_LOCK_TTL = 60; // 60 seconds
+  // 所在区块被重组废弃、需要重新广播的提现
+  private readonly REBROADCAST_QUEUE_KEY = 'withdrawal:rebroadcast';
   private readonly currencyConfigs: Map<string, CurrencyConfig> = new Map();
   private readonly chainConfigs: Map<string, ChainConfig> = new Map();
+  private readonly hotWalletUserId: string;
 
   constructor(
     @InjectRedis() private readonly redis: Redis,
@@ -30,7 +47,11 @@ export class WithdrawalService {
     private readonly web3Service: Web3Service,
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly prometheusService: PrometheusService,
+    private readonly withdrawalReviewService: WithdrawalReviewService,
+    private readonly walletService: WalletService,
   ) {
+    this.hotWalletUserId = this.configService.get('wallet.hotWalletUserId', 'hot-wallet');
     this.initializeConfigs();
   }
 
@@ -44,7 +65,7 @@ export class WithdrawalService {
     }
 
     for (const chain of chains) {
-      this.chainConfigs.set(chain.chainId, chain);
+      this.chainConfigs.set(chain.chain, parseChainConfig(chain));
     }
   }
 
@@ -54,31 +75,32 @@ export class WithdrawalService {
     try {
       // 验证币种配置
       const currencyConfig = this.currencyConfigs.get(request.currency);
-      if (!currencyConfig || !currencyConfig.enabled) {
+      if (!currencyConfig || !currencyConfig.isActive) {
         throw new Error(`Currency ${request.currency} is not supported`);
       }
 
       // 验证链配置
-      if (!currencyConfig.chains.includes(request.chain)) {
+      const chainConfig = this.chainConfigs.get(request.chain);
+      if (
+        !chainConfig ||
+        (chainConfig.nativeCurrency.symbol !== request.currency && !chainConfig.contracts[request.currency])
+      ) {
         throw new Error(`Chain ${request.chain} is not supported for ${request.currency}`);
       }
 
       // 验证地址格式
-      if (!this.web3Service.isValidAddress(request.chain, request.toAddress)) {
+      if (!this.web3Service.isValidAddress(request.chain, request.address)) {
         throw new Error('Invalid withdrawal address');
       }
 
       // 验证提现金额
-      if (request.amount <= 0) {
+      if (!FixedDecimal.isValid(request.amount) || !FixedDecimal.from(request.amount).isPositive()) {
         throw new Error('Invalid withdrawal amount');
       }
+      const amount = FixedDecimal.from(request.amount);
 
-      if (request.amount < currencyConfig.minWithdrawal) {
-        throw new Error(`Withdrawal amount must be at least ${currencyConfig.minWithdrawal}`);
-      }
-
-      if (request.amount > currencyConfig.maxWithdrawal) {
-        throw new Error(`Withdrawal amount cannot exceed ${currencyConfig.maxWithdrawal}`);
+      if (amount.lt(currencyConfig.minWithdraw)) {
+        throw new Error(`Withdrawal amount must be at least ${currencyConfig.minWithdraw}`);
       }
 
       // 检查地址白名单
@@ -86,56 +108,56 @@ export class WithdrawalService {
         request.userId,
         request.currency,
         request.chain,
-        request.toAddress
+        request.address
       );
 
       if (!isWhitelisted) {
         throw new Error('Address not in whitelist');
       }
 
-      // 检查提现限额
-      await this.walletService.checkAndUpdateWithdrawalLimit(
-        request.userId,
-        request.currency,
-        request.amount
-      );
+      // 手续费按币种固定收取
+      const fee = FixedDecimal.from(currencyConfig.withdrawFee);
 
-      // 获取钱包
-      const wallet = await this.walletService.getWallet(request.userId, request.currency);
-      if (!wallet) {
-        throw new Error('Wallet not found');
-      }
-
-      // 计算手续费
-      const fee = this.calculateWithdrawalFee(request.amount, currencyConfig);
-      const totalAmount = request.amount + fee;
-
-      // 冻结余额
-      await this.walletService.freezeBalance(wallet.id, totalAmount);
+      // 风险评分，高风险提现需人工审核后才会广播
+      const assessment = await this.withdrawalReviewService.assessRisk({
+        userId: request.userId,
+        currency: request.currency,
+        amount: amount.toString(),
+        address: request.address,
+      });
 
-      // 创建提现记录
-      const withdrawal = await this.prisma.walletTransaction.create({
-        data: {
-          walletId: wallet.id,
-          userId: request.userId,
-          currency: request.currency,
-          type: TransactionType.WITHDRAW,
-          amount: request.amount,
-          fee,
-          status: TransactionStatus.PENDING,
-          toAddress: request.toAddress,
-          memo: request.memo,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
+      // 累加提现限额、冻结金额和手续费并创建提现记录，任一步失败整体回滚
+      const withdrawal = await this.prisma.$transaction(async (prisma) => {
+        await this.walletService.checkAndUpdateWithdrawalLimit(request.userId, request.currency, amount, prisma);
+        await this.walletService.freezeBalance(request.userId, request.currency, amount.plus(fee), prisma);
+
+        return prisma.walletTransaction.create({
+          data: {
+            userId: request.userId,
+            currency: request.currency,
+            type: TransactionType.WITHDRAW,
+            amount: amount.toString(),
+            fee: fee.toString(),
+            status: assessment.requiresReview ? TransactionStatus.PENDING_REVIEW : TransactionStatus.PENDING,
+            chain: request.chain,
+            address: request.address,
+            riskScore: assessment.score,
+            // 展开为普通对象才能写入 Json 列
+            riskFactors: assessment.factors.map(factor => ({ ...factor })),
+          },
+        });
       });
 
+      if (assessment.requiresReview) {
+        await this.withdrawalReviewService.submitForReview(withdrawal, assessment);
+      }
+
       // 发送提现请求事件
       this.eventEmitter.emit('wallet.withdrawal.created', {
         userId: request.userId,
         currency: request.currency,
-        amount: request.amount,
-        fee,
+        amount: withdrawal.amount,
+        fee: withdrawal.fee,
         withdrawal,
       });
 
@@ -150,10 +172,6 @@ export class WithdrawalService {
     }
   }
 
-  private calculateWithdrawalFee(amount: number, currencyConfig: CurrencyConfig): number {
-    return amount * currencyConfig.withdrawalFee;
-  }
-
   private async checkAddressWhitelist(
     userId: string,
     currency: string,
@@ -166,7 +184,6 @@ export class WithdrawalService {
         currency,
         chain,
         address,
-        enabled: true,
       },
     });
 
@@ -188,10 +205,10 @@ export class WithdrawalService {
         take: 10, // 每次处理10条
       });
 
-      // 并行处理提现
-      await Promise.all(
-        pendingWithdrawals.map(withdrawal => this.processWithdrawal(withdrawal.id))
-      );
+      // 逐笔处理提现，同一热钱包并行签名会取到相同的 nonce
+      for (const withdrawal of pendingWithdrawals) {
+        await this.processWithdrawal(withdrawal.id);
+      }
 
       // 记录性能指标
       this.prometheusService.recordLatency('process_withdrawals', Date.now() - startTime);
@@ -201,8 +218,12 @@ export class WithdrawalService {
     }
   }
 
+  /**
+   * 从热钱包签名并广播提现交易。签名交易先落库再广播，广播失败或所在区块被重组废弃时
+   * 原样重新广播同一笔签名交易，nonce 不变，不会重复出账。
+   */
   async processWithdrawal(withdrawalId: string): Promise<void> {
-    const lockKey = `withdrawal:lock:${withdrawalId}`;
+    const lockKey = `${this.WITHDRAWAL_LOCK_KEY}${withdrawalId}`;
     const locked = await this.redis.set(lockKey, '1', 'EX', this.WITHDRAWAL_LOCK_TTL, 'NX');
 
     if (!locked) {
@@ -213,41 +234,74 @@ export class WithdrawalService {
     try {
       const withdrawal = await this.prisma.walletTransaction.findUnique({
         where: { id: withdrawalId },
-        include: { wallet: true },
       });
 
-      if (!withdrawal || withdrawal.type !== 'WITHDRAWAL' || withdrawal.status !== 'PENDING') {
+      if (
+        !withdrawal ||
+        withdrawal.type !== TransactionType.WITHDRAW ||
+        withdrawal.status !== TransactionStatus.PENDING
+      ) {
         return;
       }
 
-      await this.web3Service.sendWithdrawal({
-        to: withdrawal.wallet.address,
-        amount: withdrawal.amount.toString(),
-        currency: withdrawal.currency,
-      });
-
-      await this.prisma.walletTransaction.update({
-        where: { id: withdrawalId },
-        data: { status: 'COMPLETED' },
-      });
-
-      await this.eventEmitter.emit('withdrawal.completed', {
-        withdrawalId,
-        userId: withdrawal.userId,
-      });
-    } catch (error) {
-      this.logger.error(`Failed to process withdrawal ${withdrawalId}:`, error);
-
-      await this.prisma.walletTransaction.update({
-        where: { id: withdrawalId },
-        data: { status: 'FAILED' },
-      });
-
-      await this.eventEmitter.emit('withdrawal.failed', {
-        withdrawalId,
-        userId: withdrawal.userId,
-        error: error.message,
-      });
+      let signed = false;
+      try {
+        const currencyConfig = this.currencyConfigs.get(withdrawal.currency);
+        if (!currencyConfig) {
+          throw new Error(`Currency config not found for ${withdrawal.currency}`);
+        }
+
+        const hotWallet = await this.getHotWallet(withdrawal.chain);
+        const processed = await this.web3Service.withSignerLock(withdrawal.chain, hotWallet.derivationIndex, async () => {
+          const transaction = await this.web3Service.signTransaction(
+            withdrawal.chain,
+            hotWallet.derivationIndex,
+            this.web3Service.buildTransfer(
+              withdrawal.chain,
+              withdrawal.currency,
+              withdrawal.address,
+              parseUnits(withdrawal.amount, currencyConfig.decimals),
+            ),
+          );
+
+          await this.prisma.walletTransaction.update({
+            where: { id: withdrawalId },
+            data: {
+              status: TransactionStatus.PROCESSING,
+              txHash: transaction.hash,
+              rawTx: transaction.rawTx,
+              confirmations: 0,
+              updatedAt: new Date(),
+            },
+          });
+          signed = true;
+
+          await this.web3Service.broadcastTransaction(withdrawal.chain, transaction.rawTx);
+
+          this.eventEmitter.emit('wallet.withdrawal.broadcast', {
+            userId: withdrawal.userId,
+            currency: withdrawal.currency,
+            amount: withdrawal.amount,
+            txHash: transaction.hash,
+            withdrawal,
+          });
+        });
+
+        if (!processed) {
+          // 热钱包正在为其他提现或归集签名，提现保持待处理，下一轮再签名
+          this.logger.debug(`Hot wallet on chain ${withdrawal.chain} is busy, withdrawal ${withdrawalId} deferred`);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to process withdrawal ${withdrawalId}: ${error.message}`);
+        this.prometheusService.incrementErrors('process_withdrawal_error');
+
+        if (signed) {
+          // 签名交易可能已到达节点，不能作废后重新签名，只能原样重新广播
+          await this.redis.rpush(this.REBROADCAST_QUEUE_KEY, withdrawalId);
+        } else {
+          await this.rollbackWithdrawal(withdrawal);
+        }
+      }
     } finally {
       await this.redis.del(lockKey);
     }
@@ -282,10 +336,16 @@ export class WithdrawalService {
     try {
       // 获取交易确认数
       const confirmations = await this.web3Service.getTransactionConfirmations(
-        withdrawal.currency,
+        withdrawal.chain,
         withdrawal.txHash
       );
 
+      // 已上链的交易查不到收据，说明所在区块被重组废弃，放回重新广播队列
+      if (confirmations === 0 && withdrawal.confirmations > 0) {
+        await this.requeueWithdrawal(withdrawal);
+        return;
+      }
+
       // 获取币种配置
       const currencyConfig = this.currencyConfigs.get(withdrawal.currency);
       if (!currencyConfig) {
@@ -317,6 +377,88 @@ export class WithdrawalService {
     }
   }
 
+  private async requeueWithdrawal(withdrawal: WalletTransaction) {
+    this.logger.warn(`Withdrawal ${withdrawal.id} tx ${withdrawal.txHash} dropped from chain, queued for rebroadcast`);
+
+    // 冻结的余额保持不变，重新广播成功前提现仍占用余额；状态保持处理中，
+    // 不会被当作待处理提现重新签名
+    await this.prisma.walletTransaction.update({
+      where: { id: withdrawal.id },
+      data: {
+        confirmations: 0,
+        updatedAt: new Date(),
+      },
+    });
+    await this.redis.rpush(this.REBROADCAST_QUEUE_KEY, withdrawal.id);
+
+    this.eventEmitter.emit('wallet.withdrawal.rebroadcast', {
+      userId: withdrawal.userId,
+      currency: withdrawal.currency,
+      amount: withdrawal.amount,
+      txHash: withdrawal.txHash,
+      withdrawal,
+    });
+  }
+
+  // 被重组废弃的提现优先重新广播，不必等待待处理提现按创建时间排队
+  @Cron('*/1 * * * *')
+  async processRebroadcastQueue() {
+    // 只处理本轮开始时已在队列中的提现，广播失败重新入队的留到下一轮
+    const count = await this.redis.llen(this.REBROADCAST_QUEUE_KEY);
+    for (let i = 0; i < count; i++) {
+      const withdrawalId = await this.redis.lpop(this.REBROADCAST_QUEUE_KEY);
+      if (!withdrawalId) {
+        break;
+      }
+      await this.rebroadcastWithdrawal(withdrawalId);
+    }
+  }
+
+  /**
+   * 原样重新广播已签名的提现交易。nonce 已被占用时节点会拒绝，交易要么已重新上链、
+   * 由确认数检查完成提现，要么被同一 nonce 的其他交易替代，需要人工处理。
+   */
+  async rebroadcastWithdrawal(withdrawalId: string): Promise<void> {
+    const withdrawal = await this.prisma.walletTransaction.findUnique({
+      where: { id: withdrawalId },
+    });
+    if (
+      !withdrawal ||
+      withdrawal.type !== TransactionType.WITHDRAW ||
+      withdrawal.status !== TransactionStatus.PROCESSING ||
+      !withdrawal.rawTx
+    ) {
+      return;
+    }
+
+    try {
+      await this.web3Service.broadcastTransaction(withdrawal.chain, withdrawal.rawTx);
+      this.logger.log(`Rebroadcast withdrawal ${withdrawal.id} tx ${withdrawal.txHash}`);
+    } catch (error) {
+      if (!(await this.web3Service.isNonceConsumed(withdrawal.chain, withdrawal.rawTx))) {
+        this.logger.warn(`Failed to rebroadcast withdrawal ${withdrawal.id}, retrying: ${error.message}`);
+        await this.redis.rpush(this.REBROADCAST_QUEUE_KEY, withdrawal.id);
+        return;
+      }
+
+      const confirmations = await this.web3Service.getTransactionConfirmations(
+        withdrawal.chain,
+        withdrawal.txHash
+      );
+      if (confirmations === 0) {
+        this.logger.error(`Nonce of withdrawal ${withdrawal.id} tx ${withdrawal.txHash} used by another transaction`);
+        this.prometheusService.incrementErrors('withdrawal_nonce_replaced');
+      }
+    }
+  }
+
+  private async getHotWallet(chainId: string): Promise<WalletAddress> {
+    await this.web3Service.generateAddress(chainId, this.hotWalletUserId);
+    return this.prisma.walletAddress.findUnique({
+      where: { userId_chainId: { userId: this.hotWalletUserId, chainId } },
+    });
+  }
+
   private async completeWithdrawal(withdrawal: WalletTransaction) {
     await this.prisma.$transaction(async (prisma) => {
       // 更新提现状态
@@ -328,22 +470,14 @@ export class WithdrawalService {
         },
       });
 
-      // 扣除冻结余额
-      await this.walletService.unfreezeBalance(
-        withdrawal.walletId,
-        withdrawal.amount + withdrawal.fee
+      // 从冻结余额中扣除已出账的金额和手续费
+      await this.walletService.deductLockedBalance(
+        withdrawal.userId,
+        withdrawal.currency,
+        FixedDecimal.from(withdrawal.amount).plus(withdrawal.fee ?? '0'),
+        prisma,
       );
 
-      // 更新总提现金额
-      await prisma.wallet.update({
-        where: { id: withdrawal.walletId },
-        data: {
-          totalWithdraw: {
-            increment: withdrawal.amount,
-          },
-        },
-      });
-
       // 发送提现完成事件
       this.eventEmitter.emit('wallet.withdrawal.completed', {
         userId: withdrawal.userId,
@@ -366,10 +500,12 @@ export class WithdrawalService {
         },
       });
 
-      // 解冻余额
+      // 退回冻结的金额和手续费
       await this.walletService.unfreezeBalance(
-        withdrawal.walletId,
-        withdrawal.amount + withdrawal.fee
+        withdrawal.userId,
+        withdrawal.currency,
+        FixedDecimal.from(withdrawal.amount).plus(withdrawal.fee ?? '0'),
+        prisma,
       );
 
       // 发送提现失败事件
@@ -410,15 +546,12 @@ export class WithdrawalService {
     });
   }
 
-  async getWithdrawalFee(
-    currency: string,
-    amount: number,
-  ): Promise<number> {
+  async getWithdrawalFee(currency: string): Promise<string> {
     const currencyConfig = this.currencyConfigs.get(currency);
     if (!currencyConfig) {
       throw new Error(`Currency ${currency} not supported`);
     }
-    return this.calculateWithdrawalFee(amount, currencyConfig);
+    return currencyConfig.withdrawFee;
   }
 
   async getWithdrawalLimits(
@@ -0,0 +1,166 @@
+import { DepositService } from '../services/deposit.service';
+import { TransactionStatus, TransactionType } from '../types/wallet.types';
+
+describe('DepositService', () => {
+  let service: DepositService;
+
+  const deposit = {
+    id: 'deposit-1',
+    userId: 'user-1',
+    type: TransactionType.DEPOSIT,
+    status: TransactionStatus.PROCESSING,
+    currency: 'USDT',
+    chain: '137',
+    amount: '10.000001',
+    txHash: '0xdeposit',
+    logIndex: 0,
+    blockNumber: 100,
+    blockHash: '0xoriginal',
+    confirmations: 3,
+  };
+
+  const mockPrisma: any = {
+    currencyConfig: { findMany: jest.fn() },
+    chainConfig: { findMany: jest.fn() },
+    walletTransaction: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+    walletAddress: { findFirst: jest.fn(), findMany: jest.fn() },
+    $transaction: jest.fn(callback => callback(mockPrisma)),
+  };
+
+  const mockWeb3Service = {
+    generateAddress: jest.fn(),
+    getTransactionConfirmations: jest.fn(),
+    getBlockHeader: jest.fn(),
+  };
+
+  const mockWalletService = { createAuditLog: jest.fn(), creditBalance: jest.fn(), debitBalance: jest.fn() };
+  const mockEventEmitter = { emit: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrisma.currencyConfig.findMany.mockResolvedValue([{ symbol: 'USDT', confirmations: 12 }]);
+    mockPrisma.chainConfig.findMany.mockResolvedValue([
+      {
+        chain: '137',
+        nativeCurrency: 'MATIC',
+        nativeDecimals: 18,
+        contracts: { USDT: '0xc2132d05d31c914a87c6611c10748aeb04b58e8f' },
+      },
+    ]);
+    mockPrisma.walletTransaction.findMany.mockResolvedValue([{ ...deposit }]);
+    mockWeb3Service.getTransactionConfirmations.mockResolvedValue(0);
+
+    service = new DepositService(
+      mockPrisma,
+      {} as any,
+      mockEventEmitter as any,
+      { get: jest.fn((key: string, defaultValue?: any) => defaultValue) } as any,
+      { recordLatency: jest.fn(), incrementErrors: jest.fn() } as any,
+      mockWalletService as any,
+      mockWeb3Service as any,
+    );
+    // 等待构造函数中异步加载的币种和链配置
+    await new Promise(resolve => setImmediate(resolve));
+  });
+
+  it('should reverse a deposit whose block was replaced on its own chain', async () => {
+    mockWeb3Service.getBlockHeader.mockResolvedValue({ number: 100, hash: '0xreplacement', parentHash: '0x99' });
+
+    await service.updatePendingDeposits();
+
+    expect(mockWeb3Service.getTransactionConfirmations).toHaveBeenCalledWith('137', '0xdeposit');
+    expect(mockWeb3Service.getBlockHeader).toHaveBeenCalledWith('137', 100);
+    expect(mockPrisma.walletTransaction.update).toHaveBeenCalledWith({
+      where: { id: 'deposit-1' },
+      data: expect.objectContaining({ status: TransactionStatus.REVERSED }),
+    });
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'wallet.deposit.reversed',
+      expect.objectContaining({ userId: 'user-1', credited: false }),
+    );
+  });
+
+  it('should keep a negative balance when a spent deposit is reversed', async () => {
+    mockWalletService.debitBalance.mockResolvedValue({ id: 'balance-1', available: '-4.000001', locked: '0' });
+
+    await (service as any).reverseDeposit({ ...deposit, status: TransactionStatus.COMPLETED }, 'Chain reorganization');
+
+    expect(mockWalletService.debitBalance).toHaveBeenCalledWith('user-1', 'USDT', '10.000001', mockPrisma);
+    expect(mockWalletService.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        currency: 'USDT',
+        action: 'DEPOSIT_REVERSED',
+        changes: expect.objectContaining({ balanceAdjustment: '-10.000001', negativeBalance: true }),
+      }),
+    );
+  });
+
+  it('should credit a confirmed deposit to the owner of the deposit address', async () => {
+    mockPrisma.walletTransaction.findFirst.mockResolvedValue(null);
+    mockPrisma.walletAddress.findFirst.mockResolvedValue({ userId: 'user-2', chainId: '137', address: '0xabc' });
+
+    await (service as any).processDeposit({
+      txHash: '0xnew',
+      logIndex: 1,
+      fromAddress: '0xsender',
+      toAddress: '0xABC',
+      amount: '25.5',
+      currency: 'USDT',
+      chain: '137',
+      confirmations: 12,
+      blockNumber: 120,
+      blockHash: '0xblock',
+      timestamp: 1_700_000_000,
+    });
+
+    expect(mockPrisma.walletAddress.findFirst).toHaveBeenCalledWith({
+      where: { chainId: '137', address: { equals: '0xABC', mode: 'insensitive' } },
+    });
+    expect(mockPrisma.walletTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-2',
+        status: TransactionStatus.COMPLETED,
+        fee: '0',
+        address: '0xABC',
+        confirmations: 12,
+      }),
+    });
+    expect(mockWalletService.creditBalance).toHaveBeenCalledWith('user-2', 'USDT', '25.5', mockPrisma);
+  });
+
+  it('should keep the deposit while its block is still on the chain', async () => {
+    mockWeb3Service.getBlockHeader.mockResolvedValue({ number: 100, hash: '0xoriginal', parentHash: '0x99' });
+
+    await service.updatePendingDeposits();
+
+    expect(mockPrisma.walletTransaction.update).not.toHaveBeenCalled();
+    expect(mockEventEmitter.emit).not.toHaveBeenCalledWith('wallet.deposit.reversed', expect.anything());
+  });
+
+  it('should issue deposit addresses through HD derivation', async () => {
+    mockWeb3Service.generateAddress.mockResolvedValue('0xderived');
+
+    await expect(service.getDepositAddress('user-1', 'USDT', '137')).resolves.toBe('0xderived');
+    expect(mockWeb3Service.generateAddress).toHaveBeenCalledWith('137', 'user-1');
+  });
+
+  it('should not issue addresses for currencies the chain does not carry', async () => {
+    await expect(service.getDepositAddress('user-1', 'USDC', '137')).rejects.toThrow(
+      'Currency USDC is not supported on chain 137',
+    );
+    expect(mockWeb3Service.generateAddress).not.toHaveBeenCalled();
+  });
+
+  it('should scan the derived addresses of every user except the hot wallet', async () => {
+    mockPrisma.walletAddress.findMany.mockResolvedValue([{ address: '0xAbC' }, { address: '0xdef' }]);
+
+    const addresses = await (service as any).getSystemDepositAddresses('137');
+
+    expect(addresses).toEqual(new Set(['0xabc', '0xdef']));
+    expect(mockPrisma.walletAddress.findMany).toHaveBeenCalledWith({
+      where: { chainId: '137', userId: { not: 'hot-wallet' } },
+      select: { address: true },
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ChainLog,
+  LogFilter,
+  LogProvider,
+  TokenContract,
+  decodeTransferLog,
+  formatUnits,
+  scanTokenTransfers,
+} from '../chain/erc20-transfers';
+
+// 录制的主网 Transfer 日志，充当 JSON-RPC 节点
+const fixture: { blocks: Array<{ number: number; timestamp: number }>; logs: ChainLog[] } = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'erc20-transfer-logs.json'), 'utf8'),
+);
+
+class RecordedLogProvider implements LogProvider {
+  readonly filters: LogFilter[] = [];
+
+  async getLogs(filter: LogFilter): Promise<ChainLog[]> {
+    this.filters.push(filter);
+    return fixture.logs.filter(
+      log =>
+        log.address.toLowerCase() === filter.address.toLowerCase() &&
+        log.topics[0] === filter.topics[0] &&
+        log.blockNumber >= filter.fromBlock &&
+        log.blockNumber <= filter.toBlock,
+    );
+  }
+
+  async getBlock(blockNumber: number) {
+    const block = fixture.blocks.find(b => b.number === blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not recorded`);
+    }
+    return block;
+  }
+}
+
+describe('ERC-20 transfers', () => {
+  const alice = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+  const bob = '0x3f5ce5fbfe3e9af3971dd833d26ba9b5c936f0be';
+  const contracts: TokenContract[] = [
+    { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
+    { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+  ];
+
+  let provider: RecordedLogProvider;
+
+  beforeEach(() => {
+    provider = new RecordedLogProvider();
+  });
+
+  it('should credit transfers into deposit addresses with the token decimals', async () => {
+    const transfers = await scanTokenTransfers(provider, contracts, 19000000, 19000001, new Set([alice, bob]));
+
+    expect(transfers.map(t => [t.currency, t.toAddress, t.amount, t.logIndex])).toEqual([
+      ['USDT', alice, '100.5', 3],
+      ['USDT', bob, '1', 4],
+      ['USDC', alice, '2500', 0],
+    ]);
+    expect(transfers[0]).toMatchObject({
+      fromAddress: '0x28c6c06298d514db089934071355e5743bf21d60',
+      blockNumber: 19000000,
+      timestamp: 1760860800,
+    });
+    expect(provider.filters.map(f => f.address)).toEqual(contracts.map(c => c.address));
+  });
+
+  it('should keep every transfer log of a multi-transfer transaction distinct', async () => {
+    const transfers = await scanTokenTransfers(provider, contracts, 19000000, 19000000, new Set([alice, bob]));
+
+    const keys = transfers.map(t => `${t.txHash}:${t.logIndex}`);
+    expect(new Set(transfers.map(t => t.txHash)).size).toBe(1);
+    expect(new Set(keys).size).toBe(2);
+  });
+
+  it('should skip removed logs, non-ERC-20 transfers and blocks outside the range', async () => {
+    const transfers = await scanTokenTransfers(provider, contracts, 19000001, 19000001, new Set([alice, bob]));
+
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0].currency).toBe('USDC');
+  });
+
+  it('should decode indexed addresses and reject ERC-721 style logs', () => {
+    const [usdtLog] = fixture.logs;
+    expect(decodeTransferLog(usdtLog)).toEqual({
+      from: '0x28c6c06298d514db089934071355e5743bf21d60',
+      to: alice,
+      value: BigInt(100500000),
+    });
+
+    const nftLog = fixture.logs.find(log => log.topics.length === 4);
+    expect(decodeTransferLog(nftLog)).toBeNull();
+  });
+
+  it('should format amounts without floating point error', () => {
+    expect(formatUnits(BigInt('1234567890123456789'), 18)).toBe('1.234567890123456789');
+    expect(formatUnits(BigInt(5), 6)).toBe('0.000005');
+    expect(formatUnits(BigInt(42), 0)).toBe('42');
+  });
+});
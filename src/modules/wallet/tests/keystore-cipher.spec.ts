@@ -0,0 +1,33 @@
+import { decryptSecret, encryptSecret } from '../custody/keystore-cipher';
+
+describe('Keystore cipher', () => {
+  const xprv =
+    'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi';
+
+  it('should round-trip the extended private key with the right password', () => {
+    const crypto = encryptSecret(xprv, 'correct horse');
+
+    expect(crypto.ciphertext).not.toContain(Buffer.from(xprv).toString('hex'));
+    expect(decryptSecret(crypto, 'correct horse')).toBe(xprv);
+  });
+
+  it('should use a fresh salt and iv for every encryption', () => {
+    const first = encryptSecret(xprv, 'correct horse');
+    const second = encryptSecret(xprv, 'correct horse');
+
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('should reject a wrong password or a tampered ciphertext', () => {
+    const crypto = encryptSecret(xprv, 'correct horse');
+    const tampered = {
+      ...crypto,
+      ciphertext: `${(parseInt(crypto.ciphertext[0], 16) ^ 1).toString(16)}${crypto.ciphertext.slice(1)}`,
+    };
+
+    expect(() => decryptSecret(crypto, 'battery staple')).toThrow('Invalid keystore password');
+    expect(() => decryptSecret(tampered, 'correct horse')).toThrow('Invalid keystore password');
+  });
+});
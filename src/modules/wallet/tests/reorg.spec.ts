@@ -0,0 +1,33 @@
+import { BlockHeader, findDiscontinuity, findForkBlock } from '../chain/reorg';
+
+describe('Chain reorganization', () => {
+  const header = (number: number, fork = ''): BlockHeader => ({
+    number,
+    hash: `0x${number > 103 ? fork : ''}${number}`,
+    parentHash: `0x${number - 1 > 103 ? fork : ''}${number - 1}`,
+  });
+
+  // 已扫描到 105，链在 103 之后分叉：104、105 被替换
+  const recorded = new Map([101, 102, 103, 104, 105].map(n => [n, header(n).hash]));
+  const canonical = new Map([101, 102, 103, 104, 105, 106].map(n => [n, header(n, 'b')]));
+  const getHeader = async (blockNumber: number) => canonical.get(blockNumber) ?? null;
+
+  it('should accept headers that extend the last scanned block', () => {
+    expect(findDiscontinuity(header(105).hash, [header(106), header(107)])).toBe(-1);
+    expect(findDiscontinuity(undefined, [header(106), header(107)])).toBe(-1);
+  });
+
+  it('should report where the parent hash stops matching', () => {
+    expect(findDiscontinuity(header(105).hash, [header(106, 'b')])).toBe(0);
+    expect(findDiscontinuity(header(105).hash, [header(106), header(107, 'b')])).toBe(1);
+  });
+
+  it('should walk back to the last block still on the canonical chain', async () => {
+    expect(await findForkBlock(getHeader, recorded, 105)).toBe(103);
+  });
+
+  it('should give up when no common ancestor is recorded within the depth', async () => {
+    await expect(findForkBlock(getHeader, recorded, 105, 2)).rejects.toThrow('No common ancestor');
+    await expect(findForkBlock(async () => null, recorded, 105)).rejects.toThrow('No common ancestor');
+  });
+});
@@ -0,0 +1,56 @@
+import { planColdTransfer, planSweep, SweepPlanInput } from '../chain/treasury';
+import { parseUnits } from '../chain/erc20-transfers';
+
+describe('Treasury planning', () => {
+  const gwei = BigInt(1e9);
+  const eth = (amount: string) => parseUnits(amount, 18);
+  const usdt = (amount: string) => parseUnits(amount, 6);
+
+  const input = (overrides: Partial<SweepPlanInput> = {}): SweepPlanInput => ({
+    nativeCurrency: 'ETH',
+    nativeBalance: BigInt(0),
+    nativeThreshold: eth('0.05'),
+    tokens: [],
+    gasPrice: BigInt(20) * gwei,
+    nativeTransferGas: BigInt(21000),
+    tokenTransferGas: BigInt(65000),
+    ...overrides,
+  });
+  const usdtBalance = (balance: bigint) => ({
+    currency: 'USDT',
+    contractAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+    balance,
+    threshold: usdt('50'),
+  });
+
+  it('should leave dust below the threshold on the deposit address', () => {
+    expect(planSweep(input({ nativeBalance: eth('0.01'), tokens: [usdtBalance(usdt('49.99'))] }))).toEqual([]);
+  });
+
+  it('should fund gas with a buffer before sweeping tokens', () => {
+    // 65000 gas * 20 gwei = 0.0013 ETH，预留 20% 后扣除地址上已有的 0.0005 ETH
+    expect(planSweep(input({ nativeBalance: eth('0.0005'), tokens: [usdtBalance(usdt('120'))] }))).toEqual([
+      { type: 'FUND_GAS', currency: 'ETH', amount: eth('0.00106') },
+    ]);
+  });
+
+  it('should sweep tokens once gas is available and native balance net of gas', () => {
+    expect(planSweep(input({ nativeBalance: eth('0.002'), tokens: [usdtBalance(usdt('120'))] }))).toEqual([
+      {
+        type: 'SWEEP_TOKEN',
+        currency: 'USDT',
+        contractAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        amount: usdt('120'),
+      },
+    ]);
+    expect(planSweep(input({ nativeBalance: eth('1') }))).toEqual([
+      { type: 'SWEEP_NATIVE', currency: 'ETH', amount: eth('0.99958') },
+    ]);
+  });
+
+  it('should propose a cold transfer down to the target ratio only above the maximum', () => {
+    expect(planColdTransfer(usdt('200000'), usdt('1000000'), 0.2, 0.1)).toBeNull();
+    expect(planColdTransfer(usdt('250000'), usdt('1000000'), 0.2, 0.1)).toBe(usdt('150000'));
+    expect(() => planColdTransfer(usdt('1'), usdt('1'), 0.1, 0.2)).toThrow('exceeds the maximum');
+  });
+});
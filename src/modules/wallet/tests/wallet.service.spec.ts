@@ -110,7 +110,7 @@ describe('WalletService', () => {
       expect(result.status).toBe(WalletStatus.ACTIVE);
 
       // Verify interactions
-      expect(web3Service.generateAddress).toHaveBeenCalledWith(expect.any(String));
+      expect(web3Service.generateAddress).toHaveBeenCalledWith(expect.any(String), mockUserId);
       expect(prismaService.wallet.create).toHaveBeenCalledWith({
         data: expect.objectContaining({
           userId: mockUserId,
@@ -0,0 +1,112 @@
+import { WithdrawalReviewService } from '../services/withdrawal-review.service';
+import { TransactionStatus, TransactionType, WithdrawalReviewDecision } from '../types/wallet.types';
+
+describe('WithdrawalReviewService', () => {
+  let service: WithdrawalReviewService;
+  let approvals: { withdrawalId: string; adminId: string; decision: WithdrawalReviewDecision }[];
+  let status: TransactionStatus;
+
+  const withdrawal = {
+    id: 'withdrawal-1',
+    userId: 'user-1',
+    type: TransactionType.WITHDRAW,
+    currency: 'USDT',
+    amount: '1000',
+    fee: '1.5',
+  };
+
+  const mockPrisma: any = {
+    walletTransaction: {
+      findUnique: jest.fn(async () => ({ ...withdrawal, status })),
+      // 按状态条件更新，模拟数据库中的状态流转
+      updateMany: jest.fn(async ({ where, data }) => {
+        if (where.status !== status) {
+          return { count: 0 };
+        }
+        status = data.status;
+        return { count: 1 };
+      }),
+    },
+    withdrawalApproval: {
+      create: jest.fn(async ({ data }) => {
+        if (approvals.some(approval => approval.adminId === data.adminId)) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        approvals.push(data);
+      }),
+      count: jest.fn(async ({ where }) => approvals.filter(approval => approval.decision === where.decision).length),
+    },
+    $transaction: jest.fn(callback => callback(mockPrisma)),
+  };
+
+  const mockWalletService = { createAuditLog: jest.fn(), unfreezeBalance: jest.fn() };
+  const mockEventEmitter = { emit: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    approvals = [];
+    status = TransactionStatus.PENDING_REVIEW;
+
+    service = new WithdrawalReviewService(
+      mockPrisma,
+      { get: jest.fn((key: string, defaultValue?: any) => defaultValue) } as any,
+      mockEventEmitter as any,
+      mockWalletService as any,
+    );
+  });
+
+  it('should release the withdrawal for broadcast once enough admins approve', async () => {
+    await expect(service.approve('withdrawal-1', 'admin-1', '127.0.0.1')).resolves.toEqual({
+      withdrawalId: 'withdrawal-1',
+      approved: false,
+    });
+    expect(status).toBe(TransactionStatus.PENDING_REVIEW);
+
+    await expect(service.approve('withdrawal-1', 'admin-2', '127.0.0.1')).resolves.toEqual({
+      withdrawalId: 'withdrawal-1',
+      approved: true,
+    });
+    expect(status).toBe(TransactionStatus.PENDING);
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'wallet.withdrawal.approved',
+      expect.objectContaining({ userId: 'user-1' }),
+    );
+    expect(mockWalletService.unfreezeBalance).not.toHaveBeenCalled();
+  });
+
+  it('should not count a second decision from the same admin', async () => {
+    await service.approve('withdrawal-1', 'admin-1', '127.0.0.1');
+
+    await expect(service.approve('withdrawal-1', 'admin-1', '127.0.0.1')).rejects.toThrow(
+      'Withdrawal already reviewed by this admin',
+    );
+    expect(status).toBe(TransactionStatus.PENDING_REVIEW);
+  });
+
+  it('should reject the withdrawal and return the frozen amount and fee', async () => {
+    await service.approve('withdrawal-1', 'admin-1', '127.0.0.1');
+    await service.reject('withdrawal-1', 'admin-2', '127.0.0.1', 'suspicious address');
+
+    expect(status).toBe(TransactionStatus.REJECTED);
+    expect(mockWalletService.unfreezeBalance).toHaveBeenCalledWith('user-1', 'USDT', '1001.5');
+    expect(mockWalletService.createAuditLog).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'WITHDRAWAL_REJECTED', operator: 'admin-2', reason: 'suspicious address' }),
+    );
+  });
+
+  it('should only review withdrawals that are pending review', async () => {
+    await service.reject('withdrawal-1', 'admin-1', '127.0.0.1', 'suspicious address');
+
+    await expect(service.approve('withdrawal-1', 'admin-2', '127.0.0.1')).rejects.toThrow(
+      'Withdrawal is not pending review',
+    );
+    expect(mockEventEmitter.emit).not.toHaveBeenCalledWith('wallet.withdrawal.approved', expect.anything());
+  });
+
+  it('should not let admins review their own withdrawals', async () => {
+    await expect(service.approve('withdrawal-1', 'user-1', '127.0.0.1')).rejects.toThrow(
+      'Cannot review your own withdrawal',
+    );
+    expect(approvals).toEqual([]);
+  });
+});
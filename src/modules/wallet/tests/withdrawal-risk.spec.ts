@@ -0,0 +1,54 @@
+import { WithdrawalRiskContext, WithdrawalRiskRule, scoreWithdrawal } from '../review/withdrawal-risk';
+
+describe('Withdrawal risk scoring', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+  const knownAddress = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+  const context = (overrides: Partial<WithdrawalRiskContext> = {}): WithdrawalRiskContext => ({
+    amount: 1000,
+    toAddress: knownAddress,
+    previousWithdrawals: [{ amount: 800, toAddress: knownAddress.toLowerCase() }],
+    recentDepositAmount: 0,
+    passwordChangedAt: null,
+    twoFactorChangedAt: hoursAgo(24 * 30),
+    now,
+    ...overrides,
+  });
+  const rules = (ctx: WithdrawalRiskContext) => scoreWithdrawal(ctx).factors.map(f => f.rule);
+
+  it('should let a routine withdrawal to a known address through', () => {
+    expect(scoreWithdrawal(context())).toEqual({ score: 0, factors: [], requiresReview: false });
+  });
+
+  it('should send a first withdrawal to a new address to review', () => {
+    const assessment = scoreWithdrawal(context({ previousWithdrawals: [] }));
+
+    expect(assessment.factors.map(f => f.rule)).toEqual([
+      WithdrawalRiskRule.NEW_ADDRESS,
+      WithdrawalRiskRule.FIRST_WITHDRAWAL,
+    ]);
+    expect(assessment.requiresReview).toBe(true);
+  });
+
+  it('should flag amounts far above the largest previous withdrawal', () => {
+    expect(rules(context({ amount: 2400 }))).toEqual([]);
+    expect(rules(context({ amount: 2401 }))).toEqual([WithdrawalRiskRule.AMOUNT_ANOMALY]);
+  });
+
+  it('should require review right after a password or 2FA change', () => {
+    const assessment = scoreWithdrawal(context({ passwordChangedAt: hoursAgo(2), twoFactorChangedAt: hoursAgo(3) }));
+
+    expect(assessment.factors).toEqual([
+      expect.objectContaining({ rule: WithdrawalRiskRule.RECENT_SECURITY_CHANGE, detail: 'password and 2FA changed within 24h' }),
+    ]);
+    expect(assessment.requiresReview).toBe(true);
+    expect(rules(context({ passwordChangedAt: hoursAgo(25) }))).toEqual([]);
+  });
+
+  it('should add up deposit velocity with other signals', () => {
+    expect(scoreWithdrawal(context({ recentDepositAmount: 900 })).requiresReview).toBe(false);
+    expect(scoreWithdrawal(context({ recentDepositAmount: 900, toAddress: '0x3f5ce5fbfe3e9af3971dd833d26ba9b5c936f0be' })))
+      .toMatchObject({ score: 60, requiresReview: true });
+  });
+});
@@ -0,0 +1,237 @@
+import { WithdrawalService } from '../services/withdrawal.service';
+import { TransactionStatus, TransactionType } from '../types/wallet.types';
+
+describe('WithdrawalService', () => {
+  let service: WithdrawalService;
+  let queue: string[];
+
+  const withdrawal = {
+    id: 'withdrawal-1',
+    userId: 'user-1',
+    type: TransactionType.WITHDRAW,
+    status: TransactionStatus.PENDING,
+    currency: 'USDT',
+    chain: '1',
+    amount: '100.5',
+    fee: '1',
+    address: '0xrecipient',
+  };
+
+  const mockPrisma: any = {
+    currencyConfig: { findMany: jest.fn() },
+    chainConfig: { findMany: jest.fn() },
+    walletTransaction: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+    walletAddress: { findUnique: jest.fn() },
+    addressWhitelist: { findFirst: jest.fn() },
+    $transaction: jest.fn(callback => callback(mockPrisma)),
+  };
+
+  const mockRedis = {
+    set: jest.fn(),
+    del: jest.fn(),
+    rpush: jest.fn(async (key: string, id: string) => queue.push(id)),
+    lpop: jest.fn(async () => queue.shift() ?? null),
+    llen: jest.fn(async () => queue.length),
+  };
+
+  const mockWeb3Service = {
+    generateAddress: jest.fn(),
+    buildTransfer: jest.fn(() => ({ to: '0xtoken', value: '0', data: '0xtransfer' })),
+    signTransaction: jest.fn(),
+    broadcastTransaction: jest.fn(),
+    isNonceConsumed: jest.fn(),
+    getTransactionConfirmations: jest.fn(),
+    isValidAddress: jest.fn(() => true),
+    withSignerLock: jest.fn(async (chainId: string, derivationIndex: number, task: () => Promise<void>) => {
+      await task();
+      return true;
+    }),
+  };
+
+  const mockWalletService = {
+    checkAndUpdateWithdrawalLimit: jest.fn(),
+    freezeBalance: jest.fn(),
+    unfreezeBalance: jest.fn(),
+    deductLockedBalance: jest.fn(),
+  };
+  const mockReviewService = {
+    assessRisk: jest.fn(async () => ({ score: 0, factors: [], requiresReview: false })),
+    submitForReview: jest.fn(),
+  };
+
+  const mockEventEmitter = { emit: jest.fn() };
+  const mockPrometheusService = { incrementErrors: jest.fn(), recordLatency: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    queue = [];
+
+    mockPrisma.currencyConfig.findMany.mockResolvedValue([
+      { symbol: 'USDT', decimals: 6, minWithdraw: '10', withdrawFee: '1', confirmations: 12, isActive: true },
+    ]);
+    mockPrisma.chainConfig.findMany.mockResolvedValue([
+      { chain: '1', nativeCurrency: 'ETH', nativeDecimals: 18, contracts: { USDT: '0xdac17f958d2ee523a2206206994597c13d831ec7' } },
+    ]);
+    mockPrisma.walletAddress.findUnique.mockResolvedValue({ address: '0xhot', derivationIndex: 0 });
+    mockRedis.set.mockResolvedValue('OK');
+    mockWeb3Service.signTransaction.mockResolvedValue({ hash: '0xhash', rawTx: '0xsigned', nonce: 7 });
+
+    service = new WithdrawalService(
+      mockRedis as any,
+      mockPrisma as any,
+      mockWeb3Service as any,
+      { get: jest.fn((key: string, defaultValue?: any) => defaultValue) } as any,
+      mockEventEmitter as any,
+      mockPrometheusService as any,
+      mockReviewService as any,
+      mockWalletService as any,
+    );
+    // 等待构造函数中异步加载的币种配置
+    await new Promise(resolve => setImmediate(resolve));
+  });
+
+  it('should freeze the amount plus the flat fee when creating a withdrawal', async () => {
+    mockPrisma.addressWhitelist.findFirst.mockResolvedValue({ id: 'whitelist-1' });
+    mockPrisma.walletTransaction.create.mockImplementation(async ({ data }) => ({ id: 'withdrawal-1', ...data }));
+
+    await service.createWithdrawal({
+      userId: 'user-1',
+      currency: 'USDT',
+      chain: '1',
+      amount: '100.5',
+      address: '0xrecipient',
+    });
+
+    expect(mockReviewService.assessRisk).toHaveBeenCalledWith({
+      userId: 'user-1',
+      currency: 'USDT',
+      amount: '100.5',
+      address: '0xrecipient',
+    });
+    expect(mockWalletService.freezeBalance.mock.calls[0][2].toString()).toBe('101.5');
+    expect(mockPrisma.walletTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: '100.5',
+        fee: '1',
+        address: '0xrecipient',
+        status: TransactionStatus.PENDING,
+      }),
+    });
+  });
+
+  it('should reject withdrawals below the minimum amount', async () => {
+    await expect(
+      service.createWithdrawal({ userId: 'user-1', currency: 'USDT', chain: '1', amount: '9.99', address: '0xrecipient' }),
+    ).rejects.toThrow('Withdrawal amount must be at least 10');
+    expect(mockWalletService.freezeBalance).not.toHaveBeenCalled();
+  });
+
+  it('should deduct the locked amount and fee once the withdrawal is confirmed', async () => {
+    mockWeb3Service.getTransactionConfirmations.mockResolvedValue(12);
+
+    await (service as any).updateWithdrawalStatus({
+      ...withdrawal,
+      status: TransactionStatus.PROCESSING,
+      txHash: '0xhash',
+      confirmations: 11,
+    });
+
+    const [userId, currency, amount] = mockWalletService.deductLockedBalance.mock.calls[0];
+    expect([userId, currency, amount.toString()]).toEqual(['user-1', 'USDT', '101.5']);
+    expect(mockWalletService.unfreezeBalance).not.toHaveBeenCalled();
+  });
+
+  it('should record the signed transaction before broadcasting it', async () => {
+    mockPrisma.walletTransaction.findUnique.mockResolvedValue({ ...withdrawal });
+
+    await service.processWithdrawal('withdrawal-1');
+
+    expect(mockWeb3Service.buildTransfer).toHaveBeenCalledWith('1', 'USDT', '0xrecipient', BigInt(100500000));
+    expect(mockPrisma.walletTransaction.update).toHaveBeenCalledWith({
+      where: { id: 'withdrawal-1' },
+      data: expect.objectContaining({
+        status: TransactionStatus.PROCESSING,
+        txHash: '0xhash',
+        rawTx: '0xsigned',
+      }),
+    });
+    expect(mockWeb3Service.broadcastTransaction).toHaveBeenCalledWith('1', '0xsigned');
+    expect(mockPrisma.walletTransaction.update.mock.invocationCallOrder[0]).toBeLessThan(
+      mockWeb3Service.broadcastTransaction.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should leave the withdrawal pending while the hot wallet is signing elsewhere', async () => {
+    mockPrisma.walletTransaction.findUnique.mockResolvedValue({ ...withdrawal });
+    mockWeb3Service.withSignerLock.mockResolvedValueOnce(false);
+
+    await service.processWithdrawal('withdrawal-1');
+
+    expect(mockWeb3Service.withSignerLock).toHaveBeenCalledWith('1', 0, expect.any(Function));
+    expect(mockWeb3Service.signTransaction).not.toHaveBeenCalled();
+    expect(mockPrisma.walletTransaction.update).not.toHaveBeenCalled();
+    expect(mockWalletService.unfreezeBalance).not.toHaveBeenCalled();
+  });
+
+  it('should queue a signed withdrawal for rebroadcast when broadcasting fails', async () => {
+    mockPrisma.walletTransaction.findUnique.mockResolvedValue({ ...withdrawal });
+    mockWeb3Service.broadcastTransaction.mockRejectedValueOnce(new Error('connection reset'));
+
+    await service.processWithdrawal('withdrawal-1');
+
+    expect(queue).toEqual(['withdrawal-1']);
+    expect(mockPrisma.walletTransaction.update).toHaveBeenCalledTimes(1);
+    expect(mockRedis.del).toHaveBeenCalledWith('withdrawal:lock:withdrawal-1');
+  });
+
+  it('should rebroadcast the original signed transaction without signing again', async () => {
+    mockPrisma.walletTransaction.findUnique.mockResolvedValue({
+      ...withdrawal,
+      status: TransactionStatus.PROCESSING,
+      txHash: '0xhash',
+      rawTx: '0xsigned',
+    });
+    queue = ['withdrawal-1'];
+
+    await service.processRebroadcastQueue();
+
+    expect(mockWeb3Service.broadcastTransaction).toHaveBeenCalledWith('1', '0xsigned');
+    expect(mockWeb3Service.signTransaction).not.toHaveBeenCalled();
+    expect(queue).toEqual([]);
+  });
+
+  it('should retry on the next run while the nonce is still unused', async () => {
+    mockPrisma.walletTransaction.findUnique.mockResolvedValue({
+      ...withdrawal,
+      status: TransactionStatus.PROCESSING,
+      txHash: '0xhash',
+      rawTx: '0xsigned',
+    });
+    mockWeb3Service.broadcastTransaction.mockRejectedValue(new Error('connection reset'));
+    mockWeb3Service.isNonceConsumed.mockResolvedValue(false);
+    queue = ['withdrawal-1'];
+
+    await service.processRebroadcastQueue();
+
+    expect(mockWeb3Service.broadcastTransaction).toHaveBeenCalledTimes(1);
+    expect(queue).toEqual(['withdrawal-1']);
+  });
+
+  it('should stop rebroadcasting once the nonce has been used', async () => {
+    mockPrisma.walletTransaction.findUnique.mockResolvedValue({
+      ...withdrawal,
+      status: TransactionStatus.PROCESSING,
+      txHash: '0xhash',
+      rawTx: '0xsigned',
+    });
+    mockWeb3Service.broadcastTransaction.mockRejectedValue(new Error('nonce too low'));
+    mockWeb3Service.isNonceConsumed.mockResolvedValue(true);
+    mockWeb3Service.getTransactionConfirmations.mockResolvedValue(3);
+    queue = ['withdrawal-1'];
+
+    await service.processRebroadcastQueue();
+
+    expect(queue).toEqual([]);
+    expect(mockPrometheusService.incrementErrors).not.toHaveBeenCalled();
+  });
+});
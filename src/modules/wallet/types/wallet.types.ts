@@ -28,6 +28,14 @@ export interface WalletTransaction {
   txHash?: string;
   address?: string;
   chain?: string;
+  logIndex?: number;
+  confirmations?: number;
+  blockNumber?: number;
+  blockHash?: string;
+  riskScore?: number;
+  riskFactors?: Record<string, any>[];
+  // 提现的已签名原始交易，重新广播时原样使用
+  rawTx?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +43,10 @@ export interface WalletTransaction {
 export enum TransactionType {
   DEPOSIT = 'DEPOSIT',
   WITHDRAW = 'WITHDRAW',
+  // 以下为内部划转，不影响用户余额：充值地址归集到热钱包、热钱包为代币归集补充 gas、热钱包转入冷钱包
+  SWEEP = 'SWEEP',
+  GAS_FUNDING = 'GAS_FUNDING',
+  REBALANCE = 'REBALANCE',
 }
 
 export enum TransactionStatus {
@@ -42,19 +54,42 @@ export enum TransactionStatus {
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  // 所在区块因链重组被废弃，已入账的充值已扣回
+  REVERSED = 'REVERSED',
+  // 风险评分达到阈值的提现，等待管理员审核
+  PENDING_REVIEW = 'PENDING_REVIEW',
+  // 审核被拒绝的提现，冻结的余额已退回
+  REJECTED = 'REJECTED',
 }
 
 export interface ChainConfig {
   id: string;
+  // EVM chainId 的十进制字符串，与 WalletTransaction.chain 一致
   chain: string;
   name: string;
   rpcUrl: string;
   explorerUrl: string;
+  nativeCurrency: { symbol: string; decimals: number };
+  // 币种符号 -> 代币合约地址
+  contracts: Record<string, string>;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * 链上资金管理配置：充值地址归集阈值和冷热钱包比例。
+ */
+export interface TreasuryConfig {
+  chainId: string;
+  coldAddress: string;
+  // 热钱包余额占用户负债总额的上限，超过时提议转入冷钱包，转出后回到 targetHotRatio
+  maxHotRatio: number;
+  targetHotRatio: number;
+  // 币种 -> 归集阈值（十进制金额），低于阈值的余额视为粉尘不归集
+  sweepThresholds: Record<string, string>;
+}
+
 export interface CurrencyConfig {
   id: string;
   symbol: string;
@@ -63,6 +98,8 @@ export interface CurrencyConfig {
   minDeposit: string;
   minWithdraw: string;
   withdrawFee: string;
+  // 充值、提现和内部划转视为完成所需的区块确认数
+  confirmations: number;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -106,6 +143,57 @@ export interface WalletAuditLog {
   updatedAt: Date;
 }
 
+export enum WithdrawalReviewDecision {
+  APPROVE = 'APPROVE',
+  REJECT = 'REJECT',
+}
+
+// 管理员对待审核提现的决定，每位管理员对同一笔提现只能决定一次
+export interface WithdrawalApproval {
+  id: string;
+  withdrawalId: string;
+  adminId: string;
+  decision: WithdrawalReviewDecision;
+  reason?: string;
+  createdAt: Date;
+}
+
+/**
+ * 由账户级扩展公钥派生的充值地址，同一用户在同一条链上的各币种共用一个地址。
+ */
+export interface WalletAddress {
+  id: string;
+  userId: string;
+  chainId: string;
+  derivationIndex: number;
+  address: string;
+  createdAt: Date;
+}
+
+export const KEY_CUSTODY_PROVIDER = 'KEY_CUSTODY_PROVIDER';
+
+export interface UnsignedTransaction {
+  chainId: number;
+  to: string;
+  // 最小单位的十进制字符串
+  value: string;
+  data?: string;
+  nonce: number;
+  gasLimit: string;
+  gasPrice: string;
+}
+
+/**
+ * 密钥托管：服务端只拿到各链账户级（m/44'/coin'/account'）的扩展公钥用于派生地址，
+ * 签名交给托管方完成，主种子不进入服务进程。
+ */
+export interface KeyCustodyProvider {
+  readonly name: string;
+  getExtendedPublicKey(chainId: string): Promise<string>;
+  // 用账户下外部链第 derivationIndex 个地址的私钥签名，返回签名后的原始交易
+  signTransaction(chainId: string, derivationIndex: number, tx: UnsignedTransaction): Promise<string>;
+}
+
 // Prisma Types
 export type WalletWhereInput = {
   id?: string;
@@ -1,12 +1,38 @@
 import { Module } from '@nestjs/common';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import { ScheduleModule } from '@nestjs/schedule';
 import { WalletService } from './services/wallet.service';
+import { Web3Service } from './services/web3.service';
+import { SweepService } from './services/sweep.service';
+import { DepositService } from './services/deposit.service';
+import { WithdrawalService } from './services/withdrawal.service';
+import { WithdrawalReviewService } from './services/withdrawal-review.service';
+import { WithdrawalReviewController } from './controllers/withdrawal-review.controller';
+import { DepositController } from './controllers/deposit.controller';
 import { PrismaModule } from '../prisma/prisma.module';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { RedisCacheModule } from '../redis/redis.module';
+import { PrometheusService } from '../monitoring/services/prometheus.service';
+import { KEY_CUSTODY_PROVIDER } from './types/wallet.types';
+import { createKeyCustodyProvider } from './custody/key-custody.factory';
 
 @Module({
-  imports: [PrismaModule, ConfigModule, RedisCacheModule],
-  providers: [WalletService],
-  exports: [WalletService],
+  imports: [PrismaModule, ConfigModule, RedisCacheModule, EventEmitterModule.forRoot(), ScheduleModule.forRoot()],
+  controllers: [WithdrawalReviewController, DepositController],
+  providers: [
+    WalletService,
+    WithdrawalReviewService,
+    WithdrawalService,
+    Web3Service,
+    SweepService,
+    DepositService,
+    PrometheusService,
+    {
+      provide: KEY_CUSTODY_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createKeyCustodyProvider,
+    },
+  ],
+  exports: [WalletService, WithdrawalService, WithdrawalReviewService, KEY_CUSTODY_PROVIDER],
 })
 export class WalletModule {} 
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * 内部运算精度：截断到18位小数，足以表示所有交易对的最小价格步长和数量步长。
+ */
+export const DECIMAL_SCALE = 18;
+
+// 中间结果保留足够有效位数，只在每次运算结束时截断到 DECIMAL_SCALE 位小数
+const Big = Prisma.Decimal.clone({
+  precision: 64,
+  rounding: Prisma.Decimal.ROUND_DOWN,
+  toExpNeg: -64,
+  toExpPos: 64,
+});
+
+export enum RoundingMode {
+  DOWN = 'DOWN',
+  UP = 'UP',
+  HALF_UP = 'HALF_UP',
+}
+
+const ROUNDING = {
+  [RoundingMode.DOWN]: Prisma.Decimal.ROUND_DOWN,
+  [RoundingMode.UP]: Prisma.Decimal.ROUND_UP,
+  [RoundingMode.HALF_UP]: Prisma.Decimal.ROUND_HALF_UP,
+};
+
+export type DecimalValue = FixedDecimal | Prisma.Decimal | string | number;
+
+/**
+ * 价格、数量、成交额和余额使用的定点小数。
+ * 不可变对象，所有运算都返回新实例；toString() 输出规范化字符串，可直接作为价格档位的键。
+ */
+export class FixedDecimal {
+  static readonly ZERO = new FixedDecimal(new Big(0));
+
+  private readonly value: Prisma.Decimal;
+
+  private constructor(value: Prisma.Decimal, rounding: RoundingMode = RoundingMode.DOWN) {
+    this.value = value.toDecimalPlaces(DECIMAL_SCALE, ROUNDING[rounding]);
+  }
+
+  static from(value: DecimalValue): FixedDecimal {
+    if (value instanceof FixedDecimal) {
+      return value;
+    }
+    if (value === null || value === undefined || value === '') {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    // number 按其最短十进制表示解析，0.1 得到的是 0.1 而不是其二进制近似值
+    let parsed: Prisma.Decimal;
+    try {
+      parsed = new Big(value.toString());
+    } catch {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+    if (!parsed.isFinite()) {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    return new FixedDecimal(parsed);
+  }
+
+  static isValid(value: unknown): boolean {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return false;
+    }
+    try {
+      FixedDecimal.from(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static min(first: DecimalValue, ...rest: DecimalValue[]): FixedDecimal {
+    return rest.reduce<FixedDecimal>((min, value) => {
+      const decimal = FixedDecimal.from(value);
+      return decimal.lt(min) ? decimal : min;
+    }, FixedDecimal.from(first));
+  }
+
+  static max(first: DecimalValue, ...rest: DecimalValue[]): FixedDecimal {
+    return rest.reduce<FixedDecimal>((max, value) => {
+      const decimal = FixedDecimal.from(value);
+      return decimal.gt(max) ? decimal : max;
+    }, FixedDecimal.from(first));
+  }
+
+  static sum(values: DecimalValue[]): FixedDecimal {
+    return values.reduce<FixedDecimal>((sum, value) => sum.plus(value), FixedDecimal.ZERO);
+  }
+
+  plus(other: DecimalValue): FixedDecimal {
+    return new FixedDecimal(this.value.plus(FixedDecimal.from(other).value));
+  }
+
+  minus(other: DecimalValue): FixedDecimal {
+    return new FixedDecimal(this.value.minus(FixedDecimal.from(other).value));
+  }
+
+  times(other: DecimalValue, rounding: RoundingMode = RoundingMode.DOWN): FixedDecimal {
+    return new FixedDecimal(this.value.times(FixedDecimal.from(other).value), rounding);
+  }
+
+  div(other: DecimalValue, rounding: RoundingMode = RoundingMode.DOWN): FixedDecimal {
+    const divisor = FixedDecimal.from(other);
+    if (divisor.isZero()) {
+      throw new Error('Division by zero');
+    }
+    return new FixedDecimal(this.value.div(divisor.value), rounding);
+  }
+
+  negated(): FixedDecimal {
+    return new FixedDecimal(this.value.negated());
+  }
+
+  abs(): FixedDecimal {
+    return new FixedDecimal(this.value.abs());
+  }
+
+  cmp(other: DecimalValue): number {
+    return this.value.cmp(FixedDecimal.from(other).value);
+  }
+
+  eq(other: DecimalValue): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: DecimalValue): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: DecimalValue): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: DecimalValue): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: DecimalValue): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.value.isZero();
+  }
+
+  isPositive(): boolean {
+    return this.value.gt(0);
+  }
+
+  isNegative(): boolean {
+    return this.value.lt(0);
+  }
+
+  /**
+   * 按步长（价格最小变动单位或数量步长）取整，步长为空或不大于0时原样返回。
+   */
+  roundToStep(step: DecimalValue | null | undefined, rounding: RoundingMode = RoundingMode.DOWN): FixedDecimal {
+    if (step === null || step === undefined) {
+      return this;
+    }
+    const stepDecimal = FixedDecimal.from(step);
+    if (!stepDecimal.isPositive()) {
+      return this;
+    }
+
+    const steps = this.value.div(stepDecimal.value).toDecimalPlaces(0, ROUNDING[rounding]);
+    return new FixedDecimal(steps.times(stepDecimal.value));
+  }
+
+  isMultipleOf(step: DecimalValue): boolean {
+    const stepDecimal = FixedDecimal.from(step);
+    if (!stepDecimal.isPositive()) {
+      return true;
+    }
+    return this.value.mod(stepDecimal.value).isZero();
+  }
+
+  /**
+   * 仅用于展示和非资金相关的统计，资金计算不要转回 number。
+   */
+  toNumber(): number {
+    return this.value.toNumber();
+  }
+
+  toFixed(decimalPlaces: number, rounding: RoundingMode = RoundingMode.DOWN): string {
+    return this.value.toFixed(decimalPlaces, ROUNDING[rounding]);
+  }
+
+  toPrismaDecimal(): Prisma.Decimal {
+    return new Prisma.Decimal(this.toString());
+  }
+
+  toString(): string {
+    return this.value.toFixed();
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
@@ -0,0 +1,34 @@
+import { FixedDecimal, RoundingMode } from '../fixed-decimal';
+
+describe('FixedDecimal', () => {
+  it('should add decimals without binary rounding drift', () => {
+    expect(FixedDecimal.from('0.1').plus('0.2').toString()).toBe('0.3');
+    expect(FixedDecimal.from(0.1).plus(0.2).eq('0.3')).toBe(true);
+  });
+
+  it('should normalize equivalent representations to the same string', () => {
+    expect(FixedDecimal.from('1.50').toString()).toBe('1.5');
+    expect(FixedDecimal.from(1e-7).toString()).toBe('0.0000001');
+    expect(JSON.stringify({ price: FixedDecimal.from('42000.10') })).toBe('{"price":"42000.1"}');
+  });
+
+  it('should truncate results to 18 decimal places', () => {
+    expect(FixedDecimal.from(10).div(3).toString()).toBe('3.333333333333333333');
+    expect(FixedDecimal.from(10).div(3, RoundingMode.UP).toString()).toBe('3.333333333333333334');
+  });
+
+  it('should round to tick and lot steps', () => {
+    expect(FixedDecimal.from('1.2345').roundToStep('0.01').toString()).toBe('1.23');
+    expect(FixedDecimal.from('1.2345').roundToStep('0.01', RoundingMode.UP).toString()).toBe('1.24');
+    expect(FixedDecimal.from('1.2345').roundToStep(null).toString()).toBe('1.2345');
+    expect(FixedDecimal.from('0.3').isMultipleOf('0.1')).toBe(true);
+    expect(FixedDecimal.from('0.35').isMultipleOf('0.1')).toBe(false);
+  });
+
+  it('should reject invalid input', () => {
+    expect(FixedDecimal.isValid('abc')).toBe(false);
+    expect(FixedDecimal.isValid(Infinity)).toBe(false);
+    expect(() => FixedDecimal.from('')).toThrow('Invalid decimal value');
+    expect(() => FixedDecimal.from(1).div(0)).toThrow('Division by zero');
+  });
+});